@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import type { QueryCacheStorage } from './query-cache.js'
+
+/**
+ * Storage in a directory, one file per key, shared by the processes on a host
+ */
+export class FileQueryCacheStorage implements QueryCacheStorage {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: { expiresAt: number | null; value: string }
+    try {
+      entry = JSON.parse(await fs.readFile(this.pathFor(key), 'utf8'))
+    } catch {
+      return undefined
+    }
+
+    if (entry.expiresAt !== null && entry.expiresAt < Date.now()) {
+      await this.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    const file = this.pathFor(key)
+    const temporary = `${file}.${process.pid}.tmp`
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(temporary, JSON.stringify({ expiresAt: ttl === undefined ? null : Date.now() + ttl, value }))
+    // Rename is atomic, so readers never see a partial entry
+    await fs.rename(temporary, file)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true })
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`)
+  }
+}
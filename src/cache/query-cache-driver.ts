@@ -0,0 +1,133 @@
+import type { DatabaseConnection, QueryResult } from '../driver/database-connection.js'
+import type { Driver, TransactionSettings } from '../driver/driver.js'
+import type { Dialect } from '../dialect/dialect.js'
+import type { QueryCompiler } from '../query-compiler/query-compiler.js'
+import type { CompiledQuery } from '../query-compiler/compiled-query.js'
+import { getCachedRead } from '../plugin/query-cache/query-cache-plugin.js'
+
+/**
+ * Connection that serves selects marked by a `QueryCachePlugin` from the
+ * query cache and runs everything else as is
+ */
+class QueryCacheConnection implements DatabaseConnection {
+  constructor(readonly connection: DatabaseConnection) {}
+
+  async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+    const read = getCachedRead(compiledQuery.queryId)
+    if (!read) {
+      return await this.connection.executeQuery<R>(compiledQuery)
+    }
+
+    return await read.cache.readThrough(compiledQuery, read.options, () =>
+      this.connection.executeQuery<R>(compiledQuery)
+    )
+  }
+
+  streamQuery<R>(compiledQuery: CompiledQuery, chunkSize?: number): AsyncIterableIterator<QueryResult<R>> {
+    return this.connection.streamQuery<R>(compiledQuery, chunkSize)
+  }
+}
+
+/**
+ * Driver whose connections read cached selects through the query cache.
+ * The wrapped driver only ever sees its own connections.
+ */
+export class QueryCacheDriver implements Driver {
+  #connections = new WeakMap<DatabaseConnection, QueryCacheConnection>()
+
+  constructor(private driver: Driver) {}
+
+  init(): Promise<void> {
+    return this.driver.init()
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    const connection = await this.driver.acquireConnection()
+    let wrapped = this.#connections.get(connection)
+    if (!wrapped) {
+      wrapped = new QueryCacheConnection(connection)
+      this.#connections.set(connection, wrapped)
+    }
+    return wrapped
+  }
+
+  releaseConnection(connection: DatabaseConnection): Promise<void> {
+    return this.driver.releaseConnection(unwrap(connection))
+  }
+
+  // Not async, so drivers that enter an async context here (IsolatedDriver) keep working
+  beginTransaction(connection: DatabaseConnection, settings: TransactionSettings): Promise<void> {
+    return this.driver.beginTransaction(unwrap(connection), settings)
+  }
+
+  commitTransaction(connection: DatabaseConnection): Promise<void> {
+    return this.driver.commitTransaction(unwrap(connection))
+  }
+
+  rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    return this.driver.rollbackTransaction(unwrap(connection))
+  }
+
+  async savepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    if (!this.driver.savepoint) {
+      throw new Error('The `savepoint` method is not supported by this driver')
+    }
+    await this.driver.savepoint(unwrap(connection), savepointName, compileQuery)
+  }
+
+  async rollbackToSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    if (!this.driver.rollbackToSavepoint) {
+      throw new Error('The `rollbackToSavepoint` method is not supported by this driver')
+    }
+    await this.driver.rollbackToSavepoint(unwrap(connection), savepointName, compileQuery)
+  }
+
+  async releaseSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    if (!this.driver.releaseSavepoint) {
+      throw new Error('The `releaseSavepoint` method is not supported by this driver')
+    }
+    await this.driver.releaseSavepoint(unwrap(connection), savepointName, compileQuery)
+  }
+
+  destroy(): Promise<void> {
+    return this.driver.destroy()
+  }
+}
+
+function unwrap(connection: DatabaseConnection): DatabaseConnection {
+  return connection instanceof QueryCacheConnection ? connection.connection : connection
+}
+
+/**
+ * Wrap a dialect so its driver is a `QueryCacheDriver`. The wrapper passes
+ * `instanceof` checks for the wrapped dialect.
+ */
+export function cacheDialect(dialect: Dialect): { dialect: Dialect; getDriver(): QueryCacheDriver | undefined } {
+  let driver: QueryCacheDriver | undefined
+
+  const cached = new Proxy(dialect, {
+    get(target, prop) {
+      if (prop === 'createDriver') {
+        return () => (driver = new QueryCacheDriver(target.createDriver()))
+      }
+
+      // Dialects keep their config in private fields, so methods must run on the target
+      const value = Reflect.get(target, prop, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    }
+  })
+
+  return { dialect: cached, getDriver: () => driver }
+}
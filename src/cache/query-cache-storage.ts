@@ -0,0 +1,67 @@
+import { CacheService } from '../performance/services/cache-service.js'
+import type { Logger } from '../logging/logger.js'
+import type { QueryCacheStorage } from './query-cache.js'
+
+/**
+ * In-process storage backed by the performance CacheService
+ */
+export class MemoryQueryCacheStorage implements QueryCacheStorage {
+  private cache?: CacheService<string>
+
+  constructor(private options: { maxSize?: number; logger?: Logger } = {}) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return this.cache?.get(key) ?? undefined
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    // Created on first use so that apps without cached queries get no cleanup timer
+    this.cache ??= new CacheService<string>(
+      { maxSize: this.options.maxSize ?? 1000, enableMetrics: false },
+      this.options.logger
+    )
+    this.cache.set(key, value, ttl ?? Number.POSITIVE_INFINITY)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache?.delete(key)
+  }
+
+  async close(): Promise<void> {
+    this.cache?.shutdown()
+    this.cache = undefined
+  }
+}
+
+/**
+ * The subset of an ioredis-compatible client the cache uses
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<unknown>
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>
+  del(key: string): Promise<unknown>
+}
+
+/**
+ * Storage in Redis or a Redis-compatible server, shared by every process
+ */
+export class RedisQueryCacheStorage implements QueryCacheStorage {
+  constructor(private client: RedisLikeClient) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(key)) ?? undefined
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    if (ttl === undefined) {
+      await this.client.set(key, value)
+    } else {
+      await this.client.set(key, value, 'PX', Math.max(1, Math.ceil(ttl)))
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key)
+  }
+}
@@ -0,0 +1,199 @@
+import type { CompiledQuery } from '../query-compiler/compiled-query.js'
+import type { QueryResult } from '../driver/database-connection.js'
+import type { OperationNode } from '../operation-node/operation-node.js'
+import { SelectQueryNode } from '../operation-node/select-query-node.js'
+import { TableNode } from '../operation-node/table-node.js'
+import { Logger } from '../logging/logger.js'
+import { MemoryQueryCacheStorage } from './query-cache-storage.js'
+
+export interface CachedQueryOptions {
+  /** Milliseconds to keep the result (defaults to the cache TTL) */
+  ttl?: number
+  /** Extra names the result can be invalidated by, next to the tables it reads */
+  tags?: string[]
+}
+
+/**
+ * Where cached query results are kept. Values are serialized strings, so
+ * any key-value store can back the cache; an undefined TTL means the key
+ * must not expire.
+ */
+export interface QueryCacheStorage {
+  get(key: string): Promise<string | undefined>
+  set(key: string, value: string, ttl?: number): Promise<void>
+  delete(key: string): Promise<void>
+  close?(): Promise<void>
+}
+
+const GLOBAL_VERSION = 'global'
+
+/**
+ * Read-through cache for select results.
+ *
+ * Every table and tag has a version key. Results are stored under a key
+ * that includes the versions of everything they depend on, so invalidating
+ * a table only replaces its version: older results become unreachable and
+ * expire by TTL. This needs no index of keys per table and works the same
+ * on shared stores such as Redis.
+ */
+export class QueryCache {
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private storage: QueryCacheStorage = new MemoryQueryCacheStorage(),
+    private defaultTtl = 300000,
+    private logger: Logger = new Logger('QueryCache'),
+    private prefix = 'noormme:'
+  ) {}
+
+  /**
+   * Return the cached result of a select, or execute it and cache the result
+   */
+  async readThrough<R>(
+    compiledQuery: CompiledQuery,
+    options: CachedQueryOptions,
+    execute: () => Promise<QueryResult<R>>
+  ): Promise<QueryResult<R>> {
+    const node = compiledQuery.query
+    if (!SelectQueryNode.is(node) || node.explain) {
+      return await execute()
+    }
+
+    let key: string
+    try {
+      const versions = await this.getVersions([
+        GLOBAL_VERSION,
+        ...getReadTables(node).map(table => `table:${table}`),
+        ...(options.tags ?? []).map(tag => `tag:${tag}`)
+      ])
+      key = `${this.prefix}query:${await sha1(serialize([compiledQuery.sql, compiledQuery.parameters, versions]))}`
+
+      const cached = await this.storage.get(key)
+      if (cached !== undefined) {
+        this.hits++
+        return { rows: deserialize(cached) }
+      }
+    } catch (error) {
+      this.logger.warn('Query cache read failed, executing query:', error)
+      return await execute()
+    }
+
+    this.misses++
+    const result = await execute()
+    try {
+      await this.storage.set(key, serialize(result.rows), options.ttl ?? this.defaultTtl)
+    } catch (error) {
+      this.logger.warn('Query cache write failed:', error)
+    }
+    return result
+  }
+
+  /**
+   * Drop cached results that read any of the tables
+   */
+  async invalidateTables(tables: Iterable<string>): Promise<void> {
+    await this.bump(Array.from(tables, table => `table:${table}`))
+  }
+
+  /**
+   * Drop cached results that were stored with any of the tags
+   */
+  async invalidateTags(tags: Iterable<string>): Promise<void> {
+    await this.bump(Array.from(tags, tag => `tag:${tag}`))
+  }
+
+  /**
+   * Drop every cached result
+   */
+  async clear(): Promise<void> {
+    await this.bump([GLOBAL_VERSION])
+  }
+
+  getStats() {
+    const total = this.hits + this.misses
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.storage.close?.()
+  }
+
+  private async getVersions(names: string[]): Promise<string[]> {
+    return await Promise.all(names.map(async (name) => {
+      const key = `${this.prefix}version:${name}`
+      const version = await this.storage.get(key)
+      if (version !== undefined) {
+        return version
+      }
+
+      // A missing version, never seen or evicted, starts a new generation
+      const created = crypto.randomUUID()
+      await this.storage.set(key, created)
+      return created
+    }))
+  }
+
+  private async bump(names: string[]): Promise<void> {
+    await Promise.all(names.map(name => this.storage.set(`${this.prefix}version:${name}`, crypto.randomUUID())))
+  }
+}
+
+/**
+ * Hex SHA-1 through Web Crypto, which Node and edge runtimes both provide
+ */
+async function sha1(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Every table a select reads, including joins and subqueries
+ */
+export function getReadTables(node: OperationNode): string[] {
+  const tables = new Set<string>()
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else if (value && typeof value === 'object') {
+      if (TableNode.is(value as OperationNode)) {
+        tables.add((value as TableNode).table.identifier.name)
+      } else {
+        Object.values(value).forEach(visit)
+      }
+    }
+  }
+  visit(node)
+  return Array.from(tables)
+}
+
+/**
+ * JSON that keeps dates, bigints and buffers intact
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key, replaced) {
+    const original = this[key]
+    if (original instanceof Date) {
+      return { $noormme: 'Date', value: original.toISOString() }
+    }
+    if (typeof original === 'bigint') {
+      return { $noormme: 'BigInt', value: original.toString() }
+    }
+    return replaced
+  })
+}
+
+function deserialize(text: string): any {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object') {
+      if (value.$noormme === 'Date') return new Date(value.value)
+      if (value.$noormme === 'BigInt') return BigInt(value.value)
+      if (value.type === 'Buffer' && Array.isArray(value.data)) return Buffer.from(value.data)
+    }
+    return value
+  })
+}
@@ -1,5 +1,7 @@
 import chalk from 'chalk'
 import { NOORMME } from '../../noormme.js'
+import type { IndexRecommendation } from '../../dialect/sqlite/sqlite-auto-indexer.js'
+import { QUERY_STATS_TABLE } from '../../dialect/sqlite/sqlite-query-stats-store.js'
 
 export async function analyze(options: {
   database?: string
@@ -64,20 +66,34 @@ export async function analyze(options: {
     if (options.indexes !== false) {
       console.log(chalk.blue('\n📊 Generating Index Recommendations...'))
       try {
+        const advice = await db.adviseIndexes()
+        if (advice.length > 0) {
+          console.log(chalk.green(`\n🧭 Indexes Confirmed by the Query Planner:`))
+          advice.forEach((item, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${item.recommendation.reason}`))
+            console.log(chalk.gray(`     Query: ${item.query}`))
+            console.log(chalk.gray(`     Plan before: ${item.planBefore.join(' | ')}`))
+            console.log(chalk.gray(`     Plan after:  ${item.planAfter.join(' | ')}`))
+            console.log(chalk.gray(`     SQL: ${item.recommendation.sql};`))
+            console.log('')
+          })
+        }
+
         const indexRecs = await db.getSQLiteIndexRecommendations()
         
         if (indexRecs.recommendations.length > 0) {
           console.log(chalk.green(`\n💡 Index Recommendations:`))
-          indexRecs.recommendations.forEach((rec: any, index: number) => {
+          indexRecs.recommendations.forEach((rec: IndexRecommendation, index: number) => {
             console.log(chalk.gray(`  ${index + 1}. Table: ${rec.table}`))
-            console.log(chalk.gray(`     Column: ${rec.column}`))
+            console.log(chalk.gray(`     Columns: ${rec.columns.join(', ')}`))
             console.log(chalk.gray(`     Reason: ${rec.reason}`))
-            console.log(chalk.gray(`     Impact: ${rec.impact}`))
-            console.log(chalk.gray(`     SQL: CREATE INDEX idx_${rec.table}_${rec.column} ON ${rec.table}(${rec.column});`))
+            console.log(chalk.gray(`     Impact: ${rec.estimatedImpact}`))
+            console.log(chalk.gray(`     SQL: ${rec.sql};`))
             console.log('')
           })
         } else {
           console.log(chalk.gray('No index recommendations at this time'))
+          console.log(chalk.gray(`Recommendations are based on the ${QUERY_STATS_TABLE} table; enable performance.instrumentation.persist in your app to fill it`))
         }
       } catch (error) {
         console.error(chalk.red('❌ Index recommendation analysis failed:'), error instanceof Error ? error.message : error)
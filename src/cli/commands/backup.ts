@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs'
+import chalk from 'chalk'
+import { NOORMME } from '../../noormme.js'
+import type { BackupResult } from '../../dialect/sqlite/sqlite-backup-manager.js'
+import { sanitizeDatabasePath } from '../../util/security-validator.js'
+
+export async function backup(destination: string | undefined, options: {
+  database?: string
+  output?: string
+  compact?: boolean
+  keep?: string
+  verify?: boolean
+} = {}) {
+  console.log(chalk.blue.bold('\n💾 NOORMME Backup - Online SQLite Backups\n'))
+
+  try {
+    const databasePath = sanitizeDatabasePath(options.database || process.env.DATABASE_PATH || './database.sqlite')
+    await fs.access(databasePath).catch(() => {
+      throw new Error(`Database not found: ${databasePath}`)
+    })
+
+    const keep = options.keep !== undefined ? parseInt(options.keep, 10) : undefined
+    if (keep !== undefined && !(keep > 0)) {
+      throw new Error(`--keep must be a positive number, got '${options.keep}'`)
+    }
+
+    const db = new NOORMME({
+      dialect: 'sqlite',
+      connection: {
+        database: databasePath,
+        host: 'localhost',
+        port: 0,
+        username: '',
+        password: ''
+      },
+      automation: { enableAutoOptimization: false }
+    })
+    await db.initialize()
+
+    console.log(chalk.gray(`📁 Database: ${databasePath}`))
+
+    const backupOptions = { compact: options.compact, verify: options.verify }
+    let result: BackupResult
+    if (destination) {
+      result = await db.backup(destination, {
+        ...backupOptions,
+        onProgress: ({ percent }) => process.stdout.write(chalk.gray(`\r⏳ ${percent}%`))
+      })
+      process.stdout.write('\n')
+    } else {
+      const directory = options.output || './backups'
+      console.log(chalk.gray(`📂 Backup directory: ${directory}${keep ? ` (keeping ${keep})` : ''}`))
+      result = await db.backupToDirectory(directory, { ...backupOptions, keep })
+    }
+
+    await db.close()
+
+    console.log(chalk.green(`✅ Backup written: ${result.path}`))
+    console.log(chalk.gray(`   ${formatBytes(result.size)} in ${result.durationMs}ms${result.compacted ? ', compacted with VACUUM INTO' : ''}`))
+    console.log(result.verified
+      ? chalk.green('✅ Integrity check passed')
+      : chalk.yellow('⚠️  Integrity check skipped'))
+
+  } catch (error) {
+    console.error(chalk.red('❌ Backup failed:'), error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
@@ -3,6 +3,7 @@ import * as path from 'path'
 import chalk from 'chalk'
 import { NOORMME } from '../../noormme.js'
 import { TableInfo, ColumnInfo } from '../../types/index.js'
+import { generateOpenAPI } from '../../rest/openapi-generator.js'
 import { sanitizeDatabasePath, validateOutputDirectory } from '../../util/security-validator.js'
 
 export async function generate(options: {
@@ -11,6 +12,7 @@ export async function generate(options: {
   typesOnly?: boolean
   reposOnly?: boolean
   format?: string
+  openapi?: boolean
 } = {}) {
   console.log(chalk.blue.bold('\n🔧 NOORMME Code Generation - Automating TypeScript & Repositories\n'))
 
@@ -68,6 +70,15 @@ export async function generate(options: {
       console.log(chalk.green(`✅ Generated repository classes: repositories.ts`))
     }
 
+    // Generate an OpenAPI document for the REST handler's routes
+    if (options.openapi) {
+      const openapiPath = path.join(outputDir, 'openapi.json')
+
+      await fs.writeFile(openapiPath, JSON.stringify(generateOpenAPI(schemaInfo), null, 2) + '\n')
+      generatedFiles.push(openapiPath)
+      console.log(chalk.green(`✅ Generated OpenAPI document: openapi.json`))
+    }
+
     // Generate automation configuration
     const configContent = generateAutomationConfig(schemaInfo.tables)
     const configPath = path.join(outputDir, 'automation.config.ts')
@@ -99,7 +110,7 @@ export async function generate(options: {
   }
 }
 
-function generateTypeScriptTypes(tables: TableInfo[]): string {
+export function generateTypeScriptTypes(tables: TableInfo[]): string {
   const interfaces = tables.map(table => generateTableInterface(table)).join('\n\n')
 
   const databaseInterface = `export interface Database {
@@ -108,6 +119,9 @@ ${tables.map(t => `  ${t.name}: ${pascalCase(t.name)}Table;`).join('\n')}
 
   return `// Auto-generated by NOORMME CLI
 // Do not edit manually - regenerate with: npx noormme generate
+// Use with: new NOORMME<Database>(config)
+
+import type { Generated, Insertable, Repository, Selectable, Updateable } from 'noormme'
 
 ${interfaces}
 
@@ -115,107 +129,127 @@ ${databaseInterface}
 
 // Repository types for each table
 ${tables.map(table => generateRepositoryType(table)).join('\n\n')}
-
-// Export all table types
-export type {
-${tables.map(t => `  ${pascalCase(t.name)}Table,`).join('\n')}
-${tables.map(t => `  ${pascalCase(t.name)}Insert,`).join('\n')}
-${tables.map(t => `  ${pascalCase(t.name)}Update,`).join('\n')}
-${tables.map(t => `  ${pascalCase(t.name)}Repository,`).join('\n')}
-}
 `
 }
 
 function generateTableInterface(table: TableInfo): string {
   const tableName = pascalCase(table.name)
 
-  // Base table interface
+  // Table interface as seen by Kysely: columns the database fills in
+  // (auto-increment or with a default) are optional on insert
   const baseInterface = `export interface ${tableName}Table {
-${table.columns.map(col => generateColumnType(col)).join('\n')}
-}`
-
-  // Insert type (optional fields that have defaults or are auto-increment)
-  const requiredFields = table.columns.filter(col =>
-    !col.nullable &&
-    !col.isAutoIncrement &&
-    col.defaultValue === undefined &&
-    !col.isPrimaryKey
-  )
-  const optionalFields = table.columns.filter(col =>
-    col.nullable ||
-    col.isAutoIncrement ||
-    col.defaultValue !== undefined
-  )
-
-  const insertInterface = `export interface ${tableName}Insert {
-${requiredFields.map(col => generateColumnType(col)).join('\n')}
-${optionalFields.map(col => generateColumnType(col, true)).join('\n')}
-}`
-
-  // Update type (all fields optional except primary key)
-  const updateInterface = `export interface ${tableName}Update {
-${table.columns.map(col => generateColumnType(col, !col.isPrimaryKey)).join('\n')}
+${table.columns.map(col => generateColumnType(col, false, hasGeneratedValue(col))).join('\n')}
 }`
 
+  // Row, insert and update types derived from the table interface
   return `${baseInterface}
 
-${insertInterface}
+export type ${tableName} = Selectable<${tableName}Table>;
+export type ${tableName}Insert = Insertable<${tableName}Table>;
+export type ${tableName}Update = Updateable<${tableName}Table>;`
+}
 
-${updateInterface}`
+function hasGeneratedValue(column: ColumnInfo): boolean {
+  return column.isAutoIncrement || (column.defaultValue !== undefined && column.defaultValue !== null)
 }
 
 function generateRepositoryType(table: TableInfo): string {
   const tableName = pascalCase(table.name)
-  const primaryKeyType = getPrimaryKeyType(table)
-
-  return `export interface ${tableName}Repository {
-  findById(id: ${primaryKeyType}): Promise<${tableName}Table | null>;
-  findAll(): Promise<${tableName}Table[]>;
-  create(data: ${tableName}Insert): Promise<${tableName}Table>;
-  update(entity: ${tableName}Update): Promise<${tableName}Table>;
-  delete(id: ${primaryKeyType}): Promise<boolean>;
-  count(): Promise<number>;
-  exists(id: ${primaryKeyType}): Promise<boolean>;
-  paginate(options: {
-    page: number;
-    limit: number;
-    where?: Partial<${tableName}Table>;
-    orderBy?: {
-      column: keyof ${tableName}Table;
-      direction: 'asc' | 'desc';
-    };
-  }): Promise<{
-    data: ${tableName}Table[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-      hasNext: boolean;
-      hasPrev: boolean;
-    };
-  }>;
-  withCount(id: ${primaryKeyType}, relationships: string[]): Promise<${tableName}Table & Record<string, number>>;
-  // Dynamic finders
-${table.columns.map(col => `  findBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${tableName}Table | null>;`).join('\n')}
-${table.columns.map(col => `  findManyBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${tableName}Table[]>;`).join('\n')}
+
+  // findById and the other repository methods come from Repository
+  return `// Finders over other column combinations work too, but are untyped until declared here
+export interface ${tableName}Repository extends Repository<${tableName}, ${tableName}Insert, ${tableName}Update> {
+${table.columns.filter(col => pascalCase(col.name) !== 'Id').map(col => `  findBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${tableName} | null>;`).join('\n')}
+${table.columns.map(col => `  findManyBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${tableName}[]>;`).join('\n')}
+${table.columns.map(col => generateFinderSignatures(col, tableName)).join('\n')}
+${generateCompoundFinderSignatures(table, tableName)}
 }`
 }
 
-function generateColumnType(column: ColumnInfo, optional = false): string {
+/**
+ * Generate the single-column dynamic finder signatures understood by repositories
+ */
+function generateFinderSignatures(column: ColumnInfo, rowType: string): string {
+  const name = pascalCase(column.name)
+  const type = mapColumnToTsType(column)
+  const signatures = [
+    `  findAllBy${name}(value: ${type}): Promise<${rowType}[]>;`,
+    `  countBy${name}(value: ${type}): Promise<number>;`,
+    `  existsBy${name}(value: ${type}): Promise<boolean>;`,
+    `  deleteBy${name}(value: ${type}): Promise<number>;`,
+    `  findAllBy${name}In(values: ${type}[]): Promise<${rowType}[]>;`,
+    `  findAllBy${name}Not(value: ${type}): Promise<${rowType}[]>;`,
+    `  findFirstByOrderBy${name}Asc(): Promise<${rowType} | null>;`,
+    `  findFirstByOrderBy${name}Desc(): Promise<${rowType} | null>;`
+  ]
+
+  if (type === 'number' || type === 'Date') {
+    for (const keyword of ['GreaterThan', 'GreaterThanEqual', 'LessThan', 'LessThanEqual']) {
+      signatures.push(`  findAllBy${name}${keyword}(value: ${type}): Promise<${rowType}[]>;`)
+      signatures.push(`  countBy${name}${keyword}(value: ${type}): Promise<number>;`)
+      signatures.push(`  deleteBy${name}${keyword}(value: ${type}): Promise<number>;`)
+    }
+    signatures.push(`  findAllBy${name}Between(from: ${type}, to: ${type}): Promise<${rowType}[]>;`)
+  }
+
+  if (type === 'string') {
+    for (const keyword of ['Like', 'StartingWith', 'EndingWith', 'Containing']) {
+      signatures.push(`  findAllBy${name}${keyword}(value: string): Promise<${rowType}[]>;`)
+    }
+  }
+
+  if (column.nullable) {
+    signatures.push(`  findAllBy${name}IsNull(): Promise<${rowType}[]>;`)
+    signatures.push(`  findAllBy${name}IsNotNull(): Promise<${rowType}[]>;`)
+  }
+
+  return signatures.join('\n')
+}
+
+/**
+ * Generate finder signatures for the column combinations of the primary key
+ * and multi-column indexes, e.g. findByEmailAndTenantId(email, tenantId)
+ */
+function generateCompoundFinderSignatures(table: TableInfo, rowType: string): string {
+  const combinations = new Map<string, ColumnInfo[]>()
+  for (const names of [table.primaryKey ?? [], ...table.indexes.map(index => index.columns)]) {
+    const columns = names.map(name => table.columns.find(col => col.name === name))
+    if (columns.length > 1 && columns.every(col => col !== undefined)) {
+      combinations.set(names.join(','), columns as ColumnInfo[])
+    }
+  }
+
+  return [...combinations.values()].map(columns => {
+    const name = columns.map(col => pascalCase(col.name)).join('And')
+    const params = columns.map(col => `${camelCase(col.name)}: ${mapColumnToTsType(col)}`).join(', ')
+    return [
+      `  findBy${name}(${params}): Promise<${rowType} | null>;`,
+      `  findAllBy${name}(${params}): Promise<${rowType}[]>;`,
+      `  countBy${name}(${params}): Promise<number>;`,
+      `  existsBy${name}(${params}): Promise<boolean>;`,
+      `  deleteBy${name}(${params}): Promise<number>;`
+    ].join('\n')
+  }).join('\n')
+}
+
+function generateColumnType(column: ColumnInfo, optional = false, generated = false): string {
   const name = column.name
   const type = mapColumnToTsType(column)
-  const nullableType = column.nullable ? ` | null` : ''
+  // SQLite reports INTEGER PRIMARY KEY columns as nullable, but they never are
+  const nullableType = column.nullable && !column.isPrimaryKey ? ` | null` : ''
   const optionalMark = optional ? '?' : ''
 
+  if (generated) {
+    return `  ${name}${optionalMark}: Generated<${type}${nullableType}>;`
+  }
   return `  ${name}${optionalMark}: ${type}${nullableType};`
 }
 
 function mapColumnToTsType(column: ColumnInfo): string {
   const type = column.type.toLowerCase()
 
-  // Integer types
-  if (type.includes('int') || type.includes('serial') || type.includes('bigint')) {
+  // Integer types (discovered columns are already mapped to 'number')
+  if (type === 'number' || type.includes('int') || type.includes('serial') || type.includes('bigint')) {
     return 'number'
   }
 
@@ -253,91 +287,121 @@ function mapColumnToTsType(column: ColumnInfo): string {
   return 'string'
 }
 
-function getPrimaryKeyType(table: TableInfo): string {
-  if (!table.primaryKey || table.primaryKey.length === 0) {
-    return 'unknown'
+function getPrimaryKeyColumns(table: TableInfo): ColumnInfo[] {
+  const columns = (table.primaryKey ?? []).map(name => table.columns.find(col => col.name === name))
+  return columns.every(col => col !== undefined) ? columns as ColumnInfo[] : []
+}
+
+/**
+ * Methods addressing one row by its primary key. A single key goes through the
+ * repository's id methods; a composite key takes one parameter per column and
+ * goes through the compound finders, since the id methods only use the first
+ * key column. Tables without a usable key get none.
+ */
+function generateKeyMethods(table: TableInfo): string {
+  const rowType = pascalCase(table.name)
+  const columns = getPrimaryKeyColumns(table)
+
+  if (columns.length === 1) {
+    const type = mapColumnToTsType(columns[0])
+    if (type !== 'number' && type !== 'string') {
+      return ''
+    }
+
+    return `
+  async findById(id: ${type}): Promise<${rowType} | null> {
+    return await this.repo.findById(id)
   }
 
-  if (table.primaryKey.length === 1) {
-    const pkColumn = table.columns.find(col => col.name === table.primaryKey![0])
-    return pkColumn ? mapColumnToTsType(pkColumn) : 'unknown'
+  async update(id: ${type}, data: ${rowType}Update): Promise<${rowType}> {
+    return await this.repo.update({ ...data, ${columns[0].name}: id })
   }
 
-  // Composite primary key
-  const types = table.primaryKey.map(pkCol => {
-    const column = table.columns.find(col => col.name === pkCol)
-    return column ? mapColumnToTsType(column) : 'any'
-  })
+  async delete(id: ${type}): Promise<boolean> {
+    return await this.repo.delete(id)
+  }
+
+  async exists(id: ${type}): Promise<boolean> {
+    return await this.repo.exists(id)
+  }
+`
+  }
+
+  if (columns.length === 0) {
+    return ''
+  }
 
-  return `[${types.join(', ')}]`
+  const finder = columns.map(col => pascalCase(col.name)).join('And')
+  const params = columns.map(col => `${camelCase(col.name)}: ${mapColumnToTsType(col)}`).join(', ')
+  const args = columns.map(col => camelCase(col.name)).join(', ')
+
+  return `
+  async findById(${params}): Promise<${rowType} | null> {
+    return await this.repo.findBy${finder}(${args})
+  }
+
+  async update(${params}, data: ${rowType}Update): Promise<${rowType} | null> {
+    await this.repo.updateMany({ ${columns.map(col => `${col.name}: ${camelCase(col.name)}`).join(', ')} }, data)
+    return await this.repo.findBy${finder}(${columns.map(col => `data.${col.name} ?? ${camelCase(col.name)}`).join(', ')})
+  }
+
+  async delete(${params}): Promise<boolean> {
+    return await this.repo.deleteBy${finder}(${args}) > 0
+  }
+
+  async exists(${params}): Promise<boolean> {
+    return await this.repo.existsBy${finder}(${args})
+  }
+`
 }
 
-function generateRepositoryClasses(tables: TableInfo[]): string {
+export function generateRepositoryClasses(tables: TableInfo[]): string {
   const imports = `import { NOORMME } from 'noormme'
-import type { 
-${tables.map(t => `  ${pascalCase(t.name)}Table,`).join('\n')}
+import type {
+  Database,
+${tables.map(t => `  ${pascalCase(t.name)},`).join('\n')}
 ${tables.map(t => `  ${pascalCase(t.name)}Insert,`).join('\n')}
 ${tables.map(t => `  ${pascalCase(t.name)}Update,`).join('\n')}
+${tables.map(t => `  ${pascalCase(t.name)}Repository as ${pascalCase(t.name)}RepositoryType,`).join('\n')}
 } from './database'`
 
   const repositoryClasses = tables.map(table => {
     const tableName = table.name
     const className = pascalCase(table.name) + 'Repository'
-    const primaryKeyType = getPrimaryKeyType(table)
 
     return `export class ${className} {
-  constructor(private db: NOORMME) {}
-
-  async findById(id: ${primaryKeyType}): Promise<${pascalCase(tableName)}Table | null> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.findById(id)
-  }
+  constructor(private db: NOORMME<Database>) {}
 
-  async findAll(): Promise<${pascalCase(tableName)}Table[]> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.findAll()
+  // Narrowed to the generated interface, which adds typed finders to the table's Repository
+  private get repo(): ${className}Type {
+    return this.db.getRepository('${tableName}') as ${className}Type
   }
-
-  async create(data: ${pascalCase(tableName)}Insert): Promise<${pascalCase(tableName)}Table> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.create(data)
+${generateKeyMethods(table)}
+  async findAll(): Promise<${pascalCase(tableName)}[]> {
+    return await this.repo.findAll()
   }
 
-  async update(id: ${primaryKeyType}, data: ${pascalCase(tableName)}Update): Promise<${pascalCase(tableName)}Table> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.update({ ...data, [getPrimaryKeyColumn(table)]: id })
-  }
-
-  async delete(id: ${primaryKeyType}): Promise<boolean> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.delete(id)
+  async create(data: ${pascalCase(tableName)}Insert): Promise<${pascalCase(tableName)}> {
+    return await this.repo.create(data)
   }
 
   async count(): Promise<number> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.count()
+    return await this.repo.count()
   }
 
-  async exists(id: ${primaryKeyType}): Promise<boolean> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.exists(id)
-  }
-
-  // Dynamic finders
-${table.columns.map(col => `  async findBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${pascalCase(tableName)}Table | null> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.findBy${pascalCase(col.name)}(value)
+  // Dynamic finders (findById above already covers an id column)
+${table.columns.filter(col => pascalCase(col.name) !== 'Id').map(col => `  async findBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${pascalCase(tableName)} | null> {
+    return await this.repo.findBy${pascalCase(col.name)}(value)
   }`).join('\n')}
 
-${table.columns.map(col => `  async findManyBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${pascalCase(tableName)}Table[]> {
-    const repo = this.db.getRepository('${tableName}')
-    return await repo.findManyBy${pascalCase(col.name)}(value)
+${table.columns.map(col => `  async findManyBy${pascalCase(col.name)}(value: ${mapColumnToTsType(col)}): Promise<${pascalCase(tableName)}[]> {
+    return await this.repo.findManyBy${pascalCase(col.name)}(value)
   }`).join('\n')}
 }`
   }).join('\n\n')
 
   const factoryClass = `export class RepositoryFactory {
-  constructor(private db: NOORMME) {}
+  constructor(private db: NOORMME<Database>) {}
 
 ${tables.map(table => `  get ${table.name}(): ${pascalCase(table.name)}Repository {
     return new ${pascalCase(table.name)}Repository(this.db)
@@ -351,13 +415,13 @@ ${repositoryClasses}
 ${factoryClass}
 
 // Convenience function to create repository factory
-export function createRepositoryFactory(db: NOORMME): RepositoryFactory {
+export function createRepositoryFactory(db: NOORMME<Database>): RepositoryFactory {
   return new RepositoryFactory(db)
 }
 `
 }
 
-function generateAutomationConfig(tables: TableInfo[]): string {
+export function generateAutomationConfig(tables: TableInfo[]): string {
   return `// NOORMME Automation Configuration
 // This file contains recommended automation settings for your database
 
@@ -368,7 +432,6 @@ export const automationConfig: Partial<NOORMConfig> = {
   
   // Performance optimizations
   performance: {
-    enableAutoOptimization: true,
     enableQueryOptimization: true,
     enableCaching: true,
     enableBatchOperations: true,
@@ -397,16 +460,14 @@ export const automationConfig: Partial<NOORMConfig> = {
   // Logging configuration
   logging: {
     enabled: true,
-    level: 'info',
-    includeQueryTime: true,
-    includeQueryResults: false
+    level: 'info'
   },
 
   // Cache configuration
   cache: {
     ttl: 300000, // 5 minutes
     maxSize: 1000,
-    enableCompression: true
+    strategy: 'lru'
   }
 }
 
@@ -431,21 +492,55 @@ ${tables.map(table => `  ${table.name}: {
 `
 }
 
-function generateUsageExamples(tables: TableInfo[]): string {
+export function generateUsageExamples(tables: TableInfo[]): string {
   const firstTable = tables[0]
-  const tableName = firstTable?.name || 'users'
-  const className = pascalCase(tableName) + 'Repository'
+  if (!firstTable) {
+    return `// NOORMME Usage Examples
+// No tables were discovered; run \`npx noormme generate\` again once the database has tables
+export {}
+`
+  }
+
+  const tableName = firstTable.name
+  const rowType = pascalCase(tableName)
+  const keyColumns = getPrimaryKeyColumns(firstTable)
+  const hasKeyMethods = generateKeyMethods(firstTable) !== ''
+  const keyArgs = (row: string) => keyColumns.map(col => `${row}.${col.name}`).join(', ')
+  // Columns an insert must set: not filled in by the database and not nullable
+  const insertColumns = firstTable.columns.filter(col =>
+    !hasGeneratedValue(col) && (!col.nullable || col.isPrimaryKey)
+  )
+  const finderColumns = firstTable.columns.filter(col => !col.isPrimaryKey).slice(0, 2)
+  const whereColumn = finderColumns[0] ?? firstTable.columns[0]
+
+  const keyExamples = hasKeyMethods ? `
+
+  // Find by primary key
+  const found = await ${tableName}Repo.findById(${keyArgs('created')})
+
+  // Update record
+  const updated = await ${tableName}Repo.update(${keyArgs('created')}, {
+    // Add fields to update
+  })
+
+  // Delete record
+  await ${tableName}Repo.delete(${keyArgs('created')})
+  console.log(found, updated)` : ''
 
   return `// NOORMME Usage Examples
 // This file shows how to use the generated types and repositories
 
-import { NOORMME } from 'noormme'
+import { NOORMME, SQLiteMigrationManager } from 'noormme'
+import type { Database, ${rowType}Insert } from './database'
 import { createRepositoryFactory } from './repositories'
 import { automationConfig } from './automation.config'
 
-// Initialize NOORMME with automation
-const db = new NOORMME(automationConfig)
-await db.initialize()
+// NOORMME typed by the generated Database interface, using the automation settings
+const db = new NOORMME<Database>({
+  ...automationConfig,
+  dialect: 'sqlite',
+  connection: { database: './database.sqlite' }
+})
 
 // Create repository factory
 const repositories = createRepositoryFactory(db)
@@ -453,68 +548,59 @@ const repositories = createRepositoryFactory(db)
 // Example 1: Basic CRUD operations
 async function basicCrudExample() {
   const ${tableName}Repo = repositories.${tableName}
-  
+
   // Create a new record
-  const new${pascalCase(tableName)} = await ${tableName}Repo.create({
-    ${firstTable?.columns.filter(col => !col.isAutoIncrement && !col.isPrimaryKey).slice(0, 3).map(col => `${col.name}: 'example_value'`).join(',\n    ') || '// Add your data here'}
-  })
-  
-  // Find by ID
-  const ${tableName} = await ${tableName}Repo.findById(new${pascalCase(tableName)}.id)
-  
-  // Update record
-  const updated${pascalCase(tableName)} = await ${tableName}Repo.update(new${pascalCase(tableName)}.id, {
-    // Add fields to update
-  })
-  
-  // Delete record
-  await ${tableName}Repo.delete(new${pascalCase(tableName)}.id)
+  const data: ${rowType}Insert = {
+${insertColumns.map(col => `    ${col.name}: ${sampleValue(col)}`).join(',\n')}
+  }
+  const created = await ${tableName}Repo.create(data)${keyExamples}
+  console.log(created)
 }
 
 // Example 2: Using dynamic finders
 async function dynamicFinderExample() {
   const ${tableName}Repo = repositories.${tableName}
-  
-  ${firstTable?.columns.filter(col => !col.isPrimaryKey).slice(0, 2).map(col => `
+${finderColumns.map(col => `
   // Find by ${col.name}
-  const ${tableName}By${pascalCase(col.name)} = await ${tableName}Repo.findBy${pascalCase(col.name)}('value')
-  
+  const by${pascalCase(col.name)} = await ${tableName}Repo.findBy${pascalCase(col.name)}(${sampleValue(col)})
+
   // Find many by ${col.name}
-  const ${tableName}sBy${pascalCase(col.name)} = await ${tableName}Repo.findManyBy${pascalCase(col.name)}('value')`).join('') || '// Dynamic finders will be available based on your table columns'}
+  const allBy${pascalCase(col.name)} = await ${tableName}Repo.findManyBy${pascalCase(col.name)}(${sampleValue(col)})
+  console.log(by${pascalCase(col.name)}, allBy${pascalCase(col.name)})`).join('\n') || '  // Dynamic finders are generated for every non-key column'}
 }
 
 // Example 3: Direct repository access
 async function directRepositoryExample() {
   // Get repository directly from NOORMME
   const ${tableName}Repo = db.getRepository('${tableName}')
-  
+
   // Use all repository methods
-  const all${pascalCase(tableName)}s = await ${tableName}Repo.findAll()
+  const all = await ${tableName}Repo.findAll()
   const count = await ${tableName}Repo.count()
-  const exists = await ${tableName}Repo.exists(1)
+  console.log(all, count)
 }
 
 // Example 4: Complex queries with Kysely
 async function complexQueryExample() {
   const kysely = db.getKysely()
-  
+
   // Type-safe complex queries
   const result = await kysely
     .selectFrom('${tableName}')
     .selectAll()
-    .where('status', '=', 'active')
-    .orderBy('created_at', 'desc')
+    .where('${whereColumn.name}', '=', ${sampleValue(whereColumn)})
+    .orderBy('${firstTable.columns[0].name}', 'desc')
     .limit(10)
     .execute()
+  console.log(result)
 }
 
 // Example 5: Performance monitoring
 async function performanceExample() {
   // Get performance metrics
   const metrics = await db.getSQLitePerformanceMetrics()
-  console.log('Cache hit rate:', metrics.cacheHitRate)
-  console.log('Average query time:', metrics.averageQueryTime)
-  
+  console.log('Performance metrics:', metrics)
+
   // Get optimization recommendations
   const recommendations = await db.getSQLiteIndexRecommendations()
   console.log('Recommended indexes:', recommendations.recommendations)
@@ -522,41 +608,47 @@ async function performanceExample() {
 
 // Example 6: Migration management
 async function migrationExample() {
-  const migrationManager = db.getMigrationManager()
-  
+  const migrationManager = new SQLiteMigrationManager(db.getKysely(), {
+    migrationDirectory: './migrations'
+  })
+
   // Generate a new migration
   await migrationManager.generateMigration('add_new_column')
-  
+
   // Apply migrations
   await migrationManager.migrateToLatest()
-  
+
   // Check migration status
   const status = await migrationManager.getMigrationStatus()
   console.log('Migration status:', status)
 }
 
 // Run examples
-async function runExamples() {
+export async function runExamples() {
   try {
     console.log('🚀 Running NOORMME examples...')
-    
+    await db.initialize()
+
     await basicCrudExample()
     console.log('✅ Basic CRUD example completed')
-    
+
     await dynamicFinderExample()
     console.log('✅ Dynamic finder example completed')
-    
+
     await directRepositoryExample()
     console.log('✅ Direct repository example completed')
-    
+
     await complexQueryExample()
     console.log('✅ Complex query example completed')
-    
+
     await performanceExample()
     console.log('✅ Performance example completed')
-    
+
+    await migrationExample()
+    console.log('✅ Migration example completed')
+
     console.log('🎉 All examples completed successfully!')
-    
+
   } catch (error) {
     console.error('❌ Example failed:', error)
   } finally {
@@ -569,13 +661,35 @@ async function runExamples() {
 `
 }
 
-function getPrimaryKeyColumn(table: TableInfo): string {
-  return table.primaryKey?.[0] || 'id'
+/**
+ * A literal of the column's TypeScript type, for the usage examples
+ */
+function sampleValue(column: ColumnInfo): string {
+  switch (mapColumnToTsType(column)) {
+    case 'number':
+      return '1'
+    case 'boolean':
+      return 'true'
+    case 'Date':
+      return 'new Date()'
+    case 'Record<string, unknown>':
+      return '{}'
+    case 'unknown[]':
+      return '[]'
+    default:
+      return `'example'`
+  }
+}
+
+function camelCase(str: string): string {
+  const pascal = pascalCase(str)
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
 }
 
+// post_tags -> PostTags, tenant_id -> TenantId, matching the finder names repositories parse
 function pascalCase(str: string): string {
   return str
-    .replace(/(?:^\w|[A-Z]|\b\w)/g, (word) => word.toUpperCase())
-    .replace(/\s+/g, '')
-    .replace(/[_-]/g, '')
+    .split(/[\s_-]+/)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import chalk from 'chalk'
 import { NOORMME } from '../../noormme.js'
+import { SQLiteMigrationManager } from '../../sqlite-migration/sqlite-migration-manager.js'
+import { Logger } from '../../logging/logger.js'
 import { promises as fs } from 'fs'
 import * as path from 'path'
 
@@ -10,6 +12,8 @@ export async function migrate(options: {
   rollback?: boolean
   status?: boolean
   generate?: string
+  migrations?: string
+  schema?: string
 }) {
   console.log(chalk.blue.bold('\n🔄 NOORMME Migration Management - Automated Schema Evolution\n'))
 
@@ -30,51 +34,42 @@ export async function migrate(options: {
 
     console.log(chalk.gray(`📁 Database: ${databasePath}\n`))
 
-    // Migration manager placeholder - would need implementation
-    const migrationManager = {
-      generateMigration: async (name: string) => {
-        throw new Error('Migration generation not yet implemented')
-      },
-      getMigrationStatus: async () => {
-        return {
-          currentVersion: null,
-          availableMigrations: [],
-          pendingMigrations: [],
-          appliedMigrations: []
-        }
-      },
-      migrateToLatest: async () => {
-        return {
-          migrationsApplied: [],
-          warnings: [],
-          currentVersion: null
-        }
-      },
-      migrateToVersion: async (version: string) => {
-        return {
-          migrationsApplied: [],
-          migrationsRolledBack: [],
-          currentVersion: version
-        }
-      },
-      rollbackLastMigration: async () => {
-        return {
-          success: false,
-          migration: { version: '', name: '' },
-          currentVersion: null
-        }
-      }
-    }
+    const migrationsDir = path.resolve(options.migrations || './migrations')
+    const migrationManager = new SQLiteMigrationManager(
+      db.getKysely(),
+      { migrationDirectory: migrationsDir, enableAutoOptimization: false },
+      new Logger({ level: 'warn', enabled: true })
+    )
 
     // Generate new migration
     if (options.generate) {
       console.log(chalk.blue(`📝 Generating migration: ${options.generate}`))
       try {
-        const migration: any = await migrationManager.generateMigration(options.generate)
+        const migration = await migrationManager.generateMigration(options.generate, {
+          schemaFile: options.schema
+        })
+
+        if (!migration) {
+          console.log(chalk.green(`✅ Database already matches ${options.schema} - no migration generated`))
+          await db.close()
+          return
+        }
+
         console.log(chalk.green(`✅ Migration generated: ${migration.fileName}`))
         console.log(chalk.gray(`📁 Location: ${migration.filePath}`))
         console.log(chalk.gray(`📋 Description: ${migration.description}`))
 
+        if (migration.differences.length > 0) {
+          console.log(chalk.blue('\n🔍 Schema Changes:'))
+          migration.differences.forEach(difference => {
+            console.log(chalk.gray(`  • ${difference.table}: ${difference.details.message}`))
+          })
+        }
+
+        migration.warnings.forEach(warning => {
+          console.log(chalk.yellow(`⚠️ ${warning}`))
+        })
+
         // Show migration content
         if (migration.content) {
           console.log(chalk.blue('\n📄 Migration Content:'))
@@ -87,6 +82,7 @@ export async function migrate(options: {
         
       } catch (error) {
         console.error(chalk.red('❌ Migration generation failed:'), error instanceof Error ? error.message : error)
+        process.exitCode = 1
       }
       await db.close()
       return
@@ -106,15 +102,29 @@ export async function migrate(options: {
 
         if (status.appliedMigrations.length > 0) {
           console.log(chalk.green(`\n✅ Applied Migrations:`))
-          status.appliedMigrations.forEach((migration: any, index: number) => {
-            console.log(chalk.gray(`  ${index + 1}. ${migration.version} - ${migration.name} (${migration.appliedAt})`))
+          status.appliedMigrations.forEach((migration, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${migration.name} (${migration.appliedAt})`))
           })
         }
 
         if (status.pendingMigrations.length > 0) {
           console.log(chalk.yellow(`\n⏳ Pending Migrations:`))
-          status.pendingMigrations.forEach((migration: any, index: number) => {
-            console.log(chalk.gray(`  ${index + 1}. ${migration.version} - ${migration.name}`))
+          status.pendingMigrations.forEach((migration, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${migration.name}`))
+          })
+        }
+
+        if (status.modifiedMigrations.length > 0) {
+          console.log(chalk.red(`\n✏️ Modified after being applied (migrations will refuse to run):`))
+          status.modifiedMigrations.forEach(migration => {
+            console.log(chalk.gray(`  • ${migration.name}`))
+          })
+        }
+
+        if (status.missingMigrations.length > 0) {
+          console.log(chalk.yellow(`\n❓ Applied but missing from the migration directory:`))
+          status.missingMigrations.forEach(migration => {
+            console.log(chalk.gray(`  • ${migration.name}`))
           })
         }
 
@@ -136,8 +146,8 @@ export async function migrate(options: {
         
         if (result.migrationsApplied.length > 0) {
           console.log(chalk.green(`\n✅ Applied ${result.migrationsApplied.length} migrations:`))
-          result.migrationsApplied.forEach((migration: any, index: number) => {
-            console.log(chalk.gray(`  ${index + 1}. ${migration.version} - ${migration.name}`))
+          result.migrationsApplied.forEach((migration, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${migration.name}`))
           })
         } else {
           console.log(chalk.gray('No migrations to apply - database is up to date'))
@@ -151,10 +161,11 @@ export async function migrate(options: {
         }
 
         console.log(chalk.green(`\n🎉 Migration completed successfully!`))
-        console.log(chalk.gray(`Current version: ${result.currentVersion}`))
+        console.log(chalk.gray(`Current version: ${result.currentVersion || 'None'}`))
 
       } catch (error) {
         console.error(chalk.red('❌ Migration failed:'), error instanceof Error ? error.message : error)
+        process.exitCode = 1
         console.log(chalk.yellow('\n💡 Troubleshooting:'))
         console.log(chalk.gray('• Check the migration files for syntax errors'))
         console.log(chalk.gray('• Ensure the database is not locked by another process'))
@@ -172,20 +183,21 @@ export async function migrate(options: {
         
         if (result.migrationsApplied.length > 0) {
           console.log(chalk.green(`Applied ${result.migrationsApplied.length} migrations:`))
-          result.migrationsApplied.forEach((migration: any, index: number) => {
-            console.log(chalk.gray(`  ${index + 1}. ${migration.version} - ${migration.name}`))
+          result.migrationsApplied.forEach((migration, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${migration.name}`))
           })
         }
 
         if (result.migrationsRolledBack.length > 0) {
           console.log(chalk.yellow(`Rolled back ${result.migrationsRolledBack.length} migrations:`))
-          result.migrationsRolledBack.forEach((migration: any, index: number) => {
-            console.log(chalk.gray(`  ${index + 1}. ${migration.version} - ${migration.name}`))
+          result.migrationsRolledBack.forEach((migration, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${migration.name}`))
           })
         }
 
       } catch (error) {
         console.error(chalk.red('❌ Migration to version failed:'), error instanceof Error ? error.message : error)
+        process.exitCode = 1
       }
     }
 
@@ -195,28 +207,28 @@ export async function migrate(options: {
       try {
         const result = await migrationManager.rollbackLastMigration()
         
-        if (result.success) {
+        if (result.success && result.migration) {
           console.log(chalk.green(`\n✅ Rollback completed successfully!`))
-          console.log(chalk.gray(`Rolled back: ${result.migration.version} - ${result.migration.name}`))
-          console.log(chalk.gray(`Current version: ${result.currentVersion}`))
+          console.log(chalk.gray(`Rolled back: ${result.migration.name}`))
+          console.log(chalk.gray(`Current version: ${result.currentVersion || 'None'}`))
         } else {
           console.log(chalk.yellow('No migrations to rollback'))
         }
 
       } catch (error) {
         console.error(chalk.red('❌ Rollback failed:'), error instanceof Error ? error.message : error)
+        process.exitCode = 1
       }
     }
 
     // Show migration directory info
     console.log(chalk.blue('\n📁 Migration Directory:'))
     try {
-      const migrationsDir = path.join(process.cwd(), 'migrations')
       const exists = await fs.access(migrationsDir).then(() => true).catch(() => false)
       
       if (exists) {
         const files = await fs.readdir(migrationsDir)
-        const migrationFiles = files.filter(f => f.endsWith('.ts') || f.endsWith('.js'))
+        const migrationFiles = files.filter(f => /^\d+_.+\.(sql|ts|js)$/.test(f) && !f.endsWith('.d.ts'))
         console.log(chalk.gray(`  Location: ${migrationsDir}`))
         console.log(chalk.gray(`  Files: ${migrationFiles.length} migration files`))
       } else {
@@ -233,7 +245,7 @@ export async function migrate(options: {
     console.log(chalk.gray('• Test migrations on a copy of production data first'))
     console.log(chalk.gray('• Use descriptive migration names (e.g., "add_user_email_index")'))
     console.log(chalk.gray('• Keep migrations small and focused on single changes'))
-    console.log(chalk.gray('• Use --dry-run to preview changes before applying'))
+    console.log(chalk.gray('• Never edit a migration after it has been applied - add a new one instead'))
 
     await db.close()
 
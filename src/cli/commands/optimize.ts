@@ -1,5 +1,6 @@
 import chalk from 'chalk'
 import { NOORMME } from '../../noormme.js'
+import type { IndexRecommendation } from '../../dialect/sqlite/sqlite-auto-indexer.js'
 
 export async function optimize(options: {
   database?: string
@@ -7,6 +8,7 @@ export async function optimize(options: {
   indexes?: boolean
   analyze?: boolean
   wal?: boolean
+  apply?: boolean
   dryRun?: boolean
 }) {
   console.log(chalk.blue.bold('\n⚡ NOORMME SQLite Optimization - Automating Performance\n'))
@@ -69,15 +71,20 @@ export async function optimize(options: {
         const indexResult = await db.getSQLiteIndexRecommendations()
         
         if (indexResult.recommendations.length > 0) {
-          if (options.dryRun) {
-            console.log(chalk.gray('Would create recommended indexes:'))
-            indexResult.recommendations.forEach((rec: any) => {
-              console.log(chalk.gray(`  • ${rec.table}.${rec.column} (${rec.reason})`))
+          if (options.dryRun || !options.apply) {
+            console.log(chalk.gray(options.dryRun ? 'Would create recommended indexes:' : 'Recommended indexes:'))
+            indexResult.recommendations.forEach((rec: IndexRecommendation) => {
+              console.log(chalk.gray(`  • ${rec.sql} (${rec.reason})`))
             })
+            if (!options.dryRun) {
+              console.log(chalk.gray('Run "npx noormme optimize --indexes --apply" to create them'))
+            }
           } else {
-            // Show index recommendations
-            optimizationsApplied.push(...indexResult.recommendations.map((idx: any) => `Index recommendation: ${idx.table}.${idx.column}`))
-            console.log(chalk.green(`✅ Generated ${indexResult.recommendations.length} index recommendations`))
+            for (const rec of indexResult.recommendations as IndexRecommendation[]) {
+              await db.execute(rec.sql)
+              optimizationsApplied.push(`Created index on ${rec.table}(${rec.columns.join(', ')})`)
+            }
+            console.log(chalk.green(`✅ Created ${indexResult.recommendations.length} recommended indexes`))
           }
         } else {
           console.log(chalk.gray('No index recommendations found'))
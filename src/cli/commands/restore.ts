@@ -0,0 +1,80 @@
+import chalk from 'chalk'
+import { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import { SqliteDialect } from '../../dialect/sqlite/sqlite-dialect.js'
+import { SQLiteBackupManager, listBackups } from '../../dialect/sqlite/sqlite-backup-manager.js'
+import { Logger } from '../../logging/logger.js'
+import { importModule } from '../../util/import-module.js'
+import { sanitizeDatabasePath } from '../../util/security-validator.js'
+
+export async function restore(source: string | undefined, options: {
+  database?: string
+  backups?: string
+  latest?: boolean
+  list?: boolean
+  verify?: boolean
+} = {}) {
+  console.log(chalk.blue.bold('\n♻️  NOORMME Restore - SQLite Backups\n'))
+
+  try {
+    const databasePath = sanitizeDatabasePath(options.database || process.env.DATABASE_PATH || './database.sqlite')
+    const directory = options.backups || './backups'
+
+    if (options.list) {
+      const backups = await listBackups(directory, databasePath)
+      if (backups.length === 0) {
+        console.log(chalk.yellow(`No backups of ${databasePath} in ${directory}`))
+        return
+      }
+
+      console.log(chalk.gray(`📂 Backups in ${directory}, newest first:\n`))
+      for (const backup of backups) {
+        console.log(`  ${chalk.cyan(backup.createdAt.toISOString())}  ${backup.path}  ${chalk.gray(`${backup.size} bytes`)}`)
+      }
+      return
+    }
+
+    let file = source
+    if (!file && options.latest) {
+      file = (await listBackups(directory, databasePath))[0]?.path
+      if (!file) {
+        throw new Error(`No backups of ${databasePath} in ${directory}`)
+      }
+    }
+    if (!file) {
+      throw new Error('Pass a backup file, or --latest to use the newest backup in --backups')
+    }
+
+    // The database is usually restored because it is corrupt or half
+    // migrated, so it is opened without NOORMME's schema discovery
+    const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+    const database = new Database(databasePath)
+    const db = new Kysely<any>({ dialect: new SqliteDialect({ database }) })
+    const backupManager = new SQLiteBackupManager(db, () => database, new Logger({ enabled: false }))
+
+    console.log(chalk.gray(`📁 Database: ${databasePath}`))
+    console.log(chalk.gray(`💾 Backup: ${file}`))
+
+    let tables: number
+    try {
+      await backupManager.restore(file, {
+        verify: options.verify,
+        onProgress: ({ percent }) => process.stdout.write(chalk.gray(`\r⏳ ${percent}%`))
+      })
+      process.stdout.write('\n')
+
+      const { rows } = await sql<{ count: number }>`
+        select count(*) as count from sqlite_master where type = 'table' and name not like 'sqlite_%'
+      `.execute(db)
+      tables = rows[0].count
+    } finally {
+      await db.destroy()
+    }
+
+    console.log(chalk.green(`✅ Restored ${databasePath} (${tables} tables)`))
+
+  } catch (error) {
+    console.error(chalk.red('❌ Restore failed:'), error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
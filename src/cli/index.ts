@@ -10,6 +10,8 @@ import { analyze } from './commands/analyze.js'
 import { migrate } from './commands/migrate.js'
 import { watch } from './commands/watch.js'
 import { status } from './commands/status.js'
+import { backup } from './commands/backup.js'
+import { restore } from './commands/restore.js'
 
 const program = new Command()
 
@@ -49,6 +51,7 @@ program
   .option('-t, --types-only', 'Generate only TypeScript types')
   .option('-r, --repos-only', 'Generate only repository classes')
   .option('-f, --format <format>', 'TypeScript output format (dts, ts)', 'dts')
+  .option('--openapi', 'Also generate an OpenAPI 3 document (openapi.json)')
   .action(generate)
 
 // Optimize command - SQLite performance optimization
@@ -57,9 +60,10 @@ program
   .description('Optimize SQLite database performance automatically')
   .option('-d, --database <path>', 'SQLite database file path')
   .option('-p, --pragma', 'Apply PRAGMA optimizations')
-  .option('-i, --indexes', 'Apply intelligent index recommendations')
+  .option('-i, --indexes', 'Report intelligent index recommendations')
   .option('-a, --analyze', 'Run ANALYZE for query optimization')
   .option('-w, --wal', 'Enable WAL mode for better concurrency')
+  .option('--apply', 'Create the recommended indexes')
   .option('--dry-run', 'Show what would be optimized without applying changes')
   .action(optimize)
 
@@ -84,6 +88,8 @@ program
   .option('--rollback', 'Rollback last migration')
   .option('--status', 'Show migration status')
   .option('--generate <name>', 'Generate new migration')
+  .option('-m, --migrations <dir>', 'Migration files directory', './migrations')
+  .option('-s, --schema <file>', 'Schema file (.ts, .js or .json) to generate the migration from')
   .action(migrate)
 
 // Watch command - Schema monitoring and auto-optimization
@@ -107,6 +113,28 @@ program
   .option('-c, --cache', 'Show cache statistics')
   .action(status)
 
+// Backup command - Online SQLite backups
+program
+  .command('backup [destination]')
+  .description('Back up the SQLite database while it stays in use')
+  .option('-d, --database <path>', 'SQLite database file path')
+  .option('-o, --output <dir>', 'Backup directory, used without a destination', './backups')
+  .option('-c, --compact', 'Write a compacted copy with VACUUM INTO')
+  .option('-k, --keep <count>', 'Keep only the newest backups in the backup directory')
+  .option('--no-verify', 'Skip the integrity check of the backup')
+  .action(backup)
+
+// Restore command - Restore a SQLite backup
+program
+  .command('restore [source]')
+  .description('Restore the SQLite database from a backup')
+  .option('-d, --database <path>', 'SQLite database file path')
+  .option('-b, --backups <dir>', 'Backup directory for --latest and --list', './backups')
+  .option('--latest', 'Restore the newest backup in the backup directory')
+  .option('-l, --list', 'List the backups in the backup directory')
+  .option('--no-verify', 'Skip the integrity check of the backup')
+  .action(restore)
+
 // Help command
 program.addHelpText('after', `
 ${chalk.blue.bold('🚀 NOORMME - Complete SQLite Automation')}
@@ -121,6 +149,8 @@ ${chalk.green.bold('Automation Features:')}
   $ noormme migrate --latest              # Automated migration management
   $ noormme watch --auto-optimize         # Monitor and auto-optimize continuously
   $ noormme status                        # View automation status and metrics
+  $ noormme backup --keep 7               # Rotating, integrity-checked online backups
+  $ noormme restore --latest              # Restore the newest backup
 
 ${chalk.green.bold('Development:')}
   $ noormme generate                      # Generate TypeScript types and repositories
@@ -63,9 +63,12 @@ export class DatabaseIntrospector {
       .where('name', 'not like', 'sqlite_%')
       .execute()
 
-    return sqliteTables.map(t => ({
-      name: t.name
-    }))
+    // NOORMME's own bookkeeping tables (migrations, query stats) are not application tables
+    return sqliteTables
+      .filter(t => !t.name.startsWith('_noormme_'))
+      .map(t => ({
+        name: t.name
+      }))
   }
 
   /**
@@ -83,7 +86,8 @@ export class DatabaseIntrospector {
         nullable: !col.notnull,
         defaultValue: col.dflt_value,
         isPrimaryKey: !!col.pk,
-        isAutoIncrement: col.type.toLowerCase().includes('integer') && col.pk
+        isAutoIncrement: col.type.toLowerCase().includes('integer') && col.pk,
+        ...parseTypeModifiers(col.type)
       }))
     } catch (error) {
       console.warn('SQLite column discovery failed:', error)
@@ -121,4 +125,23 @@ export class DatabaseIntrospector {
       return []
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Read the size modifiers of a declared type, e.g. varchar(255) or decimal(10,2)
+ */
+function parseTypeModifiers(type: string): Pick<ColumnMetadata, 'maxLength' | 'precision' | 'scale'> {
+  const match = /^\s*([a-z ]+)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/i.exec(type || '')
+  if (!match) {
+    return {}
+  }
+
+  const base = match[1].trim().toLowerCase()
+  if (/char|text|clob/.test(base)) {
+    return { maxLength: Number(match[2]) }
+  }
+  if (/decimal|numeric/.test(base)) {
+    return { precision: Number(match[2]), scale: match[3] !== undefined ? Number(match[3]) : 0 }
+  }
+  return {}
+}
@@ -0,0 +1,52 @@
+import { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import { DialectAdapterBase } from '../dialect-adapter-base.js'
+import { MigrationLockOptions } from '../dialect-adapter.js'
+
+// Name of the GET_LOCK lock shared by every migrator of a database
+const MIGRATION_LOCK_ID = 'noormme_migration_lock'
+
+// Seconds to wait for another migrator to finish
+const MIGRATION_LOCK_TIMEOUT_SECONDS = 60 * 60
+
+export class MysqlAdapter extends DialectAdapterBase {
+  override get supportsTransactionalDdl(): boolean {
+    return false
+  }
+
+  override get supportsReturning(): boolean {
+    return false
+  }
+
+  override async acquireMigrationLock(
+    db: Kysely<any>,
+    opt: MigrationLockOptions,
+  ): Promise<void> {
+    // The migrator runs on a single connection, so a named lock held by
+    // that connection serializes migrators without a lock row. The lock is
+    // also freed if the connection dies.
+    const { rows } = await sql<{ acquired: number | null }>`select get_lock(${sql.lit(
+      this.#lockName(opt),
+    )}, ${sql.lit(MIGRATION_LOCK_TIMEOUT_SECONDS)}) as acquired`.execute(db)
+
+    if (rows[0]?.acquired !== 1) {
+      throw new Error(
+        `Timed out after ${MIGRATION_LOCK_TIMEOUT_SECONDS} seconds waiting for the migration lock`,
+      )
+    }
+  }
+
+  override async releaseMigrationLock(
+    db: Kysely<any>,
+    opt: MigrationLockOptions,
+  ): Promise<void> {
+    await sql`select release_lock(${sql.lit(this.#lockName(opt))})`.execute(db)
+  }
+
+  #lockName(opt: MigrationLockOptions): string {
+    // Lock names are server-wide, so include the table's schema and name
+    return [MIGRATION_LOCK_ID, opt.lockTableSchema, opt.lockTable]
+      .filter(Boolean)
+      .join(':')
+  }
+}
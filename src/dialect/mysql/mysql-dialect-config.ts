@@ -0,0 +1,92 @@
+import { DatabaseConnection } from '../../driver/database-connection.js'
+
+/**
+ * Config for the MySQL dialect.
+ */
+export interface MysqlDialectConfig {
+  /**
+   * A mysql2 Pool instance or a function that returns one.
+   *
+   * If a function is provided, it's called once when the first query is executed.
+   *
+   * https://github.com/sidorares/node-mysql2#using-connection-pools
+   */
+  pool?: MysqlPool | (() => Promise<MysqlPool>)
+
+  /**
+   * Pool configuration for `mysql2`. The `mysql2` package is loaded and the
+   * pool is created when the first query is executed.
+   *
+   * https://sidorares.github.io/node-mysql2/docs#using-connection-pools
+   */
+  poolConfig?: MysqlPoolConfig
+
+  /**
+   * Called once for each created connection.
+   *
+   * This is a NOORMME specific feature and does not come from the `mysql2` module.
+   */
+  onCreateConnection?: (connection: DatabaseConnection) => Promise<void>
+}
+
+/**
+ * The options of a mysql2 pool that NOORMME sets. Any other mysql2 pool
+ * option is passed through.
+ */
+export interface MysqlPoolConfig {
+  host?: string
+  port?: number
+  database?: string
+  user?: string
+  password?: string
+  ssl?: unknown
+  connectionLimit?: number
+  maxIdle?: number
+  idleTimeout?: number
+  [option: string]: unknown
+}
+
+/**
+ * This interface is the subset of mysql2 driver's `Pool` class that
+ * NOORMME needs.
+ *
+ * We don't use the type from `mysql2` here to not have a dependency to it.
+ *
+ * https://github.com/sidorares/node-mysql2#using-connection-pools
+ */
+export interface MysqlPool {
+  getConnection(
+    callback: (error: unknown, connection: MysqlPoolConnection) => void,
+  ): void
+  end(callback: (error: unknown) => void): void
+}
+
+export interface MysqlPoolConnection {
+  query(
+    sql: string,
+    parameters: ReadonlyArray<unknown>,
+  ): { stream: <T>(options: MysqlStreamOptions) => MysqlStream<T> }
+  query(
+    sql: string,
+    parameters: ReadonlyArray<unknown>,
+    callback: (error: unknown, result: MysqlQueryResult) => void,
+  ): void
+  release(): void
+}
+
+export interface MysqlStreamOptions {
+  highWaterMark?: number
+  objectMode?: true
+}
+
+export interface MysqlStream<T> {
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>
+}
+
+export interface MysqlOkPacket {
+  affectedRows: number
+  changedRows: number
+  insertId: number
+}
+
+export type MysqlQueryResult = MysqlOkPacket | Record<string, unknown>[]
@@ -0,0 +1,79 @@
+import { Driver } from '../../driver/driver.js'
+import { Kysely } from '../../kysely.js'
+import { QueryCompiler } from '../../query-compiler/query-compiler.js'
+import { Dialect } from '../dialect.js'
+import { DatabaseIntrospector } from '../database-introspector.js'
+import { MysqlDriver } from './mysql-driver.js'
+import { MysqlQueryCompiler } from './mysql-query-compiler.js'
+import { MysqlIntrospector } from './mysql-introspector.js'
+import { DialectAdapter } from '../dialect-adapter.js'
+import { MysqlAdapter } from './mysql-adapter.js'
+import { MysqlDialectConfig } from './mysql-dialect-config.js'
+import { freeze } from '../../util/object-utils.js'
+
+/**
+ * MySQL and MariaDB dialect that uses the [mysql2](https://github.com/sidorares/node-mysql2) library.
+ *
+ * The constructor takes an instance of {@link MysqlDialectConfig}.
+ *
+ * ```ts
+ * import { createPool } from 'mysql2'
+ *
+ * new MysqlDialect({
+ *   pool: createPool({
+ *     database: 'some_db',
+ *     host: 'localhost',
+ *   })
+ * })
+ * ```
+ *
+ * Alternatively, you can use poolConfig and NOORMME loads `mysql2` itself:
+ *
+ * ```ts
+ * new MysqlDialect({
+ *   poolConfig: {
+ *     host: 'localhost',
+ *     database: 'some_db',
+ *     user: 'root',
+ *     connectionLimit: 10,
+ *   }
+ * })
+ * ```
+ *
+ * If you want the pool to only be created once it's first used, `pool`
+ * can be a function:
+ *
+ * ```ts
+ * import { createPool } from 'mysql2'
+ *
+ * new MysqlDialect({
+ *   pool: async () => createPool({
+ *     database: 'some_db',
+ *     host: 'localhost',
+ *   })
+ * })
+ * ```
+ */
+export class MysqlDialect implements Dialect {
+  readonly #config: MysqlDialectConfig
+
+  constructor(config: MysqlDialectConfig) {
+    this.#config = freeze({ ...config })
+  }
+
+  createDriver(): Driver {
+    return new MysqlDriver(this.#config)
+  }
+
+  createQueryCompiler(): QueryCompiler {
+    return new MysqlQueryCompiler()
+  }
+
+  createAdapter(): DialectAdapter {
+    return new MysqlAdapter()
+  }
+
+  createIntrospector(db: Kysely<any>): DatabaseIntrospector {
+    return new MysqlIntrospector(db)
+  }
+}
@@ -0,0 +1,289 @@
+import {
+  DatabaseConnection,
+  QueryResult,
+} from '../../driver/database-connection.js'
+import { Driver, TransactionSettings } from '../../driver/driver.js'
+import { parseSavepointCommand } from '../../parser/savepoint-parser.js'
+import { CompiledQuery } from '../../query-compiler/compiled-query.js'
+import { QueryCompiler } from '../../query-compiler/query-compiler.js'
+import { freeze, isFunction, isObject } from '../../util/object-utils.js'
+import { createQueryId } from '../../util/query-id.js'
+import { extendStackTrace } from '../../util/stack-trace-utils.js'
+import { importModule } from '../../util/import-module.js'
+import {
+  MysqlDialectConfig,
+  MysqlOkPacket,
+  MysqlPool,
+  MysqlPoolConfig,
+  MysqlPoolConnection,
+  MysqlQueryResult,
+} from './mysql-dialect-config.js'
+
+const PRIVATE_RELEASE_METHOD = Symbol()
+
+export class MysqlDriver implements Driver {
+  readonly #config: MysqlDialectConfig
+  readonly #connections = new WeakMap<MysqlPoolConnection, MysqlConnection>()
+  #pool?: MysqlPool
+
+  constructor(config: MysqlDialectConfig) {
+    this.#config = freeze({ ...config })
+  }
+
+  async init(): Promise<void> {
+    this.#pool = isFunction(this.#config.pool)
+      ? await this.#config.pool()
+      : this.#config.pool
+
+    if (!this.#pool && this.#config.poolConfig) {
+      this.#pool = await createMysqlPool(this.#config.poolConfig)
+    }
+
+    if (!this.#pool) {
+      throw new Error(
+        'MySQL pool not configured. Please provide either a pool instance or poolConfig.'
+      )
+    }
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    const rawConnection = await this.#acquireConnection()
+    let connection = this.#connections.get(rawConnection)
+
+    if (!connection) {
+      connection = new MysqlConnection(rawConnection)
+      this.#connections.set(rawConnection, connection)
+
+      // The connection needs to be released by calling `releaseConnection`
+      await this.#config.onCreateConnection?.(connection)
+    }
+
+    return connection
+  }
+
+  async #acquireConnection(): Promise<MysqlPoolConnection> {
+    return new Promise((resolve, reject) => {
+      this.#pool!.getConnection((error, connection) => {
+        if (error) {
+          reject(error)
+        } else {
+          resolve(connection)
+        }
+      })
+    })
+  }
+
+  async beginTransaction(
+    connection: DatabaseConnection,
+    settings: TransactionSettings
+  ): Promise<void> {
+    if (settings.isolationLevel || settings.accessMode) {
+      const parts: string[] = []
+
+      if (settings.isolationLevel) {
+        parts.push(`isolation level ${settings.isolationLevel}`)
+      }
+
+      if (settings.accessMode) {
+        parts.push(settings.accessMode)
+      }
+
+      // Applies to the next transaction on this connection only
+      await connection.executeQuery(
+        CompiledQuery.raw(`set transaction ${parts.join(', ')}`)
+      )
+    }
+
+    await connection.executeQuery(CompiledQuery.raw('begin'))
+  }
+
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('commit'))
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('rollback'))
+  }
+
+  async savepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('savepoint', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async rollbackToSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('rollback to', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async releaseSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('release savepoint', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async releaseConnection(connection: MysqlConnection): Promise<void> {
+    connection[PRIVATE_RELEASE_METHOD]()
+  }
+
+  async destroy(): Promise<void> {
+    if (this.#pool) {
+      const pool = this.#pool
+      this.#pool = undefined
+
+      await new Promise<void>((resolve, reject) => {
+        pool.end((error) => {
+          if (error) {
+            reject(error)
+          } else {
+            resolve()
+          }
+        })
+      })
+    }
+  }
+}
+
+/**
+ * Load `mysql2` and create a pool. The package is only needed by MySQL users,
+ * so it's resolved at runtime instead of being a dependency.
+ */
+async function createMysqlPool(config: MysqlPoolConfig): Promise<MysqlPool> {
+  let mysql2: { createPool(config: MysqlPoolConfig): MysqlPool }
+  try {
+    mysql2 = await importModule('mysql2')
+  } catch (error) {
+    throw new Error(
+      `MySQL support needs the mysql2 package. Install it with \`npm install mysql2\`. (${
+        error instanceof Error ? error.message : String(error)
+      })`
+    )
+  }
+
+  // mysql2 returns DECIMAL and BIGINT values as strings unless told otherwise
+  return mysql2.createPool({ supportBigNumbers: true, ...config })
+}
+
+function isOkPacket(obj: unknown): obj is MysqlOkPacket {
+  return isObject(obj) && !Array.isArray(obj) && 'affectedRows' in obj
+}
+
+class MysqlConnection implements DatabaseConnection {
+  readonly #rawConnection: MysqlPoolConnection
+
+  constructor(rawConnection: MysqlPoolConnection) {
+    this.#rawConnection = rawConnection
+  }
+
+  async executeQuery<O>(compiledQuery: CompiledQuery): Promise<QueryResult<O>> {
+    try {
+      const result = await this.#executeQuery(compiledQuery)
+
+      if (isOkPacket(result)) {
+        const { insertId, affectedRows, changedRows } = result
+
+        return {
+          insertId:
+            insertId !== undefined &&
+            insertId !== null &&
+            insertId.toString() !== '0'
+              ? BigInt(insertId)
+              : undefined,
+          numAffectedRows:
+            affectedRows !== undefined && affectedRows !== null
+              ? BigInt(affectedRows)
+              : undefined,
+          numChangedRows:
+            changedRows !== undefined && changedRows !== null
+              ? BigInt(changedRows)
+              : undefined,
+          rows: [],
+        }
+      } else if (Array.isArray(result)) {
+        return {
+          rows: result as O[],
+        }
+      }
+
+      return {
+        rows: [],
+      }
+    } catch (err) {
+      throw extendStackTrace(err, new Error())
+    }
+  }
+
+  #executeQuery(compiledQuery: CompiledQuery): Promise<MysqlQueryResult> {
+    return new Promise((resolve, reject) => {
+      this.#rawConnection.query(
+        compiledQuery.sql,
+        compiledQuery.parameters,
+        (error, result) => {
+          if (error) {
+            reject(error)
+          } else {
+            resolve(result)
+          }
+        },
+      )
+    })
+  }
+
+  async *streamQuery<O>(
+    compiledQuery: CompiledQuery,
+    _chunkSize: number,
+  ): AsyncIterableIterator<QueryResult<O>> {
+    const stream = this.#rawConnection
+      .query(compiledQuery.sql, compiledQuery.parameters)
+      .stream<O>({
+        objectMode: true,
+      })
+
+    try {
+      for await (const row of stream) {
+        yield {
+          rows: [row],
+        }
+      }
+    } catch (ex) {
+      if (
+        ex &&
+        typeof ex === 'object' &&
+        'code' in ex &&
+        // @ts-ignore
+        ex.code === 'ERR_STREAM_PREMATURE_CLOSE'
+      ) {
+        // Most likely because of https://github.com/mysqljs/mysql/blob/master/lib/protocol/sequences/Query.js#L220
+        return
+      }
+
+      throw ex
+    }
+  }
+
+  [PRIVATE_RELEASE_METHOD](): void {
+    this.#rawConnection.release()
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  DatabaseIntrospector,
+  DatabaseMetadata,
+  DatabaseMetadataOptions,
+  SchemaMetadata,
+  TableMetadata,
+  ColumnMetadata,
+  IndexMetadata,
+  ForeignKeyMetadata,
+} from '../database-introspector.js'
+import { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+
+// Migration constants
+const DEFAULT_MIGRATION_TABLE = 'kysely_migration'
+const DEFAULT_MIGRATION_LOCK_TABLE = 'kysely_migration_lock'
+
+interface RawColumnMetadata {
+  COLUMN_NAME: string
+  COLUMN_DEFAULT: string | null
+  IS_NULLABLE: 'YES' | 'NO'
+  DATA_TYPE: string
+  COLUMN_TYPE: string
+  COLUMN_KEY: string
+  EXTRA: string
+  CHARACTER_MAXIMUM_LENGTH: number | null
+  NUMERIC_PRECISION: number | null
+  NUMERIC_SCALE: number | null
+}
+
+interface RawIndexMetadata {
+  INDEX_NAME: string
+  COLUMN_NAME: string
+  NON_UNIQUE: number | string
+}
+
+interface RawForeignKeyMetadata {
+  CONSTRAINT_NAME: string
+  COLUMN_NAME: string
+  REFERENCED_TABLE_NAME: string
+  REFERENCED_COLUMN_NAME: string
+  DELETE_RULE: string | null
+  UPDATE_RULE: string | null
+}
+
+/**
+ * Reads tables, columns, indexes and foreign keys of the connection's
+ * current database from `information_schema`. Works with MySQL 5.7+ and
+ * MariaDB 10+.
+ */
+export class MysqlIntrospector extends DatabaseIntrospector {
+  readonly #db: Kysely<any>
+
+  constructor(db: Kysely<any>) {
+    super(db)
+    this.#db = db
+  }
+
+  async getSchemas(): Promise<SchemaMetadata[]> {
+    const schemas = await sql<{ SCHEMA_NAME: string }>`
+      SELECT SCHEMA_NAME
+      FROM information_schema.SCHEMATA
+      WHERE SCHEMA_NAME NOT IN ('information_schema', 'mysql', 'performance_schema', 'sys')
+      ORDER BY SCHEMA_NAME
+    `.execute(this.#db)
+
+    return schemas.rows.map((row) => ({ name: row.SCHEMA_NAME }))
+  }
+
+  override async getTables(
+    options: DatabaseMetadataOptions = { withInternalKyselyTables: false },
+  ): Promise<TableMetadata[]> {
+    const tables = await sql<{ TABLE_NAME: string; TABLE_SCHEMA: string }>`
+      SELECT TABLE_NAME, TABLE_SCHEMA
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = database()
+        AND TABLE_TYPE = 'BASE TABLE'
+      ORDER BY TABLE_NAME
+    `.execute(this.#db)
+
+    // NOORMME's own bookkeeping tables (migrations, query stats) are not application tables
+    return tables.rows
+      .filter(
+        (table) =>
+          !table.TABLE_NAME.startsWith('_noormme_') &&
+          (options.withInternalKyselyTables ||
+            (table.TABLE_NAME !== DEFAULT_MIGRATION_TABLE &&
+              table.TABLE_NAME !== DEFAULT_MIGRATION_LOCK_TABLE)),
+      )
+      .map((table) => ({ name: table.TABLE_NAME, schema: table.TABLE_SCHEMA }))
+  }
+
+  async getMetadata(
+    options?: DatabaseMetadataOptions,
+  ): Promise<DatabaseMetadata> {
+    return {
+      tables: await this.getTables(options),
+    }
+  }
+
+  override async getColumns(tableName: string): Promise<ColumnMetadata[]> {
+    const columns = await sql<RawColumnMetadata>`
+      SELECT
+        COLUMN_NAME,
+        COLUMN_DEFAULT,
+        IS_NULLABLE,
+        DATA_TYPE,
+        COLUMN_TYPE,
+        COLUMN_KEY,
+        EXTRA,
+        CHARACTER_MAXIMUM_LENGTH,
+        NUMERIC_PRECISION,
+        NUMERIC_SCALE
+      FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = database()
+        AND TABLE_NAME = ${tableName}
+      ORDER BY ORDINAL_POSITION
+    `.execute(this.#db)
+
+    return columns.rows.map((col) => ({
+      name: col.COLUMN_NAME,
+      type: this.#mapColumnType(col),
+      nullable: col.IS_NULLABLE === 'YES',
+      defaultValue: col.COLUMN_DEFAULT ?? undefined,
+      isPrimaryKey: col.COLUMN_KEY === 'PRI',
+      isAutoIncrement: col.EXTRA.toLowerCase().includes('auto_increment'),
+      maxLength: col.CHARACTER_MAXIMUM_LENGTH ?? undefined,
+      ...(/decimal|numeric/.test(col.DATA_TYPE.toLowerCase())
+        ? {
+            precision: col.NUMERIC_PRECISION ?? undefined,
+            scale: col.NUMERIC_SCALE ?? undefined,
+          }
+        : {}),
+    }))
+  }
+
+  override async getIndexes(tableName: string): Promise<IndexMetadata[]> {
+    const indexes = await sql<RawIndexMetadata>`
+      SELECT INDEX_NAME, COLUMN_NAME, NON_UNIQUE
+      FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = database()
+        AND TABLE_NAME = ${tableName}
+      ORDER BY INDEX_NAME, SEQ_IN_INDEX
+    `.execute(this.#db)
+
+    const indexMap = new Map<string, IndexMetadata>()
+
+    for (const rawIndex of indexes.rows) {
+      const existing = indexMap.get(rawIndex.INDEX_NAME)
+      if (existing) {
+        existing.columns.push(rawIndex.COLUMN_NAME)
+      } else {
+        indexMap.set(rawIndex.INDEX_NAME, {
+          name: rawIndex.INDEX_NAME,
+          columns: [rawIndex.COLUMN_NAME],
+          unique: Number(rawIndex.NON_UNIQUE) === 0,
+        })
+      }
+    }
+
+    return Array.from(indexMap.values())
+  }
+
+  override async getForeignKeys(tableName: string): Promise<ForeignKeyMetadata[]> {
+    const foreignKeys = await sql<RawForeignKeyMetadata>`
+      SELECT
+        kcu.CONSTRAINT_NAME,
+        kcu.COLUMN_NAME,
+        kcu.REFERENCED_TABLE_NAME,
+        kcu.REFERENCED_COLUMN_NAME,
+        rc.DELETE_RULE,
+        rc.UPDATE_RULE
+      FROM information_schema.KEY_COLUMN_USAGE AS kcu
+      JOIN information_schema.REFERENTIAL_CONSTRAINTS AS rc
+        ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+        AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+        AND rc.TABLE_NAME = kcu.TABLE_NAME
+      WHERE kcu.TABLE_SCHEMA = database()
+        AND kcu.TABLE_NAME = ${tableName}
+        AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+      ORDER BY kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+    `.execute(this.#db)
+
+    // Composite foreign keys are reported by their first column, like on PostgreSQL
+    const fkMap = new Map<string, ForeignKeyMetadata>()
+
+    for (const rawFk of foreignKeys.rows) {
+      if (!fkMap.has(rawFk.CONSTRAINT_NAME)) {
+        fkMap.set(rawFk.CONSTRAINT_NAME, {
+          name: rawFk.CONSTRAINT_NAME,
+          column: rawFk.COLUMN_NAME,
+          referencedTable: rawFk.REFERENCED_TABLE_NAME,
+          referencedColumn: rawFk.REFERENCED_COLUMN_NAME,
+          onDelete: this.#normalizeAction(rawFk.DELETE_RULE),
+          onUpdate: this.#normalizeAction(rawFk.UPDATE_RULE),
+        })
+      }
+    }
+
+    return Array.from(fkMap.values())
+  }
+
+  #mapColumnType(col: RawColumnMetadata): string {
+    // MySQL has no boolean type, BOOLEAN columns are created as tinyint(1)
+    if (col.COLUMN_TYPE.toLowerCase() === 'tinyint(1)') {
+      return 'boolean'
+    }
+
+    // Keep the declared size, e.g. varchar(255) or decimal(10,2)
+    return /char|decimal|numeric/.test(col.DATA_TYPE.toLowerCase())
+      ? col.COLUMN_TYPE.toLowerCase()
+      : col.DATA_TYPE.toLowerCase()
+  }
+
+  #normalizeAction(
+    action: string | null
+  ): 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | undefined {
+    if (!action) return undefined
+
+    const normalized = action.toUpperCase()
+    if (
+      normalized === 'CASCADE' ||
+      normalized === 'SET NULL' ||
+      normalized === 'RESTRICT' ||
+      normalized === 'NO ACTION'
+    ) {
+      return normalized
+    }
+
+    return undefined
+  }
+}
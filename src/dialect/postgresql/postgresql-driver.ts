@@ -5,6 +5,7 @@ import {
 import { Driver, TransactionSettings } from '../../driver/driver.js'
 import { CompiledQuery } from '../../query-compiler/compiled-query.js'
 import { freeze, isFunction } from '../../util/object-utils.js'
+import { importModule } from '../../util/import-module.js'
 import {
   PostgresDialectConfig,
   PostgresPool,
@@ -30,7 +31,7 @@ export class PostgresDriver implements Driver {
 
     if (!this.#pool && this.#config.poolConfig) {
       // Create pool from config if not provided
-      const { Pool } = await import('pg')
+      const { Pool } = await importModule<typeof import('pg')>('pg')
       this.#pool = new Pool(this.#config.poolConfig)
     }
 
@@ -62,12 +63,18 @@ export class PostgresDriver implements Driver {
     connection: DatabaseConnection,
     settings: TransactionSettings
   ): Promise<void> {
-    if (settings.isolationLevel) {
-      await connection.executeQuery(
-        CompiledQuery.raw(
-          `begin transaction isolation level ${settings.isolationLevel}`
-        )
-      )
+    if (settings.isolationLevel || settings.accessMode) {
+      let sql = 'start transaction'
+
+      if (settings.isolationLevel) {
+        sql += ` isolation level ${settings.isolationLevel}`
+      }
+
+      if (settings.accessMode) {
+        sql += ` ${settings.accessMode}`
+      }
+
+      await connection.executeQuery(CompiledQuery.raw(sql))
     } else {
       await connection.executeQuery(CompiledQuery.raw('begin'))
     }
@@ -0,0 +1,242 @@
+import type { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import { CompiledQuery } from '../../query-compiler/compiled-query.js'
+import { Logger } from '../../logging/logger.js'
+import type { IndexAdvice, QueryPlanIssue } from '../../types/index.js'
+import {
+  AdvisedQuery,
+  buildIndexCandidates,
+  countResolvedIssues,
+  createIndexAdvice,
+  indexCandidateSQL,
+  pickIndexCandidate,
+  TableAccess,
+  TestedIndexCandidate
+} from '../../performance/utils/index-candidates.js'
+
+// `(email)::text = $1`, `published = true`, `deleted_at IS NULL`, `id = ANY ($1)`
+const FILTER_PREDICATE = /\(*(\w+)\)?(?:::[\w ]+?)?\s+(=|<>|<=|>=|<|>|~~\*?|IS NOT|IS)\s+(ANY \(\$\d+\)|'(?:[^']|'')*'(?:::[\w ]+)?|[^\s)]+)/g
+
+/**
+ * A node of `EXPLAIN (FORMAT JSON)` output
+ */
+export interface PostgresPlanNode {
+  'Node Type': string
+  'Relation Name'?: string
+  Alias?: string
+  'Index Name'?: string
+  Filter?: string
+  'Sort Key'?: string[]
+  Plans?: PostgresPlanNode[]
+  [key: string]: unknown
+}
+
+/**
+ * One line per plan node, indented by depth, in the style of text EXPLAIN
+ */
+export function describePostgresPlan(plan: PostgresPlanNode, depth = 0): string[] {
+  let line = plan['Node Type']
+  if (plan['Index Name']) line += ` using ${plan['Index Name']}`
+  if (plan['Relation Name']) line += ` on ${plan['Relation Name']}`
+  if (plan.Alias && plan.Alias !== plan['Relation Name']) line += ` ${plan.Alias}`
+  if (plan.Filter) line += ` (Filter: ${plan.Filter})`
+  if (plan['Sort Key']) line += ` (Sort Key: ${plan['Sort Key'].join(', ')})`
+
+  return [
+    `${'  '.repeat(depth)}${line}`,
+    ...(plan.Plans ?? []).flatMap(child => describePostgresPlan(child, depth + 1))
+  ]
+}
+
+/**
+ * Sequential scans and sorts in a plan tree
+ */
+export function findPostgresPlanIssues(plan: PostgresPlanNode): QueryPlanIssue[] {
+  const issues: QueryPlanIssue[] = []
+  const visit = (node: PostgresPlanNode) => {
+    if (node['Node Type'] === 'Seq Scan') {
+      issues.push({ kind: 'full_scan', table: node['Relation Name'], detail: describePostgresPlan({ ...node, Plans: [] })[0] })
+    } else if (node['Node Type'] === 'Sort' || node['Node Type'] === 'Incremental Sort') {
+      issues.push({ kind: 'sort', detail: describePostgresPlan({ ...node, Plans: [] })[0] })
+    }
+    node.Plans?.forEach(visit)
+  }
+  visit(plan)
+  return issues
+}
+
+/**
+ * Recommends indexes from `EXPLAIN (FORMAT JSON)` plans. Candidates come
+ * from the filters of sequential scans and the keys of sorts. They are tried
+ * as hypothetical indexes when the hypopg extension is installed, and
+ * reported unverified otherwise, since building real indexes to test them
+ * would lock the tables.
+ */
+export class PostgresIndexAdvisor {
+  constructor(
+    private db: Kysely<any>,
+    private logger: Logger
+  ) {}
+
+  /**
+   * The most frequent statements from pg_stat_statements, if installed
+   */
+  async loadStatements(minCalls = 3, limit = 100): Promise<AdvisedQuery[]> {
+    if (!(await this.hasExtension('pg_stat_statements'))) {
+      this.logger.warn('pg_stat_statements is not installed; pass the queries to analyze instead')
+      return []
+    }
+
+    const { rows } = await sql<{ query: string; calls: string | number }>`
+      select query, calls from pg_stat_statements
+      where calls >= ${minCalls} and query ~* '^\\s*(select|update|delete)'
+      order by calls desc
+      limit ${limit}
+    `.execute(this.db)
+
+    return rows.map(row => ({ sql: row.query, frequency: Number(row.calls) }))
+  }
+
+  async advise(queries: AdvisedQuery[], options: { maxRecommendations?: number } = {}): Promise<IndexAdvice[]> {
+    const { maxRecommendations = 20 } = options
+    const hypothetical = await this.hasExtension('hypopg')
+
+    // hypopg indexes only exist in the session that created them
+    return await this.db.connection().execute(async (connection) => {
+      const advice = new Map<string, IndexAdvice>()
+      const sorted = [...queries].sort((a, b) => b.frequency - a.frequency)
+
+      for (const query of sorted) {
+        const result = await this.adviseQuery(connection, query, hypothetical)
+        if (!result) continue
+
+        const existing = advice.get(result.recommendation.sql)
+        if (existing) {
+          existing.frequency += result.frequency
+        } else {
+          advice.set(result.recommendation.sql, result)
+        }
+      }
+
+      return Array.from(advice.values()).slice(0, maxRecommendations)
+    })
+  }
+
+  private async adviseQuery(
+    db: Kysely<any>,
+    query: AdvisedQuery,
+    hypothetical: boolean
+  ): Promise<IndexAdvice | null> {
+    const plan = await this.explain(db, query.sql)
+    if (!plan) return null
+
+    const issues = findPostgresPlanIssues(plan)
+    if (issues.length === 0) return null
+
+    const planBefore = describePostgresPlan(plan)
+    const candidates = describeTableAccesses(plan).flatMap(buildIndexCandidates)
+    if (candidates.length === 0) return null
+
+    if (!hypothetical) {
+      return createIndexAdvice(query, issues, planBefore, candidates[0], [], false)
+    }
+
+    const tested: TestedIndexCandidate[] = []
+    for (const candidate of candidates) {
+      try {
+        const { rows } = await sql<{ indexname: string }>`
+          select indexname from hypopg_create_index(${indexCandidateSQL(candidate)})
+        `.execute(db)
+        const after = await this.explain(db, query.sql)
+        const planAfter = after ? describePostgresPlan(after) : []
+
+        if (after && planAfter.some(line => line.includes(` using ${rows[0].indexname}`))) {
+          tested.push({ candidate, planAfter, resolved: countResolvedIssues(issues, findPostgresPlanIssues(after)) })
+        }
+      } catch (error) {
+        this.logger.debug(`Could not try index ${indexCandidateSQL(candidate)}:`, error)
+      } finally {
+        await sql`select hypopg_reset()`.execute(db)
+      }
+    }
+
+    const best = pickIndexCandidate(tested)
+    return best ? createIndexAdvice(query, issues, planBefore, best.candidate, best.planAfter, true) : null
+  }
+
+  /**
+   * Plan a statement without running it. Statements with `$n` parameters
+   * get a generic plan, which needs PostgreSQL 16 or later.
+   */
+  private async explain(db: Kysely<any>, statement: string): Promise<PostgresPlanNode | null> {
+    const options = /\$\d/.test(statement) ? 'FORMAT JSON, GENERIC_PLAN' : 'FORMAT JSON'
+    try {
+      const { rows } = await db.executeQuery<{ 'QUERY PLAN': unknown }>(
+        CompiledQuery.raw(`EXPLAIN (${options}) ${statement}`)
+      )
+      const output = rows[0]['QUERY PLAN']
+      const [explained] = (typeof output === 'string' ? JSON.parse(output) : output) as Array<{ Plan: PostgresPlanNode }>
+      return explained.Plan
+    } catch (error) {
+      this.logger.debug(`Skipping query PostgreSQL cannot plan: ${statement}`, error)
+      return null
+    }
+  }
+
+  private async hasExtension(name: string): Promise<boolean> {
+    const extension = await this.db
+      .selectFrom('pg_extension')
+      .select('extname')
+      .where('extname', '=', name)
+      .executeTakeFirst()
+    return !!extension
+  }
+}
+
+/**
+ * Table accesses read from the filters of sequential scans, with the keys
+ * of sorts above them
+ */
+export function describeTableAccesses(plan: PostgresPlanNode): TableAccess[] {
+  const accesses = new Map<string, TableAccess & { alias: string }>()
+  const sortKeys: string[] = []
+
+  const visit = (node: PostgresPlanNode) => {
+    const table = node['Relation Name']
+    if (node['Node Type'] === 'Seq Scan' && table && !accesses.has(table)) {
+      const access = {
+        table,
+        alias: node.Alias ?? table,
+        equality: [] as string[],
+        range: [] as string[],
+        orderBy: [] as string[],
+        selected: null,
+        literals: [] as TableAccess['literals']
+      }
+      for (const [, column, operator, operand] of (node.Filter ?? '').matchAll(FILTER_PREDICATE)) {
+        if (operator === '=' || operator.startsWith('IS')) {
+          if (operator !== 'IS NOT') access.equality.push(column)
+          if (!operand.startsWith('$') && !operand.startsWith('ANY')) {
+            access.literals.push({ column, predicate: `"${column}" ${operator} ${operand}` })
+          }
+        } else if (operator !== '<>') {
+          access.range.push(column)
+        }
+      }
+      accesses.set(table, access)
+    }
+    if (node['Sort Key']) sortKeys.push(...node['Sort Key'])
+    node.Plans?.forEach(visit)
+  }
+  visit(plan)
+
+  for (const key of sortKeys) {
+    const match = key.match(/^\(?(?:(\w+)\.)?(\w+)\)?(?:::[\w ]+)?(?: (?:ASC|DESC|NULLS (?:FIRST|LAST)))*$/)
+    if (!match) continue
+    const [, qualifier, column] = match
+    const owner = Array.from(accesses.values()).find(a => qualifier ? a.alias === qualifier : accesses.size === 1)
+    owner?.orderBy.push(column)
+  }
+
+  return Array.from(accesses.values()).map(({ alias, ...access }) => access)
+}
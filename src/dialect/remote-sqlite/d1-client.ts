@@ -0,0 +1,73 @@
+import {
+  D1Database,
+  D1PreparedStatement,
+  D1Result,
+  RemoteSqliteClient,
+  RemoteSqliteResult,
+  RemoteSqliteStatement,
+} from './remote-sqlite-dialect-config.js'
+
+/**
+ * Client for a [Cloudflare D1](https://developers.cloudflare.com/d1/) binding.
+ *
+ * D1 has no interactive transactions, so `db.transaction()` isn't available,
+ * and neither are the repository methods that run in one: `createMany`,
+ * `updateMany`, `deleteMany`, `upsert` and deletes with delete hooks.
+ * Statements that must apply together go through {@link batch}, which D1
+ * runs atomically.
+ *
+ * ```ts
+ * export default {
+ *   async fetch(request, env) {
+ *     const dialect = new RemoteSqliteDialect({ client: new D1Client(env.DB) })
+ *   }
+ * }
+ * ```
+ */
+export class D1Client implements RemoteSqliteClient {
+  readonly #database: D1Database
+
+  constructor(database: D1Database) {
+    this.#database = database
+  }
+
+  async execute(statement: RemoteSqliteStatement): Promise<RemoteSqliteResult> {
+    return toResult(await this.#prepare(statement).all())
+  }
+
+  async batch(statements: ReadonlyArray<RemoteSqliteStatement>): Promise<RemoteSqliteResult[]> {
+    if (statements.length === 0) {
+      return []
+    }
+
+    const results = await this.#database.batch(
+      statements.map((statement) => this.#prepare(statement)),
+    )
+    return results.map(toResult)
+  }
+
+  #prepare(statement: RemoteSqliteStatement): D1PreparedStatement {
+    const prepared = this.#database.prepare(statement.sql)
+    // D1 doesn't take BigInts
+    return statement.args.length > 0
+      ? prepared.bind(
+          ...statement.args.map((arg) =>
+            typeof arg === 'bigint' ? Number(arg) : arg,
+          ),
+        )
+      : prepared
+  }
+}
+
+function toResult(result: D1Result): RemoteSqliteResult {
+  const { changes, last_row_id } = result.meta
+
+  return {
+    rows: (result.results ?? []) as Record<string, unknown>[],
+    rowsAffected: changes ?? 0,
+    lastInsertRowid:
+      last_row_id !== undefined && last_row_id !== null
+        ? BigInt(last_row_id)
+        : undefined,
+  }
+}
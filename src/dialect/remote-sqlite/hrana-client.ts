@@ -0,0 +1,295 @@
+import {
+  RemoteSqliteClient,
+  RemoteSqliteFetch,
+  RemoteSqliteResult,
+  RemoteSqliteSession,
+  RemoteSqliteStatement,
+  RemoteSqliteValue,
+} from './remote-sqlite-dialect-config.js'
+
+export interface HranaClientConfig {
+  /**
+   * Server URL. `libsql://` URLs are reached over `https://`.
+   */
+  url: string
+
+  /**
+   * Sent as a bearer token, e.g. a Turso database token.
+   */
+  authToken?: string
+
+  /**
+   * Defaults to the global `fetch`.
+   */
+  fetch?: RemoteSqliteFetch
+}
+
+type HranaValue =
+  | { type: 'null' }
+  | { type: 'integer'; value: string }
+  | { type: 'float'; value: number }
+  | { type: 'text'; value: string }
+  | { type: 'blob'; base64: string }
+
+interface HranaStmt {
+  sql: string
+  args: HranaValue[]
+  want_rows: boolean
+}
+
+interface HranaStmtResult {
+  cols: { name: string | null }[]
+  rows: HranaValue[][]
+  affected_row_count: number
+  last_insert_rowid: string | null
+}
+
+interface HranaError {
+  message: string
+  code?: string | null
+}
+
+type HranaCondition =
+  | { type: 'ok'; step: number }
+  | { type: 'not'; cond: HranaCondition }
+
+type HranaRequest =
+  | { type: 'execute'; stmt: HranaStmt }
+  | { type: 'batch'; batch: { steps: { stmt: HranaStmt; condition?: HranaCondition }[] } }
+  | { type: 'close' }
+
+type HranaResponse =
+  | { type: 'execute'; result: HranaStmtResult }
+  | { type: 'batch'; result: { step_results: (HranaStmtResult | null)[]; step_errors: (HranaError | null)[] } }
+  | { type: 'close' }
+
+interface HranaPipelineResponse {
+  baton: string | null
+  base_url: string | null
+  results: ({ type: 'ok'; response: HranaResponse } | { type: 'error'; error: HranaError })[]
+}
+
+/**
+ * Client for the [Hrana](https://github.com/tursodatabase/libsql/blob/main/docs/HRANA_3_SPEC.md)
+ * HTTP protocol spoken by libSQL servers (sqld, Turso).
+ *
+ * Only needs `fetch`, so it runs on edge runtimes.
+ *
+ * ```ts
+ * new RemoteSqliteDialect({
+ *   client: new HranaClient({
+ *     url: 'libsql://my-db.turso.io',
+ *     authToken: process.env.TURSO_TOKEN,
+ *   })
+ * })
+ * ```
+ */
+export class HranaClient implements RemoteSqliteClient {
+  readonly #url: string
+  readonly #headers: Record<string, string>
+  readonly #fetch: RemoteSqliteFetch
+
+  constructor(config: HranaClientConfig) {
+    this.#url = config.url.replace(/^libsql:/, 'https:').replace(/\/+$/, '')
+    this.#headers = { 'content-type': 'application/json' }
+    if (config.authToken) {
+      this.#headers.authorization = `Bearer ${config.authToken}`
+    }
+    this.#fetch = config.fetch ?? (globalThis.fetch as unknown as RemoteSqliteFetch)
+  }
+
+  async execute(statement: RemoteSqliteStatement): Promise<RemoteSqliteResult> {
+    const { results } = await this.pipeline(this.#url, null, [
+      { type: 'execute', stmt: toHranaStmt(statement) },
+      { type: 'close' },
+    ])
+
+    return toResult(expectResponse(results[0], 'execute').result)
+  }
+
+  async batch(statements: ReadonlyArray<RemoteSqliteStatement>): Promise<RemoteSqliteResult[]> {
+    const raw = (sql: string) => toHranaStmt({ sql, args: [] })
+    const last = statements.length
+
+    // Every step only runs if the previous one succeeded, the commit
+    // included, and anything short of a commit is rolled back
+    const steps = [
+      { stmt: raw('begin') },
+      ...statements.map((statement, i) => ({
+        stmt: toHranaStmt(statement),
+        condition: { type: 'ok', step: i } as HranaCondition,
+      })),
+      { stmt: raw('commit'), condition: { type: 'ok', step: last } as HranaCondition },
+      { stmt: raw('rollback'), condition: { type: 'not', cond: { type: 'ok', step: last + 1 } } as HranaCondition },
+    ]
+
+    const { results } = await this.pipeline(this.#url, null, [
+      { type: 'batch', batch: { steps } },
+      { type: 'close' },
+    ])
+    const { step_results, step_errors } = expectResponse(results[0], 'batch').result
+
+    const error = step_errors.find((e) => e !== null)
+    if (error) {
+      throw toError(error)
+    }
+
+    return step_results.slice(1, last + 1).map((result) => toResult(result!))
+  }
+
+  openSession(): RemoteSqliteSession {
+    return new HranaSession(this, this.#url)
+  }
+
+  /**
+   * Sends requests on the stream identified by `baton`, a new one if it's null.
+   */
+  async pipeline(
+    url: string,
+    baton: string | null,
+    requests: HranaRequest[],
+  ): Promise<HranaPipelineResponse> {
+    const response = await this.#fetch(`${url}/v2/pipeline`, {
+      method: 'POST',
+      headers: this.#headers,
+      body: JSON.stringify({ baton, requests }),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `libSQL server responded with HTTP ${response.status}: ${await response.text()}`,
+      )
+    }
+
+    return (await response.json()) as HranaPipelineResponse
+  }
+}
+
+/**
+ * A Hrana stream. The server keeps its connection, and with it any open
+ * transaction, for as long as the client holds the baton.
+ */
+class HranaSession implements RemoteSqliteSession {
+  readonly #client: HranaClient
+  #url: string
+  #baton: string | null = null
+
+  constructor(client: HranaClient, url: string) {
+    this.#client = client
+    this.#url = url
+  }
+
+  async execute(statement: RemoteSqliteStatement): Promise<RemoteSqliteResult> {
+    const { results } = await this.#send([
+      { type: 'execute', stmt: toHranaStmt(statement) },
+    ])
+
+    return toResult(expectResponse(results[0], 'execute').result)
+  }
+
+  async close(): Promise<void> {
+    if (this.#baton !== null) {
+      await this.#send([{ type: 'close' }])
+    }
+  }
+
+  async #send(requests: HranaRequest[]): Promise<HranaPipelineResponse> {
+    const response = await this.#client.pipeline(this.#url, this.#baton, requests)
+    this.#baton = response.baton
+    this.#url = response.base_url ?? this.#url
+    return response
+  }
+}
+
+function expectResponse<T extends HranaResponse['type']>(
+  result: HranaPipelineResponse['results'][number] | undefined,
+  type: T,
+): Extract<HranaResponse, { type: T }> {
+  if (!result) {
+    throw new Error('libSQL server sent no result for the request')
+  }
+
+  if (result.type === 'error') {
+    throw toError(result.error)
+  }
+
+  if (result.response.type !== type) {
+    throw new Error(
+      `libSQL server sent a ${result.response.type} response to a ${type} request`,
+    )
+  }
+
+  return result.response as Extract<HranaResponse, { type: T }>
+}
+
+function toError(error: HranaError): Error {
+  return Object.assign(new Error(error.message), { code: error.code ?? undefined })
+}
+
+function toHranaStmt(statement: RemoteSqliteStatement): HranaStmt {
+  return {
+    sql: statement.sql,
+    args: statement.args.map(toHranaValue),
+    want_rows: true,
+  }
+}
+
+function toHranaValue(value: RemoteSqliteValue): HranaValue {
+  if (value === null) {
+    return { type: 'null' }
+  }
+
+  if (typeof value === 'bigint') {
+    return { type: 'integer', value: value.toString() }
+  }
+
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value)
+      ? { type: 'integer', value: value.toString() }
+      : { type: 'float', value }
+  }
+
+  if (typeof value === 'string') {
+    return { type: 'text', value }
+  }
+
+  let binary = ''
+  for (const byte of value) {
+    binary += String.fromCharCode(byte)
+  }
+  return { type: 'blob', base64: btoa(binary) }
+}
+
+function fromHranaValue(value: HranaValue): unknown {
+  switch (value.type) {
+    case 'null':
+      return null
+    case 'integer': {
+      // Numbers like better-sqlite3 returns them, unless that would lose precision
+      const integer = BigInt(value.value)
+      return integer >= Number.MIN_SAFE_INTEGER && integer <= Number.MAX_SAFE_INTEGER
+        ? Number(integer)
+        : integer
+    }
+    case 'float':
+    case 'text':
+      return value.value
+    case 'blob':
+      return Uint8Array.from(atob(value.base64), (char) => char.charCodeAt(0))
+  }
+}
+
+function toResult(result: HranaStmtResult): RemoteSqliteResult {
+  const names = result.cols.map((col, i) => col.name ?? String(i))
+
+  return {
+    rows: result.rows.map((row) =>
+      Object.fromEntries(row.map((value, i) => [names[i], fromHranaValue(value)])),
+    ),
+    rowsAffected: result.affected_row_count,
+    lastInsertRowid:
+      result.last_insert_rowid !== null
+        ? BigInt(result.last_insert_rowid)
+        : undefined,
+  }
+}
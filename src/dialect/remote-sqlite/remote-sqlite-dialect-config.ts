@@ -0,0 +1,101 @@
+import { DatabaseConnection } from '../../driver/database-connection.js'
+
+/**
+ * Config for the remote SQLite dialect.
+ */
+export interface RemoteSqliteDialectConfig {
+  /**
+   * A {@link RemoteSqliteClient} or a function that returns one.
+   *
+   * If a function is provided, it's called once when the first query is executed.
+   */
+  client: RemoteSqliteClient | (() => Promise<RemoteSqliteClient>)
+
+  /**
+   * Called once for each connection, when it's first acquired.
+   */
+  onCreateConnection?: (connection: DatabaseConnection) => Promise<void>
+}
+
+export type RemoteSqliteValue = null | number | bigint | string | Uint8Array
+
+export interface RemoteSqliteStatement {
+  sql: string
+  args: ReadonlyArray<RemoteSqliteValue>
+}
+
+export interface RemoteSqliteResult {
+  rows: Record<string, unknown>[]
+  rowsAffected: number
+  lastInsertRowid?: bigint
+}
+
+/**
+ * Transport to a SQLite database outside of this process, such as a libSQL
+ * server over HTTP or a Cloudflare D1 binding.
+ */
+export interface RemoteSqliteClient {
+  /**
+   * Runs one statement on its own.
+   */
+  execute(statement: RemoteSqliteStatement): Promise<RemoteSqliteResult>
+
+  /**
+   * Runs the statements in one atomic unit: either all of them apply or none.
+   */
+  batch(statements: ReadonlyArray<RemoteSqliteStatement>): Promise<RemoteSqliteResult[]>
+
+  /**
+   * Opens a session that keeps its state, like an open transaction, between
+   * requests. Clients without interactive transactions leave this out.
+   */
+  openSession?(): RemoteSqliteSession
+
+  close?(): Promise<void>
+}
+
+export interface RemoteSqliteSession {
+  execute(statement: RemoteSqliteStatement): Promise<RemoteSqliteResult>
+  close(): Promise<void>
+}
+
+/**
+ * The subset of the `fetch` API the HTTP client uses.
+ *
+ * We don't use the DOM types here so that they're not needed to compile.
+ */
+export type RemoteSqliteFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string },
+) => Promise<{
+  ok: boolean
+  status: number
+  json(): Promise<unknown>
+  text(): Promise<string>
+}>
+
+/**
+ * This interface is the subset of Cloudflare's `D1Database` binding that
+ * kysely needs.
+ *
+ * We don't use the type from `@cloudflare/workers-types` here to not have a dependency to it.
+ *
+ * https://developers.cloudflare.com/d1/worker-api/d1-database/
+ */
+export interface D1Database {
+  prepare(query: string): D1PreparedStatement
+  batch(statements: D1PreparedStatement[]): Promise<D1Result[]>
+}
+
+export interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement
+  all(): Promise<D1Result>
+}
+
+export interface D1Result {
+  results?: unknown[]
+  meta: {
+    changes?: number
+    last_row_id?: number
+  }
+}
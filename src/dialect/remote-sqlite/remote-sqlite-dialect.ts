@@ -0,0 +1,59 @@
+import { Driver } from '../../driver/driver.js'
+import { Kysely } from '../../kysely.js'
+import { QueryCompiler } from '../../query-compiler/query-compiler.js'
+import { Dialect } from '../dialect.js'
+import { DatabaseIntrospector } from '../database-introspector.js'
+import { DialectAdapter } from '../dialect-adapter.js'
+import { SqliteQueryCompiler } from '../sqlite/sqlite-query-compiler.js'
+import { SqliteIntrospector } from '../sqlite/sqlite-introspector.js'
+import { SqliteAdapter } from '../sqlite/sqlite-adapter.js'
+import { RemoteSqliteDriver } from './remote-sqlite-driver.js'
+import { RemoteSqliteDialectConfig } from './remote-sqlite-dialect-config.js'
+import { freeze } from '../../util/object-utils.js'
+
+/**
+ * SQLite dialect for databases reached through a {@link RemoteSqliteClient}
+ * instead of a local file. Nothing here needs Node built-ins, so it works on
+ * edge runtimes.
+ *
+ * The constructor takes an instance of {@link RemoteSqliteDialectConfig}.
+ *
+ * A libSQL server (sqld, Turso) over HTTP:
+ *
+ * ```ts
+ * new RemoteSqliteDialect({
+ *   client: new HranaClient({ url: 'libsql://my-db.turso.io', authToken })
+ * })
+ * ```
+ *
+ * A Cloudflare D1 binding:
+ *
+ * ```ts
+ * new RemoteSqliteDialect({
+ *   client: new D1Client(env.DB)
+ * })
+ * ```
+ */
+export class RemoteSqliteDialect implements Dialect {
+  readonly #config: RemoteSqliteDialectConfig
+
+  constructor(config: RemoteSqliteDialectConfig) {
+    this.#config = freeze({ ...config })
+  }
+
+  createDriver(): Driver {
+    return new RemoteSqliteDriver(this.#config)
+  }
+
+  createQueryCompiler(): QueryCompiler {
+    return new SqliteQueryCompiler()
+  }
+
+  createAdapter(): DialectAdapter {
+    return new SqliteAdapter()
+  }
+
+  createIntrospector(db: Kysely<any>): DatabaseIntrospector {
+    return new SqliteIntrospector(db)
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  DatabaseConnection,
+  QueryResult,
+} from '../../driver/database-connection.js'
+import { Driver, TransactionSettings } from '../../driver/driver.js'
+import { parseSavepointCommand } from '../../parser/savepoint-parser.js'
+import { CompiledQuery } from '../../query-compiler/compiled-query.js'
+import { QueryCompiler } from '../../query-compiler/query-compiler.js'
+import { freeze, isFunction } from '../../util/object-utils.js'
+import { createQueryId } from '../../util/query-id.js'
+import { extendStackTrace } from '../../util/stack-trace-utils.js'
+import {
+  RemoteSqliteClient,
+  RemoteSqliteDialectConfig,
+  RemoteSqliteSession,
+  RemoteSqliteValue,
+} from './remote-sqlite-dialect-config.js'
+
+const PRIVATE_BEGIN_SESSION_METHOD = Symbol()
+const PRIVATE_END_SESSION_METHOD = Symbol()
+
+export class RemoteSqliteDriver implements Driver {
+  readonly #config: RemoteSqliteDialectConfig
+  readonly #idleConnections: RemoteSqliteConnection[] = []
+  #client?: RemoteSqliteClient
+
+  constructor(config: RemoteSqliteDialectConfig) {
+    this.#config = freeze({ ...config })
+  }
+
+  async init(): Promise<void> {
+    this.#client = isFunction(this.#config.client)
+      ? await this.#config.client()
+      : this.#config.client
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    if (!this.#client) {
+      throw new Error('driver has already been destroyed')
+    }
+
+    // Outside of transactions every request stands on its own, so
+    // connections are cheap and any number of them can be in use
+    let connection = this.#idleConnections.pop()
+
+    if (!connection) {
+      connection = new RemoteSqliteConnection(this.#client)
+      await this.#config.onCreateConnection?.(connection)
+    }
+
+    return connection
+  }
+
+  async beginTransaction(
+    connection: RemoteSqliteConnection,
+    settings: TransactionSettings = {},
+  ): Promise<void> {
+    connection[PRIVATE_BEGIN_SESSION_METHOD]()
+
+    try {
+      await connection.executeQuery(CompiledQuery.raw('begin'))
+
+      // SQLite has no read-only transactions. `query_only` rejects writes on
+      // the session's connection, which ends with the transaction.
+      if (settings.accessMode === 'read only') {
+        await connection.executeQuery(CompiledQuery.raw('pragma query_only = 1'))
+      }
+    } catch (error) {
+      await connection[PRIVATE_END_SESSION_METHOD]()
+      throw error
+    }
+  }
+
+  async commitTransaction(connection: RemoteSqliteConnection): Promise<void> {
+    try {
+      await connection.executeQuery(CompiledQuery.raw('commit'))
+    } finally {
+      await connection[PRIVATE_END_SESSION_METHOD]()
+    }
+  }
+
+  async rollbackTransaction(connection: RemoteSqliteConnection): Promise<void> {
+    try {
+      await connection.executeQuery(CompiledQuery.raw('rollback'))
+    } finally {
+      await connection[PRIVATE_END_SESSION_METHOD]()
+    }
+  }
+
+  async savepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('savepoint', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async rollbackToSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('rollback to', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async releaseSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery'],
+  ): Promise<void> {
+    await connection.executeQuery(
+      compileQuery(
+        parseSavepointCommand('release', savepointName),
+        createQueryId(),
+      ),
+    )
+  }
+
+  async releaseConnection(connection: RemoteSqliteConnection): Promise<void> {
+    await connection[PRIVATE_END_SESSION_METHOD]()
+    this.#idleConnections.push(connection)
+  }
+
+  async destroy(): Promise<void> {
+    if (this.#client) {
+      const client = this.#client
+      this.#client = undefined
+      this.#idleConnections.length = 0
+
+      await client.close?.()
+    }
+  }
+}
+
+/**
+ * Converts parameters to values SQLite can store, like the SQLite driver does
+ */
+function toRemoteSqliteValue(parameter: unknown): RemoteSqliteValue {
+  if (parameter === undefined || parameter === null) {
+    return null
+  }
+  if (typeof parameter === 'boolean') {
+    return parameter ? 1 : 0
+  }
+  if (parameter instanceof Date) {
+    return parameter.toISOString()
+  }
+  if (parameter instanceof Uint8Array) {
+    return parameter
+  }
+  if (typeof parameter === 'object') {
+    return JSON.stringify(parameter)
+  }
+  return parameter as RemoteSqliteValue
+}
+
+class RemoteSqliteConnection implements DatabaseConnection {
+  readonly #client: RemoteSqliteClient
+  #session?: RemoteSqliteSession
+
+  constructor(client: RemoteSqliteClient) {
+    this.#client = client
+  }
+
+  async executeQuery<O>(compiledQuery: CompiledQuery): Promise<QueryResult<O>> {
+    const statement = {
+      sql: compiledQuery.sql,
+      args: compiledQuery.parameters.map(toRemoteSqliteValue),
+    }
+
+    try {
+      const { rows, rowsAffected, lastInsertRowid } = this.#session
+        ? await this.#session.execute(statement)
+        : await this.#client.execute(statement)
+
+      return {
+        numAffectedRows: BigInt(rowsAffected),
+        insertId: rowsAffected > 0 ? lastInsertRowid : undefined,
+        rows: rows as O[],
+      }
+    } catch (err) {
+      throw extendStackTrace(err, new Error())
+    }
+  }
+
+  async *streamQuery<R>(
+    compiledQuery: CompiledQuery,
+    chunkSize: number = 100,
+  ): AsyncIterableIterator<QueryResult<R>> {
+    // Results arrive in one response, so they're only handed out in chunks
+    const { rows } = await this.executeQuery<R>(compiledQuery)
+
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      yield {
+        rows: rows.slice(i, i + chunkSize),
+      }
+    }
+  }
+
+  [PRIVATE_BEGIN_SESSION_METHOD](): void {
+    if (!this.#client.openSession) {
+      throw new Error(
+        'This SQLite client has no interactive transactions. Run statements that must apply together with its batch() method.',
+      )
+    }
+
+    this.#session = this.#client.openSession()
+  }
+
+  async [PRIVATE_END_SESSION_METHOD](): Promise<void> {
+    const session = this.#session
+    this.#session = undefined
+    await session?.close()
+  }
+}
@@ -1,11 +1,13 @@
 import type { Kysely } from '../../kysely.js'
 import { sql } from '../../raw-builder/sql.js'
 import { Logger } from '../../logging/logger.js'
+import { QueryStatsDelta, SQLiteQueryStatsStore } from './sqlite-query-stats-store.js'
+import { explainQueryPlan, findQueryPlanIssues } from './sqlite-index-advisor.js'
 
 export interface IndexRecommendation {
   table: string
   columns: string[]
-  type: 'single' | 'composite' | 'unique' | 'partial'
+  type: 'single' | 'composite' | 'unique' | 'partial' | 'covering'
   priority: 'low' | 'medium' | 'high' | 'critical'
   reason: string
   estimatedImpact: 'low' | 'medium' | 'high'
@@ -22,6 +24,11 @@ export interface QueryPattern {
   joinColumns: string[]
   lastExecuted: Date
   averageExecutionTime: number
+  /** The query as executed, with parameter placeholders */
+  sampleQuery?: string
+  /** EXPLAIN QUERY PLAN details, filled in when patterns are persisted */
+  queryPlan?: string[]
+  fullScan?: boolean
 }
 
 export interface IndexAnalysisResult {
@@ -42,9 +49,18 @@ export class SQLiteAutoIndexer {
   private queryPatterns: Map<string, QueryPattern> = new Map()
   private existingIndexes: Map<string, any[]> = new Map()
   private analysisHistory: Map<string, IndexAnalysisResult> = new Map()
+  // Counts already written to the query stats table, per pattern
+  private persistedCounts: Map<string, { frequency: number; totalTime: number }> = new Map()
 
-  private constructor(private logger: Logger) {}
+  /**
+   * Each NOORMME instance creates its own indexer so query patterns recorded
+   * against one database are never flushed into another.
+   */
+  constructor(private logger: Logger) {}
 
+  /**
+   * Process-wide shared indexer, for standalone tooling only
+   */
   static getInstance(logger: Logger): SQLiteAutoIndexer {
     if (!SQLiteAutoIndexer.instance) {
       SQLiteAutoIndexer.instance = new SQLiteAutoIndexer(logger)
@@ -79,12 +95,102 @@ export class SQLiteAutoIndexer {
         orderByColumns: this.extractOrderByColumns(query),
         joinColumns: this.extractJoinColumns(query),
         lastExecuted: new Date(),
-        averageExecutionTime: executionTime
+        averageExecutionTime: executionTime,
+        sampleQuery: query
       }
       this.queryPatterns.set(normalizedQuery, newPattern)
     }
   }
 
+  /**
+   * Add the executions recorded since the last call to the database's
+   * query stats table, explaining new patterns on the way. Returns the
+   * number of patterns written.
+   */
+  async persistQueryPatterns(db: Kysely<any>, statsWindow?: number): Promise<number> {
+    const store = new SQLiteQueryStatsStore(db, statsWindow)
+    await store.initialize()
+
+    const deltas: QueryStatsDelta[] = []
+    for (const pattern of this.queryPatterns.values()) {
+      const delta = this.getUnpersistedDelta(pattern)
+      if (delta.frequency <= 0) continue
+
+      if (pattern.queryPlan === undefined) {
+        const plan = await explainQueryPlan(db, pattern.sampleQuery ?? pattern.query)
+        pattern.queryPlan = plan ?? []
+        pattern.fullScan = plan ? findQueryPlanIssues(plan).some(issue => issue.kind === 'full_scan') : undefined
+      }
+
+      deltas.push({ pattern, ...delta })
+    }
+
+    await store.add(deltas)
+
+    for (const { pattern } of deltas) {
+      this.persistedCounts.set(pattern.query, {
+        frequency: pattern.frequency,
+        totalTime: pattern.averageExecutionTime * pattern.frequency
+      })
+    }
+
+    return deltas.length
+  }
+
+  /**
+   * Patterns to analyze: the query stats table when some process persists
+   * patterns to it, plus whatever this process has not written there yet
+   */
+  async getQueryPatterns(db: Kysely<any>, statsWindow?: number): Promise<QueryPattern[]> {
+    const store = new SQLiteQueryStatsStore(db, statsWindow)
+
+    let stored: QueryPattern[]
+    try {
+      if (!(await store.exists())) {
+        return Array.from(this.queryPatterns.values())
+      }
+      stored = await store.load()
+    } catch (error) {
+      this.logger.warn('Failed to load persisted query stats:', error)
+      return Array.from(this.queryPatterns.values())
+    }
+
+    const patterns = new Map(stored.map(p => [p.query, p]))
+    for (const pattern of this.queryPatterns.values()) {
+      const delta = this.getUnpersistedDelta(pattern)
+      if (delta.frequency <= 0) continue
+
+      const existing = patterns.get(pattern.query)
+      if (existing) {
+        const frequency = existing.frequency + delta.frequency
+        patterns.set(pattern.query, {
+          ...existing,
+          frequency,
+          averageExecutionTime: (existing.averageExecutionTime * existing.frequency + delta.totalTime) / frequency,
+          lastExecuted: pattern.lastExecuted > existing.lastExecuted ? pattern.lastExecuted : existing.lastExecuted,
+          queryPlan: pattern.queryPlan ?? existing.queryPlan,
+          fullScan: pattern.fullScan ?? existing.fullScan
+        })
+      } else {
+        patterns.set(pattern.query, {
+          ...pattern,
+          frequency: delta.frequency,
+          averageExecutionTime: delta.totalTime / delta.frequency
+        })
+      }
+    }
+
+    return Array.from(patterns.values())
+  }
+
+  private getUnpersistedDelta(pattern: QueryPattern): { frequency: number; totalTime: number } {
+    const persisted = this.persistedCounts.get(pattern.query) ?? { frequency: 0, totalTime: 0 }
+    return {
+      frequency: pattern.frequency - persisted.frequency,
+      totalTime: pattern.averageExecutionTime * pattern.frequency - persisted.totalTime
+    }
+  }
+
   /**
    * Analyze query patterns and generate index recommendations
    */
@@ -95,13 +201,16 @@ export class SQLiteAutoIndexer {
       slowQueryThreshold?: number
       includePartialIndexes?: boolean
       maxRecommendations?: number
+      /** Age limit in ms for persisted query stats */
+      statsWindow?: number
     } = {}
   ): Promise<IndexAnalysisResult> {
     const {
       minFrequency = 3,
       slowQueryThreshold = 1000,
       includePartialIndexes = true,
-      maxRecommendations = 20
+      maxRecommendations = 20,
+      statsWindow
     } = options
 
     try {
@@ -109,7 +218,7 @@ export class SQLiteAutoIndexer {
       await this.loadExistingIndexes(db)
 
       // Filter relevant patterns
-      const relevantPatterns = Array.from(this.queryPatterns.values())
+      const relevantPatterns = (await this.getQueryPatterns(db, statsWindow))
         .filter(pattern => 
           pattern.frequency >= minFrequency || 
           pattern.averageExecutionTime > slowQueryThreshold
@@ -229,7 +338,7 @@ export class SQLiteAutoIndexer {
         columns: [column],
         type,
         priority,
-        reason: `Frequently queried column (${pattern.frequency} times, avg ${Math.round(pattern.averageExecutionTime)}ms)`,
+        reason: `Frequently queried column (${pattern.frequency} times, avg ${Math.round(pattern.averageExecutionTime)}ms${pattern.fullScan ? ', full table scan' : ''})`,
         estimatedImpact: this.estimateImpact(pattern),
         sql: this.generateIndexSQL(pattern.table, [column], type, includePartialIndexes)
       })
@@ -450,7 +559,7 @@ export class SQLiteAutoIndexer {
   private calculateWherePriority(pattern: QueryPattern, column: string): 'low' | 'medium' | 'high' | 'critical' {
     if (pattern.averageExecutionTime > 5000) return 'critical'
     if (pattern.frequency > 20) return 'high'
-    if (pattern.frequency > 10) return 'medium'
+    if (pattern.frequency > 10 || pattern.fullScan) return 'medium'
     return 'low'
   }
 
@@ -574,7 +683,9 @@ export class SQLiteAutoIndexer {
    * Extract WHERE columns from query
    */
   private extractWhereColumns(query: string): string[] {
-    const whereMatch = query.match(/WHERE\s+([^ORDER\s]+)/i)
+    const whereMatch = query
+      .replace(/["`]/g, '')
+      .match(/WHERE\s+(.+?)(?:\s+(?:GROUP\s+BY|ORDER\s+BY|LIMIT)\b|$)/is)
     if (!whereMatch) return []
 
     const whereClause = whereMatch[1]
@@ -682,6 +793,7 @@ export class SQLiteAutoIndexer {
     this.queryPatterns.clear()
     this.existingIndexes.clear()
     this.analysisHistory.clear()
+    this.persistedCounts.clear()
   }
 
   /**
@@ -422,13 +422,18 @@ export class SQLiteAutoOptimizer {
 
     // Check for WAL files
     if (metrics.journalMode === 'wal') {
-      recommendations.push('When using WAL mode, ensure to backup both the main database file and WAL file for consistency.')
+      recommendations.push('When using WAL mode, copying the database file misses changes still in the WAL file. Use db.backup(), which takes a consistent online backup.')
     }
 
     // Check database size
     const dbSize = metrics.pageCount * metrics.pageSize
     if (dbSize > 100 * 1024 * 1024) { // 100MB
-      recommendations.push('For large databases, consider using SQLite backup API or .backup command for efficient backups.')
+      recommendations.push('For large databases, schedule rotating backups with db.scheduleBackups({ directory, interval, keep }).')
+    }
+
+    // Free pages are copied along by the backup API
+    if (metrics.freelistCount > metrics.pageCount * 0.1) {
+      recommendations.push('Many pages are unused; db.backup(path, { compact: true }) writes a smaller copy with VACUUM INTO.')
     }
 
     // Check for active transactions
@@ -0,0 +1,311 @@
+import type { Database as SQLiteDatabase } from 'better-sqlite3'
+import type { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import { Logger } from '../../logging/logger.js'
+import { NoormError } from '../../errors/NoormError.js'
+import { importModule } from '../../util/import-module.js'
+
+export interface BackupProgress {
+  totalPages: number
+  remainingPages: number
+  /** 0 to 100 */
+  percent: number
+}
+
+export interface BackupOptions {
+  /** Called after every step of an online backup */
+  onProgress?: (progress: BackupProgress) => void
+  /** Pages copied per step; the database is unlocked between steps. Default 100 */
+  pagesPerStep?: number
+  /** Write a compacted copy with `VACUUM INTO` instead. Progress is not reported. */
+  compact?: boolean
+  /** Run `PRAGMA integrity_check` on the copy. Default true */
+  verify?: boolean
+}
+
+export interface DirectoryBackupOptions extends Omit<BackupOptions, 'onProgress'> {
+  /** Number of backups to keep in the directory, oldest are removed first */
+  keep?: number
+}
+
+export interface ScheduledBackupOptions extends DirectoryBackupOptions {
+  directory: string
+  /** In milliseconds */
+  interval: number
+  onBackup?: (result: BackupResult) => void
+  onError?: (error: unknown) => void
+}
+
+export interface BackupResult {
+  path: string
+  size: number
+  durationMs: number
+  compacted: boolean
+  verified: boolean
+}
+
+export interface BackupFile {
+  path: string
+  createdAt: Date
+  size: number
+}
+
+export interface IntegrityCheckResult {
+  ok: boolean
+  errors: string[]
+}
+
+export interface BackupSchedule {
+  /** Take a backup now, in between the scheduled ones */
+  runNow(): Promise<BackupResult>
+  stop(): void
+}
+
+const TIMESTAMP = /^(.+)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.sqlite$/
+
+/**
+ * Online backups of a SQLite database through better-sqlite3's backup API,
+ * compacted copies with `VACUUM INTO`, rotating backup directories and
+ * restores.
+ *
+ * Backups are written next to their destination under a temporary name and
+ * only renamed once complete (and verified), so a destination never holds a
+ * partial copy.
+ */
+export class SQLiteBackupManager {
+  constructor(
+    private db: Kysely<any>,
+    private getDatabase: () => SQLiteDatabase,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Copy the database to `destination` while it stays in use
+   */
+  async backup(destination: string, options: BackupOptions = {}): Promise<BackupResult> {
+    const { fs, path } = await loadNodeModules()
+    const database = this.getDatabase()
+    const target = path.resolve(destination)
+    if (target === path.resolve(database.name)) {
+      throw new NoormError('Cannot back up a database onto itself', { operation: 'backup' })
+    }
+
+    const started = Date.now()
+    const temporary = `${target}.tmp-${process.pid}`
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.rm(temporary, { force: true })
+
+    try {
+      if (options.compact) {
+        await sql`vacuum into ${temporary}`.execute(this.db)
+      } else {
+        const steps = stepper(options)
+        await database.backup(temporary, { progress: steps.progress })
+        steps.done()
+      }
+
+      const verified = options.verify ?? true
+      if (verified) {
+        await this.assertIntact(temporary, 'backup')
+      }
+
+      await fs.rename(temporary, target)
+      const { size } = await fs.stat(target)
+      const result = { path: target, size, durationMs: Date.now() - started, compacted: !!options.compact, verified }
+      this.logger.info(`Backed up ${database.name} to ${target} (${size} bytes in ${result.durationMs}ms)`)
+      return result
+    } catch (error) {
+      await fs.rm(temporary, { force: true })
+      throw error
+    }
+  }
+
+  /**
+   * Back up into `directory` under a timestamped name and remove the
+   * oldest backups beyond `keep`
+   */
+  async backupToDirectory(directory: string, options: DirectoryBackupOptions = {}): Promise<BackupResult> {
+    const { fs, path } = await loadNodeModules()
+    const prefix = backupPrefix(this.getDatabase().name)
+    const existing = await listBackups(directory, this.getDatabase().name)
+
+    // Names must be unique even for backups within the same millisecond
+    let createdAt = Date.now()
+    while (existing.some(file => file.createdAt.getTime() >= createdAt)) {
+      createdAt++
+    }
+
+    const file = path.join(directory, `${prefix}-${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}.sqlite`)
+    const result = await this.backup(file, options)
+
+    if (options.keep !== undefined) {
+      const backups = await listBackups(directory, this.getDatabase().name)
+      for (const old of backups.slice(Math.max(options.keep, 1))) {
+        await fs.rm(old.path, { force: true })
+        this.logger.debug(`Removed old backup ${old.path}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Take a backup into `directory` every `interval` milliseconds
+   */
+  schedule(options: ScheduledBackupOptions): BackupSchedule {
+    const { directory, interval, onBackup, onError, ...backupOptions } = options
+    if (!(interval > 0)) {
+      throw new NoormError('Backup interval must be a positive number of milliseconds', { operation: 'backup' })
+    }
+
+    // Runs never overlap
+    let last: Promise<unknown> = Promise.resolve()
+    const runNow = () => {
+      const run = last.then(() => this.backupToDirectory(directory, backupOptions))
+      last = run.catch(() => undefined)
+      return run
+    }
+
+    const timer = setInterval(() => {
+      runNow().then(
+        result => onBackup?.(result),
+        error => {
+          this.logger.error('Scheduled backup failed:', error)
+          onError?.(error)
+        }
+      )
+    }, interval)
+    timer.unref?.()
+
+    return {
+      runNow,
+      stop: () => clearInterval(timer)
+    }
+  }
+
+  /**
+   * Replace the database's contents with a backup. Queries wait until the
+   * restore is done.
+   */
+  async restore(source: string, options: Pick<BackupOptions, 'onProgress' | 'pagesPerStep' | 'verify'> = {}): Promise<void> {
+    const { fs, path } = await loadNodeModules()
+    const database = this.getDatabase()
+    const file = path.resolve(source)
+    await fs.access(file).catch(() => {
+      throw new NoormError(`Backup file not found: ${file}`, { operation: 'restore' })
+    })
+
+    if (options.verify ?? true) {
+      await this.assertIntact(file, 'restore')
+    }
+
+    const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+    const backup = new Database(file, { readonly: true, fileMustExist: true })
+
+    try {
+      // Holding the connection keeps other queries out while pages are replaced
+      await this.db.connection().execute(async () => {
+        const steps = stepper(options)
+        await backup.backup(database.name, { progress: steps.progress })
+        steps.done()
+      })
+    } finally {
+      backup.close()
+    }
+
+    this.logger.info(`Restored ${database.name} from ${file}`)
+  }
+
+  /**
+   * Run `PRAGMA integrity_check` on a database file
+   */
+  async verify(file: string): Promise<IntegrityCheckResult> {
+    const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+
+    let database: SQLiteDatabase | undefined
+    try {
+      database = new Database(file, { readonly: true, fileMustExist: true })
+      const rows = database.pragma('integrity_check') as Array<{ integrity_check: string }>
+      const errors = rows.map(row => row.integrity_check).filter(message => message !== 'ok')
+      return { ok: errors.length === 0, errors }
+    } catch (error) {
+      // Files that aren't databases at all fail to open or to read
+      return { ok: false, errors: [error instanceof Error ? error.message : String(error)] }
+    } finally {
+      database?.close()
+    }
+  }
+
+  private async assertIntact(file: string, operation: string): Promise<void> {
+    const { ok, errors } = await this.verify(file)
+    if (!ok) {
+      throw new NoormError(`Integrity check failed for ${file}: ${errors.slice(0, 5).join('; ')}`, {
+        operation,
+        suggestion: operation === 'restore' ? 'Restore from another backup' : 'Run PRAGMA integrity_check on the database'
+      })
+    }
+  }
+}
+
+/**
+ * Backups taken with `backupToDirectory`, newest first. Pass the database
+ * file to only list its backups.
+ */
+export async function listBackups(directory: string, database?: string): Promise<BackupFile[]> {
+  const { fs, path } = await loadNodeModules()
+  const names = await fs.readdir(directory).catch(() => [] as string[])
+  const prefix = database ? backupPrefix(database) : undefined
+  const backups: BackupFile[] = []
+
+  for (const name of names) {
+    const match = TIMESTAMP.exec(name)
+    if (!match || (prefix !== undefined && match[1] !== prefix)) {
+      continue
+    }
+
+    const [, , date, hours, minutes, seconds, millis] = match
+    const file = path.join(directory, name)
+    const { size } = await fs.stat(file)
+    backups.push({ path: file, createdAt: new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`), size })
+  }
+
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+/**
+ * Progress callback for better-sqlite3's backup API, which returns the
+ * number of pages to copy in the next step. The API doesn't report the
+ * last step, so `done` does.
+ */
+function stepper(options: Pick<BackupOptions, 'onProgress' | 'pagesPerStep'>) {
+  let totalPages = 0
+  const report = (remainingPages: number) => options.onProgress?.({
+    totalPages,
+    remainingPages,
+    percent: totalPages === 0 ? 100 : Math.round(((totalPages - remainingPages) / totalPages) * 100)
+  })
+
+  return {
+    progress: (info: { totalPages: number; remainingPages: number }): number => {
+      totalPages = info.totalPages
+      report(info.remainingPages)
+      return options.pagesPerStep ?? 100
+    },
+    done: () => report(0)
+  }
+}
+
+function backupPrefix(database: string): string {
+  return database.split(/[\\/]/).pop()!.replace(/\.[^.]*$/, '')
+}
+
+/**
+ * Node built-ins are loaded on first use to keep them out of edge bundles
+ */
+async function loadNodeModules() {
+  const [{ promises: fs }, path] = await Promise.all([
+    importModule<typeof import('fs')>('fs'),
+    importModule<typeof import('path')>('path')
+  ])
+  return { fs, path }
+}
@@ -2,7 +2,7 @@ import {
   DatabaseConnection,
   QueryResult,
 } from '../../driver/database-connection.js'
-import { Driver } from '../../driver/driver.js'
+import { Driver, TransactionSettings } from '../../driver/driver.js'
 import { SelectQueryNode } from '../../operation-node/select-query-node.js'
 import { parseSavepointCommand } from '../../parser/savepoint-parser.js'
 import { CompiledQuery } from '../../query-compiler/compiled-query.js'
@@ -17,6 +17,7 @@ export class SqliteDriver implements Driver {
 
   #db?: SqliteDatabase
   #connection?: DatabaseConnection
+  #readOnlyTransaction = false
 
   constructor(config: SqliteDialectConfig) {
     this.#config = freeze({ ...config })
@@ -45,16 +46,35 @@ export class SqliteDriver implements Driver {
     return this.#connection!
   }
 
-  async beginTransaction(connection: DatabaseConnection): Promise<void> {
+  async beginTransaction(
+    connection: DatabaseConnection,
+    settings: TransactionSettings = {},
+  ): Promise<void> {
     await connection.executeQuery(CompiledQuery.raw('begin'))
+
+    // SQLite has no read-only transactions. `query_only` rejects writes on
+    // the connection until the transaction ends.
+    if (settings.accessMode === 'read only') {
+      await connection.executeQuery(CompiledQuery.raw('pragma query_only = 1'))
+      this.#readOnlyTransaction = true
+    }
   }
 
   async commitTransaction(connection: DatabaseConnection): Promise<void> {
     await connection.executeQuery(CompiledQuery.raw('commit'))
+    await this.#endReadOnlyTransaction(connection)
   }
 
   async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
     await connection.executeQuery(CompiledQuery.raw('rollback'))
+    await this.#endReadOnlyTransaction(connection)
+  }
+
+  async #endReadOnlyTransaction(connection: DatabaseConnection): Promise<void> {
+    if (this.#readOnlyTransaction) {
+      this.#readOnlyTransaction = false
+      await connection.executeQuery(CompiledQuery.raw('pragma query_only = 0'))
+    }
   }
 
   async savepoint(
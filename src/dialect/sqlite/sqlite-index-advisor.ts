@@ -0,0 +1,286 @@
+import { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import { CompiledQuery } from '../../query-compiler/compiled-query.js'
+import { Logger } from '../../logging/logger.js'
+import { SqliteDialect } from './sqlite-dialect.js'
+import { importModule } from '../../util/import-module.js'
+import type { IndexAdvice, QueryPlanIssue } from '../../types/index.js'
+import {
+  AdvisedQuery,
+  buildIndexCandidates,
+  countResolvedIssues,
+  createIndexAdvice,
+  indexCandidateName,
+  indexCandidateSQL,
+  pickIndexCandidate,
+  TableAccess,
+  TestedIndexCandidate
+} from '../../performance/utils/index-candidates.js'
+
+const CLAUSE_END = String.raw`(?=\s+(?:group\s+by|order\s+by|having|limit|offset|window|union|except|intersect)\b|$)`
+const JOIN_KEYWORDS = new Set(['on', 'using', 'where', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'join', 'group', 'order', 'limit', 'set', 'values'])
+
+/**
+ * Run EXPLAIN QUERY PLAN for a statement with `?` placeholders, binding
+ * NULL to every parameter. Returns null for statements SQLite cannot plan.
+ */
+export async function explainQueryPlan(db: Kysely<any>, statement: string): Promise<string[] | null> {
+  try {
+    const parameters = new Array((statement.match(/\?/g) ?? []).length).fill(null)
+    const result = await db.executeQuery<{ detail: string }>(
+      CompiledQuery.raw(`EXPLAIN QUERY PLAN ${statement}`, parameters)
+    )
+    return result.rows.map(row => row.detail)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Full table scans and temporary b-trees in an EXPLAIN QUERY PLAN.
+ * Tables are reported by the name the plan uses, which may be an alias.
+ */
+export function findQueryPlanIssues(plan: string[]): QueryPlanIssue[] {
+  const issues: QueryPlanIssue[] = []
+  for (const detail of plan) {
+    const scan = detail.match(/^SCAN (\S+)/)
+    // `SCAN t USING INDEX i` walks an index rather than the table
+    if (scan && scan[1] !== 'CONSTANT' && !/ USING (COVERING )?INDEX | USING INTEGER PRIMARY KEY|VIRTUAL TABLE/.test(detail)) {
+      issues.push({ kind: 'full_scan', table: scan[1], detail })
+    } else if (/^USE TEMP B-TREE FOR /.test(detail)) {
+      issues.push({ kind: 'sort', detail })
+    }
+  }
+  return issues
+}
+
+/**
+ * Recommends indexes from the query plans of recorded queries. Candidate
+ * indexes are created in an in-memory copy of the schema and only those
+ * the planner uses to remove a full scan or temporary b-tree are reported.
+ */
+export class SQLiteIndexAdvisor {
+  constructor(
+    private db: Kysely<any>,
+    private logger: Logger
+  ) {}
+
+  async advise(queries: AdvisedQuery[], options: { maxRecommendations?: number } = {}): Promise<IndexAdvice[]> {
+    const { maxRecommendations = 20 } = options
+    const sandbox = await this.createSandbox()
+
+    try {
+      const advice = new Map<string, IndexAdvice>()
+      const sorted = [...queries].sort((a, b) => b.frequency - a.frequency)
+
+      for (const query of sorted) {
+        const result = await this.adviseQuery(sandbox, query)
+        if (!result) continue
+
+        const existing = advice.get(result.recommendation.sql)
+        if (existing) {
+          existing.frequency += result.frequency
+        } else {
+          advice.set(result.recommendation.sql, result)
+        }
+      }
+
+      return Array.from(advice.values()).slice(0, maxRecommendations)
+    } finally {
+      await sandbox.destroy()
+    }
+  }
+
+  private async adviseQuery(sandbox: Kysely<any>, query: AdvisedQuery): Promise<IndexAdvice | null> {
+    const planBefore = await explainQueryPlan(sandbox, query.sql)
+    if (!planBefore) {
+      this.logger.debug(`Skipping query SQLite cannot plan: ${query.sql}`)
+      return null
+    }
+
+    const parsed = parseStatement(query.sql)
+    const issues = findQueryPlanIssues(planBefore).map(issue => ({
+      ...issue,
+      table: issue.table && (parsed.aliases.get(issue.table) ?? issue.table)
+    }))
+    if (issues.length === 0) return null
+
+    const tested: TestedIndexCandidate[] = []
+    for (const table of new Set(parsed.aliases.values())) {
+      const columns = await this.getColumns(sandbox, table)
+      if (columns.length === 0) continue
+
+      for (const candidate of buildIndexCandidates(describeTableAccess(parsed, table, columns))) {
+        const name = indexCandidateName(candidate)
+        try {
+          await sql.raw(indexCandidateSQL(candidate, name)).execute(sandbox)
+        } catch {
+          continue
+        }
+
+        const planAfter = await explainQueryPlan(sandbox, query.sql)
+        await sql`drop index ${sql.id(name)}`.execute(sandbox)
+
+        if (planAfter?.some(detail => detail.includes(` INDEX ${name}`))) {
+          const after = findQueryPlanIssues(planAfter).map(issue => ({
+            ...issue,
+            table: issue.table && (parsed.aliases.get(issue.table) ?? issue.table)
+          }))
+          tested.push({ candidate, planAfter, resolved: countResolvedIssues(issues, after) })
+        }
+      }
+    }
+
+    const best = pickIndexCandidate(tested)
+    return best ? createIndexAdvice(query, issues, planBefore, best.candidate, best.planAfter, true) : null
+  }
+
+  /**
+   * An empty in-memory database with the same tables, indexes, views and
+   * planner statistics
+   */
+  private async createSandbox(): Promise<Kysely<any>> {
+    const sandbox = new Kysely<any>({
+      dialect: new SqliteDialect({
+        database: async () => {
+          const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+          return new Database(':memory:')
+        }
+      })
+    })
+
+    const { rows: schema } = await sql<{ name: string; sql: string }>`
+      select name, sql from sqlite_master
+      where sql is not null and name not like 'sqlite_%' and type in ('table', 'index', 'view')
+      order by case type when 'table' then 0 when 'index' then 1 else 2 end
+    `.execute(this.db)
+
+    for (const object of schema) {
+      try {
+        await sql.raw(object.sql).execute(sandbox)
+      } catch (error) {
+        this.logger.debug(`Could not copy ${object.name} to the index advisor sandbox:`, error)
+      }
+    }
+
+    const stats = await this.db
+      .selectFrom('sqlite_master')
+      .select('name')
+      .where('name', '=', 'sqlite_stat1')
+      .executeTakeFirst()
+    if (stats) {
+      const { rows } = await sql<{ tbl: string; idx: string | null; stat: string }>`
+        select tbl, idx, stat from sqlite_stat1
+      `.execute(this.db)
+
+      await sql`analyze`.execute(sandbox)
+      await sql`delete from sqlite_stat1`.execute(sandbox)
+      for (const row of rows) {
+        await sql`insert into sqlite_stat1 (tbl, idx, stat) values (${row.tbl}, ${row.idx}, ${row.stat})`.execute(sandbox)
+      }
+      // Make the planner reload the copied statistics
+      await sql`analyze sqlite_master`.execute(sandbox)
+    }
+
+    return sandbox
+  }
+
+  private async getColumns(sandbox: Kysely<any>, table: string): Promise<string[]> {
+    const { rows } = await sql<{ name: string }>`select name from pragma_table_info(${table})`.execute(sandbox)
+    return rows.map(row => row.name)
+  }
+}
+
+interface ParsedStatement {
+  /** Table names and aliases, mapped to table names */
+  aliases: Map<string, string>
+  select: string | null
+  where: string | null
+  joinConditions: string[]
+  orderBy: string[]
+}
+
+function parseStatement(statement: string): ParsedStatement {
+  const text = statement.replace(/["`]/g, '').replace(/\s+/g, ' ').trim()
+
+  const aliases = new Map<string, string>()
+  for (const match of text.matchAll(/\b(?:from|join|update|into)\s+(\w+)(?:\s+(?:as\s+)?(\w+))?/gi)) {
+    aliases.set(match[1], match[1])
+    if (match[2] && !JOIN_KEYWORDS.has(match[2].toLowerCase())) {
+      aliases.set(match[2], match[1])
+    }
+  }
+
+  const select = text.match(/^select\s+(?:distinct\s+)?(.+?)\s+from\s/i)?.[1] ?? null
+  const where = text.match(new RegExp(String.raw`\bwhere\s+(.+?)${CLAUSE_END}`, 'i'))?.[1] ?? null
+  const joinConditions = Array.from(
+    text.matchAll(/\bon\s+(.+?)(?=\s+(?:inner|left|right|full|cross|natural|join|where|group|order|limit)\b|$)/gi),
+    match => match[1]
+  )
+  const groupBy = text.match(/\bgroup\s+by\s+(.+?)(?=\s+(?:having|order\s+by|limit|window)\b|$)/i)?.[1]
+  const orderBy = text.match(/\border\s+by\s+(.+?)(?=\s+(?:limit|offset)\b|$)/i)?.[1]
+
+  return {
+    aliases,
+    select,
+    where,
+    joinConditions,
+    orderBy: [groupBy, orderBy]
+      .filter((clause): clause is string => !!clause)
+      .flatMap(clause => clause.split(','))
+      .map(term => term.trim().replace(/\s+(asc|desc|nulls\s+(first|last)|collate\s+\w+).*$/i, ''))
+  }
+}
+
+function describeTableAccess(parsed: ParsedStatement, table: string, columns: string[]): TableAccess {
+  const names = new Set([...parsed.aliases].filter(([, t]) => t === table).map(([name]) => name))
+  const ownColumn = (qualifier: string | undefined, column: string) =>
+    columns.includes(column) && (qualifier ? names.has(qualifier) : true)
+
+  const access: TableAccess = { table, equality: [], range: [], orderBy: [], selected: null, literals: [] }
+  const predicate = /(?:(\w+)\.)?(\w+)\s*(==|=|<=|>=|<>|!=|<|>|\bnot\s+in\b|\bin\b|\bis\s+not\b|\bis\b|\bbetween\b|\blike\b|\bglob\b)\s*('[^']*'|-?\d+(?:\.\d+)?\b|null\b|\?|(?:\w+\.)?\w+)?/gi
+
+  const conditions = [
+    ...(parsed.where ? [{ clause: parsed.where, literal: true }] : []),
+    ...parsed.joinConditions.map(clause => ({ clause, literal: false }))
+  ]
+  for (const { clause, literal } of conditions) {
+    for (const [, qualifier, column, rawOperator, operand] of clause.matchAll(predicate)) {
+      const operator = rawOperator.toLowerCase().replace(/\s+/g, ' ')
+      if (!ownColumn(qualifier, column)) {
+        // `a.x = b.y` in a join condition constrains the right-hand table too
+        const right = operand?.match(/^(\w+)\.(\w+)$/)
+        if (operator === '=' && right && ownColumn(right[1], right[2])) {
+          access.equality.push(right[2])
+        }
+        continue
+      }
+
+      if (['=', '==', 'in', 'is'].includes(operator)) {
+        access.equality.push(column)
+        if (literal && operand && /^('|-?\d|null$)/i.test(operand)) {
+          access.literals.push({ column, predicate: `"${column}" ${operator.toUpperCase()} ${operand.toUpperCase() === 'NULL' ? 'NULL' : operand}` })
+        }
+      } else if (['<', '>', '<=', '>=', 'between', 'like', 'glob'].includes(operator)) {
+        access.range.push(column)
+      } else if (operator === 'is not' && literal && operand?.toLowerCase() === 'null') {
+        access.literals.push({ column, predicate: `"${column}" IS NOT NULL` })
+      }
+    }
+  }
+
+  for (const term of parsed.orderBy) {
+    const match = term.match(/^(?:(\w+)\.)?(\w+)$/)
+    if (match && ownColumn(match[1], match[2])) {
+      access.orderBy.push(match[2])
+    }
+  }
+
+  if (parsed.select && !/(^|,)\s*(\w+\.)?\*\s*(,|$)/.test(parsed.select)) {
+    access.selected = Array.from(parsed.select.matchAll(/(?:(\w+)\.)?(\w+)/g))
+      .filter(([, qualifier, column]) => ownColumn(qualifier, column))
+      .map(([, , column]) => column)
+  }
+
+  return access
+}
@@ -0,0 +1,150 @@
+import type { Kysely } from '../../kysely.js'
+import { sql } from '../../raw-builder/sql.js'
+import type { QueryPattern } from './sqlite-auto-indexer.js'
+
+export const QUERY_STATS_TABLE = '_noormme_query_stats'
+
+/** Stats are kept in hourly buckets so that they can be aged out by window */
+const BUCKET_SIZE = 60 * 60 * 1000
+
+export const DEFAULT_STATS_WINDOW = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Query executions recorded since the last flush
+ */
+export interface QueryStatsDelta {
+  pattern: QueryPattern
+  frequency: number
+  totalTime: number
+}
+
+/**
+ * Query pattern statistics shared by every process using a database. Each
+ * process adds its own counts, so `noormme analyze` sees the workload of
+ * the running application.
+ */
+export class SQLiteQueryStatsStore {
+  constructor(
+    private db: Kysely<any>,
+    private window = DEFAULT_STATS_WINDOW
+  ) {}
+
+  async exists(): Promise<boolean> {
+    const table = await this.db
+      .selectFrom('sqlite_master')
+      .select('name')
+      .where('type', '=', 'table')
+      .where('name', '=', QUERY_STATS_TABLE)
+      .executeTakeFirst()
+    return !!table
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.schema
+      .createTable(QUERY_STATS_TABLE)
+      .ifNotExists()
+      .addColumn('pattern', 'text', col => col.notNull())
+      .addColumn('bucket', 'integer', col => col.notNull())
+      .addColumn('sample_sql', 'text', col => col.notNull())
+      .addColumn('table_name', 'text', col => col.notNull())
+      .addColumn('where_columns', 'text', col => col.notNull())
+      .addColumn('order_by_columns', 'text', col => col.notNull())
+      .addColumn('join_columns', 'text', col => col.notNull())
+      .addColumn('frequency', 'integer', col => col.notNull())
+      .addColumn('total_time', 'real', col => col.notNull())
+      .addColumn('last_seen', 'varchar(32)', col => col.notNull())
+      .addColumn('query_plan', 'text')
+      .addColumn('full_scan', 'integer')
+      .addPrimaryKeyConstraint('_noormme_query_stats_pk', ['pattern', 'bucket'])
+      .execute()
+  }
+
+  /**
+   * Add counts to the current bucket and drop buckets older than the window
+   */
+  async add(deltas: QueryStatsDelta[]): Promise<void> {
+    const now = Date.now()
+    const bucket = Math.floor(now / BUCKET_SIZE)
+
+    await this.db.transaction().execute(async (trx) => {
+      for (const delta of deltas) {
+        const { pattern } = delta
+        await trx
+          .insertInto(QUERY_STATS_TABLE)
+          .values({
+            pattern: pattern.query,
+            bucket,
+            sample_sql: pattern.sampleQuery ?? pattern.query,
+            table_name: pattern.table,
+            where_columns: JSON.stringify(pattern.whereColumns),
+            order_by_columns: JSON.stringify(pattern.orderByColumns),
+            join_columns: JSON.stringify(pattern.joinColumns),
+            frequency: delta.frequency,
+            total_time: delta.totalTime,
+            last_seen: pattern.lastExecuted.toISOString(),
+            query_plan: pattern.queryPlan ? JSON.stringify(pattern.queryPlan) : null,
+            full_scan: pattern.fullScan === undefined ? null : Number(pattern.fullScan)
+          })
+          .onConflict(oc => oc.columns(['pattern', 'bucket']).doUpdateSet({
+            frequency: sql`frequency + excluded.frequency`,
+            total_time: sql`total_time + excluded.total_time`,
+            last_seen: sql`max(last_seen, excluded.last_seen)`,
+            query_plan: sql`coalesce(excluded.query_plan, query_plan)`,
+            full_scan: sql`coalesce(excluded.full_scan, full_scan)`
+          }))
+          .execute()
+      }
+
+      await trx
+        .deleteFrom(QUERY_STATS_TABLE)
+        .where('bucket', '<', Math.floor((now - this.window) / BUCKET_SIZE))
+        .execute()
+    })
+  }
+
+  /**
+   * Patterns recorded within the window, merged across processes and buckets
+   */
+  async load(): Promise<QueryPattern[]> {
+    const rows = await this.db
+      .selectFrom(QUERY_STATS_TABLE)
+      .selectAll()
+      .where('bucket', '>=', Math.floor((Date.now() - this.window) / BUCKET_SIZE))
+      .orderBy('bucket')
+      .execute()
+
+    const patterns = new Map<string, QueryPattern & { totalTime: number }>()
+    for (const row of rows) {
+      let pattern = patterns.get(row.pattern)
+      if (!pattern) {
+        pattern = {
+          query: row.pattern,
+          frequency: 0,
+          totalTime: 0,
+          table: row.table_name,
+          whereColumns: JSON.parse(row.where_columns),
+          orderByColumns: JSON.parse(row.order_by_columns),
+          joinColumns: JSON.parse(row.join_columns),
+          lastExecuted: new Date(row.last_seen),
+          averageExecutionTime: 0,
+          sampleQuery: row.sample_sql
+        }
+        patterns.set(row.pattern, pattern)
+      }
+
+      pattern.frequency += row.frequency
+      pattern.totalTime += row.total_time
+      pattern.lastExecuted = new Date(Math.max(pattern.lastExecuted.getTime(), Date.parse(row.last_seen)))
+      // Rows are ordered by bucket, so the latest plan wins
+      if (row.query_plan !== null) {
+        pattern.queryPlan = JSON.parse(row.query_plan)
+        pattern.fullScan = row.full_scan === 1
+      }
+    }
+
+    return Array.from(patterns.values()).map(({ totalTime, ...pattern }) => ({
+      ...pattern,
+      averageExecutionTime: pattern.frequency > 0 ? totalTime / pattern.frequency : 0
+    }))
+  }
+}
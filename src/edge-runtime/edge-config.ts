@@ -1,27 +1,51 @@
-import { NOORMConfig } from '../types'
+import type { NOORMConfig } from '../types/index.js'
+import type { NOORMME } from '../noormme.js'
+import type { D1Database } from '../dialect/remote-sqlite/remote-sqlite-dialect-config.js'
+import { NoormError } from '../errors/NoormError.js'
+import { createRestHandler, RestHandlerOptions } from '../rest/rest-handler.js'
+
+/**
+ * Where an edge deployment keeps its data
+ */
+export interface EdgeDatabaseOptions {
+  /** libSQL server URL (`libsql://` or `https://`), defaults to `DATABASE_URL` */
+  url?: string
+  /** libSQL auth token, defaults to `DATABASE_AUTH_TOKEN` */
+  authToken?: string
+  /** Cloudflare D1 binding, used instead of `url` */
+  d1?: D1Database
+}
 
 /**
  * Edge Runtime compatible configuration for NOORMME
  * 
  * Edge Runtime has specific limitations:
- * - No file system access (use in-memory database)
- * - No WAL mode support
+ * - No file system access or native modules, so the data lives in a remote
+ *   SQLite database: a libSQL server over HTTP or a Cloudflare D1 binding
  * - Limited memory and CPU resources
- * - No persistent storage
  * - Minimal logging capabilities
  */
-export function getEdgeRuntimeConfig(): NOORMConfig {
+export function getEdgeRuntimeConfig(options: EdgeDatabaseOptions = {}): NOORMConfig {
+  const env = typeof process !== 'undefined' ? process.env : {}
+  const url = options.url ?? env.DATABASE_URL
+
+  if (!options.d1 && !url) {
+    throw new NoormError('No remote database configured for the Edge Runtime', {
+      operation: 'initialization',
+      suggestion: 'Pass a libSQL url or a D1 binding, or set DATABASE_URL to a libsql:// or https:// URL'
+    })
+  }
+
   return {
     dialect: 'sqlite',
     connection: {
-      database: ':memory:'
+      database: url ?? 'd1',
+      authToken: options.authToken ?? env.DATABASE_AUTH_TOKEN,
+      d1: options.d1
     },
-    optimization: {
-      enableWALMode: false, // WAL mode not supported in Edge Runtime
-      enableForeignKeys: true,
-      cacheSize: -2000, // 2MB cache (smaller for Edge Runtime)
-      synchronous: 'NORMAL',
-      tempStore: 'MEMORY' // Use memory for temporary storage
+    automation: {
+      // Pragmas only last for one request on a remote database
+      enableAutoOptimization: false
     },
     logging: {
       level: 'error', // Minimal logging for performance
@@ -70,79 +94,111 @@ export function getRuntimeConfig(): NOORMConfig {
 
 /**
  * Edge Runtime compatible database operations
+ *
+ * Create it once at module scope: the database instance is kept for the
+ * lifetime of the isolate and shared by every request it serves.
  */
 export class EdgeRuntimeDB {
   private config: NOORMConfig
+  private instance?: Promise<NOORMME>
 
   constructor(config?: NOORMConfig) {
     this.config = config || getEdgeRuntimeConfig()
   }
 
   /**
-   * Create a new database instance optimized for Edge Runtime
+   * Create a new, uninitialized database instance
    */
-  async createInstance() {
-    const { NOORMME } = await import('../noormme')
+  async createInstance(): Promise<NOORMME> {
+    const { NOORMME } = await import('../noormme.js')
     return new NOORMME(this.config)
   }
 
+  /**
+   * The initialized database instance of this isolate
+   */
+  getInstance(): Promise<NOORMME> {
+    if (!this.instance) {
+      const instance = this.createInstance().then(async (db) => {
+        await db.initialize()
+        return db
+      })
+      this.instance = instance
+
+      // Let the next request try again instead of failing forever
+      instance.catch(() => {
+        if (this.instance === instance) {
+          this.instance = undefined
+        }
+      })
+    }
+    return this.instance
+  }
+
   /**
    * Execute a simple query in Edge Runtime
    */
   async executeQuery(query: string, params?: any[]) {
-    const db = await this.createInstance()
-    await db.initialize()
-    
-    try {
-      const result = await db.execute(query, params)
-      return result
-    } finally {
-      await db.close()
-    }
+    const db = await this.getInstance()
+    return await db.execute(query, params)
   }
 
   /**
    * Perform a read operation in Edge Runtime
    */
   async read(table: string, conditions: Record<string, any> = {}) {
-    const db = await this.createInstance()
-    await db.initialize()
-    
-    try {
-      const repo = db.getRepository(table)
-      return await repo.findAll()
-    } finally {
-      await db.close()
+    const db = await this.getInstance()
+    let query = db.getKysely().selectFrom(table as any).selectAll()
+    for (const [column, value] of Object.entries(conditions)) {
+      query = query.where(column as any, '=', value)
     }
+    return await query.execute()
   }
 
   /**
    * Perform a write operation in Edge Runtime
    */
   async write(table: string, data: Record<string, any>) {
-    const db = await this.createInstance()
-    await db.initialize()
-    
-    try {
-      const repo = db.getRepository(table)
-      return await repo.create(data)
-    } finally {
-      await db.close()
-    }
+    const db = await this.getInstance()
+    return await db.getRepository(table).create(data)
+  }
+
+  /**
+   * Close the isolate's database instance
+   */
+  async close(): Promise<void> {
+    const instance = this.instance
+    this.instance = undefined
+    await (await instance)?.close()
   }
 }
 
 /**
  * Edge Runtime compatible middleware
+ *
+ * Routes under `/api` are served by `createRestHandler()`. Since the
+ * middleware is reachable from the internet, `restOptions` must limit the
+ * exposed `tables` or pass an `authorize` hook.
  */
-export function createEdgeMiddleware() {
+export function createEdgeMiddleware(
+  edgeDB: EdgeRuntimeDB = new EdgeRuntimeDB(),
+  restOptions: RestHandlerOptions = {}
+) {
+  if (!restOptions.tables && !restOptions.authorize) {
+    throw new NoormError('The edge middleware would expose every table without authorization', {
+      operation: 'initialization',
+      suggestion: 'Pass restOptions.tables with the tables to serve, or a restOptions.authorize hook'
+    })
+  }
+
+  // One handler per database instance, rebuilt only if the instance is replaced
+  let current: { db: NOORMME; handler: (request: Request) => Promise<Response> } | undefined
+
   return {
     /**
      * Handle database operations in Edge Runtime
      */
     async handleRequest(request: Request) {
-      const edgeDB = new EdgeRuntimeDB()
-      
       try {
         const url = new URL(request.url)
         const pathname = url.pathname
@@ -163,7 +219,6 @@ export function createEdgeMiddleware() {
      */
     async handleAPIRequest(request: Request, edgeDB: EdgeRuntimeDB) {
       const url = new URL(request.url)
-      const method = request.method
       const pathname = url.pathname
 
       // Simple routing for Edge Runtime
@@ -177,23 +232,12 @@ export function createEdgeMiddleware() {
         })
       }
 
-      if (pathname === '/api/users' && method === 'GET') {
-        const users = await edgeDB.read('users')
-        return new Response(JSON.stringify(users), {
-          headers: { 'Content-Type': 'application/json' }
-        })
-      }
-
-      if (pathname === '/api/users' && method === 'POST') {
-        const data = await request.json()
-        const user = await edgeDB.write('users', data)
-        return new Response(JSON.stringify(user), {
-          status: 201,
-          headers: { 'Content-Type': 'application/json' }
-        })
+      // Every other route is an exposed table
+      const db = await edgeDB.getInstance()
+      if (current?.db !== db) {
+        current = { db, handler: createRestHandler(db, { basePath: '/api', ...restOptions }) }
       }
-
-      return new Response('Not found', { status: 404 })
+      return await current.handler(request)
     }
   }
 }
@@ -296,7 +340,7 @@ export const EdgeRuntimeUtils = {
   /**
    * Create Edge Runtime database instance
    */
-  createDB: () => new EdgeRuntimeDB(),
+  createDB: (config?: NOORMConfig) => new EdgeRuntimeDB(config),
 
   /**
    * Create Edge Runtime middleware
@@ -1,3 +1,5 @@
+import type { NPlusOneDetection } from '../types/index.js';
+
 /**
  * Enhanced error class with context-aware information
  */
@@ -184,7 +186,11 @@ export class DatabaseInitializationError extends NoormError {
 }
 
 export class ValidationError extends NoormError {
-  constructor(message: string, validationIssues: string[] = []) {
+  constructor(
+    message: string,
+    validationIssues: string[] = [],
+    public fieldErrors: Record<string, string[]> = {}
+  ) {
     super(
       message,
       {
@@ -214,6 +220,20 @@ export class RelationshipNotFoundError extends NoormError {
   }
 }
 
+export class OptimisticLockError extends NoormError {
+  constructor(tableName: string, id: unknown, expectedVersion: unknown) {
+    super(
+      `Stale write to '${tableName}' row ${String(id)}: expected version ${String(expectedVersion)} but the row has changed`,
+      {
+        table: tableName,
+        operation: 'update',
+        suggestion: 'Reload the entity to get the current version, reapply your changes and retry the update'
+      }
+    )
+    this.name = 'OptimisticLockError'
+  }
+}
+
 export class QueryExecutionError extends NoormError {
   constructor(query: string, originalError: Error, context?: { table?: string; operation?: string }) {
     super(
@@ -284,6 +304,47 @@ export class MigrationError extends NoormError {
   }
 }
 
+export class MigrationLockError extends NoormError {
+  constructor(lockedAt: string | null) {
+    super(
+      `Migrations are locked by another process${lockedAt ? ` since ${lockedAt}` : ''}`,
+      {
+        operation: 'migration',
+        suggestion: 'Wait for the other migration run to finish. If it crashed, the lock expires after the configured lockTimeout'
+      }
+    )
+    this.name = 'MigrationLockError'
+  }
+}
+
+export class MigrationChecksumError extends NoormError {
+  constructor(migrationNames: string[]) {
+    super(
+      `Applied migration files have been modified: ${migrationNames.join(', ')}`,
+      {
+        operation: 'migration',
+        suggestion: 'Restore the original files and put schema changes in a new migration instead of editing applied ones',
+        availableOptions: migrationNames
+      }
+    )
+    this.name = 'MigrationChecksumError'
+  }
+}
+
+export class NPlusOneQueryError extends NoormError {
+  constructor(public detection: NPlusOneDetection) {
+    super(
+      `N+1 query: "${detection.sql}" ran ${detection.count} times in one scope${detection.callSite ? ` (${detection.callSite})` : ''}`,
+      {
+        table: detection.table,
+        operation: 'select',
+        suggestion: detection.suggestion
+      }
+    )
+    this.name = 'NPlusOneQueryError'
+  }
+}
+
 export class TypeGenerationError extends NoormError {
   constructor(tableName: string, originalError: Error) {
     super(
@@ -89,6 +89,19 @@ export * from './dialect/postgresql/postgresql-query-compiler.js'
 export * from './dialect/postgresql/postgresql-introspector.js'
 export * from './dialect/postgresql/postgresql-adapter.js'
 
+export * from './dialect/mysql/mysql-dialect.js'
+export * from './dialect/mysql/mysql-dialect-config.js'
+export * from './dialect/mysql/mysql-driver.js'
+export * from './dialect/mysql/mysql-query-compiler.js'
+export * from './dialect/mysql/mysql-introspector.js'
+export * from './dialect/mysql/mysql-adapter.js'
+
+export * from './dialect/remote-sqlite/remote-sqlite-dialect.js'
+export * from './dialect/remote-sqlite/remote-sqlite-dialect-config.js'
+export * from './dialect/remote-sqlite/remote-sqlite-driver.js'
+export * from './dialect/remote-sqlite/hrana-client.js'
+export * from './dialect/remote-sqlite/d1-client.js'
+
 export * from './query-compiler/default-query-compiler.js'
 export * from './query-compiler/query-compiler.js'
 
@@ -105,6 +118,7 @@ export * from './plugin/with-schema/with-schema-plugin.js'
 export * from './plugin/parse-json-results/parse-json-results-plugin.js'
 export * from './plugin/handle-empty-in-lists/handle-empty-in-lists-plugin.js'
 export * from './plugin/handle-empty-in-lists/handle-empty-in-lists.js'
+export * from './plugin/query-cache/query-cache-plugin.js'
 
 export * from './operation-node/add-column-node.js'
 export * from './operation-node/add-constraint-node.js'
@@ -290,6 +304,16 @@ export { Collation } from './parser/collate-parser.js'
 // NOORMME - No ORM, just magic!
 export { NOORMME } from './noormme.js'
 export * from './types/index.js'
+export * from './cache/query-cache.js'
+export * from './cache/query-cache-storage.js'
+export * from './cache/file-query-cache-storage.js'
+export * from './rest/rest-handler.js'
+export * from './rest/openapi-generator.js'
+export * from './watch/schema-watcher.js'
+export * from './watch/schema-differ.js'
+export * from './watch/sqlite-schema-change-detector.js'
+export * from './watch/postgresql-schema-change-detector.js'
+export * from './dialect/sqlite/sqlite-backup-manager.js'
 
 // Error classes
 export * from './errors/NoormError.js'
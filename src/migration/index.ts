@@ -13,6 +13,7 @@ export * from './schema_introspector.js'
 export * from './schema_differ.js'
 export * from './data_migrator.js'
 export * from './database_migration_manager.js'
+export * from './sqlite_migration_generator.js'
 
 // Re-export main classes and functions for convenience
 export {
@@ -31,6 +32,11 @@ export {
   applySchemaSyncronization,
 } from './schema_differ.js'
 
+export {
+  generateSQLiteMigration,
+  loadSchemaFile,
+} from './sqlite_migration_generator.js'
+
 export {
   migrateTableData,
   migrateAllTablesData,
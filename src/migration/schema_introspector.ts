@@ -5,6 +5,7 @@
 import type { Kysely } from '../kysely.js'
 import { sql } from '../raw-builder/sql.js'
 import type { TableSchema, ColumnSchema, IndexSchema, ForeignKeySchema, ConstraintSchema } from './migration-types.js'
+import { SQLiteConstraintDiscovery } from '../schema/dialects/sqlite/discovery/sqlite-constraint-discovery.js'
 
 /**
  * Introspect schema from a SQLite database
@@ -19,6 +20,7 @@ export async function introspectSQLiteSchema(db: Kysely<any>): Promise<TableSche
     WHERE type = 'table' 
       AND name NOT LIKE 'sqlite_%'
       AND name NOT IN ('kysely_migration', 'kysely_migration_lock', 'sqlite_migrations')
+      AND substr(name, 1, 9) != '_noormme_'
     ORDER BY name
   `.execute(db)
   
@@ -37,15 +39,13 @@ export async function introspectSQLiteSchema(db: Kysely<any>): Promise<TableSche
     `.execute(db)
     const rowCount = countResult.rows[0]?.count || 0
     
-    // Get primary key
-    const primaryKey = columns
-      .filter(col => col.primaryKey)
-      .map(col => col.name)
+    // Get primary key, in key order for composite keys
+    const primaryKey = await introspectSQLitePrimaryKey(db, tableName)
     
     tables.push({
       name: tableName,
       columns,
-      primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+      primaryKey,
       indexes,
       foreignKeys,
       constraints,
@@ -57,23 +57,66 @@ export async function introspectSQLiteSchema(db: Kysely<any>): Promise<TableSche
 }
 
 async function introspectSQLiteColumns(db: Kysely<any>, tableName: string): Promise<ColumnSchema[]> {
-  const result = await db.executeQuery<any>({
-    sql: `PRAGMA table_info(${tableName})`,
-    parameters: [],
-    query: { kind: 'SelectQueryNode' } as any,
-  })
-  
+  const result = await sql<any>`PRAGMA table_info(${sql.lit(tableName)})`.execute(db)
+
+  const createSQL = await getSQLiteCreateSQL(db, tableName)
+  const uniqueColumns = (await introspectSQLiteUniqueConstraints(db, tableName))
+    .filter(columns => columns.length === 1)
+    .map(columns => columns[0])
+
   return result.rows.map((row: any) => ({
     name: row.name,
     type: row.type || 'TEXT',
     nullable: row.notnull === 0,
     defaultValue: row.dflt_value,
-    primaryKey: row.pk === 1,
-    autoIncrement: row.type?.toUpperCase() === 'INTEGER' && row.pk === 1,
-    unique: false, // Will be determined from indexes
+    primaryKey: row.pk > 0,
+    autoIncrement: row.pk > 0 && /\bAUTOINCREMENT\b/i.test(createSQL),
+    unique: uniqueColumns.includes(row.name),
   }))
 }
 
+async function introspectSQLitePrimaryKey(db: Kysely<any>, tableName: string): Promise<string[] | undefined> {
+  const result = await sql<any>`PRAGMA table_info(${sql.lit(tableName)})`.execute(db)
+
+  const primaryKey = result.rows
+    .filter((row: any) => row.pk > 0)
+    .sort((a: any, b: any) => a.pk - b.pk)
+    .map((row: any) => row.name)
+
+  return primaryKey.length > 0 ? primaryKey : undefined
+}
+
+/**
+ * Column lists of the UNIQUE constraints declared in the table definition,
+ * which SQLite backs with sqlite_autoindex_* indexes
+ */
+async function introspectSQLiteUniqueConstraints(db: Kysely<any>, tableName: string): Promise<string[][]> {
+  const indexList = await sql<any>`PRAGMA index_list(${sql.lit(tableName)})`.execute(db)
+
+  const constraints: string[][] = []
+  for (const index of indexList.rows.filter((row: any) => row.origin === 'u')) {
+    const info = await sql<any>`PRAGMA index_info(${sql.lit(index.name)})`.execute(db)
+    constraints.push(
+      info.rows
+        .sort((a: any, b: any) => a.seqno - b.seqno)
+        .map((row: any) => row.name)
+    )
+  }
+
+  return constraints
+}
+
+async function getSQLiteCreateSQL(db: Kysely<any>, tableName: string): Promise<string> {
+  const result = await sql<{ sql: string }>`
+    SELECT sql 
+    FROM sqlite_master 
+    WHERE type = 'table' 
+      AND name = ${tableName}
+  `.execute(db)
+
+  return result.rows[0]?.sql || ''
+}
+
 async function introspectSQLiteIndexes(db: Kysely<any>, tableName: string): Promise<IndexSchema[]> {
   const indexRows = await sql<{ name: string }>`
     SELECT name 
@@ -89,11 +132,7 @@ async function introspectSQLiteIndexes(db: Kysely<any>, tableName: string): Prom
     const indexName = indexRow.name
     
     // Get index info
-    const result = await db.executeQuery<any>({
-      sql: `PRAGMA index_info(${indexName})`,
-      parameters: [],
-      query: { kind: 'SelectQueryNode' } as any,
-    })
+    const result = await sql<any>`PRAGMA index_info(${sql.lit(indexName)})`.execute(db)
     
     // Get index creation SQL to check if unique
     const sqlResult = await sql<{ sql: string }>`
@@ -122,11 +161,7 @@ async function introspectSQLiteIndexes(db: Kysely<any>, tableName: string): Prom
 }
 
 async function introspectSQLiteForeignKeys(db: Kysely<any>, tableName: string): Promise<ForeignKeySchema[]> {
-  const result = await db.executeQuery<any>({
-    sql: `PRAGMA foreign_key_list(${tableName})`,
-    parameters: [],
-    query: { kind: 'SelectQueryNode' } as any,
-  })
+  const result = await sql<any>`PRAGMA foreign_key_list(${sql.lit(tableName)})`.execute(db)
   
   // Group by id (foreign key constraint id)
   const fkMap = new Map<number, any[]>()
@@ -154,26 +189,27 @@ async function introspectSQLiteForeignKeys(db: Kysely<any>, tableName: string):
 }
 
 async function introspectSQLiteConstraints(db: Kysely<any>, tableName: string): Promise<ConstraintSchema[]> {
-  // Get CREATE TABLE statement
-  const result = await sql<{ sql: string }>`
-    SELECT sql 
-    FROM sqlite_master 
-    WHERE type = 'table' 
-      AND name = ${tableName}
-  `.execute(db)
-  
-  const createSQL = result.rows[0]?.sql || ''
   const constraints: ConstraintSchema[] = []
-  
-  // Parse CHECK constraints
-  const checkMatches = createSQL.matchAll(/CHECK\s*\(([^)]+)\)/gi)
-  for (const match of checkMatches) {
+
+  // Parse CHECK constraints, keeping nested parentheses intact
+  const discovered = await SQLiteConstraintDiscovery.getInstance().discoverTableConstraints(db, tableName)
+  for (const constraint of discovered.filter(c => c.type === 'c')) {
+    const named = /^CONSTRAINT\b/i.test(constraint.fullDefinition)
     constraints.push({
+      name: named ? constraint.name : undefined,
       type: 'CHECK',
-      expression: match[1],
+      expression: constraint.definition,
+      columns: constraint.column ? [constraint.column] : undefined,
     })
   }
-  
+
+  // Multi-column UNIQUE constraints; single columns are reported on the column
+  for (const columns of await introspectSQLiteUniqueConstraints(db, tableName)) {
+    if (columns.length > 1) {
+      constraints.push({ type: 'UNIQUE', columns })
+    }
+  }
+
   return constraints
 }
 
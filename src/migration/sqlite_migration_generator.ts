@@ -0,0 +1,481 @@
+/**
+ * Generate SQLite migrations from the difference between the current
+ * database schema and a declarative target schema
+ */
+
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import type {
+  TableSchema,
+  ColumnSchema,
+  IndexSchema,
+  ForeignKeySchema,
+  ConstraintSchema,
+  SchemaDifference
+} from './migration-types.js'
+import { MigrationError } from '../errors/NoormError.js'
+import { importFile } from '../util/import-module.js'
+
+export interface GeneratedSQLiteMigration {
+  differences: SchemaDifference[]
+  up: string[]
+  down: string[]
+  warnings: string[]
+}
+
+interface TablePlan {
+  differences: SchemaDifference[]
+  up: string[]
+  down: string[]
+  warnings: string[]
+}
+
+/**
+ * Load a declarative schema from a JSON file or a TypeScript/JavaScript module
+ * exporting an array of `TableSchema` (as `default`, `schema` or `tables`).
+ * `indexes`, `foreignKeys` and `constraints` may be omitted.
+ */
+export async function loadSchemaFile(filePath: string): Promise<TableSchema[]> {
+  const resolved = path.resolve(filePath)
+  let loaded: any
+
+  try {
+    if (resolved.endsWith('.json')) {
+      loaded = JSON.parse(await fs.readFile(resolved, 'utf8'))
+    } else {
+      const module = await importFile<any>(pathToFileURL(resolved).href)
+      loaded = module.default ?? module.schema ?? module.tables
+    }
+  } catch (error) {
+    throw new MigrationError(filePath, error as Error, { step: 'load schema' })
+  }
+
+  const tables = Array.isArray(loaded) ? loaded : loaded?.tables
+  if (!Array.isArray(tables)) {
+    throw new MigrationError(
+      filePath,
+      new Error('Schema file must export an array of tables or an object with a tables array'),
+      { step: 'load schema' }
+    )
+  }
+
+  return tables.map((table: any) => {
+    if (typeof table?.name !== 'string' || !Array.isArray(table.columns)) {
+      throw new MigrationError(
+        filePath,
+        new Error(`Every table needs a name and a columns array (got ${JSON.stringify(table?.name)})`),
+        { step: 'load schema' }
+      )
+    }
+    return normalizeTableSchema(table)
+  })
+}
+
+/**
+ * Fill in the optional parts of a declared table
+ */
+export function normalizeTableSchema(table: TableSchema): TableSchema {
+  const columns = table.columns.map(column => ({
+    ...column,
+    nullable: column.nullable ?? !column.primaryKey
+  }))
+  const declaredKey = columns.filter(c => c.primaryKey).map(c => c.name)
+
+  return {
+    ...table,
+    columns,
+    primaryKey: table.primaryKey?.length ? table.primaryKey : declaredKey.length ? declaredKey : undefined,
+    indexes: (table.indexes ?? []).map(index => ({
+      ...index,
+      tableName: index.tableName ?? table.name,
+      unique: index.unique ?? false
+    })),
+    foreignKeys: table.foreignKeys ?? [],
+    constraints: table.constraints ?? []
+  }
+}
+
+/**
+ * Compute the statements turning `current` into `desired` (up) and back (down).
+ * Changes ALTER TABLE cannot express in SQLite (column type, nullability,
+ * default or key changes, dropped columns, constraint changes) rebuild the
+ * table: create the new definition, copy the shared columns, drop the old
+ * table and rename the new one into place.
+ */
+export function generateSQLiteMigration(
+  current: TableSchema[],
+  desired: TableSchema[]
+): GeneratedSQLiteMigration {
+  const currentTables = new Map(current.map(t => [t.name, normalizeTableSchema(t)]))
+  const desiredTables = new Map(desired.map(t => [t.name, normalizeTableSchema(t)]))
+  const plans: TablePlan[] = []
+
+  for (const table of desiredTables.values()) {
+    const existing = currentTables.get(table.name)
+    plans.push(existing ? planTableChanges(existing, table) : planCreateTable(table))
+  }
+
+  for (const table of currentTables.values()) {
+    if (!desiredTables.has(table.name)) {
+      plans.push(planDropTable(table))
+    }
+  }
+
+  return {
+    differences: plans.flatMap(p => p.differences),
+    up: plans.flatMap(p => p.up),
+    // Undo table changes in reverse order
+    down: [...plans].reverse().flatMap(p => p.down),
+    warnings: plans.flatMap(p => p.warnings)
+  }
+}
+
+function planCreateTable(table: TableSchema): TablePlan {
+  return {
+    differences: [{
+      type: 'table_added',
+      table: table.name,
+      details: { source: table, message: `Table '${table.name}' needs to be created` }
+    }],
+    up: [createTableSQL(table), ...table.indexes.map(createIndexSQL)],
+    down: [`DROP TABLE ${quote(table.name)}`],
+    warnings: []
+  }
+}
+
+function planDropTable(table: TableSchema): TablePlan {
+  return {
+    differences: [{
+      type: 'table_removed',
+      table: table.name,
+      details: { target: table, message: `Table '${table.name}' is not in the schema and will be dropped` }
+    }],
+    up: [`DROP TABLE ${quote(table.name)}`],
+    down: [createTableSQL(table), ...table.indexes.map(createIndexSQL)],
+    warnings: [`Dropping table '${table.name}' deletes its data; rolling back recreates it empty`]
+  }
+}
+
+function planTableChanges(current: TableSchema, desired: TableSchema): TablePlan {
+  const differences: SchemaDifference[] = []
+  const warnings: string[] = []
+  const rebuildReasons: string[] = []
+
+  const currentColumns = new Map(current.columns.map(c => [c.name, c]))
+  const desiredColumns = new Map(desired.columns.map(c => [c.name, c]))
+
+  const added = desired.columns.filter(c => !currentColumns.has(c.name))
+  const removed = current.columns.filter(c => !desiredColumns.has(c.name))
+
+  for (const column of added) {
+    differences.push({
+      type: 'column_added',
+      table: desired.name,
+      column: column.name,
+      details: { source: column, message: `Column '${column.name}' needs to be added` }
+    })
+    if (!canAddColumn(column)) {
+      rebuildReasons.push(`add column ${column.name} (${addColumnBlocker(column)})`)
+    }
+    if (!column.nullable && column.defaultValue == null && !column.primaryKey) {
+      warnings.push(`Column '${desired.name}.${column.name}' is NOT NULL without a default; existing rows need a value before this migration can run`)
+    }
+  }
+
+  for (const column of removed) {
+    differences.push({
+      type: 'column_removed',
+      table: desired.name,
+      column: column.name,
+      details: { target: column, message: `Column '${column.name}' is not in the schema and will be dropped` }
+    })
+    rebuildReasons.push(`drop column ${column.name}`)
+    warnings.push(`Dropping column '${desired.name}.${column.name}' deletes its data`)
+  }
+
+  for (const column of desired.columns) {
+    const existing = currentColumns.get(column.name)
+    if (!existing) continue
+
+    const changes = columnChanges(existing, column)
+    if (changes.length > 0) {
+      differences.push({
+        type: 'column_modified',
+        table: desired.name,
+        column: column.name,
+        details: {
+          source: column,
+          target: existing,
+          message: `Column '${column.name}' changed: ${changes.join(', ')}`
+        }
+      })
+      rebuildReasons.push(`change ${column.name} ${changes.join(', ')}`)
+    }
+  }
+
+  if (keyOf(primaryKeyOf(current)) !== keyOf(primaryKeyOf(desired))) {
+    differences.push({
+      type: 'table_modified',
+      table: desired.name,
+      details: { message: `Primary key changes to (${primaryKeyOf(desired).join(', ')})` }
+    })
+    rebuildReasons.push('change primary key')
+  }
+
+  const constraintChanges = diffSets(
+    tableConstraintKeys(current),
+    tableConstraintKeys(desired)
+  )
+  for (const key of constraintChanges.added) {
+    differences.push({ type: 'constraint_added', table: desired.name, details: { message: `Constraint ${key} needs to be added` } })
+  }
+  for (const key of constraintChanges.removed) {
+    differences.push({ type: 'constraint_removed', table: desired.name, details: { message: `Constraint ${key} will be dropped` } })
+  }
+  if (constraintChanges.added.length > 0 || constraintChanges.removed.length > 0) {
+    rebuildReasons.push('change constraints')
+  }
+
+  const currentIndexes = new Map(current.indexes.map(i => [i.name, i]))
+  const desiredIndexes = new Map(desired.indexes.map(i => [i.name, i]))
+  const droppedIndexes = current.indexes.filter(i => indexKey(i) !== indexKey(desiredIndexes.get(i.name)))
+  const createdIndexes = desired.indexes.filter(i => indexKey(i) !== indexKey(currentIndexes.get(i.name)))
+
+  for (const index of createdIndexes) {
+    differences.push({ type: 'index_added', table: desired.name, details: { source: index, message: `Index '${index.name}' needs to be created` } })
+  }
+  for (const index of droppedIndexes) {
+    differences.push({ type: 'index_removed', table: desired.name, details: { target: index, message: `Index '${index.name}' will be dropped` } })
+  }
+
+  if (rebuildReasons.length > 0) {
+    return {
+      differences,
+      up: [
+        `-- Rebuild ${quote(desired.name)}: ${rebuildReasons.join('; ')}`,
+        ...rebuildTableSQL(current, desired),
+        ...desired.indexes.map(createIndexSQL)
+      ],
+      down: [
+        `-- Restore ${quote(current.name)}`,
+        ...rebuildTableSQL(desired, current),
+        ...current.indexes.map(createIndexSQL)
+      ],
+      warnings
+    }
+  }
+
+  return {
+    differences,
+    up: [
+      ...droppedIndexes.map(i => `DROP INDEX ${quote(i.name)}`),
+      ...added.map(c => `ALTER TABLE ${quote(desired.name)} ADD COLUMN ${columnDefinitionSQL(c, false)}`),
+      ...createdIndexes.map(createIndexSQL)
+    ],
+    down: [
+      ...createdIndexes.map(i => `DROP INDEX ${quote(i.name)}`),
+      ...[...added].reverse().map(c => `ALTER TABLE ${quote(desired.name)} DROP COLUMN ${quote(c.name)}`),
+      ...droppedIndexes.map(createIndexSQL)
+    ],
+    warnings
+  }
+}
+
+/**
+ * The SQLite table rebuild procedure: the new definition is created under a
+ * temporary name, shared columns are copied and the new table takes the old
+ * table's name. The migration runner disables foreign key enforcement while
+ * it runs and checks the foreign keys before committing.
+ */
+function rebuildTableSQL(from: TableSchema, to: TableSchema): string[] {
+  const temporary = `${to.name}_new`
+  const shared = to.columns
+    .filter(c => from.columns.some(f => f.name === c.name))
+    .map(c => quote(c.name))
+    .join(', ')
+
+  return [
+    createTableSQL({ ...to, name: temporary }),
+    ...(shared ? [`INSERT INTO ${quote(temporary)} (${shared}) SELECT ${shared} FROM ${quote(from.name)}`] : []),
+    `DROP TABLE ${quote(from.name)}`,
+    `ALTER TABLE ${quote(temporary)} RENAME TO ${quote(to.name)}`
+  ]
+}
+
+function createTableSQL(table: TableSchema): string {
+  const primaryKey = primaryKeyOf(table)
+  const inlineKey = primaryKey.length === 1
+
+  const definitions = table.columns.map(c =>
+    columnDefinitionSQL(c, inlineKey && c.name === primaryKey[0])
+  )
+
+  if (!inlineKey && primaryKey.length > 0) {
+    definitions.push(`PRIMARY KEY (${primaryKey.map(quote).join(', ')})`)
+  }
+
+  for (const constraint of table.constraints) {
+    if (constraint.type === 'UNIQUE' && constraint.columns?.length) {
+      definitions.push(`${constraintName(constraint)}UNIQUE (${constraint.columns.map(quote).join(', ')})`)
+    } else if (constraint.type === 'CHECK' && constraint.expression) {
+      definitions.push(`${constraintName(constraint)}CHECK (${constraint.expression})`)
+    }
+  }
+
+  for (const fk of table.foreignKeys) {
+    definitions.push(foreignKeySQL(fk))
+  }
+
+  return `CREATE TABLE ${quote(table.name)} (\n  ${definitions.join(',\n  ')}\n)`
+}
+
+function columnDefinitionSQL(column: ColumnSchema, primaryKey: boolean): string {
+  let definition = `${quote(column.name)} ${column.type}`
+
+  if (primaryKey) {
+    definition += ' PRIMARY KEY'
+    if (column.autoIncrement) {
+      definition += ' AUTOINCREMENT'
+    }
+  }
+  if (!column.nullable && !primaryKey) {
+    definition += ' NOT NULL'
+  }
+  if (column.unique && !primaryKey) {
+    definition += ' UNIQUE'
+  }
+  if (column.defaultValue != null) {
+    definition += ` DEFAULT ${defaultSQL(column.defaultValue)}`
+  }
+
+  return definition
+}
+
+function foreignKeySQL(fk: ForeignKeySchema): string {
+  let definition = `FOREIGN KEY (${fk.columns.map(quote).join(', ')}) REFERENCES ${quote(fk.referencedTable)} (${fk.referencedColumns.map(quote).join(', ')})`
+  if (fk.onDelete && fk.onDelete !== 'NO ACTION') {
+    definition += ` ON DELETE ${fk.onDelete}`
+  }
+  if (fk.onUpdate && fk.onUpdate !== 'NO ACTION') {
+    definition += ` ON UPDATE ${fk.onUpdate}`
+  }
+  return definition
+}
+
+function createIndexSQL(index: IndexSchema): string {
+  const unique = index.unique ? 'UNIQUE ' : ''
+  const where = index.partial ? ` WHERE ${index.partial}` : ''
+  return `CREATE ${unique}INDEX ${quote(index.name)} ON ${quote(index.tableName)} (${index.columns.map(quote).join(', ')})${where}`
+}
+
+function constraintName(constraint: ConstraintSchema): string {
+  return constraint.name ? `CONSTRAINT ${quote(constraint.name)} ` : ''
+}
+
+/**
+ * ALTER TABLE ADD COLUMN cannot add key or unique columns, NOT NULL columns
+ * without a default, or columns with a non-constant default
+ */
+function canAddColumn(column: ColumnSchema): boolean {
+  return addColumnBlocker(column) === undefined
+}
+
+function addColumnBlocker(column: ColumnSchema): string | undefined {
+  if (column.primaryKey) return 'primary key'
+  if (column.unique) return 'unique'
+  if (!column.nullable && column.defaultValue == null) return 'NOT NULL without default'
+  if (column.defaultValue != null && !isConstant(column.defaultValue)) return 'non-constant default'
+  return undefined
+}
+
+function columnChanges(current: ColumnSchema, desired: ColumnSchema): string[] {
+  const changes: string[] = []
+
+  if (normalizeType(current.type) !== normalizeType(desired.type)) {
+    changes.push(`type ${current.type} -> ${desired.type}`)
+  }
+  if (isNullable(current) !== isNullable(desired)) {
+    changes.push(isNullable(desired) ? 'to nullable' : 'to NOT NULL')
+  }
+  if (normalizeDefault(current.defaultValue) !== normalizeDefault(desired.defaultValue)) {
+    changes.push(`default ${current.defaultValue ?? 'none'} -> ${desired.defaultValue ?? 'none'}`)
+  }
+  if (!!current.unique !== !!desired.unique) {
+    changes.push(desired.unique ? 'to unique' : 'to not unique')
+  }
+  if (!!current.autoIncrement !== !!desired.autoIncrement) {
+    changes.push(desired.autoIncrement ? 'to AUTOINCREMENT' : 'without AUTOINCREMENT')
+  }
+
+  return changes
+}
+
+function tableConstraintKeys(table: TableSchema): string[] {
+  return [
+    ...table.constraints
+      .filter(c => c.type === 'CHECK' && c.expression)
+      .map(c => `CHECK (${collapse(c.expression!)})`),
+    ...table.constraints
+      .filter(c => c.type === 'UNIQUE' && c.columns?.length)
+      .map(c => `UNIQUE (${c.columns!.join(', ')})`),
+    ...table.foreignKeys.map(fk =>
+      `FOREIGN KEY (${fk.columns.join(', ')}) REFERENCES ${fk.referencedTable} (${fk.referencedColumns.join(', ')})` +
+      ` ON DELETE ${fk.onDelete ?? 'NO ACTION'} ON UPDATE ${fk.onUpdate ?? 'NO ACTION'}`
+    )
+  ]
+}
+
+function diffSets(current: string[], desired: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: desired.filter(key => !current.includes(key)),
+    removed: current.filter(key => !desired.includes(key))
+  }
+}
+
+function primaryKeyOf(table: TableSchema): string[] {
+  return table.primaryKey ?? table.columns.filter(c => c.primaryKey).map(c => c.name)
+}
+
+function indexKey(index: IndexSchema | undefined): string | undefined {
+  if (!index) return undefined
+  return `${index.unique ? 'unique ' : ''}(${index.columns.join(', ')})${index.partial ? ` where ${collapse(index.partial)}` : ''}`
+}
+
+function keyOf(columns: string[]): string {
+  return columns.join(', ')
+}
+
+function isNullable(column: ColumnSchema): boolean {
+  // SQLite reports INTEGER PRIMARY KEY columns as nullable, but they never hold NULL
+  return column.nullable && !column.primaryKey
+}
+
+function normalizeType(type: string): string {
+  return collapse(type).toUpperCase().replace(/\s*([(),])\s*/g, '$1')
+}
+
+function normalizeDefault(value: string | null | undefined): string | null {
+  if (value == null) return null
+  const trimmed = collapse(String(value))
+  return /^\(.*\)$/.test(trimmed) ? trimmed.slice(1, -1).trim() : trimmed
+}
+
+function isConstant(value: string): boolean {
+  return /^([-+]?\d+(\.\d+)?|'([^']|'')*'|NULL|TRUE|FALSE)$/i.test(String(value).trim())
+}
+
+function defaultSQL(value: string): string {
+  const trimmed = String(value).trim()
+  return isConstant(trimmed) || /^CURRENT_(TIME|DATE|TIMESTAMP)$/i.test(trimmed) || /^\(.*\)$/.test(trimmed)
+    ? trimmed
+    : `(${trimmed})`
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
@@ -1,24 +1,64 @@
 import { Kysely } from './kysely.js'
 import type { Dialect } from './dialect/dialect.js'
+import type { Driver } from './driver/driver.js'
 import { DatabaseIntrospector } from './dialect/database-introspector.js'
 import { SchemaDiscovery } from './schema/schema-discovery.js'
 import { TypeGenerator } from './types/type-generator.js'
 import { RepositoryFactory } from './repository/repository-factory.js'
+import { HookRegistry } from './repository/repository-hooks.js'
+import { createTransactionScope, isRetryableTransactionError } from './repository/transaction-scope.js'
 import { RelationshipEngine } from './relationships/relationship-engine.js'
 import { CacheManager } from './cache/cache-manager.js'
+import { QueryCache, type CachedQueryOptions } from './cache/query-cache.js'
+import { MemoryQueryCacheStorage } from './cache/query-cache-storage.js'
+import { QueryCachePlugin, findQueryCachePlugin } from './plugin/query-cache/query-cache-plugin.js'
+import { cacheDialect } from './cache/query-cache-driver.js'
 import { Logger } from './logging/logger.js'
-import { NOORMConfig, SchemaInfo, Repository, RelationshipInfo, SchemaChange } from './types/index.js'
+import {
+  NOORMConfig,
+  SchemaInfo,
+  Repository,
+  RelationshipInfo,
+  SchemaChange,
+  RepositoryHooks,
+  TableRepository,
+  TableName,
+  TransactionOptions,
+  NoormTransaction,
+  QueryScopeOptions,
+  IndexAdvice,
+  IndexAdviceOptions
+} from './types/index.js'
 import { NoormError, TableNotFoundError } from './errors/NoormError.js'
-import { config as loadDotenv } from 'dotenv'
-import { SchemaWatcher, WatchOptions } from './watch/schema-watcher.js'
+import { SchemaWatcher, WatchOptions, SchemaChangeDetector } from './watch/schema-watcher.js'
+import { SQLiteSchemaChangeDetector } from './watch/sqlite-schema-change-detector.js'
+import { PostgresSchemaChangeDetector } from './watch/postgresql-schema-change-detector.js'
 import { MetricsCollector } from './performance/services/metrics-collector.js'
+import { createQueryInstrumentation, InstrumentedQuery } from './performance/query-instrumentation.js'
+import { QueryScopeTracker } from './performance/query-scope.js'
+import type { Logger as KyselyLogger } from './util/log.js'
 import { SQLiteAutoOptimizer } from './dialect/sqlite/sqlite-auto-optimizer.js'
 import { SQLiteAutoIndexer } from './dialect/sqlite/sqlite-auto-indexer.js'
+import {
+  SQLiteBackupManager,
+  BackupOptions,
+  BackupResult,
+  BackupSchedule,
+  DirectoryBackupOptions,
+  IntegrityCheckResult,
+  ScheduledBackupOptions
+} from './dialect/sqlite/sqlite-backup-manager.js'
+import type { Database as SQLiteDatabase } from 'better-sqlite3'
+import { SQLiteIndexAdvisor } from './dialect/sqlite/sqlite-index-advisor.js'
+import { PostgresIndexAdvisor } from './dialect/postgresql/postgresql-index-advisor.js'
 import { SqliteDialect } from './dialect/sqlite/sqlite-dialect.js'
 import { PostgresDialect } from './dialect/postgresql/postgresql-dialect.js'
+import { MysqlDialect } from './dialect/mysql/mysql-dialect.js'
+import { RemoteSqliteDialect } from './dialect/remote-sqlite/remote-sqlite-dialect.js'
+import { HranaClient } from './dialect/remote-sqlite/hrana-client.js'
+import { D1Client } from './dialect/remote-sqlite/d1-client.js'
 import { sql as rawSql } from './raw-builder/sql.js'
-import Database from 'better-sqlite3'
-import { Pool } from 'pg'
+import { importModule } from './util/import-module.js'
 import { CompiledQuery } from './query-compiler/compiled-query.js'
 
 // Global initialization lock to prevent concurrent initialization
@@ -27,8 +67,11 @@ const globalInitLock = new Map<string, Promise<void>>()
 /**
  * NOORMME - No ORM, just magic!
  * Zero-configuration pseudo-ORM that works with any existing database
+ *
+ * Pass the `Database` interface emitted by `noormme generate` as `DB` to get
+ * typed repositories and a typed Kysely instance.
  */
-export class NOORMME {
+export class NOORMME<DB = any> {
   private db: Kysely<any>
   private config: NOORMConfig
   private dialect: Dialect
@@ -37,19 +80,32 @@ export class NOORMME {
   private repositoryFactory: RepositoryFactory
   private relationshipEngine: RelationshipEngine
   private cacheManager: CacheManager
+  private queryCache: QueryCache
+  private driver: Driver
   private logger: Logger
   private schemaWatcher: SchemaWatcher | null = null
   private metricsCollector: MetricsCollector | null = null
   private sqliteAutoOptimizer: SQLiteAutoOptimizer | null = null
   private sqliteAutoIndexer: SQLiteAutoIndexer | null = null
+  private sqliteDatabase: SQLiteDatabase | null = null
+  private backupManager: SQLiteBackupManager | null = null
+  private backupSchedules = new Set<BackupSchedule>()
   private initialized = false
   private repositories = new Map<string, Repository<any>>()
+  private hookRegistry = new HookRegistry()
+  private queryScopes: QueryScopeTracker
   private instanceId: string
   private schemaChangeCallbacks: Array<(changes: SchemaChange[]) => void> = []
+  private queryStatsTimer: NodeJS.Timeout | null = null
 
   constructor(configOrConnectionString?: NOORMConfig | string) {
-    // Load .env if it exists
-    loadDotenv({ path: '.env' })
+    // Load .env if it exists (Node 20.12+). Variables that are already set
+    // take precedence, and edge runtimes have no file to load.
+    try {
+      process.loadEnvFile?.('.env')
+    } catch {
+      // No .env file
+    }
 
     // Handle different constructor signatures
     let config: NOORMConfig
@@ -75,21 +131,36 @@ export class NOORMME {
     this.config = this.mergeConfig(config)
     this.logger = new Logger(this.config.logging)
     this.cacheManager = new CacheManager(this.config.cache)
+    this.queryCache = new QueryCache(
+      this.config.cache?.storage ?? new MemoryQueryCacheStorage({ maxSize: this.config.cache?.maxSize, logger: this.logger }),
+      this.config.cache?.ttl,
+      this.logger
+    )
+    this.queryScopes = new QueryScopeTracker(() => this.relationshipEngine.getAllRelationships(), this.logger)
     
     // Generate unique instance ID for this NOORMME instance
     this.instanceId = `${this.config.dialect}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     
     // Initialize Kysely with the provided dialect
     this.dialect = this.createDialect()
+    const { dialect, getDriver } = cacheDialect(this.dialect)
     this.db = new Kysely({
-      dialect: this.dialect,
-      log: this.config.logging?.enabled ? this.logger.createKyselyLogger() : undefined
+      dialect,
+      log: this.createKyselyLog(),
+      plugins: [new QueryCachePlugin(this.queryCache)]
     })
+    this.driver = getDriver()!
 
     // Initialize core components
     this.schemaDiscovery = new SchemaDiscovery(this.db, this.config.introspection, this.dialect)
     this.typeGenerator = new TypeGenerator(this.config.introspection)
-    this.repositoryFactory = new RepositoryFactory(this.db, this.config.performance)
+    this.repositoryFactory = new RepositoryFactory(
+      this.db,
+      this.config.performance,
+      this.config.dialect,
+      this.config.tables,
+      this.hookRegistry
+    )
     this.relationshipEngine = new RelationshipEngine(this.db, this.config.performance)
   }
 
@@ -210,7 +281,15 @@ export class NOORMME {
       // Initialize SQLite-specific auto-optimization features
       if (this.config.dialect === 'sqlite') {
         this.sqliteAutoOptimizer = SQLiteAutoOptimizer.getInstance(this.logger)
-        this.sqliteAutoIndexer = SQLiteAutoIndexer.getInstance(this.logger)
+        this.sqliteAutoIndexer = new SQLiteAutoIndexer(this.logger)
+
+        const instrumentation = this.config.performance?.instrumentation
+        if (instrumentation?.persist && instrumentation.enabled !== false) {
+          this.queryStatsTimer = setInterval(() => {
+            this.flushQueryStats().catch(error => this.logger.warn('Failed to persist query stats:', error))
+          }, instrumentation.flushInterval ?? 60000)
+          this.queryStatsTimer.unref()
+        }
         
         // Apply automatic optimizations if enabled (default: true)
         const enableAutoOptimization = this.config.automation?.enableAutoOptimization !== false
@@ -292,7 +371,62 @@ export class NOORMME {
       throw new NoormError('SQLite index recommendations are only available for SQLite databases')
     }
 
-    return await this.sqliteAutoIndexer.analyzeAndRecommend(this.db, options)
+    return await this.sqliteAutoIndexer.analyzeAndRecommend(this.db, {
+      statsWindow: this.config.performance?.instrumentation?.statsWindow,
+      ...options
+    })
+  }
+
+  /**
+   * Recommend indexes from the query plans of recorded queries. Each plan is
+   * checked for full table scans and sorts, and candidate composite,
+   * covering and partial indexes are tried against a copy of the schema to
+   * confirm the planner would use them. Results include the plans before
+   * and after the index.
+   */
+  async adviseIndexes(options: IndexAdviceOptions = {}): Promise<IndexAdvice[]> {
+    const { minFrequency = 3 } = options
+    const queries = options.queries?.map(query =>
+      typeof query === 'string' ? { sql: query, frequency: 1 } : { sql: query.sql, frequency: query.frequency ?? 1 }
+    )
+
+    switch (this.config.dialect) {
+      case 'sqlite': {
+        if (!this.sqliteAutoIndexer) {
+          throw new NoormError('NOORMME must be initialized before advising indexes')
+        }
+        const recorded = queries ?? (await this.sqliteAutoIndexer.getQueryPatterns(
+          this.db,
+          this.config.performance?.instrumentation?.statsWindow
+        ))
+          .filter(pattern => pattern.frequency >= minFrequency)
+          .map(pattern => ({ sql: pattern.sampleQuery ?? pattern.query, frequency: pattern.frequency }))
+
+        return await new SQLiteIndexAdvisor(this.db, this.logger).advise(recorded, options)
+      }
+      case 'postgresql': {
+        const advisor = new PostgresIndexAdvisor(this.db, this.logger)
+        return await advisor.advise(queries ?? await advisor.loadStatements(minFrequency), options)
+      }
+      default:
+        throw new NoormError(`Index advice is not available for ${this.config.dialect} databases`)
+    }
+  }
+
+  /**
+   * Add the query patterns recorded by this process to the
+   * `_noormme_query_stats` table, so that other processes such as
+   * `noormme analyze --indexes` base their recommendations on them
+   */
+  async flushQueryStats(): Promise<void> {
+    if (this.config.dialect !== 'sqlite' || !this.sqliteAutoIndexer) {
+      throw new NoormError('Query stats are only available for SQLite databases')
+    }
+
+    await this.sqliteAutoIndexer.persistQueryPatterns(
+      this.db,
+      this.config.performance?.instrumentation?.statsWindow
+    )
   }
 
   /**
@@ -308,6 +442,50 @@ export class NOORMME {
     }
   }
 
+  /**
+   * Kysely log hook: query logging if enabled, the query instrumentation
+   * that feeds the metrics collector and the SQLite auto-indexer, and N+1
+   * detection for `scope()`
+   */
+  private createKyselyLog(): KyselyLogger {
+    const loggers: KyselyLogger[] = []
+
+    if (this.config.logging?.enabled) {
+      loggers.push(this.logger.createKyselyLogger())
+    }
+
+    const instrumentation = this.config.performance?.instrumentation ?? {}
+    if (instrumentation.enabled !== false) {
+      loggers.push(createQueryInstrumentation(instrumentation, query => this.recordInstrumentedQuery(query)))
+    }
+
+    // Last, so that an N+1 error in strict mode does not skip the other hooks
+    loggers.push(this.queryScopes.createLog())
+
+    return async (event) => {
+      for (const log of loggers) {
+        await log(event)
+      }
+    }
+  }
+
+  private recordInstrumentedQuery(query: InstrumentedQuery): void {
+    // Metrics must never fail the query they describe
+    try {
+      if (this.sqliteAutoIndexer && !query.error) {
+        this.sqliteAutoIndexer.recordQuery(query.sql, query.executionTime, query.table)
+      }
+
+      this.metricsCollector?.recordQuery(query.sql, query.executionTime, {
+        table: query.table,
+        operation: query.operation,
+        error: query.error
+      })
+    } catch (error) {
+      this.logger.debug('Failed to record query metrics:', error)
+    }
+  }
+
   /**
    * Get SQLite performance metrics
    */
@@ -330,11 +508,85 @@ export class NOORMME {
     return await this.sqliteAutoOptimizer.getBackupRecommendations(this.db)
   }
 
+  /**
+   * Copy the SQLite database to a file while it stays in use, or write a
+   * compacted copy with `compact: true`. The copy is integrity checked.
+   */
+  async backup(destination: string, options?: BackupOptions): Promise<BackupResult> {
+    return await this.getBackupManager().backup(destination, options)
+  }
+
+  /**
+   * Back up into a directory under a timestamped name, keeping the newest
+   * `keep` backups
+   */
+  async backupToDirectory(directory: string, options?: DirectoryBackupOptions): Promise<BackupResult> {
+    return await this.getBackupManager().backupToDirectory(directory, options)
+  }
+
+  /**
+   * Take rotating backups at an interval until stopped or closed
+   */
+  scheduleBackups(options: ScheduledBackupOptions): BackupSchedule {
+    const schedule = this.getBackupManager().schedule(options)
+    this.backupSchedules.add(schedule)
+
+    return {
+      runNow: schedule.runNow,
+      stop: () => {
+        schedule.stop()
+        this.backupSchedules.delete(schedule)
+      }
+    }
+  }
+
+  /**
+   * Replace the database's contents with a backup and refresh the schema
+   */
+  async restore(source: string, options?: Omit<BackupOptions, 'compact'>): Promise<void> {
+    if (this.config.connection.database === ':memory:') {
+      throw new NoormError('Cannot restore into an in-memory SQLite database', {
+        operation: 'restore',
+        suggestion: 'Open the backup file directly instead'
+      })
+    }
+
+    await this.getBackupManager().restore(source, options)
+
+    // Cached results and the discovered schema describe the replaced database
+    await this.queryCache.clear()
+    await this.refreshSchema()
+  }
+
+  /**
+   * Run `PRAGMA integrity_check` on a backup file
+   */
+  async verifyBackup(file: string): Promise<IntegrityCheckResult> {
+    return await this.getBackupManager().verify(file)
+  }
+
+  private getBackupManager(): SQLiteBackupManager {
+    if (!this.initialized) {
+      throw new NoormError('NOORMME must be initialized before taking backups')
+    }
+    if (!this.sqliteDatabase) {
+      throw new NoormError('Backups are only available for local SQLite databases', {
+        operation: 'backup',
+        suggestion: 'Use your database server\'s backup tools, e.g. pg_dump'
+      })
+    }
+
+    const database = this.sqliteDatabase
+    return (this.backupManager ??= new SQLiteBackupManager(this.db, () => database, this.logger))
+  }
+
 
   /**
    * Get a repository for the specified table
    */
-  getRepository<T>(tableName: string): Repository<T> {
+  getRepository<TB extends TableName<DB>>(tableName: TB): TableRepository<DB, TB>
+  getRepository<T>(tableName: TableName<DB>): Repository<T>
+  getRepository(tableName: string): Repository<any> {
     if (!this.initialized) {
       throw new Error('NOORMME must be initialized before getting repositories. Call await db.initialize() first.')
     }
@@ -343,6 +595,13 @@ export class NOORMME {
       return this.repositories.get(tableName)!
     }
 
+    const repository = this.createRepository(tableName, this.repositoryFactory)
+    this.repositories.set(tableName, repository)
+    
+    return repository
+  }
+
+  private createRepository(tableName: string, factory: RepositoryFactory): Repository<any> {
     const schemaInfo = this.cacheManager.get<SchemaInfo>('schema')
     if (!schemaInfo) {
       throw new Error('Schema not found. Please reinitialize NOORMME.')
@@ -354,10 +613,15 @@ export class NOORMME {
       throw new TableNotFoundError(tableName, availableTables)
     }
 
-    const repository = this.repositoryFactory.createRepository<T>(table, schemaInfo.relationships)
-    this.repositories.set(tableName, repository)
-    
-    return repository
+    return factory.createRepository<any>(table, schemaInfo.relationships, schemaInfo.tables)
+  }
+
+  /**
+   * Register lifecycle hooks for a table's repository.
+   * Returns a function that unregisters them.
+   */
+  registerHooks<T>(tableName: string, hooks: RepositoryHooks<T>): () => void {
+    return this.hookRegistry.register(tableName, hooks)
   }
 
   /**
@@ -384,6 +648,16 @@ export class NOORMME {
     this.logger.info('Refreshing schema...')
     
     const schemaInfo = await this.schemaDiscovery.discoverSchema()
+    await this.applySchema(schemaInfo)
+
+    this.logger.info('Schema refreshed successfully')
+    return schemaInfo
+  }
+
+  /**
+   * Regenerate types, repositories and relationships for a discovered schema
+   */
+  private async applySchema(schemaInfo: SchemaInfo): Promise<void> {
     const generatedTypes = this.typeGenerator.generateTypes(schemaInfo)
 
     // Update cache
@@ -395,9 +669,6 @@ export class NOORMME {
 
     // Reinitialize relationship engine
     this.relationshipEngine.initialize(schemaInfo.relationships)
-
-    this.logger.info('Schema refreshed successfully')
-    return schemaInfo
   }
 
   /**
@@ -434,7 +705,8 @@ export class NOORMME {
       this.db,
       this.schemaDiscovery,
       this.logger,
-      options
+      options,
+      this.createSchemaChangeDetector(options)
     )
 
     // Register all previously registered callbacks
@@ -446,11 +718,25 @@ export class NOORMME {
     this.schemaWatcher.onSchemaChange(async (changes) => {
       this.logger.info(`Schema changes detected: ${changes.length} changes`)
       changes.forEach(change => {
-        this.logger.info(`  - ${change.type}: ${change.table}`)
+        const target = change.column ? `${change.table}.${change.column}` : change.name ?? change.table
+        this.logger.info(`  - ${change.type}: ${target}${change.previousName ? ` (was ${change.previousName})` : ''}`)
       })
 
       try {
-        await this.refreshSchema()
+        // The watcher just discovered the schema; repositories are rebuilt on next use
+        const schemaInfo = this.schemaWatcher?.getLastSchema() ?? await this.schemaDiscovery.discoverSchema()
+        await this.applySchema(schemaInfo)
+
+        // Cached results may have the old shape, also under a table's old name
+        await this.queryCache.invalidateTables(changes.flatMap(change =>
+          change.type === 'table_renamed' ? [change.table, change.previousName!] : [change.table]
+        ))
+
+        // Indexes and views don't show up in the generated types
+        if (options?.typesOutput && changes.some(change => !/^(index|view)_/.test(change.type))) {
+          await this.writeTypes(options.typesOutput, schemaInfo)
+          this.logger.info(`Types written to ${options.typesOutput}`)
+        }
         this.logger.info('Schema refreshed successfully')
       } catch (error) {
         this.logger.error('Failed to refresh schema:', error)
@@ -460,6 +746,63 @@ export class NOORMME {
     await this.schemaWatcher.startWatching()
   }
 
+  /**
+   * Pick how the watcher learns about schema changes without introspecting:
+   * SQLite's schema version and file changes, or PostgreSQL notifications
+   */
+  private createSchemaChangeDetector(options: WatchOptions = {}): SchemaChangeDetector | undefined {
+    if (options.events === false) {
+      return undefined
+    }
+
+    const { dialect, connection } = this.config
+    switch (dialect) {
+      case 'sqlite':
+        // D1 doesn't allow the pragma
+        if (connection.d1) {
+          return undefined
+        }
+        return new SQLiteSchemaChangeDetector(
+          this.db,
+          /^(libsql|https?):\/\//.test(connection.database) ? undefined : connection.database
+        )
+
+      case 'postgresql':
+        return new PostgresSchemaChangeDetector(
+          this.db,
+          {
+            host: connection.host,
+            port: connection.port,
+            database: connection.database,
+            user: connection.username,
+            password: connection.password,
+            ssl: connection.ssl
+          },
+          this.logger,
+          options.channel
+        )
+
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Write the generated entity types to a file
+   */
+  private async writeTypes(file: string, schemaInfo: SchemaInfo): Promise<void> {
+    const { promises: fs } = await importModule<typeof import('fs')>('fs')
+    const path = await importModule<typeof import('path')>('path')
+    const { interfaces, types } = this.typeGenerator.generateTypes(schemaInfo)
+
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, `// Auto-generated by NOORMME schema watching
+// Do not edit manually - it is rewritten when the database schema changes
+
+${interfaces}
+${types}`)
+  }
+
   /**
    * Stop monitoring schema changes
    */
@@ -517,6 +860,7 @@ export class NOORMME {
       throw new NoormError('Schema not found. Please reinitialize NOORMME.')
     }
 
+    this.metricsCollector?.shutdown()
     this.metricsCollector = new MetricsCollector(
       {
         enabled: true,
@@ -536,6 +880,7 @@ export class NOORMME {
   disablePerformanceMonitoring(): void {
     if (this.metricsCollector) {
       this.metricsCollector.clear()
+      this.metricsCollector.shutdown()
       this.metricsCollector = null
       this.logger.info('Query performance monitoring disabled')
     }
@@ -550,8 +895,20 @@ export class NOORMME {
     // Stop schema watching if running
     this.stopSchemaWatching()
 
+    for (const schedule of this.backupSchedules) {
+      schedule.stop()
+    }
+    this.backupSchedules.clear()
+
+    if (this.queryStatsTimer) {
+      clearInterval(this.queryStatsTimer)
+      this.queryStatsTimer = null
+      await this.flushQueryStats().catch(error => this.logger.warn('Failed to persist query stats:', error))
+    }
+
     await this.db.destroy()
     await this.cacheManager.close()
+    await this.queryCache.close()
 
     this.initialized = false
     this.repositories.clear()
@@ -569,15 +926,124 @@ export class NOORMME {
   /**
    * Get the underlying Kysely instance for custom queries
    */
-  getKysely(): Kysely<any> {
-    return this.db
+  getKysely(): Kysely<DB> {
+    return this.db as Kysely<DB>
   }
 
   /**
-   * Execute a transaction
+   * Execute a transaction. The callback is rerun when the database reports
+   * a lock or serialization conflict, so it should not have side effects
+   * outside the transaction.
+   *
+   * ```ts
+   * await db.transaction(async (tx) => {
+   *   const user = await tx.getRepository('users').create({ name: 'Ann' })
+   *   await tx.transaction(async (nested) => { ... }) // savepoint
+   * }, { isolationLevel: 'serializable' })
+   * ```
    */
-  async transaction<T>(callback: (trx: Kysely<any>) => Promise<T>): Promise<T> {
-    return await this.db.transaction().execute(callback)
+  async transaction<T>(
+    callback: (tx: NoormTransaction<DB>) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const { retries = 3, retryDelay = 50 } = options
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runTransaction(callback, options)
+      } catch (error) {
+        if (attempt >= retries || !isRetryableTransactionError(error)) {
+          throw error
+        }
+
+        const delay = retryDelay * 2 ** attempt
+        this.logger.warn(`Transaction conflict, retrying in ${delay}ms (${attempt + 1}/${retries})`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  private async runTransaction<T>(
+    callback: (tx: NoormTransaction<DB>) => Promise<T>,
+    options: TransactionOptions
+  ): Promise<T> {
+    let builder = this.getKysely().transaction()
+    if (options.isolationLevel) {
+      builder = builder.setIsolationLevel(options.isolationLevel)
+    }
+    if (options.readOnly) {
+      builder = builder.setAccessMode('read only')
+    }
+
+    // Reads inside the transaction may see uncommitted rows, so they skip
+    // the query cache, and written tables are invalidated again on commit
+    const written = new Set<string>()
+    const result = await builder.execute(async (transaction) => {
+      const trx = transaction.withPlugin(new QueryCachePlugin(this.queryCache, {
+        reads: false,
+        onWrite: (tables) => tables.forEach(table => written.add(table))
+      }))
+      const factory = new RepositoryFactory(
+        trx,
+        this.config.performance,
+        this.config.dialect,
+        this.config.tables,
+        this.hookRegistry
+      )
+      return await callback(
+        createTransactionScope(trx, this.driver, (tableName) => {
+          if (!this.initialized) {
+            throw new Error('NOORMME must be initialized before getting repositories. Call await db.initialize() first.')
+          }
+          return this.createRepository(tableName, factory)
+        })
+      )
+    })
+
+    await this.queryCache.invalidateTables(written)
+    return result
+  }
+
+  /**
+   * Kysely instance whose selects are served from the query cache, executed
+   * only on a miss. Cached results are dropped when an insert, update,
+   * delete or merge writes to any table they read, or when one of their
+   * `tags` is invalidated.
+   *
+   * ```ts
+   * const people = await db.cached({ ttl: 60_000, tags: ['people'] })
+   *   .selectFrom('person')
+   *   .selectAll()
+   *   .execute()
+   * ```
+   */
+  cached(options: CachedQueryOptions = {}): Kysely<DB> {
+    return this.getKysely().withPlugin(findQueryCachePlugin(this.db.getExecutor()).withReads(options))
+  }
+
+  /**
+   * The cache behind `cached()` queries and repositories. Writes through
+   * NOORMME and Kysely invalidate it automatically; use
+   * `invalidateTables` after raw SQL writes and `invalidateTags` for
+   * results cached with tags.
+   */
+  getQueryCache(): QueryCache {
+    return this.queryCache
+  }
+
+  /**
+   * Run a unit of work, such as a request handler, in a query scope.
+   * Identical selects repeated more than `threshold` times inside it are
+   * reported as N+1 queries with the call site that issued them and the
+   * relationship that would batch them; `strict` turns the report into an
+   * `NPlusOneQueryError`.
+   *
+   * ```ts
+   * await db.scope(() => handler(req), { strict: process.env.NODE_ENV === 'test' })
+   * ```
+   */
+  async scope<T>(callback: () => Promise<T>, options?: QueryScopeOptions): Promise<T> {
+    return await this.queryScopes.run(callback, options)
   }
 
   /**
@@ -614,7 +1080,8 @@ export class NOORMME {
         enableBatchLoading: true,
         maxBatchSize: 100,
         ...config.performance
-      }
+      },
+      tables: config.tables
     }
   }
 
@@ -625,6 +1092,15 @@ export class NOORMME {
     try {
       const url = new URL(connectionString)
 
+      if (url.protocol === 'libsql:') {
+        const authToken = url.searchParams.get('authToken') ?? undefined
+        url.searchParams.delete('authToken')
+        return {
+          dialect: 'sqlite',
+          connection: { database: url.toString(), authToken }
+        }
+      }
+
       let dialect: NOORMConfig['dialect']
       switch (url.protocol) {
         case 'sqlite:':
@@ -642,7 +1118,7 @@ export class NOORMME {
             `Unsupported database protocol: ${url.protocol}`,
             {
               operation: 'connection_string_parsing',
-              suggestion: 'Supported protocols: sqlite, postgresql, postgres, mysql'
+              suggestion: 'Supported protocols: sqlite, libsql, postgresql, postgres, mysql'
             }
           )
       }
@@ -728,13 +1204,33 @@ export class NOORMME {
     }
   }
 
-  private createDialect(): Dialect {
+  /**
+   * Create the dialect for the configured database. Called once from the
+   * constructor; subclasses may wrap the result.
+   */
+  protected createDialect(): Dialect {
     const { dialect, connection } = this.config
     
     switch (dialect) {
       case 'sqlite':
+        if (connection.d1) {
+          return new RemoteSqliteDialect({ client: new D1Client(connection.d1) })
+        }
+
+        if (/^(libsql|https?):\/\//.test(connection.database)) {
+          return new RemoteSqliteDialect({
+            client: new HranaClient({ url: connection.database, authToken: connection.authToken })
+          })
+        }
+
+        // Imported on first use so that bundles for edge runtimes, which
+        // can't load native modules, don't include it
         return new SqliteDialect({
-          database: new Database(connection.database)
+          database: async () => {
+            const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+            // Kept for the online backup API
+            return (this.sqliteDatabase = new Database(connection.database))
+          }
         })
       
       case 'postgresql':
@@ -752,6 +1248,22 @@ export class NOORMME {
           }
         })
       
+      case 'mysql':
+        return new MysqlDialect({
+          poolConfig: {
+            host: connection.host,
+            port: connection.port,
+            database: connection.database,
+            user: connection.username,
+            password: connection.password,
+            // mysql2 takes TLS options, an empty object uses the defaults
+            ssl: connection.ssl === true ? {} : connection.ssl || undefined,
+            connectionLimit: connection.pool?.max ?? 10,
+            maxIdle: connection.pool?.min ?? 0,
+            idleTimeout: connection.pool?.idleTimeoutMillis ?? 10000,
+          }
+        })
+      
       default:
         throw new Error(`Unsupported dialect: ${dialect}`)
     }
@@ -0,0 +1,102 @@
+import type { LogEvent, Logger as KyselyLogger } from '../util/log.js'
+import type { OperationNode } from '../operation-node/operation-node.js'
+import type { RootOperationNode } from '../query-compiler/query-compiler.js'
+import type { QueryInstrumentationConfig } from '../types/index.js'
+import { AliasNode } from '../operation-node/alias-node.js'
+import { DeleteQueryNode } from '../operation-node/delete-query-node.js'
+import { InsertQueryNode } from '../operation-node/insert-query-node.js'
+import { SelectQueryNode } from '../operation-node/select-query-node.js'
+import { TableNode } from '../operation-node/table-node.js'
+import { UpdateQueryNode } from '../operation-node/update-query-node.js'
+
+export type InstrumentedOperation = 'select' | 'insert' | 'update' | 'delete'
+
+export interface QueryTarget {
+  operation: InstrumentedOperation
+  /** Table the statement reads from or writes to */
+  table?: string
+  /** Every table referenced in FROM, JOIN and the write target */
+  tables: string[]
+}
+
+export interface InstrumentedQuery extends QueryTarget {
+  sql: string
+  executionTime: number
+  error?: string
+}
+
+// Bookkeeping tables of NOORMME and SQLite are never instrumented
+const INTERNAL_TABLE_PREFIXES = ['_noormme_', 'sqlite_']
+
+/**
+ * Read the operation and tables of a compiled query from its operation
+ * node tree. Returns null for schema changes and raw SQL.
+ */
+export function getQueryTarget(node: RootOperationNode): QueryTarget | null {
+  let operation: InstrumentedOperation
+  let targets: ReadonlyArray<OperationNode | undefined>
+
+  if (SelectQueryNode.is(node)) {
+    operation = 'select'
+    targets = [...(node.from?.froms ?? []), ...(node.joins ?? []).map(j => j.table)]
+  } else if (InsertQueryNode.is(node)) {
+    operation = 'insert'
+    targets = [node.into]
+  } else if (UpdateQueryNode.is(node)) {
+    operation = 'update'
+    targets = [node.table, ...(node.from?.froms ?? []), ...(node.joins ?? []).map(j => j.table)]
+  } else if (DeleteQueryNode.is(node)) {
+    operation = 'delete'
+    targets = [...node.from.froms, ...(node.joins ?? []).map(j => j.table)]
+  } else {
+    return null
+  }
+
+  const tables: string[] = []
+  for (const target of targets) {
+    const name = target && getTableName(target)
+    if (name && !tables.includes(name)) {
+      tables.push(name)
+    }
+  }
+
+  return { operation, table: tables[0], tables }
+}
+
+function getTableName(node: OperationNode): string | undefined {
+  const table = AliasNode.is(node) ? node.node : node
+  return TableNode.is(table) ? table.table.identifier.name : undefined
+}
+
+/**
+ * Create a Kysely `log` function that times every select, insert, update
+ * and delete and hands it to `record`. Queries are sampled by `sampleRate`
+ * and filtered by table; `includeTables` applies to the queried table,
+ * `excludeTables` to every table a query touches.
+ */
+export function createQueryInstrumentation(
+  config: QueryInstrumentationConfig,
+  record: (query: InstrumentedQuery) => void
+): KyselyLogger {
+  const sampleRate = config.sampleRate ?? 1
+  const include = config.includeTables && new Set(config.includeTables)
+  const exclude = new Set(config.excludeTables ?? [])
+
+  const isExcluded = (table: string) =>
+    exclude.has(table) || INTERNAL_TABLE_PREFIXES.some(prefix => table.startsWith(prefix))
+
+  return (event: LogEvent) => {
+    if (sampleRate < 1 && Math.random() >= sampleRate) return
+
+    const target = getQueryTarget(event.query.query)
+    if (!target?.table || target.tables.some(isExcluded)) return
+    if (include && !include.has(target.table)) return
+
+    record({
+      ...target,
+      sql: event.query.sql,
+      executionTime: event.queryDurationMillis,
+      error: event.level === 'error' ? String((event.error as Error)?.message ?? event.error) : undefined
+    })
+  }
+}
@@ -0,0 +1,197 @@
+import type { LogEvent, Logger as KyselyLogger } from '../util/log.js'
+import type { OperationNode } from '../operation-node/operation-node.js'
+import type { CompiledQuery } from '../query-compiler/compiled-query.js'
+import type { NPlusOneDetection, QueryScopeOptions, RelationshipInfo } from '../types/index.js'
+import { ColumnNode } from '../operation-node/column-node.js'
+import { SelectQueryNode } from '../operation-node/select-query-node.js'
+import { Logger } from '../logging/logger.js'
+import { NPlusOneQueryError } from '../errors/NoormError.js'
+import { getQueryTarget } from './query-instrumentation.js'
+
+interface QueryScope {
+  threshold: number
+  strict: boolean
+  onDetect?: (detection: NPlusOneDetection) => void
+  queries: Map<string, { count: number; detection?: NPlusOneDetection }>
+}
+
+interface AsyncContext<T> {
+  run<R>(store: T, callback: () => R): R
+  getStore(): T | undefined
+}
+
+/**
+ * AsyncLocalStorage without a static `async_hooks` import, which keeps edge
+ * bundles free of Node built-ins. Vercel's edge runtime has it as a global,
+ * Node and Cloudflare Workers (nodejs_compat) as a built-in module.
+ */
+function createAsyncContext<T>(): AsyncContext<T> | undefined {
+  const AsyncLocalStorage: (new () => AsyncContext<T>) | undefined =
+    (globalThis as { AsyncLocalStorage?: new () => AsyncContext<T> }).AsyncLocalStorage ??
+    (typeof process !== 'undefined' ? process.getBuiltinModule?.('async_hooks')?.AsyncLocalStorage : undefined)
+  return AsyncLocalStorage ? new AsyncLocalStorage() : undefined
+}
+
+// Stack frames from these files belong to NOORMME, not to the code that issued the query
+const LIBRARY_ROOT = getLibraryRoot()
+
+/**
+ * Tracks the selects issued inside `db.scope()` callbacks and reports
+ * identical ones repeated more often than the scope's threshold.
+ */
+export class QueryScopeTracker {
+  private storage = createAsyncContext<QueryScope>()
+
+  constructor(
+    private getRelationships: () => RelationshipInfo[],
+    private logger: Logger
+  ) {}
+
+  async run<T>(callback: () => Promise<T>, options: QueryScopeOptions = {}): Promise<T> {
+    const scope: QueryScope = {
+      threshold: options.threshold ?? 5,
+      strict: options.strict ?? false,
+      onDetect: options.onDetect,
+      queries: new Map()
+    }
+
+    // Without AsyncLocalStorage the callback still runs, just untracked
+    return await (this.storage ? this.storage.run(scope, callback) : callback())
+  }
+
+  /**
+   * Kysely log hook that counts queries of the active scope
+   */
+  createLog(): KyselyLogger {
+    return (event: LogEvent) => {
+      const scope = this.storage?.getStore()
+      if (scope && event.level === 'query') {
+        this.record(scope, event.query)
+      }
+    }
+  }
+
+  private record(scope: QueryScope, query: CompiledQuery): void {
+    let entry = scope.queries.get(query.sql)
+    if (!entry) {
+      entry = { count: 0 }
+      scope.queries.set(query.sql, entry)
+    }
+
+    entry.count++
+    if (entry.detection) {
+      entry.detection.count = entry.count
+      return
+    }
+
+    if (entry.count <= scope.threshold) {
+      return
+    }
+
+    const target = getQueryTarget(query.query)
+    if (target?.operation !== 'select' || !target.table) {
+      return
+    }
+
+    const relationships = this.findRelationships(target.table, getWhereColumns(query.query))
+    const detection: NPlusOneDetection = {
+      sql: query.sql,
+      table: target.table,
+      count: entry.count,
+      callSite: findCallSite(),
+      relationships,
+      suggestion: suggestFix(relationships)
+    }
+    entry.detection = detection
+
+    scope.onDetect?.(detection)
+
+    if (scope.strict) {
+      throw new NPlusOneQueryError(detection)
+    }
+
+    this.logger.warn(
+      `Possible N+1 query on '${detection.table}' (${detection.count} times)` +
+      `${detection.callSite ? ` at ${detection.callSite}` : ''}: ${detection.suggestion}`
+    )
+  }
+
+  /**
+   * Relationships whose batch loading fetches rows of `table` by one of `columns`
+   */
+  private findRelationships(table: string, columns: string[]): RelationshipInfo[] {
+    return this.getRelationships().filter(r => r.throughTable
+      ? r.throughTable === table && columns.includes(r.throughFromColumn!)
+      : r.toTable === table && columns.includes(r.toColumn)
+    )
+  }
+}
+
+function suggestFix(relationships: RelationshipInfo[]): string {
+  if (relationships.length === 0) {
+    return 'Fetch these rows in one query, e.g. with a `where(column, \'in\', ids)` filter'
+  }
+
+  return relationships
+    .map(r =>
+      `Load '${r.name}' for all ${r.fromTable} rows at once: getRepository('${r.fromTable}')` +
+      `.loadRelationships(rows, ['${r.name}']) or .findWithRelations(id, ['${r.name}'])`
+    )
+    .join('; ')
+}
+
+function getWhereColumns(node: OperationNode): string[] {
+  const columns = new Set<string>()
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else if (value && typeof value === 'object') {
+      if (ColumnNode.is(value as OperationNode)) {
+        columns.add((value as ColumnNode).column.name)
+      } else {
+        Object.values(value).forEach(visit)
+      }
+    }
+  }
+
+  if (SelectQueryNode.is(node)) {
+    visit(node.where)
+  }
+
+  return [...columns]
+}
+
+/**
+ * First frame of the current (async) stack outside NOORMME and node internals
+ */
+function findCallSite(): string | undefined {
+  const limit = Error.stackTraceLimit
+  Error.stackTraceLimit = 50
+  const stack = new Error().stack ?? ''
+  Error.stackTraceLimit = limit
+
+  return stack
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim().replace(/^at (async )?/, ''))
+    .find(frame => {
+      const file = getFrameFile(frame)
+      return file &&
+        !file.startsWith(LIBRARY_ROOT) &&
+        !/[\\/]node_modules[\\/]/.test(file) &&
+        !file.startsWith('node:')
+    })
+}
+
+function getFrameFile(frame: string): string | undefined {
+  const match = frame.match(/\(?((?:file:\/\/)?[^()\s]+?):\d+:\d+\)?$/)
+  return match?.[1].replace(/^file:\/\//, '')
+}
+
+function getLibraryRoot(): string {
+  const frame = (new Error().stack ?? '').split('\n')[1] ?? ''
+  const file = getFrameFile(frame.trim())
+  // This file lives in <root>/performance/
+  return file?.match(/^(.*[\\/])[^\\/]+[\\/][^\\/]+$/)?.[1] ?? '\0'
+}
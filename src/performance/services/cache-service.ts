@@ -438,6 +438,8 @@ export class CacheService<T = any> {
     this.cleanupTimer = setInterval(() => {
       this.cleanup()
     }, this.config.cleanupInterval)
+    // Cleanup alone should not keep the process alive
+    this.cleanupTimer.unref()
   }
 
   /**
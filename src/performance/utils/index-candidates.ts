@@ -0,0 +1,162 @@
+/**
+ * Candidate index generation shared by the dialect index advisors
+ */
+
+import type { IndexRecommendation } from '../../dialect/sqlite/sqlite-auto-indexer.js'
+import type { IndexAdvice, QueryPlanIssue } from '../../types/index.js'
+
+export interface AdvisedQuery {
+  sql: string
+  frequency: number
+}
+
+/**
+ * How a query reads one table
+ */
+export interface TableAccess {
+  table: string
+  /** Columns compared with `=`, `IN` or `IS` */
+  equality: string[]
+  /** Columns compared with `<`, `>`, `BETWEEN` or `LIKE` */
+  range: string[]
+  /** Columns the rows are sorted or grouped by */
+  orderBy: string[]
+  /** Columns the query reads, or null when every column is read */
+  selected: string[] | null
+  /** Column comparisons with a constant, usable as a partial index predicate */
+  literals: Array<{ column: string; predicate: string }>
+}
+
+export interface IndexCandidate {
+  table: string
+  columns: string[]
+  type: IndexRecommendation['type']
+  where?: string
+}
+
+export interface TestedIndexCandidate {
+  candidate: IndexCandidate
+  planAfter: string[]
+  /** Plan issues that disappear with the index in place */
+  resolved: number
+}
+
+/**
+ * Candidate indexes for a table access, most general first: equality columns
+ * followed by the first range column (or the sort columns), its leading
+ * column alone, a covering variant and a partial variant.
+ */
+export function buildIndexCandidates(access: TableAccess): IndexCandidate[] {
+  const { table } = access
+  const keys = unique([
+    ...access.equality,
+    ...(access.range.length > 0 ? [access.range[0]] : access.orderBy)
+  ])
+  if (keys.length === 0) return []
+
+  const candidates: IndexCandidate[] = [
+    { table, columns: keys, type: keys.length > 1 ? 'composite' : 'single' }
+  ]
+
+  if (keys.length > 1) {
+    candidates.push({ table, columns: [keys[0]], type: 'single' })
+  }
+
+  if (access.selected) {
+    const covering = unique([...keys, ...access.equality, ...access.range, ...access.orderBy, ...access.selected])
+    if (covering.length > keys.length) {
+      candidates.push({ table, columns: covering, type: 'covering' })
+    }
+  }
+
+  if (access.literals.length > 0) {
+    const literalColumns = new Set(access.literals.map(l => l.column))
+    const columns = keys.filter(column => !literalColumns.has(column))
+    if (columns.length > 0) {
+      candidates.push({
+        table,
+        columns,
+        type: 'partial',
+        where: access.literals.map(l => l.predicate).join(' AND ')
+      })
+    }
+  }
+
+  return candidates
+}
+
+export function indexCandidateName(candidate: IndexCandidate): string {
+  return `idx_${candidate.table}_${candidate.columns.join('_')}${candidate.where ? '_partial' : ''}`
+}
+
+export function indexCandidateSQL(candidate: IndexCandidate, name = indexCandidateName(candidate)): string {
+  const columns = candidate.columns.map(column => `"${column}"`).join(', ')
+  const where = candidate.where ? ` WHERE ${candidate.where}` : ''
+  return `CREATE INDEX "${name}" ON "${candidate.table}" (${columns})${where}`
+}
+
+/**
+ * Number of issues in `before` that no longer occur in `after`
+ */
+export function countResolvedIssues(before: QueryPlanIssue[], after: QueryPlanIssue[]): number {
+  const remaining = after.map(issueKey)
+  let resolved = 0
+  for (const issue of before) {
+    const index = remaining.indexOf(issueKey(issue))
+    if (index === -1) {
+      resolved++
+    } else {
+      remaining.splice(index, 1)
+    }
+  }
+  return resolved
+}
+
+/**
+ * The candidate resolving the most issues, preferring narrower indexes
+ */
+export function pickIndexCandidate(tested: TestedIndexCandidate[]): TestedIndexCandidate | undefined {
+  return tested
+    .filter(t => t.resolved > 0)
+    .sort((a, b) => b.resolved - a.resolved || a.candidate.columns.length - b.candidate.columns.length)[0]
+}
+
+export function createIndexAdvice(
+  query: AdvisedQuery,
+  issues: QueryPlanIssue[],
+  planBefore: string[],
+  candidate: IndexCandidate,
+  planAfter: string[],
+  verified: boolean
+): IndexAdvice {
+  const fullScan = issues.some(issue => issue.kind === 'full_scan')
+  const avoided = issues.map(issue =>
+    issue.kind === 'full_scan' ? `a full scan of ${issue.table}` : 'a temporary sort'
+  )
+
+  return {
+    query: query.sql,
+    frequency: query.frequency,
+    issues,
+    planBefore,
+    planAfter,
+    verified,
+    recommendation: {
+      table: candidate.table,
+      columns: candidate.columns,
+      type: candidate.type,
+      priority: fullScan ? (query.frequency >= 20 ? 'high' : 'medium') : 'low',
+      reason: `${verified ? 'Avoids' : 'Would avoid'} ${unique(avoided).join(' and ')} (query run ${query.frequency} times)`,
+      estimatedImpact: fullScan ? 'high' : 'medium',
+      sql: indexCandidateSQL(candidate)
+    }
+  }
+}
+
+function issueKey(issue: QueryPlanIssue): string {
+  return `${issue.kind}:${issue.table ?? ''}`
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
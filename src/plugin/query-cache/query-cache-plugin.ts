@@ -0,0 +1,181 @@
+import { QueryResult } from '../../driver/database-connection.js'
+import { AliasNode } from '../../operation-node/alias-node.js'
+import { DeleteQueryNode } from '../../operation-node/delete-query-node.js'
+import { InsertQueryNode } from '../../operation-node/insert-query-node.js'
+import { ListNode } from '../../operation-node/list-node.js'
+import { MergeQueryNode } from '../../operation-node/merge-query-node.js'
+import { OperationNode } from '../../operation-node/operation-node.js'
+import { TableNode } from '../../operation-node/table-node.js'
+import { UpdateQueryNode } from '../../operation-node/update-query-node.js'
+import { WithNode } from '../../operation-node/with-node.js'
+import { QueryExecutor } from '../../query-executor/query-executor.js'
+import { RootOperationNode } from '../../query-compiler/query-compiler.js'
+import { QueryId } from '../../util/query-id.js'
+import { UnknownRow } from '../../util/type-utils.js'
+import type { CachedQueryOptions, QueryCache } from '../../cache/query-cache.js'
+import {
+  KyselyPlugin,
+  PluginTransformQueryArgs,
+  PluginTransformResultArgs,
+} from '../kysely-plugin.js'
+
+export interface QueryCachePluginOptions {
+  /**
+   * Cache every select run through the plugin with these options, or never
+   * cache them with `false`. By default selects are not cached.
+   */
+  reads?: CachedQueryOptions | false
+
+  /**
+   * Called with the tables written by each insert, update, delete and merge.
+   * Defaults to invalidating them in the cache.
+   */
+  onWrite?: (tables: string[]) => Promise<void> | void
+}
+
+type CachedRead = { cache: QueryCache; options: CachedQueryOptions }
+
+// Selects marked for caching, read by the connection that runs them
+const cachedReads = new WeakMap<QueryId, CachedRead | false>()
+
+/**
+ * Connects a {@link QueryCache} to Kysely: the tables written by insert,
+ * update, delete and merge queries are invalidated when the write
+ * completes, and selects run through a plugin with `reads` options are
+ * marked for caching.
+ *
+ * Marked selects are served from the cache by NOORMME's connections; use
+ * `db.cached()` or `repository.cached()` rather than adding read options
+ * yourself. Writes made with raw SQL are not seen by the plugin; invalidate
+ * their tables with `QueryCache.invalidateTables`.
+ *
+ * ```ts
+ * const cache = new QueryCache()
+ * const db = new Kysely<Database>({ dialect, plugins: [new QueryCachePlugin(cache)] })
+ *
+ * await db.insertInto('person').values(person).execute() // invalidates `person`
+ * ```
+ */
+export class QueryCachePlugin implements KyselyPlugin {
+  readonly #cache: QueryCache
+  readonly #options: QueryCachePluginOptions
+  readonly #writes = new WeakMap<QueryId, string[]>()
+
+  constructor(cache: QueryCache, options: QueryCachePluginOptions = {}) {
+    this.#cache = cache
+    this.#options = options
+  }
+
+  get cache(): QueryCache {
+    return this.#cache
+  }
+
+  /**
+   * A plugin that caches reads with the given options and leaves write
+   * invalidation to this one
+   */
+  withReads(reads: CachedQueryOptions | false): QueryCachePlugin {
+    return new QueryCachePlugin(this.#cache, { reads, onWrite: () => {} })
+  }
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const { reads } = this.#options
+
+    // Plugins run in the order they were added, so the plugin without read
+    // options, installed on the Kysely instance, clears marks left by an
+    // earlier run of the same query. `reads: false` (transactions) wins.
+    if (reads === undefined) {
+      cachedReads.delete(args.queryId)
+    } else if (reads === false) {
+      cachedReads.set(args.queryId, false)
+    } else if (cachedReads.get(args.queryId) !== false) {
+      cachedReads.set(args.queryId, { cache: this.#cache, options: reads })
+    }
+
+    const tables = getWrittenTables(args.node)
+    if (tables.length > 0) {
+      this.#writes.set(args.queryId, tables)
+    }
+
+    return args.node
+  }
+
+  async transformResult(
+    args: PluginTransformResultArgs,
+  ): Promise<QueryResult<UnknownRow>> {
+    const tables = this.#writes.get(args.queryId)
+
+    if (tables) {
+      this.#writes.delete(args.queryId)
+      await (this.#options.onWrite ?? ((t) => this.#cache.invalidateTables(t)))(
+        tables,
+      )
+    }
+
+    return args.result
+  }
+}
+
+/**
+ * The cache plugin of an executor, for marking its selects as cached
+ */
+export function findQueryCachePlugin(
+  executor: QueryExecutor,
+): QueryCachePlugin {
+  const plugin = executor.plugins.find(
+    (plugin): plugin is QueryCachePlugin => plugin instanceof QueryCachePlugin,
+  )
+
+  if (!plugin) {
+    throw new Error(
+      'Caching needs a query cache. Add a QueryCachePlugin to the Kysely instance.',
+    )
+  }
+
+  return plugin
+}
+
+/**
+ * The cache and options a query should be read through, if it was marked
+ * for caching
+ */
+export function getCachedRead(queryId: QueryId): CachedRead | undefined {
+  return cachedReads.get(queryId) || undefined
+}
+
+function getWrittenTables(node: RootOperationNode): string[] {
+  const targets: Array<OperationNode | undefined> = []
+  const collect = (node: OperationNode | undefined) => {
+    if (!node) {
+      return
+    }
+
+    if (InsertQueryNode.is(node)) {
+      targets.push(node.into)
+    } else if (UpdateQueryNode.is(node)) {
+      // MySQL multi-table updates list every table
+      targets.push(
+        ...(node.table && ListNode.is(node.table) ? node.table.items : [node.table]),
+      )
+    } else if (DeleteQueryNode.is(node)) {
+      targets.push(...node.from.froms)
+    } else if (MergeQueryNode.is(node)) {
+      targets.push(node.into)
+    }
+
+    // Data-modifying CTEs, e.g. `with d as (delete from ...) select ...`
+    const withNode = (node as { with?: WithNode }).with
+    withNode?.expressions.forEach((cte) => collect(cte.expression))
+  }
+  collect(node)
+
+  const tables = new Set<string>()
+  for (const target of targets) {
+    const table = target && AliasNode.is(target) ? target.node : target
+    if (table && TableNode.is(table)) {
+      tables.add(table.table.identifier.name)
+    }
+  }
+
+  return Array.from(tables)
+}
@@ -1,5 +1,9 @@
 import type { Kysely } from '../kysely.js'
 import { RelationshipInfo, PerformanceConfig } from '../types'
+import { RelationshipNotFoundError } from '../errors/NoormError.js'
+
+// Alias used to carry the owning entity key through many-to-many joins
+const THROUGH_KEY = '__noormme_through_key'
 
 /**
  * Relationship engine that handles foreign key relationships
@@ -21,127 +25,135 @@ export class RelationshipEngine {
 
   /**
    * Load relationships for entities
+   *
+   * Relations may be nested with dot notation (e.g. `posts.comments`), in which
+   * case each level is loaded for all entities of the previous level at once.
+   * When `tableName` is given, relation names are resolved against that table only.
+   * Unknown relation names throw `RelationshipNotFoundError`, also when there
+   * are no entities to load them for.
    */
   async loadRelationships<T>(
     entities: T[], 
-    relations: string[]
+    relations: string[],
+    tableName?: string
   ): Promise<void> {
-    if (!this.config.enableBatchLoading) {
-      // Load relationships one by one
-      for (const entity of entities) {
-        await this.loadEntityRelationships(entity, relations)
+    if (relations.length === 0) return
+
+    // Load relationships one by one unless batch loading is enabled
+    const batchSize = this.config.enableBatchLoading ? (this.config.maxBatchSize || 100) : 1
+
+    for (const [relationName, nested] of this.buildRelationTree(relations)) {
+      const relationship = this.findRelationship(relationName, tableName)
+      if (!relationship) {
+        throw new RelationshipNotFoundError(
+          relationName,
+          tableName ?? 'unknown',
+          this.relationships
+            .filter(r => tableName === undefined || r.fromTable === tableName)
+            .map(r => r.name)
+        )
+      }
+
+      for (let i = 0; i < entities.length; i += batchSize) {
+        const batch = entities.slice(i, i + batchSize)
+        await this.batchLoadSingleRelationship(batch, relationship)
       }
-      return
-    }
 
-    // Batch load relationships for performance
-    const batchSize = this.config.maxBatchSize || 100
-    
-    for (let i = 0; i < entities.length; i += batchSize) {
-      const batch = entities.slice(i, i + batchSize)
-      await this.batchLoadRelationships(batch, relations)
+      if (nested.length > 0) {
+        const related = this.collectRelated(entities, relationship)
+        await this.loadRelationships(related, nested, relationship.toTable)
+      }
     }
   }
 
   /**
-   * Load relationships for a single entity
+   * Group relation paths by their first segment
+   * e.g. ['posts.comments', 'posts.tags', 'user'] -> posts: [comments, tags], user: []
    */
-  private async loadEntityRelationships<T>(entity: T, relations: string[]): Promise<void> {
-    for (const relationName of relations) {
-      const relationship = this.relationships.find(r => r.name === relationName)
-      if (!relationship) continue
+  private buildRelationTree(relations: string[]): Map<string, string[]> {
+    const tree = new Map<string, string[]>()
+
+    for (const relation of relations) {
+      const [head, ...rest] = relation.split('.')
+      if (!head) continue
 
-      await this.loadSingleRelationship(entity, relationship)
+      if (!tree.has(head)) {
+        tree.set(head, [])
+      }
+      if (rest.length > 0) {
+        tree.get(head)!.push(rest.join('.'))
+      }
     }
+
+    return tree
   }
 
   /**
-   * Batch load relationships for multiple entities
+   * Find a relationship by name, optionally scoped to the table it starts from
    */
-  private async batchLoadRelationships<T>(entities: T[], relations: string[]): Promise<void> {
-    for (const relationName of relations) {
-      const relationship = this.relationships.find(r => r.name === relationName)
-      if (!relationship) continue
-
-      await this.batchLoadSingleRelationship(entities, relationship)
-    }
+  private findRelationship(relationName: string, tableName?: string): RelationshipInfo | undefined {
+    return this.relationships.find(r =>
+      r.name === relationName && (tableName === undefined || r.fromTable === tableName)
+    )
   }
 
   /**
-   * Load a single relationship for an entity
+   * Flatten the related entities loaded for a relationship so they can be used
+   * as the parent level of a nested relation
    */
-  private async loadSingleRelationship<T>(entity: T, relationship: RelationshipInfo): Promise<void> {
-    const entityValue = (entity as any)[relationship.fromColumn]
-    if (!entityValue) return
-
-    let relatedData: any
-
-    switch (relationship.type) {
-      case 'many-to-one':
-        relatedData = await this.db
-          .selectFrom(relationship.toTable)
-          .selectAll()
-          .where(relationship.toColumn as any, '=', entityValue)
-          .executeTakeFirst()
-        break
-
-      case 'one-to-many':
-        relatedData = await this.db
-          .selectFrom(relationship.toTable)
-          .selectAll()
-          .where(relationship.fromColumn as any, '=', entityValue)
-          .execute()
-        break
-
-      case 'many-to-many':
-        relatedData = await this.loadManyToManyRelationship(entity, relationship)
-        break
+  private collectRelated<T>(entities: T[], relationship: RelationshipInfo): any[] {
+    const related: any[] = []
+
+    for (const entity of entities) {
+      const value = (entity as any)[relationship.name]
+      if (Array.isArray(value)) {
+        related.push(...value)
+      } else if (value) {
+        related.push(value)
+      }
     }
 
-    (entity as any)[relationship.name] = relatedData
+    return related
   }
 
   /**
    * Batch load a single relationship for multiple entities
    */
   private async batchLoadSingleRelationship<T>(entities: T[], relationship: RelationshipInfo): Promise<void> {
-    const entityValues = entities
-      .map(e => (e as any)[relationship.fromColumn])
-      .filter(v => v !== undefined && v !== null)
-
-    if (entityValues.length === 0) return
-
-    let relatedData: any[]
-
-    switch (relationship.type) {
-      case 'many-to-one':
-        relatedData = await this.db
-          .selectFrom(relationship.toTable)
-          .selectAll()
-          .where(relationship.toColumn as any, 'in', entityValues)
-          .execute()
-        break
-
-      case 'one-to-many':
-        relatedData = await this.db
-          .selectFrom(relationship.toTable)
-          .selectAll()
-          .where(relationship.fromColumn as any, 'in', entityValues)
-          .execute()
-        break
-
-      case 'many-to-many':
-        relatedData = await this.batchLoadManyToManyRelationship(entities, relationship)
-        break
-
-      default:
-        relatedData = []
+    const entityValues = [...new Set(
+      entities
+        .map(e => (e as any)[relationship.fromColumn])
+        .filter(v => v !== undefined && v !== null)
+    )]
+
+    let relatedData: any[] = []
+    let groupColumn = relationship.toColumn
+
+    if (entityValues.length > 0) {
+      switch (relationship.type) {
+        case 'many-to-one':
+        case 'one-to-many':
+          relatedData = await this.db
+            .selectFrom(relationship.toTable)
+            .selectAll()
+            .where(relationship.toColumn as any, 'in', entityValues)
+            .execute()
+          break
+
+        case 'many-to-many':
+          relatedData = await this.batchLoadManyToManyRelationship(entityValues, relationship)
+          groupColumn = THROUGH_KEY
+          break
+      }
     }
 
     // Group related data by foreign key value
     const groupedData = new Map<any, any[]>()
     for (const item of relatedData) {
-      const key = item[relationship.toColumn]
+      const key = item[groupColumn]
+      if (groupColumn === THROUGH_KEY) {
+        delete item[THROUGH_KEY]
+      }
       if (!groupedData.has(key)) {
         groupedData.set(key, [])
       }
@@ -151,64 +163,34 @@ export class RelationshipEngine {
     // Assign related data to entities
     for (const entity of entities) {
       const entityValue = (entity as any)[relationship.fromColumn]
-      if (entityValue) {
-        let entityRelatedData: any
-        if (relationship.type === 'many-to-one') {
-          entityRelatedData = groupedData.get(entityValue)?.[0]
-        } else {
-          entityRelatedData = groupedData.get(entityValue) || []
-        }
-        (entity as any)[relationship.name] = entityRelatedData
+      if (relationship.type === 'many-to-one') {
+        (entity as any)[relationship.name] = groupedData.get(entityValue)?.[0] ?? null
+      } else {
+        (entity as any)[relationship.name] = groupedData.get(entityValue) || []
       }
     }
   }
 
-  /**
-   * Load many-to-many relationship
-   */
-  private async loadManyToManyRelationship<T>(entity: T, relationship: RelationshipInfo): Promise<any[]> {
-    if (!relationship.throughTable) {
-      throw new Error('Many-to-many relationship requires throughTable')
-    }
-
-    const entityValue = (entity as any)[relationship.fromColumn]
-    if (!entityValue) return []
-
-    return await this.db
-      .selectFrom(relationship.toTable)
-      .innerJoin(
-        relationship.throughTable,
-        relationship.throughToColumn!,
-        `${relationship.toTable}.${relationship.toColumn}`
-      )
-      .where(relationship.throughFromColumn as any, '=', entityValue)
-      .selectAll(relationship.toTable)
-      .execute()
-  }
-
   /**
    * Batch load many-to-many relationships
    */
-  private async batchLoadManyToManyRelationship<T>(entities: T[], relationship: RelationshipInfo): Promise<any[]> {
-    if (!relationship.throughTable) {
-      throw new Error('Many-to-many relationship requires throughTable')
+  private async batchLoadManyToManyRelationship(entityValues: unknown[], relationship: RelationshipInfo): Promise<any[]> {
+    if (!relationship.throughTable || !relationship.throughFromColumn || !relationship.throughToColumn) {
+      throw new Error('Many-to-many relationship requires throughTable, throughFromColumn and throughToColumn')
     }
 
-    const entityValues = entities
-      .map(e => (e as any)[relationship.fromColumn])
-      .filter(v => v !== undefined && v !== null)
-
-    if (entityValues.length === 0) return []
+    const throughFrom = `${relationship.throughTable}.${relationship.throughFromColumn}`
 
     return await this.db
       .selectFrom(relationship.toTable)
       .innerJoin(
         relationship.throughTable,
-        relationship.throughToColumn!,
+        `${relationship.throughTable}.${relationship.throughToColumn}`,
         `${relationship.toTable}.${relationship.toColumn}`
       )
-      .where(relationship.throughFromColumn as any, 'in', entityValues)
+      .where(throughFrom as any, 'in', entityValues)
       .selectAll(relationship.toTable)
+      .select(`${throughFrom} as ${THROUGH_KEY}` as any)
       .execute()
   }
 
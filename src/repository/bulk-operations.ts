@@ -0,0 +1,100 @@
+import type { BulkWriteOptions, NOORMConfig, TableInfo, WhereFilter } from '../types/index.js'
+import { ValidationError } from '../errors/NoormError.js'
+import { hasConditions, resolveColumn } from './filter-compiler.js'
+
+/**
+ * Maximum number of bound parameters per statement for each dialect.
+ * SQLite builds before 3.32 cap SQLITE_MAX_VARIABLE_NUMBER at 999,
+ * so that is used as the safe default.
+ */
+const MAX_PARAMETERS: Record<NOORMConfig['dialect'], number> = {
+  sqlite: 999,
+  postgresql: 65535,
+  mysql: 65535
+}
+
+/**
+ * Normalize rows for a multi-row write: column names are resolved against the
+ * table and rows are grouped into runs sharing the same column set, since a
+ * single VALUES list needs the same columns in every row
+ */
+export function groupRowsByColumns(
+  rows: Record<string, unknown>[],
+  table: TableInfo
+): Array<{ columns: string[]; rows: Record<string, unknown>[] }> {
+  const groups: Array<{ columns: string[]; rows: Record<string, unknown>[] }> = []
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      throw new ValidationError(`Bulk write rows for table '${table.name}' must be objects`)
+    }
+
+    const normalized: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(row)) {
+      if (value !== undefined) {
+        normalized[resolveColumn(table, key)] = value
+      }
+    }
+
+    const columns = Object.keys(normalized).sort()
+    const last = groups[groups.length - 1]
+    if (last && last.columns.join(',') === columns.join(',')) {
+      last.rows.push(normalized)
+    } else {
+      groups.push({ columns, rows: [normalized] })
+    }
+  }
+
+  return groups
+}
+
+/**
+ * Number of rows per statement, bounded by maxBatchSize and by the dialect's
+ * bound parameter limit for the given column count
+ */
+export function resolveChunkSize(
+  columnCount: number,
+  dialect: NOORMConfig['dialect'],
+  performanceConfig?: { enableBatchOperations?: boolean; maxBatchSize?: number }
+): number {
+  if (performanceConfig?.enableBatchOperations === false) {
+    return 1
+  }
+
+  const maxBatchSize = performanceConfig?.maxBatchSize || 100
+  const byParameters = Math.floor(MAX_PARAMETERS[dialect] / Math.max(columnCount, 1))
+  return Math.max(1, Math.min(maxBatchSize, byParameters))
+}
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Refuse a filter without conditions for a bulk update or delete, which would
+ * otherwise affect every row, unless the caller passed `{ all: true }`.
+ * `{ id: undefined }` and `{ AND: [] }` count as empty.
+ */
+export function assertBulkWhere(
+  operation: string,
+  table: TableInfo,
+  where: WhereFilter<any> | undefined,
+  options?: BulkWriteOptions
+): void {
+  if (options?.all || hasConditions(where)) {
+    return
+  }
+
+  throw new ValidationError(
+    `${operation} on table '${table.name}' has a where filter without conditions (empty, undefined values ` +
+    `or empty groups) and would affect every row; ` +
+    `pass { all: true } to do that on purpose`
+  )
+}
@@ -0,0 +1,133 @@
+import type { OrderBySpec, WhereFilter } from '../types/index.js'
+import { ValidationError } from '../errors/NoormError.js'
+
+// JSON has no bigint, so bigint sort keys travel as { $bigint: '<digits>' }
+const BIGINT_TAG = '$bigint'
+
+function isTaggedBigint(value: unknown): value is Record<typeof BIGINT_TAG, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.keys(value).length === 1 &&
+    typeof (value as Record<string, unknown>)[BIGINT_TAG] === 'string'
+  )
+}
+
+/**
+ * Encode the sort key values of a row into an opaque cursor
+ */
+export function encodeCursor(row: Record<string, unknown>, keys: OrderBySpec<any>[]): string {
+  const values: Record<string, unknown> = {}
+  for (const key of keys) {
+    values[key.column as string] = row[key.column as string]
+  }
+  return toBase64Url(JSON.stringify(values, (_, value) =>
+    typeof value === 'bigint' ? { [BIGINT_TAG]: value.toString() } : value
+  ))
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, checking it was created
+ * for the same sort keys
+ */
+export function decodeCursor(cursor: string, keys: OrderBySpec<any>[]): Record<string, unknown> {
+  let values: unknown
+  try {
+    values = JSON.parse(fromBase64Url(cursor), (_, value) =>
+      isTaggedBigint(value) ? BigInt(value[BIGINT_TAG]) : value
+    )
+  } catch {
+    throw new ValidationError('Invalid pagination cursor')
+  }
+
+  const columns = keys.map(k => k.column as string)
+  if (
+    typeof values !== 'object' ||
+    values === null ||
+    Object.keys(values).length !== columns.length ||
+    !columns.every(column => column in values)
+  ) {
+    throw new ValidationError(
+      'Pagination cursor does not match the requested ordering',
+      columns
+    )
+  }
+
+  return values as Record<string, unknown>
+}
+
+/**
+ * Build the keyset predicate selecting rows strictly after (or before) the
+ * cursor position, e.g. for keys (a asc, id asc):
+ *   a > :a OR (a = :a AND id > :id)
+ *
+ * NULLs in the `nullable` columns count as smaller than every value, which
+ * is how paginateCursor orders them on every dialect, so rows with NULL
+ * sort keys are neither skipped nor repeated. The last key is the primary
+ * key, so the cursor always leaves at least one branch.
+ */
+export function buildKeysetFilter(
+  cursor: Record<string, unknown>,
+  keys: OrderBySpec<any>[],
+  backward: boolean,
+  nullable: ReadonlySet<string> = new Set()
+): WhereFilter<any> {
+  const branches: WhereFilter<any>[] = []
+
+  keys.forEach((key, i) => {
+    const ascending = (key.direction === 'asc') !== backward
+    const column = key.column as string
+    const value = cursor[column]
+
+    let beyond: WhereFilter<any>
+    if (value === null) {
+      // Nothing sorts before NULL, every value sorts after it
+      if (!ascending) return
+      beyond = { [column]: { isNull: false } }
+    } else if (ascending) {
+      beyond = { [column]: { gt: value } }
+    } else {
+      beyond = nullable.has(column)
+        ? { OR: [{ [column]: { lt: value } }, { [column]: null }] }
+        : { [column]: { lt: value } }
+    }
+
+    branches.push({
+      AND: [
+        ...keys.slice(0, i).map(prev => ({ [prev.column]: cursor[prev.column as string] })),
+        beyond
+      ]
+    })
+  })
+
+  return { OR: branches }
+}
+
+/**
+ * Sort keys used for keyset pagination: the requested order columns followed
+ * by the primary key as a unique tie-breaker
+ */
+export function resolveKeysetKeys(
+  orderBy: OrderBySpec<any>[],
+  primaryKey: string
+): OrderBySpec<any>[] {
+  const keys = [...orderBy]
+  if (!keys.some(k => k.column === primaryKey)) {
+    keys.push({ column: primaryKey, direction: keys[0]?.direction ?? 'asc' })
+  }
+  return keys
+}
+
+// Buffer isn't available on every edge runtime, btoa and atob are
+function toBase64Url(text: string): string {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
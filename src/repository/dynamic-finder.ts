@@ -0,0 +1,300 @@
+import type { TableInfo, WhereFilter, FilterOperators, OrderBySpec } from '../types/index.js'
+import { ColumnNotFoundError, ValidationError } from '../errors/NoormError.js'
+
+/**
+ * What a dynamic finder does with the rows matching its criteria
+ */
+export type FinderAction = 'findOne' | 'findAll' | 'count' | 'exists' | 'delete'
+
+/**
+ * Parsed form of a dynamic finder method name such as
+ * `findAllByStatusAndAgeGreaterThan` or `findFirstByOrderByCreatedAtDesc`
+ */
+export interface ParsedFinder {
+  action: FinderAction
+  arity: number
+  orderBy: OrderBySpec<any>[]
+  buildWhere(args: unknown[]): WhereFilter<any>
+}
+
+interface FinderPredicate {
+  column: string
+  keyword: string
+  arity: number
+  build(args: unknown[]): FilterOperators | unknown
+}
+
+interface PredicateKeyword {
+  words: string[]
+  arity: number
+  build(args: unknown[]): FilterOperators | unknown
+}
+
+const PREFIXES: Array<[string, FinderAction]> = [
+  ['findFirstBy', 'findOne'],
+  ['findOneBy', 'findOne'],
+  ['findAllBy', 'findAll'],
+  ['findManyBy', 'findAll'],
+  ['findBy', 'findOne'],
+  ['countBy', 'count'],
+  ['existsBy', 'exists'],
+  ['deleteBy', 'delete']
+]
+
+/**
+ * Operator suffixes that may follow a column name, longest first so that
+ * e.g. `GreaterThanEqual` wins over `GreaterThan`
+ */
+const KEYWORDS: PredicateKeyword[] = ([
+  ['GreaterThanEqual', 1, ([v]) => ({ gte: v })],
+  ['LessThanEqual', 1, ([v]) => ({ lte: v })],
+  ['GreaterThan', 1, ([v]) => ({ gt: v })],
+  ['LessThan', 1, ([v]) => ({ lt: v })],
+  ['After', 1, ([v]) => ({ gt: v })],
+  ['Before', 1, ([v]) => ({ lt: v })],
+  ['Between', 2, ([from, to]) => ({ between: [from, to] })],
+  ['NotIn', 1, ([v]) => ({ notIn: toArray(v) })],
+  ['In', 1, ([v]) => ({ in: toArray(v) })],
+  ['NotLike', 1, ([v]) => ({ notLike: v as string })],
+  ['Like', 1, ([v]) => ({ like: v as string })],
+  ['StartingWith', 1, ([v]) => ({ like: `${v}%` })],
+  ['StartsWith', 1, ([v]) => ({ like: `${v}%` })],
+  ['EndingWith', 1, ([v]) => ({ like: `%${v}` })],
+  ['EndsWith', 1, ([v]) => ({ like: `%${v}` })],
+  ['Containing', 1, ([v]) => ({ like: `%${v}%` })],
+  ['Contains', 1, ([v]) => ({ like: `%${v}%` })],
+  ['IsNotNull', 0, () => ({ isNull: false })],
+  ['NotNull', 0, () => ({ isNull: false })],
+  ['IsNull', 0, () => ({ isNull: true })],
+  ['Null', 0, () => ({ isNull: true })],
+  ['IsNot', 1, ([v]) => ({ ne: v })],
+  ['Not', 1, ([v]) => ({ ne: v })],
+  ['Equals', 1, ([v]) => v],
+  ['Is', 1, ([v]) => v]
+] as Array<[string, number, (args: unknown[]) => unknown]>)
+  .map(([keyword, arity, build]) => ({ words: splitWords(keyword), arity, build }))
+  .sort((a, b) => b.words.length - a.words.length)
+
+const EQUALS: PredicateKeyword = { words: [], arity: 1, build: ([v]) => v }
+
+/**
+ * Parse a dynamic finder method name against a table schema.
+ * Returns null when the name does not use a finder prefix at all.
+ */
+export function parseFinderMethod(methodName: string, table: TableInfo): ParsedFinder | null {
+  const prefix = PREFIXES.find(([p]) => methodName.startsWith(p))
+  if (!prefix) return null
+
+  const [prefixName, action] = prefix
+  const words = splitWords(methodName.substring(prefixName.length))
+
+  // Split off the ordering clause: ...OrderByCreatedAtDesc
+  let criteriaWords = words
+  let orderBy: OrderBySpec<any>[] = []
+  const orderIndex = findOrderBy(words)
+  if (orderIndex !== -1) {
+    criteriaWords = words.slice(0, orderIndex)
+    orderBy = parseOrderBy(words.slice(orderIndex + 2), table, methodName)
+  }
+
+  // findFirstByOrderByX has no criteria at all
+  const groups = criteriaWords.length === 0 ? [] : parseCriteria(criteriaWords, table)
+  if (!groups) {
+    throw unresolvedColumnError(criteriaWords, table)
+  }
+
+  // Without criteria a delete finder would empty the whole table
+  if (action === 'delete' && groups.length === 0) {
+    throw new ValidationError(
+      `${methodName} on table '${table.name}' has no criteria and would delete every row; use deleteMany({}, { all: true }) for that`
+    )
+  }
+
+  const arity = groups.flat().reduce((sum, p) => sum + p.arity, 0)
+
+  return {
+    action,
+    arity,
+    orderBy,
+    buildWhere(args: unknown[]): WhereFilter<any> {
+      if (args.length !== arity) {
+        throw new ValidationError(
+          `${methodName} on table '${table.name}' expects ${arity} argument(s) but received ${args.length}`
+        )
+      }
+
+      // An undefined operand would drop its condition and match every row
+      const missing = args.findIndex(arg => arg === undefined)
+      if (missing !== -1) {
+        throw new ValidationError(
+          `${methodName} on table '${table.name}' received undefined for argument ${missing + 1}; pass null to match NULL`
+        )
+      }
+
+      // And binds tighter than Or: findByAAndBOrC = (A AND B) OR C
+      let offset = 0
+      const filters = groups.map(group => ({
+        AND: group.map(predicate => {
+          const predicateArgs = args.slice(offset, offset + predicate.arity)
+          offset += predicate.arity
+          return { [predicate.column]: predicate.build(predicateArgs) }
+        })
+      }))
+
+      if (filters.length === 0) return {}
+      return filters.length === 1 ? filters[0] : { OR: filters }
+    }
+  }
+}
+
+/**
+ * Parse `Column[Keyword]((And|Or)Column[Keyword])*` into OR-ed groups of AND-ed predicates.
+ * Column names are matched greedily with backtracking so that columns containing
+ * `And`/`Or` (e.g. `brand_name`) still resolve.
+ */
+function parseCriteria(words: string[], table: TableInfo): FinderPredicate[][] | null {
+  const parse = (start: number): FinderPredicate[][] | null => {
+    for (let end = words.length; end > start; end--) {
+      const column = matchColumn(words.slice(start, end), table)
+      if (!column) continue
+
+      for (const keyword of [...KEYWORDS, EQUALS]) {
+        if (!startsWithWords(words, end, keyword.words)) continue
+
+        const predicate: FinderPredicate = {
+          column,
+          keyword: keyword.words.join(''),
+          arity: keyword.arity,
+          build: keyword.build
+        }
+        const next = end + keyword.words.length
+
+        if (next === words.length) {
+          return [[predicate]]
+        }
+
+        if (words[next] === 'And' || words[next] === 'Or') {
+          const rest = parse(next + 1)
+          if (!rest) continue
+
+          if (words[next] === 'And') {
+            return [[predicate, ...rest[0]], ...rest.slice(1)]
+          }
+          return [[predicate], ...rest]
+        }
+      }
+    }
+
+    return null
+  }
+
+  return parse(0)
+}
+
+function parseOrderBy(words: string[], table: TableInfo, methodName: string): OrderBySpec<any>[] {
+  const orderBy: OrderBySpec<any>[] = []
+  let start = 0
+
+  while (start < words.length) {
+    let matched = false
+
+    for (let end = words.length; end > start; end--) {
+      const column = matchColumn(words.slice(start, end), table)
+      if (!column) continue
+
+      let direction: 'asc' | 'desc' = 'asc'
+      let next = end
+      if (words[next] === 'Asc' || words[next] === 'Desc') {
+        direction = words[next] === 'Desc' ? 'desc' : 'asc'
+        next++
+      }
+      if (words[next] === 'And') {
+        next++
+      }
+
+      orderBy.push({ column, direction })
+      start = next
+      matched = true
+      break
+    }
+
+    if (!matched) {
+      throw new ValidationError(
+        `Cannot resolve OrderBy clause of ${methodName} on table '${table.name}'`,
+        table.columns.map(c => c.name)
+      )
+    }
+  }
+
+  return orderBy
+}
+
+function findOrderBy(words: string[]): number {
+  for (let i = 0; i < words.length - 1; i++) {
+    if (words[i] === 'Order' && words[i + 1] === 'By') {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Match PascalCase words against a column, ignoring case and underscores
+ * e.g. ['Tenant', 'Id'] matches tenant_id or tenantId
+ */
+function matchColumn(words: string[], table: TableInfo): string | undefined {
+  const candidate = normalize(words.join(''))
+  return table.columns.find(c => normalize(c.name) === candidate)?.name
+}
+
+/**
+ * Build the column error for criteria that could not be parsed, using the
+ * first unresolvable segment converted to snake_case as the column name
+ */
+function unresolvedColumnError(words: string[], table: TableInfo): ColumnNotFoundError {
+  const segments: string[][] = [[]]
+  for (const word of words) {
+    if (word === 'And' || word === 'Or') {
+      segments.push([])
+    } else {
+      segments[segments.length - 1].push(word)
+    }
+  }
+
+  const unresolved = segments.find(segment =>
+    ![...KEYWORDS, EQUALS].some(keyword =>
+      endsWithWords(segment, keyword.words) &&
+      matchColumn(segment.slice(0, segment.length - keyword.words.length), table)
+    )
+  ) ?? words
+
+  const columnWords = KEYWORDS.find(keyword =>
+    keyword.words.length < unresolved.length && endsWithWords(unresolved, keyword.words)
+  )
+  const columnName = unresolved
+    .slice(0, unresolved.length - (columnWords?.words.length ?? 0))
+    .join('_')
+    .toLowerCase()
+
+  return new ColumnNotFoundError(columnName, table.name, table.columns.map(c => c.name))
+}
+
+function startsWithWords(words: string[], start: number, expected: string[]): boolean {
+  return expected.every((word, i) => words[start + i] === word)
+}
+
+function endsWithWords(words: string[], expected: string[]): boolean {
+  return startsWithWords(words, words.length - expected.length, expected)
+}
+
+function splitWords(name: string): string[] {
+  return name.match(/[A-Z][a-z]*|[a-z]+|[0-9]+/g) ?? []
+}
+
+function normalize(name: string): string {
+  return name.replace(/_/g, '').toLowerCase()
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value]
+}
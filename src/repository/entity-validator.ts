@@ -0,0 +1,171 @@
+import type { Kysely } from '../kysely.js'
+import type { TableInfo, ColumnInfo, ConstraintInfo } from '../types/index.js'
+import { ValidationError } from '../errors/NoormError.js'
+import { sql } from '../raw-builder/sql.js'
+
+const MAX_PARAMETERS = 999
+const ROW_COLUMN = '__noormme_row'
+
+/**
+ * Validate a row against the table schema before it is written:
+ * NOT NULL, maximum length, numeric precision/scale and CHECK constraints.
+ *
+ * On insert every required column must be present; on update only the
+ * columns being written are checked. Throws a ValidationError listing
+ * the problems per field.
+ */
+export async function validateRow(
+  db: Kysely<any>,
+  table: TableInfo,
+  row: Record<string, unknown>,
+  mode: 'insert' | 'update'
+): Promise<void> {
+  await validateRows(db, table, [row], mode)
+}
+
+/**
+ * Validate the rows of a bulk write. The simple checks run per row, each
+ * CHECK constraint is evaluated for the whole batch in one query. Throws
+ * for the first invalid row.
+ */
+export async function validateRows(
+  db: Kysely<any>,
+  table: TableInfo,
+  rows: Record<string, unknown>[],
+  mode: 'insert' | 'update'
+): Promise<void> {
+  const errors = rows.map(row => checkColumns(table, row, mode))
+  throwFirst(table, errors)
+
+  // CHECK constraints only make sense once the simple checks pass
+  for (const constraint of table.constraints ?? []) {
+    if (constraint.type !== 'c') {
+      continue
+    }
+
+    const failed = await checkConstraint(db, table, constraint, rows)
+    for (const index of failed) {
+      (errors[index][constraint.column ?? constraint.name] ??= []).push(`violates check constraint (${constraint.definition})`)
+    }
+  }
+  throwFirst(table, errors)
+}
+
+function checkColumns(table: TableInfo, row: Record<string, unknown>, mode: 'insert' | 'update'): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  const addError = (field: string, message: string) => {
+    (fieldErrors[field] ??= []).push(message)
+  }
+
+  for (const column of table.columns) {
+    const value = row[column.name]
+
+    if (value === undefined || value === null) {
+      if (isRequired(column) && (mode === 'insert' || value === null)) {
+        addError(column.name, 'is required')
+      }
+      continue
+    }
+
+    if (column.maxLength !== undefined && typeof value === 'string' && value.length > column.maxLength) {
+      addError(column.name, `must be at most ${column.maxLength} characters`)
+    }
+
+    if (column.precision !== undefined && typeof value === 'number' && Number.isFinite(value)) {
+      const message = checkPrecision(value, column.precision, column.scale ?? 0)
+      if (message) {
+        addError(column.name, message)
+      }
+    }
+  }
+
+  return fieldErrors
+}
+
+function throwFirst(table: TableInfo, errors: Record<string, string[]>[]): void {
+  const fieldErrors = errors.find(e => Object.keys(e).length > 0)
+  if (!fieldErrors) {
+    return
+  }
+
+  const issues = Object.entries(fieldErrors).flatMap(([field, messages]) =>
+    messages.map(message => `${field} ${message}`)
+  )
+  throw new ValidationError(`Invalid data for table '${table.name}': ${issues.join(', ')}`, issues, fieldErrors)
+}
+
+function isRequired(column: ColumnInfo): boolean {
+  return !column.nullable &&
+    !column.isAutoIncrement &&
+    (column.defaultValue === undefined || column.defaultValue === null)
+}
+
+/**
+ * Check a number fits DECIMAL(precision, scale)
+ */
+function checkPrecision(value: number, precision: number, scale: number): string | undefined {
+  const [integer, fraction = ''] = Math.abs(value).toString().split('.')
+  const integerDigits = integer.replace(/^0+/, '').length
+
+  if (integerDigits > precision - scale) {
+    return `must have at most ${precision - scale} digit(s) before the decimal point`
+  }
+  if (fraction.length > scale) {
+    return `must have at most ${scale} decimal place(s)`
+  }
+  return undefined
+}
+
+/**
+ * Evaluate a CHECK expression against row values with a standalone SELECT
+ * over a VALUES list named like the table, so the table is never touched.
+ * Rows that don't write every referenced column are skipped; NULL results
+ * pass, as in SQL. Returns the indexes of the failing rows.
+ */
+async function checkConstraint(
+  db: Kysely<any>,
+  table: TableInfo,
+  constraint: ConstraintInfo,
+  rows: Record<string, unknown>[]
+): Promise<number[]> {
+  const referenced = table.columns
+    .map(c => c.name)
+    .filter(name => new RegExp(`(^|[^\\w])${escapeRegExp(name)}([^\\w]|$)`, 'i').test(constraint.definition))
+  if (referenced.length === 0) {
+    return []
+  }
+
+  const checked = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => referenced.every(name => row[name] !== undefined))
+
+  // Stay below SQLite's default limit of 999 bound parameters per statement
+  const perQuery = Math.max(1, Math.floor(MAX_PARAMETERS / (referenced.length + 1)))
+  const failed: number[] = []
+  for (let start = 0; start < checked.length; start += perQuery) {
+    const values = checked.slice(start, start + perQuery).map(({ row, index }) =>
+      sql`(${sql.join([index, ...referenced.map(name => toParameter(row[name]))])})`
+    )
+    const columns = [ROW_COLUMN, ...referenced].map(name => sql.id(name))
+    const result = await sql<{ row: number; ok: unknown }>`with ${sql.id(table.name)}(${sql.join(columns)}) as (values ${sql.join(values)}) select ${sql.id(ROW_COLUMN)} as ${sql.id('row')}, (${sql.raw(constraint.definition)}) as ok from ${sql.id(table.name)}`
+      .execute(db)
+
+    for (const { row, ok } of result.rows) {
+      if (ok !== null && ok !== undefined && !Boolean(Number(ok))) {
+        failed.push(Number(row))
+      }
+    }
+  }
+
+  return failed
+}
+
+function toParameter(value: unknown): unknown {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.toISOString()
+  return value
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,289 @@
+import type { Expression } from '../expression/expression.js'
+import type { ExpressionBuilder } from '../expression/expression-builder.js'
+import type { SqlBool } from '../util/type-utils.js'
+import type { TableInfo, RelationshipInfo, WhereFilter } from '../types/index.js'
+import {
+  ColumnNotFoundError,
+  RelationshipNotFoundError,
+  TableNotFoundError,
+  ValidationError
+} from '../errors/NoormError.js'
+
+/**
+ * Schema context a where filter is validated and compiled against
+ */
+export interface FilterContext {
+  table: TableInfo
+  relationships: RelationshipInfo[]
+  tables: TableInfo[]
+}
+
+const COMPARISON_OPERATORS = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'like',
+  notLike: 'not like'
+} as const
+
+const FILTER_OPERATORS = [
+  ...Object.keys(COMPARISON_OPERATORS),
+  'in',
+  'notIn',
+  'between',
+  'isNull'
+]
+
+const LOGICAL_KEYS = ['AND', 'OR', 'NOT']
+
+/**
+ * Resolve a column name against the table schema (case-insensitive)
+ */
+export function resolveColumn(table: TableInfo, columnName: string): string {
+  const column = table.columns.find(
+    c => c.name === columnName || c.name.toLowerCase() === columnName.toLowerCase()
+  )
+
+  if (!column) {
+    throw new ColumnNotFoundError(
+      columnName,
+      table.name,
+      table.columns.map(c => c.name)
+    )
+  }
+
+  return column.name
+}
+
+/**
+ * Whether a where filter compiles to at least one condition. Undefined values,
+ * empty operator objects and empty AND groups compile to TRUE, and so does an
+ * OR with such a branch. Malformed groups count as conditions so that
+ * `compileWhereFilter` reports them.
+ */
+export function hasConditions(where: unknown): boolean {
+  if (!isPlainObject(where)) {
+    return false
+  }
+
+  return Object.entries(where).some(([key, value]) => {
+    if (value === undefined) {
+      return false
+    }
+
+    switch (key) {
+      case 'AND':
+        return !Array.isArray(value) || value.some(hasConditions)
+      case 'OR':
+        return !Array.isArray(value) || (value.length > 0 && value.every(hasConditions))
+      case 'NOT':
+        return !isPlainObject(value) || hasConditions(value)
+    }
+
+    if (!isPlainObject(value)) {
+      return true
+    }
+
+    // Operator objects: { notIn: [] } matches every row as well
+    return Object.entries(value).some(([operator, operand]) =>
+      operand !== undefined && !(operator === 'notIn' && Array.isArray(operand) && operand.length === 0)
+    )
+  })
+}
+
+/**
+ * Compile a where filter into a boolean expression using the given expression builder.
+ * Column references are qualified with the table name so filters stay unambiguous
+ * inside relation subqueries.
+ */
+export function compileWhereFilter(
+  eb: ExpressionBuilder<any, any>,
+  where: WhereFilter<any>,
+  context: FilterContext
+): Expression<SqlBool> {
+  const { table } = context
+  const conditions: Expression<SqlBool>[] = []
+  const relationFilters = new Map<string, Record<string, unknown>>()
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue
+
+    if (LOGICAL_KEYS.includes(key)) {
+      conditions.push(compileLogicalGroup(eb, key, value, context))
+      continue
+    }
+
+    // Relation path filters are grouped per relation so that
+    // { 'author.email': x, 'author.name': y } matches the same related row
+    const dot = key.indexOf('.')
+    if (dot > 0) {
+      const relationName = key.substring(0, dot)
+      if (!relationFilters.has(relationName)) {
+        relationFilters.set(relationName, {})
+      }
+      relationFilters.get(relationName)![key.substring(dot + 1)] = value
+      continue
+    }
+
+    const column = `${table.name}.${resolveColumn(table, key)}`
+    conditions.push(compileColumnFilter(eb, column, value, table))
+  }
+
+  for (const [relationName, filter] of relationFilters) {
+    conditions.push(compileRelationFilter(eb, relationName, filter, context))
+  }
+
+  return eb.and(conditions)
+}
+
+function compileLogicalGroup(
+  eb: ExpressionBuilder<any, any>,
+  key: string,
+  value: unknown,
+  context: FilterContext
+): Expression<SqlBool> {
+  if (key === 'NOT') {
+    if (!isPlainObject(value)) {
+      throw new ValidationError(`NOT filter on table '${context.table.name}' must be an object`)
+    }
+    return eb.not(compileWhereFilter(eb, value, context))
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`${key} filter on table '${context.table.name}' must be an array of filters`)
+  }
+
+  const groups = value.map(filter => compileWhereFilter(eb, filter, context))
+  return key === 'AND' ? eb.and(groups) : eb.or(groups)
+}
+
+function compileColumnFilter(
+  eb: ExpressionBuilder<any, any>,
+  column: string,
+  value: unknown,
+  table: TableInfo
+): Expression<SqlBool> {
+  if (value === null) {
+    return eb(column, 'is', null)
+  }
+
+  if (!isPlainObject(value)) {
+    return eb(column, '=', value)
+  }
+
+  const unknownOperators = Object.keys(value).filter(op => !FILTER_OPERATORS.includes(op))
+  if (unknownOperators.length > 0) {
+    throw new ValidationError(
+      `Unknown filter operator(s) ${unknownOperators.map(op => `'${op}'`).join(', ')} for column '${column}' in table '${table.name}'`,
+      FILTER_OPERATORS
+    )
+  }
+
+  const conditions: Expression<SqlBool>[] = []
+
+  for (const [operator, operand] of Object.entries(value)) {
+    if (operand === undefined) continue
+
+    switch (operator) {
+      case 'in':
+      case 'notIn': {
+        if (!Array.isArray(operand)) {
+          throw new ValidationError(`'${operator}' filter for column '${column}' expects an array`)
+        }
+        if (operand.length === 0) {
+          // Nothing is IN an empty list; everything is NOT IN it
+          conditions.push(operator === 'in' ? eb.or([]) : eb.and([]))
+        } else {
+          conditions.push(eb(column, operator === 'in' ? 'in' : 'not in', operand))
+        }
+        break
+      }
+
+      case 'between': {
+        if (!Array.isArray(operand) || operand.length !== 2) {
+          throw new ValidationError(`'between' filter for column '${column}' expects a [from, to] tuple`)
+        }
+        conditions.push(eb.between(column, operand[0], operand[1]))
+        break
+      }
+
+      case 'isNull':
+        conditions.push(eb(column, operand ? 'is' : 'is not', null))
+        break
+
+      default: {
+        const sqlOperator = COMPARISON_OPERATORS[operator as keyof typeof COMPARISON_OPERATORS]
+        conditions.push(
+          operand === null && (operator === 'eq' || operator === 'ne')
+            ? eb(column, operator === 'eq' ? 'is' : 'is not', null)
+            : eb(column, sqlOperator, operand)
+        )
+      }
+    }
+  }
+
+  return eb.and(conditions)
+}
+
+/**
+ * Compile a filter on a related table into an IN subquery over the relationship keys
+ */
+function compileRelationFilter(
+  eb: ExpressionBuilder<any, any>,
+  relationName: string,
+  filter: Record<string, unknown>,
+  context: FilterContext
+): Expression<SqlBool> {
+  const { table, relationships, tables } = context
+  const tableRelationships = relationships.filter(r => r.fromTable === table.name)
+  const relationship = tableRelationships.find(r => r.name === relationName)
+
+  if (!relationship) {
+    throw new RelationshipNotFoundError(
+      relationName,
+      table.name,
+      tableRelationships.map(r => r.name)
+    )
+  }
+
+  const targetTable = tables.find(t => t.name === relationship.toTable)
+  if (!targetTable) {
+    throw new TableNotFoundError(relationship.toTable, tables.map(t => t.name))
+  }
+
+  const targetContext: FilterContext = { ...context, table: targetTable }
+  const ownKey = `${table.name}.${relationship.fromColumn}`
+
+  if (relationship.type === 'many-to-many' && relationship.throughTable) {
+    const throughTable = relationship.throughTable
+    return eb(
+      ownKey,
+      'in',
+      eb.selectFrom(throughTable)
+        .innerJoin(
+          relationship.toTable,
+          `${throughTable}.${relationship.throughToColumn}`,
+          `${relationship.toTable}.${relationship.toColumn}`
+        )
+        .select(`${throughTable}.${relationship.throughFromColumn}`)
+        .where(sub => compileWhereFilter(sub, filter, targetContext))
+    )
+  }
+
+  return eb(
+    ownKey,
+    'in',
+    eb.selectFrom(relationship.toTable)
+      .select(`${relationship.toTable}.${relationship.toColumn}`)
+      .where(sub => compileWhereFilter(sub, filter, targetContext))
+  )
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+}
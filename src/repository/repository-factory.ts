@@ -1,6 +1,38 @@
 import type { Kysely } from '../kysely.js'
-import type { Repository, TableInfo, RelationshipInfo } from '../types/index.js'
-import { RelationshipNotFoundError, ColumnNotFoundError } from '../errors/NoormError.js'
+import type {
+  Repository,
+  TableInfo,
+  RelationshipInfo,
+  FindOptions,
+  WhereFilter,
+  CursorPaginationOptions,
+  UpsertOptions,
+  BulkWriteOptions,
+  NOORMConfig,
+  TableConfig
+} from '../types/index.js'
+import { RelationshipNotFoundError, ValidationError, OptimisticLockError } from '../errors/NoormError.js'
+import { RelationshipEngine } from '../relationships/relationship-engine.js'
+import { compileWhereFilter, resolveColumn, FilterContext } from './filter-compiler.js'
+import { parseFinderMethod, ParsedFinder } from './dynamic-finder.js'
+import { encodeCursor, decodeCursor, buildKeysetFilter, resolveKeysetKeys } from './cursor-pagination.js'
+import { groupRowsByColumns, resolveChunkSize, chunk, assertBulkWhere } from './bulk-operations.js'
+import { resolveTableConventions, currentTimestamp, TableConventions } from './table-conventions.js'
+import { validateRows } from './entity-validator.js'
+import { HookRegistry } from './repository-hooks.js'
+import { findQueryCachePlugin } from '../plugin/query-cache/query-cache-plugin.js'
+import type { CachedQueryOptions } from '../cache/query-cache.js'
+import { sql } from '../raw-builder/sql.js'
+
+const FINDER_PREFIX = /^(find|findFirst|findOne|findAll|findMany|count|exists|delete)By/
+
+/**
+ * Conventions of a repository and whether it includes soft-deleted rows
+ */
+interface RepositoryScope {
+  conventions: TableConventions
+  includeTrashed: boolean
+}
 
 /**
  * Simple repository factory for creating table repositories
@@ -8,9 +40,35 @@ import { RelationshipNotFoundError, ColumnNotFoundError } from '../errors/NoormE
 export class RepositoryFactory {
   constructor(
     private db: Kysely<any>,
-    private performanceConfig?: any
+    private performanceConfig?: any,
+    private dialect: NOORMConfig['dialect'] = 'sqlite',
+    private tableConfigs: Record<string, TableConfig> = {},
+    private hooks: HookRegistry = new HookRegistry()
   ) {}
 
+  /**
+   * Run the afterLoad hooks of a table on entities read from the database
+   */
+  private async afterLoad<E>(table: TableInfo, entities: E[]): Promise<E[]> {
+    if (this.hooks.has(table.name, 'afterLoad')) {
+      for (const entity of entities) {
+        await this.hooks.run(table.name, 'afterLoad', entity)
+      }
+    }
+    return entities
+  }
+
+  /**
+   * Run a unit of work in a transaction, reusing the current one if the
+   * factory is already bound to a transaction
+   */
+  private async withTransaction<R>(fn: (db: Kysely<any>) => Promise<R>): Promise<R> {
+    if (this.db.isTransaction) {
+      return await fn(this.db)
+    }
+    return await this.db.transaction().execute(fn)
+  }
+
   /**
    * Transform boolean columns from SQLite integers (0/1) to JavaScript booleans
    */
@@ -46,90 +104,350 @@ export class RepositoryFactory {
     return transformRecord(data) as T
   }
 
+  /**
+   * Apply a where filter to a query, skipping empty filters
+   */
+  private applyWhere<Q extends { where(...args: any[]): Q }>(
+    query: Q,
+    where: WhereFilter<any> | undefined,
+    context: FilterContext
+  ): Q {
+    if (!where || Object.keys(where).length === 0) {
+      return query
+    }
+
+    return query.where((eb: any) => compileWhereFilter(eb, where, context))
+  }
+
+  /**
+   * Restrict a where filter to rows that are not soft deleted
+   */
+  private scopeWhere(
+    where: WhereFilter<any> | undefined,
+    scope: RepositoryScope
+  ): WhereFilter<any> | undefined {
+    const column = scope.conventions.softDeleteColumn
+    if (!column || scope.includeTrashed) {
+      return where
+    }
+
+    const notDeleted = { [column]: null }
+    return where && Object.keys(where).length > 0 ? { AND: [where, notDeleted] } : notDeleted
+  }
+
+  /**
+   * Fill in the timestamp and version columns of a row being written
+   */
+  private stampRow(
+    row: Record<string, unknown>,
+    table: TableInfo,
+    conventions: TableConventions,
+    inserting: boolean
+  ): Record<string, unknown> {
+    const stamped = { ...row }
+    const { createdAtColumn, updatedAtColumn, versionColumn } = conventions
+    const column = (name: string) => table.columns.find(c => c.name === name)
+
+    if (inserting && createdAtColumn && stamped[createdAtColumn] === undefined) {
+      stamped[createdAtColumn] = currentTimestamp(column(createdAtColumn))
+    }
+    // updated_at always moves forward on update, the caller's value is stale
+    if (updatedAtColumn && (!inserting || stamped[updatedAtColumn] === undefined)) {
+      stamped[updatedAtColumn] = currentTimestamp(column(updatedAtColumn))
+    }
+    if (inserting && versionColumn && stamped[versionColumn] === undefined && column(versionColumn)?.defaultValue == null) {
+      stamped[versionColumn] = 1
+    }
+
+    return stamped
+  }
+
+  /**
+   * Delete the rows matching a filter, or mark them deleted when the table
+   * uses soft deletes. Returns the number of affected rows.
+   */
+  private async deleteWhere(
+    db: Kysely<any>,
+    table: TableInfo,
+    where: WhereFilter<any> | undefined,
+    context: FilterContext,
+    scope: RepositoryScope
+  ): Promise<number> {
+    const column = scope.conventions.softDeleteColumn
+    if (!column) {
+      const result = await this.applyWhere(db.deleteFrom(table.name as any), where, context).executeTakeFirst()
+      return Number(result.numDeletedRows)
+    }
+
+    // Already deleted rows keep their original deletion time
+    const result = await this.applyWhere(
+      db.updateTable(table.name as any).set(this.stampRow({
+        [column]: currentTimestamp(table.columns.find(c => c.name === column))
+      }, table, scope.conventions, false) as any),
+      this.scopeWhere(where, { ...scope, includeTrashed: false }),
+      context
+    ).executeTakeFirst()
+    return Number(result.numUpdatedRows)
+  }
+
+  /**
+   * Delete the rows matching a filter for deleteMany and deleteBy finders.
+   * Delete hooks take ids, so when any are registered the matching ids are
+   * read first and the rows deleted by id, each with its hooks.
+   */
+  private async deleteMatching(
+    db: Kysely<any>,
+    table: TableInfo,
+    where: WhereFilter<any> | undefined,
+    context: FilterContext,
+    scope: RepositoryScope
+  ): Promise<number> {
+    const primaryKey = table.columns.find(c => c.isPrimaryKey)?.name
+    if (!primaryKey || (!this.hooks.has(table.name, 'beforeDelete') && !this.hooks.has(table.name, 'afterDelete'))) {
+      return await this.deleteWhere(db, table, where, context, scope)
+    }
+
+    // Soft deletes only affect rows that are not deleted yet
+    const matching = scope.conventions.softDeleteColumn
+      ? this.scopeWhere(where, { ...scope, includeTrashed: false })
+      : where
+
+    const run = async (trx: Kysely<any>) => {
+      const rows = await this.applyWhere(trx.selectFrom(table.name as any).select(primaryKey as any), matching, context).execute()
+      const ids = rows.map((row: any) => row[primaryKey])
+
+      for (const id of ids) {
+        await this.hooks.run(table.name, 'beforeDelete', id)
+      }
+      let deleted = 0
+      for (const batch of chunk(ids, resolveChunkSize(1, this.dialect, this.performanceConfig))) {
+        deleted += await this.deleteWhere(trx, table, { [primaryKey]: { in: batch } }, context, scope)
+      }
+      for (const id of ids) {
+        await this.hooks.run(table.name, 'afterDelete', id)
+      }
+      return deleted
+    }
+    return db.isTransaction ? await run(db) : await db.transaction().execute(run)
+  }
+
+  /**
+   * Insert rows and return them as stored. Dialects without RETURNING
+   * (MySQL) insert the batch in one statement and read it back in one
+   * query by `keyColumns`, the primary key by default, or by the range of
+   * generated ids starting at the insert id. `skipExisting` leaves out rows
+   * whose keys existed before an ignoring insert, like `do nothing` rows are
+   * not returned.
+   */
+  private async insertRows(
+    db: Kysely<any>,
+    table: TableInfo,
+    rows: Record<string, unknown>[],
+    modify: (query: any) => any = query => query,
+    keyColumns: string[] = table.primaryKey ?? [],
+    skipExisting = false
+  ): Promise<unknown[]> {
+    if (db.getExecutor().adapter.supportsReturning) {
+      return await modify(db.insertInto(table.name as any).values(rows as any))
+        .returningAll()
+        .execute()
+    }
+
+    const keyed = keyColumns.length > 0 && rows.every(row => keyColumns.every(column => row[column] !== undefined))
+    const existing = skipExisting && keyed
+      ? new Set((await this.selectByKeys(db, table, rows, keyColumns)).map(row => rowKey(row, keyColumns)))
+      : new Set<string>()
+
+    const result = await modify(db.insertInto(table.name as any).values(rows as any)).executeTakeFirst()
+    if (result.numInsertedOrUpdatedRows === 0n) {
+      return []
+    }
+
+    if (keyed) {
+      const stored = await this.selectByKeys(db, table, rows, keyColumns)
+      const position = new Map(rows.map((row, index) => [rowKey(row, keyColumns), index]))
+      return stored
+        .filter(row => !existing.has(rowKey(row, keyColumns)))
+        .sort((a, b) =>
+          (position.get(rowKey(a, keyColumns)) ?? rows.length) - (position.get(rowKey(b, keyColumns)) ?? rows.length)
+        )
+    }
+
+    if (keyColumns.length === 1 && result.insertId !== undefined) {
+      // The ids of one multi-row insert are consecutive unless InnoDB's
+      // interleaved auto-increment mode meets concurrent inserts
+      const [column] = keyColumns
+      return await db
+        .selectFrom(table.name as any)
+        .selectAll()
+        .where(column as any, '>=', result.insertId)
+        .where(column as any, '<', result.insertId + BigInt(rows.length))
+        .orderBy(column as any)
+        .execute()
+    }
+
+    throw new Error(
+      `Cannot read back the rows written to table ${table.name}: ` +
+      `it has no auto-increment primary key and the rows do not set ${keyColumns.join(', ') || 'a primary key'}`
+    )
+  }
+
+  /**
+   * Read rows by their key columns in one query
+   */
+  private async selectByKeys(
+    db: Kysely<any>,
+    table: TableInfo,
+    rows: Record<string, unknown>[],
+    keyColumns: string[]
+  ): Promise<Record<string, unknown>[]> {
+    const query = db.selectFrom(table.name as any).selectAll()
+    if (keyColumns.length === 1) {
+      return await query.where(keyColumns[0] as any, 'in', rows.map(row => row[keyColumns[0]])).execute()
+    }
+
+    return await query
+      .where((eb: any) => eb.or(rows.map(row =>
+        eb.and(Object.fromEntries(keyColumns.map(column => [column, row[column]])))
+      )))
+      .execute()
+  }
+
   /**
    * Create a repository for the specified table
+   *
+   * `tables` is the full list of discovered tables and is used to validate
+   * relation-path filters such as `'author.email'`.
    */
   createRepository<T>(
     table: TableInfo,
-    relationships: RelationshipInfo[]
+    relationships: RelationshipInfo[],
+    tables: TableInfo[] = [table],
+    options: { includeTrashed?: boolean } = {}
   ): Repository<T> {
     // Determine the primary key column name
     const primaryKey = table.columns.find(c => c.isPrimaryKey)?.name || 'id'
+    const filterContext: FilterContext = { table, relationships, tables }
+
+    // Soft delete, timestamp and version columns for this table
+    const conventions = resolveTableConventions(table, this.tableConfigs[table.name])
+    const scope: RepositoryScope = { conventions, includeTrashed: options.includeTrashed ?? false }
+    const scoped = (where?: WhereFilter<any>) => this.scopeWhere(where, scope)
+    const byId = (id: string | number): WhereFilter<any> => ({ [primaryKey]: id })
+    const validate = async (rows: Record<string, unknown>[], mode: 'insert' | 'update') => {
+      if (this.tableConfigs[table.name]?.validate !== false) {
+        await validateRows(this.db, table, rows, mode)
+      }
+    }
+    let trashedRepository: Repository<T> | undefined
+
+    // Relationship loader bound to the same database as this repository
+    const relationshipEngine = new RelationshipEngine(this.db, this.performanceConfig)
+    relationshipEngine.initialize(relationships)
 
     const repository = {
       // Django-style objects wrapper
       objects: {
         all: async () => {
-          return await this.db
-            .selectFrom(table.name as any)
-            .selectAll()
-            .execute()
+          return await this.applyWhere(
+            this.db.selectFrom(table.name as any).selectAll(),
+            scoped(),
+            filterContext
+          ).execute()
         },
         get: async (id: any) => {
-          return await this.db
-            .selectFrom(table.name as any)
-            .selectAll()
-            .where(primaryKey as any, '=', id)
-            .executeTakeFirst()
+          return await this.applyWhere(
+            this.db.selectFrom(table.name as any).selectAll(),
+            scoped(byId(id)),
+            filterContext
+          ).executeTakeFirst()
         },
-        create: async (data: Partial<T>) => {
-          return await this.db
-            .insertInto(table.name as any)
-            .values(data as any)
-            .returningAll()
-            .executeTakeFirst()
+        // Writes go through the repository methods for hooks, validation and table conventions
+        create: async (data: Partial<T>): Promise<T> => {
+          return await repository.create(data)
         },
-        update: async (id: any, data: Partial<T>) => {
-          return await this.db
-            .updateTable(table.name as any)
-            .set(data as any)
-            .where(primaryKey as any, '=', id)
-            .returningAll()
-            .executeTakeFirst()
+        update: async (id: any, data: Partial<T>): Promise<T> => {
+          return await repository.update({ ...data, [primaryKey]: id } as T)
         },
-        delete: async (id: any) => {
-          return await this.db
-            .deleteFrom(table.name as any)
-            .where(primaryKey as any, '=', id)
-            .executeTakeFirst()
+        delete: async (id: any): Promise<boolean> => {
+          return await repository.delete(id)
         }
       },
 
       // Direct CRUD methods
       findById: async (id: string | number) => {
-        const result = await this.db
-          .selectFrom(table.name as any)
-          .selectAll()
-          .where(primaryKey as any, '=', id)
-          .executeTakeFirst()
+        const result = await this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(byId(id)),
+          filterContext
+        ).executeTakeFirst()
         
-        return (result ? this.transformBooleans(result, table) : null) as T | null
+        if (!result) {
+          return null
+        }
+        
+        const [entity] = await this.afterLoad(table, [this.transformBooleans(result, table) as T])
+        return entity
       },
 
       findAll: async () => {
-        const results = await this.db
-          .selectFrom(table.name as any)
-          .selectAll()
-          .execute()
+        const results = await this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(),
+          filterContext
+        ).execute()
         
-        return this.transformBooleans(results, table) as T[]
+        return await this.afterLoad(table, this.transformBooleans(results, table) as T[])
+      },
+
+      find: async (options: FindOptions<T> = {}) => {
+        let query = options.select && options.select.length > 0
+          ? this.db
+              .selectFrom(table.name as any)
+              .select(options.select.map(c => resolveColumn(table, c as string)) as any)
+          : this.db.selectFrom(table.name as any).selectAll()
+
+        query = this.applyWhere(query, scoped(options.where), filterContext)
+
+        const orderBy = Array.isArray(options.orderBy)
+          ? options.orderBy
+          : options.orderBy ? [options.orderBy] : []
+        for (const order of orderBy) {
+          query = query.orderBy(resolveColumn(table, order.column as string) as any, order.direction)
+        }
+
+        if (options.limit !== undefined) {
+          query = query.limit(options.limit)
+        }
+        if (options.offset !== undefined) {
+          // OFFSET requires a LIMIT in SQLite
+          if (options.limit === undefined) {
+            query = query.limit(Number.MAX_SAFE_INTEGER)
+          }
+          query = query.offset(options.offset)
+        }
+
+        const results = await query.execute()
+        return await this.afterLoad(table, this.transformBooleans(results, table) as T[])
       },
 
       create: async (data: Partial<T>) => {
-        const result = await this.db
-          .insertInto(table.name as any)
-          .values(data as any)
-          .returningAll()
-          .executeTakeFirst()
+        const prepared = await this.hooks.runBefore(table.name, 'beforeCreate', data)
+        const row = this.stampRow(prepared as Record<string, unknown>, table, conventions, true)
+        await validate([row], 'insert')
+        
+        const [result] = await this.insertRows(this.db, table, [row])
         
         if (!result) {
           throw new Error(`Failed to create entity in table ${table.name}`)
         }
         
-        return result as T
+        await this.hooks.run(table.name, 'afterCreate', result)
+        return this.transformBooleans(result, table) as T
       },
 
-      update: async (entity: T) => {
+      update: async (input: T) => {
+        const entity = await this.hooks.runBefore(table.name, 'beforeUpdate', input)
         const id = (entity as any)[primaryKey]
         
         if (id === undefined) {
@@ -139,48 +457,271 @@ export class RepositoryFactory {
           )
         }
         
-        const result = await this.db
-          .updateTable(table.name as any)
-          .set(entity as any)
-          .where(primaryKey as any, '=', id)
-          .returningAll()
-          .executeTakeFirst()
+        const data = this.stampRow(entity as Record<string, unknown>, table, conventions, false)
+        let where = scoped(byId(id))!
+        
+        // Optimistic locking: only write if nobody bumped the version meanwhile
+        const versionColumn = conventions.versionColumn
+        const expectedVersion = versionColumn ? (entity as any)[versionColumn] : undefined
+        if (versionColumn) {
+          if (expectedVersion === undefined || expectedVersion === null) {
+            throw new ValidationError(
+              `Cannot update entity: missing version column '${versionColumn}' required for optimistic locking on table ${table.name}`
+            )
+          }
+          data[versionColumn] = Number(expectedVersion) + 1
+          where = { AND: [where, { [versionColumn]: expectedVersion }] }
+        }
+        await validate([data], 'update')
+        
+        const query = this.applyWhere(
+          this.db.updateTable(table.name as any).set(data as any),
+          where,
+          filterContext
+        )
+        let result: unknown
+        if (this.db.getExecutor().adapter.supportsReturning) {
+          result = await query.returningAll().executeTakeFirst()
+        } else if (Number((await query.executeTakeFirst()).numUpdatedRows) > 0) {
+          // No RETURNING (MySQL): read the row back by its id
+          result = await this.applyWhere(
+            this.db.selectFrom(table.name as any).selectAll(),
+            scoped(byId(id)),
+            filterContext
+          ).executeTakeFirst()
+        }
         
         if (!result) {
+          if (versionColumn) {
+            const current = await this.applyWhere(
+              this.db.selectFrom(table.name as any).select(primaryKey as any),
+              scoped(byId(id)),
+              filterContext
+            ).executeTakeFirst()
+            
+            if (current) {
+              throw new OptimisticLockError(table.name, id, expectedVersion)
+            }
+          }
+          
           throw new Error(
             `Failed to update entity with ${primaryKey}=${id} in table ${table.name}. ` +
             `Entity may not exist.`
           )
         }
         
-        return result as T
+        await this.hooks.run(table.name, 'afterUpdate', result)
+        return this.transformBooleans(result, table) as T
       },
 
       delete: async (id: string | number) => {
+        await this.hooks.run(table.name, 'beforeDelete', id)
+        const deleted = await this.deleteWhere(this.db, table, byId(id), filterContext, scope) > 0
+        if (deleted) {
+          await this.hooks.run(table.name, 'afterDelete', id)
+        }
+        return deleted
+      },
+
+      // Caching: the same repository with every read served through the query cache
+      cached: (cacheOptions?: CachedQueryOptions) => {
+        const db = this.db.withPlugin(findQueryCachePlugin(this.db.getExecutor()).withReads(cacheOptions ?? {}))
+        return new RepositoryFactory(db, this.performanceConfig, this.dialect, this.tableConfigs, this.hooks)
+          .createRepository<T>(table, relationships, tables, options)
+      },
+
+      // Soft delete
+      withTrashed: () => {
+        trashedRepository ??= this.createRepository<T>(table, relationships, tables, { includeTrashed: true })
+        return trashedRepository
+      },
+
+      restore: async (id: string | number) => {
+        const column = conventions.softDeleteColumn
+        if (!column) {
+          throw new ValidationError(`Table '${table.name}' does not use soft deletes`)
+        }
+        
+        const result = await this.applyWhere(
+          this.db.updateTable(table.name as any).set(this.stampRow({ [column]: null }, table, conventions, false) as any),
+          { AND: [byId(id), { [column]: { isNull: false } }] },
+          filterContext
+        ).executeTakeFirst()
+        
+        return Number(result.numUpdatedRows) > 0
+      },
+
+      forceDelete: async (id: string | number) => {
+        await this.hooks.run(table.name, 'beforeDelete', id)
         const result = await this.db
           .deleteFrom(table.name as any)
           .where(primaryKey as any, '=', id)
-          .execute()
+          .executeTakeFirst()
+        
+        const deleted = Number(result.numDeletedRows) > 0
+        if (deleted) {
+          await this.hooks.run(table.name, 'afterDelete', id)
+        }
+        return deleted
+      },
+
+      // Bulk operations: multi-row statements chunked by maxBatchSize and the
+      // dialect's parameter limit, all executed in a single transaction
+      createMany: async (rows: Partial<T>[]) => {
+        if (rows.length === 0) {
+          return []
+        }
+        
+        const prepared: Record<string, unknown>[] = []
+        for (const row of rows) {
+          const data = await this.hooks.runBefore(table.name, 'beforeCreate', row)
+          prepared.push(this.stampRow(data as Record<string, unknown>, table, conventions, true))
+        }
+        const groups = groupRowsByColumns(prepared, table)
+        await validate(groups.flatMap(group => group.rows), 'insert')
+        const created = await this.withTransaction(async trx => {
+          const results: unknown[] = []
+          for (const group of groups) {
+            const size = resolveChunkSize(group.columns.length, this.dialect, this.performanceConfig)
+            for (const batch of chunk(group.rows, size)) {
+              results.push(...await this.insertRows(trx, table, batch))
+            }
+          }
+          return results
+        })
+        
+        for (const entity of created) {
+          await this.hooks.run(table.name, 'afterCreate', entity)
+        }
+        return this.transformBooleans(created, table) as T[]
+      },
+
+      updateMany: async (where: WhereFilter<T>, patch: Partial<T>, bulkOptions?: BulkWriteOptions) => {
+        assertBulkWhere('updateMany', table, where, bulkOptions)
+        const [group] = groupRowsByColumns([patch as Record<string, unknown>], table)
+        if (group.columns.length === 0) {
+          throw new ValidationError(`updateMany on table '${table.name}' requires at least one column to set`)
+        }
+        
+        await validate(group.rows, 'update')
+        
+        const versionColumn = conventions.versionColumn
+        const set = (eb: any) => ({
+          ...this.stampRow(group.rows[0], table, conventions, false),
+          ...(versionColumn ? { [versionColumn]: eb(eb.ref(versionColumn), '+', 1) } : {})
+        })
         
-        return result.length > 0 && Number(result[0].numDeletedRows) > 0
+        const result = await this.withTransaction(async trx =>
+          await this.applyWhere(
+            trx.updateTable(table.name as any).set(set as any),
+            scoped(where),
+            filterContext
+          ).executeTakeFirst()
+        )
+        
+        return Number(result.numUpdatedRows)
+      },
+
+      deleteMany: async (where: WhereFilter<T>, bulkOptions?: BulkWriteOptions) => {
+        assertBulkWhere('deleteMany', table, where, bulkOptions)
+        return await this.withTransaction(async trx =>
+          await this.deleteMatching(trx, table, where, filterContext, scope)
+        )
+      },
+
+      upsert: async (rows: Partial<T>[], options: UpsertOptions<T>) => {
+        if (!options?.conflictColumns || options.conflictColumns.length === 0) {
+          throw new ValidationError(`upsert on table '${table.name}' requires conflictColumns`)
+        }
+        if (rows.length === 0) {
+          return []
+        }
+        
+        const conflictColumns = options.conflictColumns.map(c => resolveColumn(table, c as string))
+        const updateColumns = options.update?.map(c => resolveColumn(table, c as string))
+        const prepared: Record<string, unknown>[] = []
+        for (const row of rows) {
+          const data = await this.hooks.runBefore(table.name, 'beforeCreate', row)
+          prepared.push(this.stampRow(data as Record<string, unknown>, table, conventions, true))
+        }
+        const groups = groupRowsByColumns(prepared, table)
+        await validate(groups.flatMap(group => group.rows), 'insert')
+        const { createdAtColumn, updatedAtColumn, versionColumn } = conventions
+        // Rows whose conflict key already exists are updates; only looked up when after-hooks need it
+        const trackUpdates = this.hooks.has(table.name, 'afterCreate') || this.hooks.has(table.name, 'afterUpdate')
+        const existingKeys = new Set<string>()
+        
+        const upserted = await this.withTransaction(async trx => {
+          const results: unknown[] = []
+          for (const group of groups) {
+            // Never overwrite created_at, always refresh updated_at and bump the version
+            const columns = (updateColumns ?? group.columns).filter(c =>
+              !conflictColumns.includes(c) && c !== createdAtColumn && c !== versionColumn
+            )
+            if (columns.length > 0 && updatedAtColumn && !columns.includes(updatedAtColumn)) {
+              columns.push(updatedAtColumn)
+            }
+            const size = resolveChunkSize(group.columns.length, this.dialect, this.performanceConfig)
+            
+            // MySQL has no conflict target: any unique key triggers the update.
+            // The inserted row is read through a row alias, as VALUES() is deprecated
+            const onConflict = this.dialect === 'mysql'
+              ? (query: any) => columns.length === 0
+                  ? query.ignore()
+                  : query.modifyEnd(sql`as new on duplicate key update ${sql.join([
+                      ...columns.map(c => sql`${sql.ref(c)} = ${sql.ref(`new.${c}`)}`),
+                      ...(versionColumn ? [sql`${sql.ref(versionColumn)} = ${sql.ref(versionColumn)} + 1`] : [])
+                    ])}`)
+              : (query: any) => query.onConflict((oc: any) => {
+                  const target = oc.columns(conflictColumns)
+                  if (columns.length === 0) {
+                    return target.doNothing()
+                  }
+                  return target.doUpdateSet((eb: any) => ({
+                    ...Object.fromEntries(columns.map(c => [c, eb.ref(`excluded.${c}`)])),
+                    ...(versionColumn ? { [versionColumn]: eb(eb.ref(`${table.name}.${versionColumn}`), '+', 1) } : {})
+                  }))
+                })
+            
+            for (const batch of chunk(group.rows, size)) {
+              const keyed = batch.filter(row => conflictColumns.every(c => row[c] !== undefined))
+              if (trackUpdates && keyed.length > 0) {
+                for (const row of await this.selectByKeys(trx, table, keyed, conflictColumns)) {
+                  existingKeys.add(rowKey(row, conflictColumns))
+                }
+              }
+              results.push(...await this.insertRows(trx, table, batch, onConflict, conflictColumns, columns.length === 0))
+            }
+          }
+          return results
+        })
+        
+        for (const entity of upserted) {
+          const updated = existingKeys.has(rowKey(entity as Record<string, unknown>, conflictColumns))
+          await this.hooks.run(table.name, updated ? 'afterUpdate' : 'afterCreate', entity)
+        }
+        return this.transformBooleans(upserted, table) as T[]
       },
 
       // Utility methods
       count: async () => {
-        const result = await this.db
-          .selectFrom(table.name as any)
-          .select((eb: any) => eb.fn.countAll().as('count'))
-          .executeTakeFirst()
+        const result = await this.applyWhere(
+          this.db
+            .selectFrom(table.name as any)
+            .select((eb: any) => eb.fn.countAll().as('count')),
+          scoped(),
+          filterContext
+        ).executeTakeFirst()
         
         return Number((result as any)?.count || 0)
       },
 
       exists: async (id: string | number) => {
-        const result = await this.db
-          .selectFrom(table.name as any)
-          .select(primaryKey as any)
-          .where(primaryKey as any, '=', id)
-          .executeTakeFirst()
+        const result = await this.applyWhere(
+          this.db.selectFrom(table.name as any).select(primaryKey as any),
+          scoped(byId(id)),
+          filterContext
+        ).executeTakeFirst()
         
         return result !== undefined
       },
@@ -189,42 +730,33 @@ export class RepositoryFactory {
       paginate: async (options: {
         page: number
         limit: number
-        where?: Partial<T>
+        where?: WhereFilter<T>
         orderBy?: { column: keyof T; direction: 'asc' | 'desc' }
       }) => {
-        let query = this.db.selectFrom(table.name as any).selectAll()
+        const orderColumn = options.orderBy && resolveColumn(table, options.orderBy.column as string)
         
         // Apply where conditions
-        if (options.where) {
-          for (const [key, value] of Object.entries(options.where)) {
-            if (value !== undefined) {
-              query = query.where(key as any, '=', value)
-            }
-          }
-        }
+        let query = this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(options.where),
+          filterContext
+        )
         
         // Count total with same where conditions
-        let countQuery = this.db
-          .selectFrom(table.name as any)
-          .select((eb: any) => eb.fn.countAll().as('count'))
-        
-        if (options.where) {
-          for (const [key, value] of Object.entries(options.where)) {
-            if (value !== undefined) {
-              countQuery = countQuery.where(key as any, '=', value)
-            }
-          }
-        }
+        const countQuery = this.applyWhere(
+          this.db
+            .selectFrom(table.name as any)
+            .select((eb: any) => eb.fn.countAll().as('count')),
+          scoped(options.where),
+          filterContext
+        )
         
         const countResult = await countQuery.executeTakeFirst()
         const total = Number((countResult as any)?.count || 0)
         
         // Apply order by
-        if (options.orderBy) {
-          query = query.orderBy(
-            options.orderBy.column as string, 
-            options.orderBy.direction
-          )
+        if (orderColumn) {
+          query = query.orderBy(orderColumn, options.orderBy!.direction)
         }
         
         // Apply pagination
@@ -234,7 +766,7 @@ export class RepositoryFactory {
         const data = await query.execute()
         
         const totalPages = Math.ceil(total / options.limit)
-        const transformedData = this.transformBooleans(data, table) as T[]
+        const transformedData = await this.afterLoad(table, this.transformBooleans(data, table) as T[])
         
         return {
           data: transformedData,
@@ -249,32 +781,115 @@ export class RepositoryFactory {
         }
       },
 
+      // Keyset pagination: seeks past the cursor using the order columns plus
+      // the primary key instead of OFFSET, and only counts when asked to
+      paginateCursor: async (options: CursorPaginationOptions<T>) => {
+        if (options.after && options.before) {
+          throw new ValidationError('paginateCursor accepts either after or before, not both')
+        }
+        
+        const orderBy = (Array.isArray(options.orderBy)
+          ? options.orderBy
+          : options.orderBy ? [options.orderBy] : []
+        ).map(order => ({ column: resolveColumn(table, order.column as string), direction: order.direction }))
+        const keys = resolveKeysetKeys(orderBy, primaryKey)
+        
+        const backward = options.before !== undefined
+        const cursor = options.after ?? options.before
+        
+        let query = this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(options.where),
+          filterContext
+        )
+        const nullable = new Set(
+          keys.map(k => k.column as string).filter(c => table.columns.find(col => col.name === c)?.nullable)
+        )
+        if (cursor !== undefined) {
+          query = this.applyWhere(
+            query,
+            buildKeysetFilter(decodeCursor(cursor, keys), keys, backward, nullable),
+            filterContext
+          )
+        }
+        
+        // Walk backwards in reverse order, then flip the page back
+        for (const key of keys) {
+          const reverse = backward ? (key.direction === 'asc' ? 'desc' : 'asc') : key.direction
+          if (nullable.has(key.column as string)) {
+            // NULLs first ascending and last descending, whatever the dialect's default
+            query = query.orderBy(sql`${sql.ref(key.column as string)} is null`, reverse === 'asc' ? 'desc' : 'asc')
+          }
+          query = query.orderBy(key.column as any, reverse)
+        }
+        
+        // Fetch one extra row to know whether another page exists
+        const rows = await query.limit(options.limit + 1).execute()
+        const hasMore = rows.length > options.limit
+        const page = rows.slice(0, options.limit)
+        if (backward) {
+          page.reverse()
+        }
+        
+        const hasNext = backward ? cursor !== undefined : hasMore
+        const hasPrev = backward ? hasMore : cursor !== undefined
+        
+        let total: number | undefined
+        if (options.includeTotal) {
+          const countResult = await this.applyWhere(
+            this.db
+              .selectFrom(table.name as any)
+              .select((eb: any) => eb.fn.countAll().as('count')),
+            scoped(options.where),
+            filterContext
+          ).executeTakeFirst()
+          total = Number((countResult as any)?.count || 0)
+        }
+        
+        return {
+          data: await this.afterLoad(table, this.transformBooleans(page, table) as T[]),
+          pagination: {
+            limit: options.limit,
+            hasNext,
+            hasPrev,
+            nextCursor: hasNext && page.length > 0 ? encodeCursor(page[page.length - 1], keys) : null,
+            prevCursor: hasPrev && page.length > 0 ? encodeCursor(page[0], keys) : null,
+            ...(total !== undefined ? { total } : {})
+          }
+        }
+      },
+
       // Relationship methods
       findWithRelations: async (id: string | number, relations: string[]) => {
-        // Basic implementation - fetches entity without loading relations
-        // Full relationship loading would require additional implementation
-        const result = await this.db
-          .selectFrom(table.name as any)
-          .selectAll()
-          .where(primaryKey as any, '=', id)
-          .executeTakeFirst()
+        const result = await this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(byId(id)),
+          filterContext
+        ).executeTakeFirst()
         
-        return (result as T | undefined) ?? null
+        if (!result) {
+          return null
+        }
+        
+        const [entity] = await this.afterLoad(table, [this.transformBooleans(result, table) as T])
+        await relationshipEngine.loadRelationships([entity], relations, table.name)
+        
+        return entity
       },
 
       loadRelationships: async (entities: T[], relations: string[]) => {
-        // Stub implementation for relationship loading
-        // Full implementation would load related entities based on relationship definitions
-        // For now, this is a no-op to satisfy the interface
+        // Related rows are batch loaded per relation (and per nesting level)
+        // with IN queries, then attached to the given entities in place
+        await relationshipEngine.loadRelationships(entities, relations, table.name)
       },
 
       withCount: async (id: string | number, relationshipNames: string[]) => {
         // Fetch the base entity
-        const rawEntity = await this.db
-          .selectFrom(table.name as any)
-          .selectAll()
-          .where(primaryKey as any, '=', id)
-          .executeTakeFirst()
+        const rawEntity = await this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          scoped(byId(id)),
+          filterContext
+        ).executeTakeFirst()
         
         if (!rawEntity) {
           throw new Error(
@@ -351,19 +966,24 @@ export class RepositoryFactory {
     }
     
     // Wrap repository in Proxy to handle dynamic method calls like findByXxx
-    return this.wrapWithDynamicMethods(repository as Repository<T>, table)
+    return this.wrapWithDynamicMethods(repository as Repository<T>, table, filterContext, scope)
   }
   
   /**
    * Wrap repository with Proxy to handle dynamic method calls
+   *
+   * Method names follow a Spring-Data-style grammar, e.g. findByEmail,
+   * findAllByStatusAndAgeGreaterThan, countByStatus, existsByEmail,
+   * deleteByExpiresAtLessThan or findFirstByOrderByCreatedAtDesc.
    */
   private wrapWithDynamicMethods<T>(
     repository: Repository<T>,
-    table: TableInfo
+    table: TableInfo,
+    filterContext: FilterContext,
+    scope: RepositoryScope
   ): Repository<T> {
-    const availableColumns = table.columns.map(c => c.name)
-    const db = this.db
-    const transformBooleans = this.transformBooleans.bind(this)
+    const finders = new Map<string, ParsedFinder | null>()
+    const factory = this
     
     return new Proxy(repository, {
       get(target, prop, receiver) {
@@ -372,55 +992,89 @@ export class RepositoryFactory {
           return Reflect.get(target, prop, receiver)
         }
         
-        // Handle dynamic findByXxx methods
-        if (typeof prop === 'string' && prop.startsWith('findBy')) {
-          return async (value: any) => {
-            // Extract column name from method name
-            // findByEmail -> Email -> email
-            // findByInvalidColumn -> InvalidColumn -> invalid_column
-            const columnNameRaw = prop.substring(6) // Remove 'findBy'
-            
-            // Convert from PascalCase to snake_case
-            // Handle both camelCase and PascalCase
-            let columnName = columnNameRaw
-              // Insert underscore before uppercase letters that follow lowercase
-              .replace(/([a-z])([A-Z])/g, '$1_$2')
-              // Insert underscore before uppercase letters that follow numbers
-              .replace(/([0-9])([A-Z])/g, '$1_$2')
-              // Convert to lowercase
-              .toLowerCase()
-            
-            // Check if column exists (case-insensitive)
-            const columnExists = availableColumns.some(
-              col => col.toLowerCase() === columnName.toLowerCase()
-            )
-            
-            if (!columnExists) {
-              throw new ColumnNotFoundError(
-                columnName,
-                table.name,
-                availableColumns
-              )
-            }
-            
-            // Execute query with the valid column
-            const actualColumn = availableColumns.find(
-              col => col.toLowerCase() === columnName.toLowerCase()
-            )!
-            
-            const result = await db
-              .selectFrom(table.name as any)
-              .selectAll()
-              .where(actualColumn as any, '=', value)
-              .executeTakeFirst()
-            
-            return transformBooleans(result || null, table)
-          }
+        if (typeof prop !== 'string' || !FINDER_PREFIX.test(prop)) {
+          return undefined
         }
         
-        return undefined
+        return async (...args: unknown[]) => {
+          // Parse lazily so unknown columns surface as a rejected promise
+          if (!finders.has(prop)) {
+            finders.set(prop, parseFinderMethod(prop, table))
+          }
+          const finder = finders.get(prop)!
+          
+          return await factory.executeFinder(finder, args, table, filterContext, scope)
+        }
       }
     }) as Repository<T>
   }
+
+  /**
+   * Execute a parsed dynamic finder
+   */
+  private async executeFinder(
+    finder: ParsedFinder,
+    args: unknown[],
+    table: TableInfo,
+    filterContext: FilterContext,
+    scope: RepositoryScope
+  ): Promise<unknown> {
+    if (finder.action === 'delete') {
+      return await this.deleteMatching(this.db, table, finder.buildWhere(args), filterContext, scope)
+    }
+    
+    const where = this.scopeWhere(finder.buildWhere(args), scope)
+    
+    switch (finder.action) {
+      case 'count': {
+        const result = await this.applyWhere(
+          this.db
+            .selectFrom(table.name as any)
+            .select((eb: any) => eb.fn.countAll().as('count')),
+          where,
+          filterContext
+        ).executeTakeFirst()
+        
+        return Number((result as any)?.count || 0)
+      }
+      
+      case 'exists': {
+        const primaryKey = table.columns.find(c => c.isPrimaryKey)?.name || table.columns[0].name
+        const result = await this.applyWhere(
+          this.db.selectFrom(table.name as any).select(primaryKey as any),
+          where,
+          filterContext
+        ).limit(1).executeTakeFirst()
+        
+        return result !== undefined
+      }
+      
+      default: {
+        let query = this.applyWhere(
+          this.db.selectFrom(table.name as any).selectAll(),
+          where,
+          filterContext
+        )
+        
+        for (const order of finder.orderBy) {
+          query = query.orderBy(order.column as string, order.direction)
+        }
+        
+        if (finder.action === 'findOne') {
+          const result = await query.limit(1).executeTakeFirst()
+          return result ? (await this.afterLoad(table, [this.transformBooleans(result, table)]))[0] : null
+        }
+        
+        return await this.afterLoad(table, this.transformBooleans(await query.execute(), table) as unknown[])
+      }
+    }
+  }
 }
 
+/**
+ * Compare key values as strings, since drivers may read numbers back as
+ * strings or bigints
+ */
+function rowKey(row: Record<string, unknown>, keyColumns: string[]): string {
+  return JSON.stringify(keyColumns.map(column => String(row[column])))
+}
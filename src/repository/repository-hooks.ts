@@ -0,0 +1,60 @@
+import type { RepositoryHooks } from '../types/index.js'
+
+type HookName = keyof RepositoryHooks
+
+/**
+ * Per-table lifecycle hooks shared by all repositories of a NOORMME instance.
+ * Hooks are looked up when an operation runs, so they can be registered
+ * after repositories were created.
+ */
+export class HookRegistry {
+  private hooks = new Map<string, RepositoryHooks[]>()
+
+  /**
+   * Register hooks for a table, returning a function that removes them again
+   */
+  register<T>(tableName: string, hooks: RepositoryHooks<T>): () => void {
+    const tableHooks = this.hooks.get(tableName) ?? []
+    tableHooks.push(hooks as RepositoryHooks)
+    this.hooks.set(tableName, tableHooks)
+
+    return () => {
+      const current = this.hooks.get(tableName) ?? []
+      this.hooks.set(tableName, current.filter(h => h !== hooks))
+    }
+  }
+
+  /**
+   * Whether any hook of the given kind is registered for a table
+   */
+  has(tableName: string, name: HookName): boolean {
+    return (this.hooks.get(tableName) ?? []).some(h => typeof h[name] === 'function')
+  }
+
+  /**
+   * Run a `before*` hook chain; each hook may replace the value
+   */
+  async runBefore<V>(tableName: string, name: 'beforeCreate' | 'beforeUpdate', value: V): Promise<V> {
+    let current = value
+    for (const hooks of this.hooks.get(tableName) ?? []) {
+      const result = await (hooks[name] as ((v: V) => unknown) | undefined)?.call(hooks, current)
+      if (result !== undefined) {
+        current = result as V
+      }
+    }
+    return current
+  }
+
+  /**
+   * Run notification hooks in registration order
+   */
+  async run(
+    tableName: string,
+    name: 'afterCreate' | 'afterUpdate' | 'beforeDelete' | 'afterDelete' | 'afterLoad',
+    value: unknown
+  ): Promise<void> {
+    for (const hooks of this.hooks.get(tableName) ?? []) {
+      await (hooks[name] as ((v: unknown) => unknown) | undefined)?.call(hooks, value)
+    }
+  }
+}
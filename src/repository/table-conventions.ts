@@ -0,0 +1,89 @@
+import type { TableInfo, TableConfig, ColumnInfo } from '../types/index.js'
+import { ValidationError } from '../errors/NoormError.js'
+
+/**
+ * Column conventions in effect for a table, resolved from its columns
+ * and the per-table configuration
+ */
+export interface TableConventions {
+  softDeleteColumn?: string
+  createdAtColumn?: string
+  updatedAtColumn?: string
+  versionColumn?: string
+}
+
+const DEFAULT_COLUMNS = {
+  softDelete: 'deleted_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  version: 'version'
+}
+
+/**
+ * Resolve the conventions for a table. Conventions are opt-in: each one is
+ * enabled by its setting in the table's config, with `true` for the default
+ * column name or a string to rename it.
+ */
+export function resolveTableConventions(table: TableInfo, config: TableConfig = {}): TableConventions {
+  const timestamps = config.timestamps === true ? {} : config.timestamps || undefined
+  const versionColumn = resolveConventionColumn(table, config.version, DEFAULT_COLUMNS.version)
+
+  // Optimistic locking increments the version, which only works on numbers
+  const version = table.columns.find(c => c.name === versionColumn)
+  if (version && !isNumericColumn(version)) {
+    throw new ValidationError(
+      `Version column '${version.name}' of table '${table.name}' must be numeric, not ${version.type}`
+    )
+  }
+
+  return {
+    softDeleteColumn: resolveConventionColumn(table, config.softDelete, DEFAULT_COLUMNS.softDelete),
+    // `timestamps: true` uses whichever of created_at and updated_at exist
+    createdAtColumn: timestamps && resolveConventionColumn(
+      table, timestamps.createdAt ?? true, DEFAULT_COLUMNS.createdAt, timestamps.createdAt !== undefined
+    ),
+    updatedAtColumn: timestamps && resolveConventionColumn(
+      table, timestamps.updatedAt ?? true, DEFAULT_COLUMNS.updatedAt, timestamps.updatedAt !== undefined
+    ),
+    versionColumn
+  }
+}
+
+function resolveConventionColumn(
+  table: TableInfo,
+  setting: boolean | string | undefined,
+  defaultColumn: string,
+  required = true
+): string | undefined {
+  if (!setting) {
+    return undefined
+  }
+
+  const column = typeof setting === 'string' ? setting : defaultColumn
+  const exists = table.columns.some(c => c.name === column)
+
+  // A column the config asks for must exist
+  if (!exists && required) {
+    throw new ValidationError(
+      `Column '${column}' configured for table '${table.name}' does not exist`,
+      table.columns.map(c => c.name)
+    )
+  }
+
+  return exists ? column : undefined
+}
+
+function isNumericColumn(column: ColumnInfo): boolean {
+  return column.type === 'number' || /int/i.test(column.type)
+}
+
+/**
+ * Current time in a form the column can store: epoch milliseconds for numeric
+ * columns, otherwise an ISO-8601 string (SQLite drivers cannot bind Date objects)
+ */
+export function currentTimestamp(column: ColumnInfo | undefined): string | number {
+  if (column && isNumericColumn(column)) {
+    return Date.now()
+  }
+  return new Date().toISOString()
+}
@@ -0,0 +1,102 @@
+import type { Transaction } from '../kysely.js'
+import type { Driver } from '../driver/driver.js'
+import { createQueryId } from '../util/query-id.js'
+import type { NoormTransaction, Repository } from '../types/index.js'
+
+type SavepointCommand = 'savepoint' | 'rollbackToSavepoint' | 'releaseSavepoint'
+
+/**
+ * Wrap a transaction so that nested transactions run in savepoints on its
+ * connection, through the driver's savepoint API. `createRepository` must
+ * build repositories on `trx`; they are created lazily and cached for the
+ * lifetime of the transaction.
+ */
+export function createTransactionScope<DB>(
+  trx: Transaction<DB>,
+  driver: Driver,
+  createRepository: (tableName: string) => Repository<any>
+): NoormTransaction<DB> {
+  const repositories = new Map<string, Repository<any>>()
+  let savepoints = 0
+
+  const getRepository = (tableName: string): Repository<any> => {
+    let repository = repositories.get(tableName)
+    if (!repository) {
+      repository = createRepository(tableName)
+      repositories.set(tableName, repository)
+    }
+    return repository
+  }
+
+  const run = async (command: SavepointCommand, name: string): Promise<void> => {
+    const method = driver[command]
+    if (!method) {
+      throw new Error(`The \`${command}\` method is not supported by this driver`)
+    }
+
+    const executor = trx.getExecutor()
+    await executor.provideConnection(connection =>
+      method.call(driver, connection, name, node => executor.compileQuery(node, createQueryId()))
+    )
+  }
+
+  const createScope = (): NoormTransaction<DB> => {
+    // Savepoints nest like a stack, so nested transactions started
+    // concurrently at one level run one after the other
+    let queue: Promise<unknown> = Promise.resolve()
+
+    const transaction = <T>(callback: (tx: NoormTransaction<DB>) => Promise<T>): Promise<T> => {
+      const next = async () => {
+        const name = `noormme_sp_${++savepoints}`
+
+        await run('savepoint', name)
+        try {
+          const result = await callback(createScope())
+          await run('releaseSavepoint', name)
+          return result
+        } catch (error) {
+          await run('rollbackToSavepoint', name)
+          await run('releaseSavepoint', name)
+          throw error
+        }
+      }
+
+      const result = queue.then(next)
+      queue = result.catch(() => {})
+      return result
+    }
+
+    return new Proxy(trx, {
+      get(target, prop) {
+        if (prop === 'getRepository') return getRepository
+        if (prop === 'transaction') return transaction
+
+        // Kysely keeps its state in private fields, so methods must run on the target
+        const value = Reflect.get(target, prop, target)
+        return typeof value === 'function' ? value.bind(target) : value
+      }
+    }) as unknown as NoormTransaction<DB>
+  }
+
+  return createScope()
+}
+
+/**
+ * Whether an error is a lock or serialization conflict that goes away when
+ * the whole transaction is run again
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  const code = getErrorCode(error) ?? getErrorCode((error as any)?.context?.originalError)
+  if (!code) return false
+
+  return code === 'SQLITE_BUSY' ||
+    code.startsWith('SQLITE_BUSY_') ||
+    // PostgreSQL serialization_failure and deadlock_detected
+    code === '40001' ||
+    code === '40P01'
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | undefined)?.code
+  return typeof code === 'string' ? code : undefined
+}
@@ -0,0 +1,424 @@
+import type { ColumnInfo, SchemaInfo, TableInfo } from '../types/index.js'
+import { CheckConstraintParser } from '../schema/core/utils/check-constraint-parser.js'
+import { getIncludable, isExposedTable, RestHandlerOptions, RestOperation } from './rest-handler.js'
+
+/**
+ * JSON schema subset used by OpenAPI 3.0
+ */
+export interface OpenAPISchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  format?: string
+  nullable?: boolean
+  enum?: unknown[]
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  default?: unknown
+  items?: OpenAPISchema
+  properties?: Record<string, OpenAPISchema>
+  required?: string[]
+  additionalProperties?: boolean | OpenAPISchema
+  readOnly?: boolean
+  description?: string
+  $ref?: string
+}
+
+export interface OpenAPIParameter {
+  name: string
+  in: 'path' | 'query'
+  required?: boolean
+  description?: string
+  schema: OpenAPISchema
+}
+
+export interface OpenAPIOperation {
+  operationId: string
+  summary: string
+  tags: string[]
+  parameters?: OpenAPIParameter[]
+  requestBody?: {
+    required: boolean
+    content: Record<string, { schema: OpenAPISchema }>
+  }
+  responses: Record<string, { $ref: string } | { description: string; content?: Record<string, { schema: OpenAPISchema }> }>
+}
+
+export interface OpenAPIDocument {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  servers?: { url: string; description?: string }[]
+  tags: { name: string }[]
+  paths: Record<string, Partial<Record<'get' | 'post' | 'patch' | 'delete', OpenAPIOperation>>>
+  components: {
+    schemas: Record<string, OpenAPISchema>
+    responses: Record<string, { description: string; content: Record<string, { schema: OpenAPISchema }> }>
+  }
+}
+
+/**
+ * Options of `generateOpenAPI()`. The REST handler options describe which
+ * routes exist, so pass the same ones the handler is created with.
+ */
+export interface OpenAPIOptions extends Pick<RestHandlerOptions, 'basePath' | 'tables' | 'tableOptions' | 'defaultLimit' | 'maxLimit'> {
+  /** Document title (default: 'NOORMME API') */
+  title?: string
+  /** API version (default: '1.0.0') */
+  version?: string
+  description?: string
+  servers?: { url: string; description?: string }[]
+}
+
+const ALL_OPERATIONS: RestOperation[] = ['list', 'read', 'create', 'update', 'delete']
+
+/**
+ * Generate an OpenAPI 3.0 document from discovered schema information.
+ *
+ * Every table gets a row schema (named like the TypeGenerator's entity, with
+ * its includable relationships as optional properties) plus `Insert` and
+ * `Update` schemas, and path items for the CRUD routes `createRestHandler()`
+ * serves. Column nullability, lengths, `CHECK (column IN (...))` enums and
+ * date/UUID formats carry over from the schema.
+ */
+export function generateOpenAPI(schemaInfo: SchemaInfo, options: OpenAPIOptions = {}): OpenAPIDocument {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '')
+  const tables = schemaInfo.tables.filter(t => isExposedTable(t.name, options))
+
+  const document: OpenAPIDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: options.title ?? 'NOORMME API',
+      version: options.version ?? '1.0.0',
+      ...(options.description ? { description: options.description } : {})
+    },
+    ...(options.servers ? { servers: options.servers } : {}),
+    tags: tables.map(t => ({ name: t.name })),
+    paths: {},
+    components: {
+      schemas: {
+        CursorPagination: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer' },
+            hasNext: { type: 'boolean' },
+            hasPrev: { type: 'boolean' },
+            nextCursor: { type: 'string', nullable: true },
+            prevCursor: { type: 'string', nullable: true },
+            total: { type: 'integer', description: 'Only with `?total=true`' }
+          },
+          required: ['limit', 'hasNext', 'hasPrev', 'nextCursor', 'prevCursor']
+        },
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error'],
+          additionalProperties: true
+        }
+      },
+      responses: {
+        BadRequest: errorResponse('The request has an unknown column, filter or relationship, or violates a constraint'),
+        Forbidden: errorResponse('The operation is not allowed'),
+        NotFound: errorResponse('No such row'),
+        Conflict: errorResponse('The change conflicts with existing data'),
+        ValidationFailed: errorResponse('The data failed validation')
+      }
+    }
+  }
+
+  for (const table of tables) {
+    addTable(document, schemaInfo, table, basePath, options)
+  }
+
+  return document
+}
+
+function addTable(document: OpenAPIDocument, schemaInfo: SchemaInfo, table: TableInfo, basePath: string, options: OpenAPIOptions): void {
+  const tableOptions = options.tableOptions?.[table.name] ?? {}
+  const operations = tableOptions.operations ?? ALL_OPERATIONS
+  const entity = pascalCase(table.name)
+  const readable = table.columns.filter(c => !tableOptions.columns || tableOptions.columns.includes(c.name))
+  const writable = readable.filter(c => !tableOptions.writable || tableOptions.writable.includes(c.name))
+  const includable = getIncludable(schemaInfo, table, options)
+  const schemas = document.components.schemas
+  const ref = (name: string): OpenAPISchema => ({ $ref: `#/components/schemas/${name}` })
+
+  // Row as returned by reads
+  const row: OpenAPISchema = {
+    type: 'object',
+    properties: Object.fromEntries(readable.map(c => [c.name, columnSchema(table, c)])),
+    required: readable.filter(c => !c.nullable || c.isPrimaryKey).map(c => c.name)
+  }
+  for (const relationship of includable) {
+    const target = ref(pascalCase(relationship.toTable))
+    row.properties![relationship.name] = relationship.type === 'many-to-one'
+      ? { ...target, description: `Only with \`?include=${relationship.name}\`` }
+      : { type: 'array', items: target, description: `Only with \`?include=${relationship.name}\`` }
+  }
+  schemas[entity] = row
+
+  // Insert: everything but auto-generated columns, required unless nullable or defaulted
+  const insertable = writable.filter(c => !c.isAutoIncrement)
+  schemas[`${entity}Insert`] = {
+    type: 'object',
+    properties: Object.fromEntries(insertable.map(c => [c.name, columnSchema(table, c)])),
+    required: insertable.filter(c => !c.nullable && !hasDefault(c)).map(c => c.name),
+    additionalProperties: false
+  }
+
+  // Update: a partial row, the primary key is in the URL
+  schemas[`${entity}Update`] = {
+    type: 'object',
+    properties: Object.fromEntries(insertable.map(c => [c.name, columnSchema(table, c)])),
+    additionalProperties: false
+  }
+
+  const tag = [table.name]
+  const include = includable.length > 0
+    ? [queryParameter('include', `Comma-separated relationships to expand: ${includable.map(r => r.name).join(', ')}`, { type: 'string' })]
+    : []
+  const dataOf = (schema: OpenAPISchema) => jsonContent({ type: 'object', properties: { data: schema }, required: ['data'] })
+  const collection: OpenAPIDocument['paths'][string] = {}
+  const item: OpenAPIDocument['paths'][string] = {}
+
+  if (operations.includes('list')) {
+    const maxLimit = options.maxLimit ?? 100
+    collection.get = {
+      operationId: `list${entity}`,
+      summary: `List ${table.name}`,
+      tags: tag,
+      parameters: [
+        ...readable.map(c => queryParameter(
+          c.name,
+          `Equals, or \`${c.name}[op]=\` with eq, ne, gt, gte, lt, lte, like, notLike, isNull or the comma-separated in, notIn, between`,
+          scalarSchema(c)
+        )),
+        queryParameter('sort', 'Comma-separated columns, `-` prefix for descending', { type: 'string' }),
+        queryParameter('limit', 'Page size', { type: 'integer', minimum: 1, maximum: maxLimit, default: Math.min(options.defaultLimit ?? 20, maxLimit) }),
+        queryParameter('after', 'Cursor of the next page', { type: 'string' }),
+        queryParameter('before', 'Cursor of the previous page', { type: 'string' }),
+        queryParameter('total', 'Include the total row count', { type: 'boolean' }),
+        ...include
+      ],
+      responses: {
+        200: {
+          description: `A page of ${table.name}`,
+          content: jsonContent({
+            type: 'object',
+            properties: { data: { type: 'array', items: ref(entity) }, pagination: ref('CursorPagination') },
+            required: ['data', 'pagination']
+          })
+        },
+        400: responseRef('BadRequest'),
+        403: responseRef('Forbidden')
+      }
+    }
+  }
+
+  if (operations.includes('create')) {
+    collection.post = {
+      operationId: `create${entity}`,
+      summary: `Create a row in ${table.name}`,
+      tags: tag,
+      requestBody: { required: true, content: jsonContent(ref(`${entity}Insert`)) },
+      responses: {
+        201: { description: 'The created row', content: dataOf(ref(entity)) },
+        400: responseRef('BadRequest'),
+        403: responseRef('Forbidden'),
+        409: responseRef('Conflict'),
+        422: responseRef('ValidationFailed')
+      }
+    }
+  }
+
+  // Rows are addressed by a single-column primary key only
+  const primaryKey = table.primaryKey?.length === 1 ? table.columns.find(c => c.name === table.primaryKey![0]) : undefined
+  if (primaryKey) {
+    const id: OpenAPIParameter = { name: 'id', in: 'path', required: true, description: `The row's ${primaryKey.name}`, schema: scalarSchema(primaryKey) }
+
+    if (operations.includes('read')) {
+      item.get = {
+        operationId: `get${entity}`,
+        summary: `Read a row of ${table.name}`,
+        tags: tag,
+        parameters: [id, ...include],
+        responses: {
+          200: { description: 'The row', content: dataOf(ref(entity)) },
+          400: responseRef('BadRequest'),
+          403: responseRef('Forbidden'),
+          404: responseRef('NotFound')
+        }
+      }
+    }
+
+    if (operations.includes('update')) {
+      item.patch = {
+        operationId: `update${entity}`,
+        summary: `Update a row of ${table.name}`,
+        tags: tag,
+        parameters: [id],
+        requestBody: { required: true, content: jsonContent(ref(`${entity}Update`)) },
+        responses: {
+          200: { description: 'The updated row', content: dataOf(ref(entity)) },
+          400: responseRef('BadRequest'),
+          403: responseRef('Forbidden'),
+          404: responseRef('NotFound'),
+          409: responseRef('Conflict'),
+          422: responseRef('ValidationFailed')
+        }
+      }
+    }
+
+    if (operations.includes('delete')) {
+      item.delete = {
+        operationId: `delete${entity}`,
+        summary: `Delete a row of ${table.name}`,
+        tags: tag,
+        parameters: [id],
+        responses: {
+          204: { description: 'The row was deleted' },
+          403: responseRef('Forbidden'),
+          404: responseRef('NotFound')
+        }
+      }
+    }
+  }
+
+  if (Object.keys(collection).length > 0) {
+    document.paths[`${basePath}/${table.name}`] = collection
+  }
+  if (Object.keys(item).length > 0) {
+    document.paths[`${basePath}/${table.name}/{id}`] = item
+  }
+}
+
+/**
+ * Schema of a column's values, including its nullability
+ */
+function columnSchema(table: TableInfo, column: ColumnInfo): OpenAPISchema {
+  const schema = scalarSchema(column)
+  const values = CheckConstraintParser.getAllowedValues(table, column.name)
+  if (values) {
+    schema.enum = values
+  }
+
+  if (column.nullable && !column.isPrimaryKey) {
+    schema.nullable = true
+    // OpenAPI 3.0 only accepts null for an enum that lists it
+    schema.enum?.push(null)
+  }
+  return schema
+}
+
+/**
+ * Map a column type to a schema. Discovery reports either database types
+ * (`varchar(255)`, `timestamptz`, `uuid`) or the TypeScript types the
+ * SQLite discovery derives from them (`string`, `Date`).
+ */
+function scalarSchema(column: ColumnInfo): OpenAPISchema {
+  const type = column.type.toLowerCase()
+
+  if (type.endsWith('[]')) {
+    return { type: 'array', items: scalarSchema({ ...column, type: column.type.slice(0, -2), maxLength: undefined }) }
+  }
+
+  const base = type.split('(')[0].trim()
+  const schema = ((): OpenAPISchema => {
+    switch (base) {
+      case 'uuid':
+        return { type: 'string', format: 'uuid' }
+      case 'date':
+        return { type: 'string', format: column.type === 'Date' ? 'date-time' : 'date' }
+      case 'time':
+      case 'timetz':
+        return { type: 'string', format: 'time' }
+      case 'timestamp':
+      case 'timestamptz':
+      case 'datetime':
+      case 'datetime2':
+      case 'smalldatetime':
+        return { type: 'string', format: 'date-time' }
+      case 'integer':
+      case 'int':
+      case 'int2':
+      case 'int4':
+      case 'smallint':
+      case 'tinyint':
+      case 'mediumint':
+        return { type: 'integer' }
+      case 'bigint':
+      case 'int8':
+        return { type: 'integer', format: 'int64' }
+      case 'number':
+        // Only the type survives SQLite discovery, but row ids are whole
+        return column.isAutoIncrement ? { type: 'integer' } : { type: 'number' }
+      case 'decimal':
+      case 'numeric':
+      case 'real':
+      case 'float':
+      case 'double':
+      case 'double precision':
+        return { type: 'number' }
+      case 'boolean':
+      case 'bool':
+      case 'bit':
+        return { type: 'boolean' }
+      case 'json':
+      case 'jsonb':
+      case 'record<string, unknown>':
+        return { type: 'object', additionalProperties: true }
+      case 'buffer':
+      case 'blob':
+      case 'bytea':
+        return { type: 'string', format: 'byte' }
+      case 'string':
+      case 'text':
+      case 'varchar':
+      case 'character varying':
+      case 'char':
+      case 'character':
+      case 'nvarchar':
+      case 'nchar':
+      case 'ntext':
+      case 'clob':
+      case 'longtext':
+      case 'mediumtext':
+      case 'tinytext':
+      case 'tsvector':
+      case 'tsquery':
+        return { type: 'string' }
+      default:
+        return {}
+    }
+  })()
+
+  if (schema.type === 'string' && !schema.format && column.maxLength) {
+    schema.maxLength = column.maxLength
+  }
+  return schema
+}
+
+function hasDefault(column: ColumnInfo): boolean {
+  return column.defaultValue !== undefined && column.defaultValue !== null
+}
+
+function queryParameter(name: string, description: string, schema: OpenAPISchema): OpenAPIParameter {
+  return { name, in: 'query', description, schema }
+}
+
+function jsonContent(schema: OpenAPISchema): Record<string, { schema: OpenAPISchema }> {
+  return { 'application/json': { schema } }
+}
+
+function responseRef(name: string): { $ref: string } {
+  return { $ref: `#/components/responses/${name}` }
+}
+
+function errorResponse(description: string) {
+  return { description, content: jsonContent({ $ref: '#/components/schemas/Error' }) }
+}
+
+function pascalCase(str: string): string {
+  return str
+    .replace(/(?:^\w|[A-Z]|\b\w)/g, (word) => word.toUpperCase())
+    .replace(/\s+/g, '')
+    .replace(/[_-]/g, '')
+}
@@ -0,0 +1,487 @@
+import type { NOORMME } from '../noormme.js'
+import type {
+  ColumnInfo,
+  FilterOperators,
+  OrderBySpec,
+  RelationshipInfo,
+  SchemaInfo,
+  TableInfo,
+  WhereFilter
+} from '../types/index.js'
+import {
+  ColumnNotFoundError,
+  NoormError,
+  OptimisticLockError,
+  RelationshipNotFoundError,
+  ValidationError
+} from '../errors/NoormError.js'
+
+export type RestOperation = 'list' | 'read' | 'create' | 'update' | 'delete'
+
+/**
+ * What clients may do with one table
+ */
+export interface RestTableOptions {
+  /** Allowed operations (default: all) */
+  operations?: RestOperation[]
+  /** Columns returned and usable in filters and sorting (default: all) */
+  columns?: string[]
+  /** Columns a POST or PATCH body may set (default: every returned column) */
+  writable?: string[]
+  /** Relationships `?include=` may expand (default: those to exposed tables) */
+  include?: string[]
+}
+
+export interface RestRequestContext {
+  request: Request
+  table: string
+  operation: RestOperation
+  /** Primary key from the URL, for read, update and delete */
+  id?: string | number
+  /** Parsed body of a create or update */
+  data?: Record<string, unknown>
+}
+
+export interface RestHandlerOptions {
+  /** Path the handler is mounted at, e.g. `/api` */
+  basePath?: string
+  /** Tables to expose (default: every discovered table except NOORMME's own `_noormme_*` tables) */
+  tables?: string[]
+  /** Per-table allow-lists */
+  tableOptions?: Record<string, RestTableOptions>
+  /** Page size when the request sets no `limit` (default: 20) */
+  defaultLimit?: number
+  /** Largest `limit` a request may ask for (default: 100) */
+  maxLimit?: number
+  /**
+   * Called before every operation. Return `false` to answer 403, or a
+   * `Response` to send it instead.
+   */
+  authorize?: (context: RestRequestContext) => boolean | void | Response | Promise<boolean | void | Response>
+}
+
+const RESERVED_PARAMS = new Set(['sort', 'limit', 'after', 'before', 'include', 'total'])
+const LIST_OPERATORS = new Set(['in', 'notIn', 'between'])
+const FILTER_OPERATORS = new Set(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'like', 'notLike', 'between', 'isNull'])
+
+/**
+ * Error with the HTTP status it's answered with
+ */
+class RestError extends Error {
+  constructor(public status: number, message: string, public details?: Record<string, unknown>) {
+    super(message)
+  }
+}
+
+/**
+ * Create a fetch-style handler that serves every discovered table as a
+ * JSON resource:
+ *
+ * - `GET /:table` lists rows, with `?column=value` or `?column[op]=value`
+ *   filters, `?sort=-created_at,name`, `?limit=` and `?after=`/`?before=` cursors
+ * - `GET /:table/:id` reads one row
+ * - `POST /:table` creates, `PATCH /:table/:id` updates, `DELETE /:table/:id` deletes
+ * - `?include=posts,author` on reads expands relationships
+ *
+ * It takes a standard `Request` and returns a `Response`, so it mounts in
+ * Next.js route handlers, edge runtimes and any Node server with fetch types.
+ * The database must be initialized.
+ */
+export function createRestHandler(db: NOORMME<any>, options: RestHandlerOptions = {}): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '')
+
+  return async (request: Request): Promise<Response> => {
+    try {
+      const url = new URL(request.url)
+      if (basePath && url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+        throw new RestError(404, 'Not found')
+      }
+
+      const segments = url.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent)
+      if (segments.length === 0 || segments.length > 2) {
+        throw new RestError(404, 'Not found')
+      }
+
+      const schema = await db.getSchemaInfo()
+      const [tableName, rawId] = segments
+      const table = getExposedTable(schema, tableName, options)
+      const tableOptions = options.tableOptions?.[table.name] ?? {}
+
+      const operation = getOperation(request.method, rawId !== undefined)
+      if (!operation) {
+        const allowed = rawId !== undefined ? 'GET, PATCH, DELETE' : 'GET, POST'
+        return json({ error: `${request.method} is not supported here` }, 405, { allow: allowed })
+      }
+      if (tableOptions.operations && !tableOptions.operations.includes(operation)) {
+        throw new RestError(403, `'${operation}' is not allowed on '${table.name}'`)
+      }
+
+      const context: RestRequestContext = { request, table: table.name, operation }
+      if (rawId !== undefined) {
+        context.id = parseId(table, rawId)
+      }
+      if (operation === 'create' || operation === 'update') {
+        context.data = await readBody(request, table, tableOptions, operation)
+      }
+
+      const verdict = await options.authorize?.(context)
+      if (verdict instanceof Response) {
+        return verdict
+      }
+      if (verdict === false) {
+        throw new RestError(403, 'Forbidden')
+      }
+
+      return await execute(db, schema, table, context, url.searchParams, options)
+    } catch (error) {
+      return toErrorResponse(error)
+    }
+  }
+}
+
+async function execute(
+  db: NOORMME<any>,
+  schema: SchemaInfo,
+  table: TableInfo,
+  context: RestRequestContext,
+  params: URLSearchParams,
+  options: RestHandlerOptions
+): Promise<Response> {
+  const repository = db.getRepository(table.name)
+  const tableOptions = options.tableOptions?.[table.name] ?? {}
+  const project = (row: Record<string, any>) => pickReadable(row, table, tableOptions)
+  const { id, data } = context
+
+  switch (context.operation) {
+    case 'list': {
+      const includes = parseIncludes(schema, table, params, options)
+      const limit = parseLimit(params, options)
+      const after = params.get('after') ?? undefined
+      const before = params.get('before') ?? undefined
+      const page = await repository.paginateCursor({
+        limit,
+        after,
+        before,
+        where: parseFilters(table, tableOptions, params),
+        orderBy: parseSort(table, tableOptions, params),
+        includeTotal: params.get('total') === 'true'
+      })
+      await loadIncludes(db, schema, table, page.data, includes, options)
+      return json({ data: page.data.map(project), pagination: page.pagination })
+    }
+
+    case 'read': {
+      const includes = parseIncludes(schema, table, params, options)
+      const row = await repository.findById(id!)
+      if (!row) {
+        throw new RestError(404, `No '${table.name}' row with id ${id}`)
+      }
+      await loadIncludes(db, schema, table, [row], includes, options)
+      return json({ data: project(row) })
+    }
+
+    case 'create': {
+      const created = await repository.create(data!)
+      return json({ data: project(created) }, 201)
+    }
+
+    case 'update': {
+      const existing = await repository.findById(id!)
+      if (!existing) {
+        throw new RestError(404, `No '${table.name}' row with id ${id}`)
+      }
+      // The row is addressed by the URL only: the body can't carry a primary key
+      const primaryKey = table.primaryKey![0]
+      const updated = await repository.update({ ...existing, ...data, [primaryKey]: id })
+      return json({ data: project(updated) })
+    }
+
+    case 'delete': {
+      if (!(await repository.delete(id!))) {
+        throw new RestError(404, `No '${table.name}' row with id ${id}`)
+      }
+      return new Response(null, { status: 204 })
+    }
+  }
+}
+
+function getExposedTable(schema: SchemaInfo, name: string, options: RestHandlerOptions): TableInfo {
+  const table = schema.tables.find(t => t.name === name)
+  if (!table || !isExposedTable(name, options)) {
+    throw new RestError(404, `Unknown resource '${name}'`)
+  }
+  return table
+}
+
+function getOperation(method: string, hasId: boolean): RestOperation | undefined {
+  switch (method.toUpperCase()) {
+    case 'GET':
+      return hasId ? 'read' : 'list'
+    case 'POST':
+      return hasId ? undefined : 'create'
+    case 'PATCH':
+      return hasId ? 'update' : undefined
+    case 'DELETE':
+      return hasId ? 'delete' : undefined
+    default:
+      return undefined
+  }
+}
+
+function parseId(table: TableInfo, rawId: string): string | number {
+  const primaryKey = table.primaryKey ?? []
+  if (primaryKey.length !== 1) {
+    throw new RestError(404, `'${table.name}' has no single-column primary key to address rows by`)
+  }
+  return coerce(getColumn(table, primaryKey[0]), rawId) as string | number
+}
+
+/**
+ * Convert a query string value to the column's type
+ */
+function coerce(column: ColumnInfo, value: string): unknown {
+  if (column.type === 'number') {
+    const number = Number(value)
+    if (value.trim() === '' || Number.isNaN(number)) {
+      throw new RestError(400, `'${value}' is not a number (column '${column.name}')`)
+    }
+    return number
+  }
+  if (column.type === 'boolean') {
+    if (value === 'true' || value === '1') return true
+    if (value === 'false' || value === '0') return false
+    throw new RestError(400, `'${value}' is not a boolean (column '${column.name}')`)
+  }
+  return value
+}
+
+function getColumn(table: TableInfo, name: string): ColumnInfo {
+  const column = table.columns.find(c => c.name === name)
+  if (!column) {
+    throw new ColumnNotFoundError(name, table.name, table.columns.map(c => c.name))
+  }
+  return column
+}
+
+function getReadableColumn(table: TableInfo, options: RestTableOptions, name: string): ColumnInfo {
+  if (options.columns && !options.columns.includes(name)) {
+    throw new RestError(400, `Unknown column '${name}' on '${table.name}'`)
+  }
+  return getColumn(table, name)
+}
+
+/**
+ * `?name=Ann` is equality, `?age[gte]=18` applies an operator and list
+ * operators (`in`, `notIn`, `between`) take comma-separated values
+ */
+function parseFilters(table: TableInfo, options: RestTableOptions, params: URLSearchParams): WhereFilter<any> {
+  const where: Record<string, FilterOperators> = {}
+
+  for (const [key, value] of params) {
+    if (RESERVED_PARAMS.has(key)) {
+      continue
+    }
+
+    const match = key.match(/^([^[\]]+)(?:\[(\w+)\])?$/)
+    if (!match) {
+      throw new RestError(400, `Invalid filter '${key}'`)
+    }
+
+    const [, name, operator = 'eq'] = match
+    const column = getReadableColumn(table, options, name)
+    if (!FILTER_OPERATORS.has(operator)) {
+      throw new RestError(400, `Unknown filter operator '${operator}'`, { operators: [...FILTER_OPERATORS] })
+    }
+
+    const filter = (where[name] ??= {}) as Record<string, unknown>
+    if (operator === 'isNull') {
+      filter.isNull = value === 'true'
+    } else if (operator === 'like' || operator === 'notLike') {
+      filter[operator] = value
+    } else if (LIST_OPERATORS.has(operator)) {
+      filter[operator] = value.split(',').map(item => coerce(column, item))
+    } else {
+      filter[operator] = coerce(column, value)
+    }
+  }
+
+  return where as WhereFilter<any>
+}
+
+/**
+ * `?sort=-created_at,name` sorts by created_at descending, then name
+ */
+function parseSort(table: TableInfo, options: RestTableOptions, params: URLSearchParams): OrderBySpec<any>[] | undefined {
+  const sort = params.get('sort')
+  if (!sort) {
+    return undefined
+  }
+
+  return sort.split(',').filter(Boolean).map(item => {
+    const descending = item.startsWith('-')
+    const column = getReadableColumn(table, options, descending ? item.slice(1) : item)
+    return { column: column.name, direction: descending ? 'desc' : 'asc' }
+  })
+}
+
+function parseLimit(params: URLSearchParams, options: RestHandlerOptions): number {
+  const maxLimit = options.maxLimit ?? 100
+  const raw = params.get('limit')
+  if (raw === null) {
+    return Math.min(options.defaultLimit ?? 20, maxLimit)
+  }
+
+  const limit = Number(raw)
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RestError(400, `limit must be a positive integer, got '${raw}'`)
+  }
+  return Math.min(limit, maxLimit)
+}
+
+function parseIncludes(
+  schema: SchemaInfo,
+  table: TableInfo,
+  params: URLSearchParams,
+  options: RestHandlerOptions
+): RelationshipInfo[] {
+  const names = (params.get('include') ?? '').split(',').filter(Boolean)
+  const available = getIncludable(schema, table, options)
+
+  return names.map(name => {
+    const relationship = available.find(r => r.name === name)
+    if (!relationship) {
+      throw new RelationshipNotFoundError(name, table.name, available.map(r => r.name))
+    }
+    return relationship
+  })
+}
+
+/**
+ * Whether `options` expose `name`. NOORMME's own bookkeeping tables
+ * (migrations, locks, query stats) never are, even when listed.
+ *
+ * @internal
+ */
+export function isExposedTable(name: string, options: Pick<RestHandlerOptions, 'tables'>): boolean {
+  return !name.startsWith('_noormme_') && (!options.tables || options.tables.includes(name))
+}
+
+/**
+ * Relationships of `table` to other exposed tables that the table's
+ * allow-list (if any) includes
+ *
+ * @internal
+ */
+export function getIncludable(schema: SchemaInfo, table: TableInfo, options: RestHandlerOptions): RelationshipInfo[] {
+  const allowed = options.tableOptions?.[table.name]?.include
+  return schema.relationships.filter(r =>
+    r.fromTable === table.name &&
+    isExposedTable(r.toTable, options) &&
+    (options.tableOptions?.[r.toTable]?.operations?.includes('list') ?? true) &&
+    (!allowed || allowed.includes(r.name))
+  )
+}
+
+async function loadIncludes(
+  db: NOORMME<any>,
+  schema: SchemaInfo,
+  table: TableInfo,
+  rows: Record<string, any>[],
+  includes: RelationshipInfo[],
+  options: RestHandlerOptions
+): Promise<void> {
+  if (includes.length === 0 || rows.length === 0) {
+    return
+  }
+
+  await db.getRepository(table.name).loadRelationships(rows, includes.map(r => r.name))
+
+  // Related rows only show the columns their own table exposes
+  for (const relationship of includes) {
+    const target = schema.tables.find(t => t.name === relationship.toTable)!
+    const targetOptions = options.tableOptions?.[target.name] ?? {}
+    for (const row of rows) {
+      const related = row[relationship.name]
+      row[relationship.name] = Array.isArray(related)
+        ? related.map(item => pickReadable(item, target, targetOptions))
+        : related && pickReadable(related, target, targetOptions)
+    }
+  }
+}
+
+function pickReadable(row: Record<string, any>, table: TableInfo, options: RestTableOptions): Record<string, any> {
+  if (!options.columns) {
+    return row
+  }
+
+  const relationNames = Object.keys(row).filter(key => !table.columns.some(c => c.name === key))
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => options.columns!.includes(key) || relationNames.includes(key))
+  )
+}
+
+async function readBody(
+  request: Request,
+  table: TableInfo,
+  options: RestTableOptions,
+  operation: RestOperation
+): Promise<Record<string, unknown>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new RestError(400, 'Request body must be JSON')
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new RestError(400, 'Request body must be a JSON object')
+  }
+
+  // PATCH updates the row in the URL, so its body may not move the row to another key
+  const writable = (options.writable ?? options.columns ?? table.columns.map(c => c.name))
+    .filter(name => operation !== 'update' || !table.primaryKey?.includes(name))
+  const rejected = Object.keys(body).filter(key => !writable.includes(key) || !table.columns.some(c => c.name === key))
+  if (rejected.length > 0) {
+    throw new RestError(400, `Cannot write ${rejected.map(key => `'${key}'`).join(', ')} on '${table.name}'`, {
+      writable
+    })
+  }
+
+  return body as Record<string, unknown>
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  // Large integers from some drivers arrive as bigints, which JSON can't hold
+  const text = JSON.stringify(body, (_key, value) =>
+    typeof value === 'bigint'
+      ? (value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER ? Number(value) : value.toString())
+      : value
+  )
+  return new Response(text, { status, headers: { 'content-type': 'application/json', ...headers } })
+}
+
+function toErrorResponse(error: unknown): Response {
+  if (error instanceof RestError) {
+    return json({ error: error.message, ...error.details }, error.status)
+  }
+  if (error instanceof ValidationError) {
+    return json({ error: error.message, fieldErrors: error.fieldErrors, issues: error.context.availableOptions }, 422)
+  }
+  if (error instanceof ColumnNotFoundError || error instanceof RelationshipNotFoundError) {
+    return json({ error: error.message, available: error.context.availableOptions }, 400)
+  }
+  if (error instanceof OptimisticLockError) {
+    return json({ error: error.message }, 409)
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  if (/unique|duplicate|foreign key/i.test(message)) {
+    return json({ error: 'The change conflicts with existing data', detail: message }, 409)
+  }
+  if (/constraint/i.test(message)) {
+    return json({ error: 'The data violates a constraint', detail: message }, 400)
+  }
+
+  // Anything else may carry internals that clients shouldn't see
+  return json({ error: error instanceof NoormError ? error.message : 'Internal server error' }, 500)
+}
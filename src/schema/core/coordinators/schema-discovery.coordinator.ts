@@ -1,6 +1,7 @@
 import type { Kysely } from '../../../kysely.js'
 import { SchemaInfo, IntrospectionConfig } from '../../../types/index.js'
 import type { Dialect } from '../../../dialect/dialect.js'
+import { MysqlDialect } from '../../../dialect/mysql/mysql-dialect.js'
 import { SchemaDiscoveryConfig } from '../types/schema-discovery-types.js'
 import { DiscoveryFactory } from '../factories/discovery-factory.js'
 
@@ -35,7 +36,9 @@ export class SchemaDiscoveryCoordinator {
     // Determine the dialect - handle both string and dialect objects
     const dialectName = typeof dialect === 'string' 
       ? dialect 
-      : (dialect as any)?.name || 'sqlite'
+      : dialect instanceof MysqlDialect
+        ? 'mysql'
+        : (dialect as any)?.name || 'sqlite'
     this.currentDialect = dialectName
 
     // Check if dialect is supported
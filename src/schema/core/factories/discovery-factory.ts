@@ -6,6 +6,7 @@ import { ViewDiscovery } from '../discovery/view-discovery.js'
 import { SQLiteDiscoveryCoordinator } from '../../dialects/sqlite/sqlite-discovery.coordinator.js'
 import { SQLiteIndexDiscovery } from '../../dialects/sqlite/discovery/sqlite-index-discovery.js'
 import { SQLiteConstraintDiscovery } from '../../dialects/sqlite/discovery/sqlite-constraint-discovery.js'
+import { MySQLDiscoveryCoordinator } from '../../dialects/mysql/mysql-discovery.coordinator.js'
 
 /**
  * Factory for creating database-specific discovery services
@@ -68,10 +69,12 @@ export class DiscoveryFactory {
   /**
    * Create dialect-specific discovery coordinator
    */
-  createDiscoveryCoordinator(dialect: string): SQLiteDiscoveryCoordinator {
+  createDiscoveryCoordinator(dialect: string): SQLiteDiscoveryCoordinator | MySQLDiscoveryCoordinator {
     switch (dialect.trim().toLowerCase()) {
       case 'sqlite':
         return SQLiteDiscoveryCoordinator.getInstance()
+      case 'mysql':
+        return MySQLDiscoveryCoordinator.getInstance()
       default:
         throw new Error(`Unsupported dialect for discovery coordinator: ${dialect}`)
     }
@@ -100,7 +103,7 @@ export class DiscoveryFactory {
    * Get supported dialects
    */
   getSupportedDialects(): string[] {
-    return ['sqlite']
+    return ['sqlite', 'mysql']
   }
 
   /**
@@ -131,6 +134,15 @@ export class DiscoveryFactory {
           supportsCheckConstraints: true,
           supportsDeferredConstraints: false
         }
+      case 'mysql':
+        return {
+          supportsViews: true,
+          supportsIndexes: true,
+          supportsConstraints: true,
+          supportsForeignKeys: true,
+          supportsCheckConstraints: true,
+          supportsDeferredConstraints: false
+        }
       default:
         return {
           supportsViews: false,
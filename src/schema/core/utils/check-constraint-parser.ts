@@ -0,0 +1,44 @@
+import { TableInfo } from '../../../types/index.js'
+
+/**
+ * Reads what CHECK constraints allow for a column
+ */
+export class CheckConstraintParser {
+  /**
+   * Values of a `CHECK (column IN (...))` constraint on the column, if any
+   */
+  static getAllowedValues(table: TableInfo, columnName: string): (string | number)[] | undefined {
+    for (const constraint of table.constraints ?? []) {
+      if (constraint.type !== 'c' || (constraint.column && constraint.column !== columnName)) {
+        continue
+      }
+
+      const match = constraint.definition.match(/^\s*["`[]?(\w+)["`\]]?\s+IN\s*\(([\s\S]*)\)\s*$/i)
+      if (!match || match[1] !== columnName) {
+        continue
+      }
+
+      const values = this.parseLiterals(match[2])
+      if (values) {
+        return values
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Parse a comma-separated list of string and number literals. Anything
+   * else (expressions, subqueries) gives undefined.
+   */
+  private static parseLiterals(list: string): (string | number)[] | undefined {
+    const values: (string | number)[] = []
+    const literal = /\s*(?:'((?:[^']|'')*)'|(-?\d+(?:\.\d+)?))\s*(,|$)/y
+    let item: RegExpExecArray | null
+
+    while (literal.lastIndex < list.length && (item = literal.exec(list))) {
+      values.push(item[1] !== undefined ? item[1].replace(/''/g, "'") : Number(item[2]))
+    }
+
+    return literal.lastIndex === list.length && values.length > 0 ? values : undefined
+  }
+}
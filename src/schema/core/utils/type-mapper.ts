@@ -46,6 +46,23 @@ export class TypeMapper {
     'tsvector': 'string',
     'tsquery': 'string',
     'bytea': 'Buffer',
+    // MySQL types
+    'int': 'number',
+    'tinyint': 'number',
+    'mediumint': 'number',
+    'float': 'number',
+    'double': 'number',
+    'year': 'number',
+    'tinytext': 'string',
+    'mediumtext': 'string',
+    'longtext': 'string',
+    'enum': 'string',
+    'set': 'string',
+    'binary': 'Buffer',
+    'varbinary': 'Buffer',
+    'tinyblob': 'Buffer',
+    'mediumblob': 'Buffer',
+    'longblob': 'Buffer',
   }
 
   /**
@@ -0,0 +1,95 @@
+import type { Kysely } from '../../../kysely.js'
+import { MysqlIntrospector } from '../../../dialect/mysql/mysql-introspector.js'
+import { SchemaInfo, IntrospectionConfig } from '../../../types/index.js'
+import { SchemaDiscoveryConfig } from '../../core/types/schema-discovery-types.js'
+import { TableMetadataDiscovery } from '../../core/discovery/table-metadata-discovery.js'
+import { RelationshipDiscovery } from '../../core/discovery/relationship-discovery.js'
+import { ViewDiscovery } from '../../core/discovery/view-discovery.js'
+
+/**
+ * MySQL and MariaDB schema discovery coordinator
+ *
+ * Indexes and foreign keys come straight from `information_schema` through
+ * the MySQL introspector, so no extra discovery services are needed.
+ */
+export class MySQLDiscoveryCoordinator {
+  private static instance: MySQLDiscoveryCoordinator
+  private tableDiscovery: TableMetadataDiscovery
+  private relationshipDiscovery: RelationshipDiscovery
+  private viewDiscovery: ViewDiscovery
+
+  private constructor() {
+    this.tableDiscovery = TableMetadataDiscovery.getInstance()
+    this.relationshipDiscovery = RelationshipDiscovery.getInstance()
+    this.viewDiscovery = ViewDiscovery.getInstance()
+  }
+
+  static getInstance(): MySQLDiscoveryCoordinator {
+    if (!MySQLDiscoveryCoordinator.instance) {
+      MySQLDiscoveryCoordinator.instance = new MySQLDiscoveryCoordinator()
+    }
+    return MySQLDiscoveryCoordinator.instance
+  }
+
+  /**
+   * Discover complete MySQL schema
+   */
+  async discoverSchema(
+    db: Kysely<any>,
+    config: IntrospectionConfig = {}
+  ): Promise<SchemaInfo> {
+    const introspector = new MysqlIntrospector(db)
+    const discoveryConfig: SchemaDiscoveryConfig = {
+      excludeTables: config.excludeTables,
+      includeViews: config.includeViews,
+      customTypeMappings: config.customTypeMappings
+    }
+
+    const tables = await this.tableDiscovery.discoverTables(introspector, discoveryConfig)
+
+    // InnoDB always enforces foreign keys
+    const relationships = await this.relationshipDiscovery.discoverRelationships(tables)
+
+    const viewMetadata = discoveryConfig.includeViews
+      ? await this.viewDiscovery.discoverViews(introspector)
+      : []
+
+    const views = viewMetadata.map(view => ({
+      name: view.name,
+      schema: view.schema,
+      definition: view.definition || '',
+      columns: view.columns || []
+    }))
+
+    return {
+      tables,
+      relationships,
+      views
+    }
+  }
+
+  /**
+   * Get MySQL-specific capabilities
+   */
+  getCapabilities() {
+    return {
+      supportsViews: true,
+      supportsIndexes: true,
+      supportsConstraints: true,
+      supportsForeignKeys: true,
+      supportsCheckConstraints: true, // Enforced from MySQL 8.0.16 and MariaDB 10.2
+      supportsDeferredConstraints: false,
+      supportsPartialIndexes: false,
+      supportsExpressionIndexes: true,
+      supportsConcurrentIndexCreation: true,
+      supportsMaterializedViews: false,
+      supportsCustomTypes: false,
+      supportsExtensions: false,
+      supportsPRAGMA: false,
+      supportsAutoIncrement: true,
+      supportsRowId: false,
+      supportsTriggers: true,
+      supportsFullTextSearch: true
+    }
+  }
+}
@@ -44,11 +44,13 @@ export class SQLiteConstraintDiscovery {
   private parseConstraintsFromSQL(sql: string, tableName: string): any[] {
     const constraints: any[] = []
     
-    // Extract column definitions and table constraints
-    const columnMatches = sql.match(/CREATE TABLE[^(]*\(([^)]+)\)/i)
-    if (!columnMatches) return constraints
+    // Extract column definitions and table constraints, keeping nested
+    // parentheses such as varchar(255) or CHECK (x IN (1, 2)) intact
+    const start = sql.indexOf('(')
+    const body = start === -1 ? null : this.readParenthesized(sql, start)
+    if (body === null) return constraints
 
-    const definitions = columnMatches[1].split(',').map(def => def.trim())
+    const definitions = this.splitTopLevel(body).map(def => def.trim())
 
     for (const definition of definitions) {
       // Primary key constraints
@@ -79,14 +81,18 @@ export class SQLiteConstraintDiscovery {
         }
       }
 
-      // Check constraints
-      if (definition.toUpperCase().includes('CHECK')) {
-        const checkMatch = definition.match(/CHECK\s*\(([^)]+)\)/i)
-        if (checkMatch) {
+      // Check constraints, either table-level or attached to a column
+      const checkMatch = /\bCHECK\s*\(/i.exec(definition)
+      if (checkMatch) {
+        const expression = this.readParenthesized(definition, checkMatch.index + checkMatch[0].length - 1)
+        if (expression !== null) {
+          const isTableConstraint = /^(CONSTRAINT|CHECK)\b/i.test(definition)
+          const constraintName = definition.match(/^CONSTRAINT\s+["`\[]?(\w+)/i)?.[1]
           constraints.push({
-            name: `${tableName}_check_${constraints.length + 1}`,
+            name: constraintName || `${tableName}_check_${constraints.length + 1}`,
             type: 'c',
-            definition: checkMatch[1],
+            column: isTableConstraint ? undefined : definition.match(/^["`\[]?(\w+)/)?.[1],
+            definition: expression.trim(),
             fullDefinition: definition
           })
         }
@@ -122,6 +128,65 @@ export class SQLiteConstraintDiscovery {
     return constraints
   }
 
+  /**
+   * Read the text inside the parentheses opening at `openIndex`, skipping
+   * over nested parentheses and quoted strings
+   */
+  private readParenthesized(text: string, openIndex: number): string | null {
+    let depth = 0
+    let quote: string | null = null
+
+    for (let i = openIndex; i < text.length; i++) {
+      const char = text[i]
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === "'" || char === '"' || char === '`') {
+        quote = char
+      } else if (char === '(') {
+        depth++
+      } else if (char === ')') {
+        depth--
+        if (depth === 0) {
+          return text.substring(openIndex + 1, i)
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Split on commas that are not nested in parentheses or quotes
+   */
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let quote: string | null = null
+    let current = ''
+
+    for (const char of text) {
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === "'" || char === '"' || char === '`') {
+        quote = char
+      } else if (char === '(') {
+        depth++
+      } else if (char === ')') {
+        depth--
+      } else if (char === ',' && depth === 0) {
+        parts.push(current)
+        current = ''
+        continue
+      }
+      current += char
+    }
+
+    if (current.trim()) {
+      parts.push(current)
+    }
+    return parts
+  }
+
   /**
    * Get foreign key information using PRAGMA
    */
@@ -21,5 +21,8 @@ export { SQLiteIndexDiscovery } from './dialects/sqlite/discovery/sqlite-index-d
 export { SQLiteConstraintDiscovery } from './dialects/sqlite/discovery/sqlite-constraint-discovery.js'
 export { SQLiteSchemaIntrospector } from './dialects/sqlite/introspection/sqlite-schema-introspector.js'
 
+// MySQL Dialect
+export { MySQLDiscoveryCoordinator } from './dialects/mysql/mysql-discovery.coordinator.js'
+
 // Schema Builders
 export * from './builders/index.js'
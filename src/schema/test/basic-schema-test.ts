@@ -131,7 +131,7 @@ async function runTests() {
       const factory = DiscoveryFactory.getInstance();
       test.expect(factory.isDialectSupported('postgresql')).toBe(true);
       test.expect(factory.isDialectSupported('sqlite')).toBe(true);
-      test.expect(factory.isDialectSupported('mysql')).toBe(false);
+      test.expect(factory.isDialectSupported('mysql')).toBe(true);
     } catch (error) {
       console.log('⚠️  Factory dialect support test skipped (module not available)');
     }
@@ -138,12 +138,13 @@ describe('DiscoveryFactory', () => {
   describe('Dialect Support', () => {
     it('should return supported dialects', () => {
       const dialects = factory.getSupportedDialects()
-      expect(dialects).toEqual(['sqlite'])
+      expect(dialects).toEqual(['sqlite', 'mysql'])
     })
 
     it('should check if dialect is supported', () => {
       expect(factory.isDialectSupported('sqlite')).toBe(true)
       expect(factory.isDialectSupported('SQLITE')).toBe(true)
+      expect(factory.isDialectSupported('mysql')).toBe(true)
       expect(factory.isDialectSupported('unsupported')).toBe(false)
     })
 
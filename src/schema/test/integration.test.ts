@@ -134,14 +134,14 @@ describe('Schema Strategy Integration Tests', () => {
       expect(capabilities.supportsDeferredConstraints).toBe(false)
     })
 
-    it('should identify SQLite as supported', () => {
+    it('should identify SQLite and MySQL as supported', () => {
       expect(factory.isDialectSupported('sqlite')).toBe(true)
       expect(factory.isDialectSupported('SQLITE')).toBe(true)
+      expect(factory.isDialectSupported('mysql')).toBe(true)
     })
 
     it('should identify unsupported dialects', () => {
       expect(factory.isDialectSupported('unsupported')).toBe(false)
-      expect(factory.isDialectSupported('mysql')).toBe(false)
       expect(factory.isDialectSupported('postgresql')).toBe(false)
     })
   })
@@ -54,7 +54,7 @@ describe('Schema Strategy - Basic Tests', () => {
     
     expect(factory.isDialectSupported('postgresql')).toBe(true);
     expect(factory.isDialectSupported('sqlite')).toBe(true);
-    expect(factory.isDialectSupported('mysql')).toBe(false);
+    expect(factory.isDialectSupported('mysql')).toBe(true);
   });
 
   test('should verify error handling for unsupported dialects', () => {
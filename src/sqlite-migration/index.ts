@@ -6,12 +6,17 @@ export { SQLiteMigrationProvider } from './sqlite-migration-provider.js'
 export type {
   SQLiteMigrationConfig,
   SQLiteMigrationResult,
-  SQLiteMigrationPlan
+  SQLiteMigrationPlan,
+  SQLiteMigrationStatus,
+  SQLiteMigrateResult,
+  SQLiteRollbackResult,
+  AppliedMigration
 } from './sqlite-migration-manager.js'
 
 export type {
   SQLiteMigrationFile,
-  SQLiteMigrationProviderConfig
+  SQLiteMigrationProviderConfig,
+  LoadedMigration
 } from './sqlite-migration-provider.js'
 
 // Factory function for easy initialization
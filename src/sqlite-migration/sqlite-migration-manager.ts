@@ -3,6 +3,19 @@ import { sql } from '../raw-builder/sql.js'
 import { Logger } from '../logging/logger.js'
 import { SQLiteAutoOptimizer } from '../dialect/sqlite/sqlite-auto-optimizer.js'
 import { SQLiteAutoIndexer } from '../dialect/sqlite/sqlite-auto-indexer.js'
+import {
+  MigrationChecksumError,
+  MigrationError,
+  MigrationLockError
+} from '../errors/NoormError.js'
+import {
+  SQLiteMigrationProvider,
+  compareVersions,
+  type SQLiteMigrationFile
+} from './sqlite-migration-provider.js'
+import { introspectSQLiteSchema } from '../migration/schema_introspector.js'
+import { generateSQLiteMigration, loadSchemaFile } from '../migration/sqlite_migration_generator.js'
+import type { SchemaDifference } from '../migration/migration-types.js'
 
 export interface SQLiteMigrationConfig {
   enableAutoOptimization: boolean
@@ -12,6 +25,19 @@ export interface SQLiteMigrationConfig {
   migrationDirectory: string
   backupBeforeMigration: boolean
   dryRun: boolean
+  /**
+   * Table recording applied migrations
+   */
+  migrationTable: string
+  /**
+   * Single-row table used to stop concurrent migration runs
+   */
+  migrationLockTable: string
+  /**
+   * Milliseconds after which a lock left behind by a crashed run is ignored.
+   * A running migrator refreshes its lock every third of this time.
+   */
+  lockTimeout: number
 }
 
 export interface SQLiteMigrationResult {
@@ -32,23 +58,71 @@ export interface SQLiteMigrationPlan {
   dryRun: boolean
 }
 
+/**
+ * Row of the migration table
+ */
+export interface AppliedMigration {
+  version: string
+  name: string
+  checksum: string
+  appliedAt: string
+  executionTime: number | null
+}
+
+export interface SQLiteMigrationStatus {
+  currentVersion: string | null
+  availableMigrations: SQLiteMigrationFile[]
+  pendingMigrations: SQLiteMigrationFile[]
+  appliedMigrations: AppliedMigration[]
+  /**
+   * Applied migrations whose file changed since it was applied
+   */
+  modifiedMigrations: AppliedMigration[]
+  /**
+   * Applied migrations whose file no longer exists
+   */
+  missingMigrations: AppliedMigration[]
+}
+
+export interface SQLiteMigrateResult {
+  migrationsApplied: SQLiteMigrationFile[]
+  migrationsRolledBack: SQLiteMigrationFile[]
+  warnings: string[]
+  currentVersion: string | null
+}
+
+export interface SQLiteRollbackResult {
+  success: boolean
+  migration: SQLiteMigrationFile | null
+  currentVersion: string | null
+}
+
+const LOCK_ID = 'migration_lock'
+
+function renderStatements(statements: string[]): string {
+  return statements.map(s => (s.startsWith('--') ? s : `${s};`)).join('\n\n')
+}
+
 /**
  * SQLite Migration Manager - Focused on SQLite automation and optimization
- * Integrates with existing SQLite auto-optimization features
+ * Applies migration files from the migration directory, tracking applied
+ * versions and checksums, and integrates with the SQLite auto-optimization features
  */
 export class SQLiteMigrationManager {
   private static instance: SQLiteMigrationManager | null = null
   private db: Kysely<any>
   private config: SQLiteMigrationConfig
   private logger: Logger
+  private provider: SQLiteMigrationProvider
   private optimizer: SQLiteAutoOptimizer
   private indexer: SQLiteAutoIndexer
   private isInitialized = false
+  private lockedAt: string | null = null
 
-  private constructor(
+  constructor(
     db: Kysely<any>,
     config: Partial<SQLiteMigrationConfig> = {},
-    logger: Logger
+    logger: Logger = new Logger({ level: 'info', enabled: true })
   ) {
     this.db = db
     this.logger = logger
@@ -60,11 +134,18 @@ export class SQLiteMigrationManager {
       migrationDirectory: './migrations',
       backupBeforeMigration: true,
       dryRun: false,
+      migrationTable: '_noormme_migrations',
+      migrationLockTable: '_noormme_migrations_lock',
+      lockTimeout: 10 * 60 * 1000,
       ...config
     }
 
+    this.provider = new SQLiteMigrationProvider(
+      { migrationDirectory: this.config.migrationDirectory },
+      logger
+    )
     this.optimizer = SQLiteAutoOptimizer.getInstance(logger)
-    this.indexer = SQLiteAutoIndexer.getInstance(logger)
+    this.indexer = new SQLiteAutoIndexer(logger)
   }
 
   static getInstance(
@@ -73,9 +154,6 @@ export class SQLiteMigrationManager {
     logger?: Logger
   ): SQLiteMigrationManager {
     if (!SQLiteMigrationManager.instance) {
-      if (!logger) {
-        logger = new Logger({ level: 'info', enabled: true })
-      }
       SQLiteMigrationManager.instance = new SQLiteMigrationManager(db, config, logger)
     }
     return SQLiteMigrationManager.instance
@@ -109,26 +187,32 @@ export class SQLiteMigrationManager {
   }
 
   /**
-   * Create the migrations tracking table
+   * Create the migrations tracking and lock tables
    */
   private async createMigrationsTable(): Promise<void> {
-    await sql`
-      CREATE TABLE IF NOT EXISTS sqlite_migrations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL UNIQUE,
-        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        checksum TEXT,
-        optimization_applied BOOLEAN DEFAULT FALSE,
-        index_recommendations TEXT,
-        performance_impact TEXT
-      )
-    `.execute(this.db)
+    await this.db.schema
+      .createTable(this.config.migrationTable)
+      .ifNotExists()
+      .addColumn('version', 'varchar(255)', col => col.primaryKey())
+      .addColumn('name', 'varchar(255)', col => col.notNull())
+      .addColumn('checksum', 'varchar(64)', col => col.notNull())
+      .addColumn('applied_at', 'varchar(32)', col => col.notNull())
+      .addColumn('execution_time', 'integer')
+      .execute()
+
+    await this.db.schema
+      .createTable(this.config.migrationLockTable)
+      .ifNotExists()
+      .addColumn('id', 'varchar(255)', col => col.primaryKey())
+      .addColumn('is_locked', 'integer', col => col.notNull().defaultTo(0))
+      .addColumn('locked_at', 'varchar(32)')
+      .execute()
 
-    // Create index for faster lookups
-    await sql`
-      CREATE INDEX IF NOT EXISTS idx_sqlite_migrations_name 
-      ON sqlite_migrations(name)
-    `.execute(this.db)
+    await this.db
+      .insertInto(this.config.migrationLockTable)
+      .values({ id: LOCK_ID, is_locked: 0 })
+      .onConflict(oc => oc.column('id').doNothing())
+      .execute()
   }
 
   /**
@@ -161,6 +245,168 @@ export class SQLiteMigrationManager {
     }
   }
 
+  /**
+   * Compare the migration directory with the migration table
+   */
+  async getMigrationStatus(): Promise<SQLiteMigrationStatus> {
+    await this.initialize()
+
+    const available = await this.provider.discoverMigrations()
+    const applied = await this.getAppliedMigrations()
+    const appliedVersions = new Set(applied.map(m => m.version))
+    const files = new Map(available.map(m => [m.version, m]))
+
+    return {
+      currentVersion: applied.length > 0 ? applied[applied.length - 1].version : null,
+      availableMigrations: available,
+      pendingMigrations: available.filter(m => !appliedVersions.has(m.version)),
+      appliedMigrations: applied,
+      modifiedMigrations: applied.filter(m => files.has(m.version) && files.get(m.version)!.checksum !== m.checksum),
+      missingMigrations: applied.filter(m => !files.has(m.version))
+    }
+  }
+
+  /**
+   * Apply all pending migrations in version order
+   */
+  async migrateToLatest(): Promise<SQLiteMigrateResult> {
+    return this.withLock(async () => {
+      const status = await this.getVerifiedStatus()
+      const warnings = this.statusWarnings(status)
+
+      const migrationsApplied = await this.applyMigrations(status.pendingMigrations)
+
+      return {
+        migrationsApplied,
+        migrationsRolledBack: [],
+        warnings,
+        currentVersion: await this.getCurrentVersion()
+      }
+    })
+  }
+
+  /**
+   * Apply or roll back migrations until `version` is the latest applied one.
+   * Version `0` rolls back every migration.
+   */
+  async migrateToVersion(version: string): Promise<SQLiteMigrateResult> {
+    return this.withLock(async () => {
+      const status = await this.getVerifiedStatus()
+      const warnings = this.statusWarnings(status)
+
+      const target = version === '0'
+        ? version
+        : [...status.availableMigrations, ...status.appliedMigrations]
+          .find(m => m.version === version || m.name === version)?.version
+      if (!target) {
+        throw new MigrationError(
+          version,
+          new Error(`Unknown migration version. Available versions: ${status.availableMigrations.map(m => m.version).join(', ') || 'none'}`),
+          { step: 'resolve target' }
+        )
+      }
+
+      const toRollBack = status.appliedMigrations
+        .filter(m => compareVersions(m.version, target) > 0)
+        .reverse()
+      const migrationsRolledBack: SQLiteMigrationFile[] = []
+      for (const applied of toRollBack) {
+        migrationsRolledBack.push(await this.rollBack(applied, status.availableMigrations))
+      }
+
+      const migrationsApplied = await this.applyMigrations(
+        status.pendingMigrations.filter(m => compareVersions(m.version, target) <= 0)
+      )
+
+      return {
+        migrationsApplied,
+        migrationsRolledBack,
+        warnings,
+        currentVersion: await this.getCurrentVersion()
+      }
+    })
+  }
+
+  /**
+   * Run the `down` step of the most recently applied migration
+   */
+  async rollbackLastMigration(): Promise<SQLiteRollbackResult> {
+    return this.withLock(async () => {
+      const status = await this.getVerifiedStatus()
+      const last = status.appliedMigrations[status.appliedMigrations.length - 1]
+
+      if (!last) {
+        return { success: false, migration: null, currentVersion: null }
+      }
+
+      const migration = await this.rollBack(last, status.availableMigrations)
+      return { success: true, migration, currentVersion: await this.getCurrentVersion() }
+    })
+  }
+
+  /**
+   * Create a migration file in the migration directory. With a schema file the
+   * migration holds the statements turning the current database into that
+   * schema; returns null when the database already matches it.
+   */
+  async generateMigration(
+    name: string,
+    options: { schemaFile?: string } = {}
+  ): Promise<{
+    fileName: string
+    filePath: string
+    description: string
+    content: string
+    differences: SchemaDifference[]
+    warnings: string[]
+  } | null> {
+    if (!options.schemaFile) {
+      const file = await this.provider.createMigrationFile(name)
+      return {
+        fileName: `${file.name}.sql`,
+        filePath: file.filePath,
+        description: `Empty migration '${file.description}', version ${file.version}`,
+        content: file.content,
+        differences: [],
+        warnings: []
+      }
+    }
+
+    // Pending migrations are not in the database yet, so diffing now would repeat them
+    const status = await this.getMigrationStatus()
+    if (status.pendingMigrations.length > 0) {
+      throw new MigrationError(
+        name,
+        new Error(`${status.pendingMigrations.length} pending migration(s) must be applied before generating from the schema`),
+        { step: 'generate' }
+      )
+    }
+
+    const desired = await loadSchemaFile(options.schemaFile)
+    const current = await introspectSQLiteSchema(this.db)
+    const migration = generateSQLiteMigration(current, desired)
+
+    if (migration.differences.length === 0) {
+      return null
+    }
+
+    const header = migration.warnings.map(w => `-- WARNING: ${w}`).join('\n')
+    const file = await this.provider.createMigrationFile(
+      name,
+      (header ? `${header}\n\n` : '') + renderStatements(migration.up),
+      renderStatements(migration.down)
+    )
+
+    return {
+      fileName: `${file.name}.sql`,
+      filePath: file.filePath,
+      description: `${migration.differences.length} schema change(s) from ${options.schemaFile}, version ${file.version}`,
+      content: file.content,
+      differences: migration.differences,
+      warnings: migration.warnings
+    }
+  }
+
   /**
    * Plan SQLite migrations with optimization recommendations
    */
@@ -169,7 +415,7 @@ export class SQLiteMigrationManager {
 
     try {
       // Get pending migrations
-      const pendingMigrations = await this.getPendingMigrations()
+      const pendingMigrations = (await this.getMigrationStatus()).pendingMigrations.map(m => m.name)
 
       // Get optimization recommendations
       const optimizationRecs = await this.optimizer.optimizeDatabase(this.db)
@@ -190,7 +436,7 @@ export class SQLiteMigrationManager {
       }
 
       this.logger.info(`📊 Migration plan: ${plan.migrations.length} migrations, ${plan.optimizations.length} optimizations, ${plan.indexRecommendations.length} index recommendations`)
-      
+
       return plan
     } catch (error) {
       this.logger.error('❌ Failed to plan migrations:', error)
@@ -207,9 +453,9 @@ export class SQLiteMigrationManager {
 
     try {
       const plan = await this.planMigrations()
-      
-      if (plan.migrations.length === 0) {
-        this.logger.info('✅ No pending migrations')
+
+      if (plan.migrations.length === 0 || plan.dryRun) {
+        this.logger.info(plan.dryRun ? '✅ Dry run, no migrations applied' : '✅ No pending migrations')
         return {
           success: true,
           migrationsApplied: 0,
@@ -221,59 +467,51 @@ export class SQLiteMigrationManager {
         }
       }
 
+      const migrated = await this.migrateToLatest()
+
       const result: SQLiteMigrationResult = {
-        success: false,
-        migrationsApplied: 0,
+        success: true,
+        migrationsApplied: migrated.migrationsApplied.length,
         optimizationsApplied: [],
         indexRecommendations: [],
-        performanceImpact: 'low',
+        performanceImpact: plan.estimatedImpact,
         duration: 0,
-        warnings: []
+        warnings: [...migrated.warnings]
       }
 
-      // Execute migrations in transaction
-      await this.db.transaction().execute(async (trx) => {
-        for (const migration of plan.migrations) {
-          await this.executeMigration(trx, migration)
-          result.migrationsApplied++
-        }
-
-        // Apply optimizations after migrations
-        if (this.config.enableAutoOptimization && plan.optimizations.length > 0) {
-          const optimizationResult = await this.optimizer.optimizeDatabase(trx, {
-            enableAutoPragma: true,
-            enableAutoIndexing: false,
-            enablePerformanceTuning: true,
-            enableBackupRecommendations: false,
-            slowQueryThreshold: 1000,
-            autoVacuumMode: 'INCREMENTAL',
-            journalMode: 'WAL',
-            synchronous: 'NORMAL',
-            cacheSize: -64000,
-            tempStore: 'MEMORY'
-          })
-          
-          result.optimizationsApplied = optimizationResult.appliedOptimizations
-          result.warnings.push(...optimizationResult.warnings)
-        }
+      // Apply optimizations after migrations
+      if (this.config.enableAutoOptimization && plan.optimizations.length > 0) {
+        const optimizationResult = await this.optimizer.optimizeDatabase(this.db, {
+          enableAutoPragma: true,
+          enableAutoIndexing: false,
+          enablePerformanceTuning: true,
+          enableBackupRecommendations: false,
+          slowQueryThreshold: 1000,
+          autoVacuumMode: 'INCREMENTAL',
+          journalMode: 'WAL',
+          synchronous: 'NORMAL',
+          cacheSize: -64000,
+          tempStore: 'MEMORY'
+        })
+
+        result.optimizationsApplied = optimizationResult.appliedOptimizations
+        result.warnings.push(...optimizationResult.warnings)
+      }
 
-        // Record index recommendations
-        if (this.config.enableIndexRecommendations) {
-          result.indexRecommendations = plan.indexRecommendations
-        }
-      })
+      // Record index recommendations
+      if (this.config.enableIndexRecommendations) {
+        result.indexRecommendations = plan.indexRecommendations
+      }
 
-      result.success = true
-      result.performanceImpact = plan.estimatedImpact
       result.duration = Date.now() - startTime
 
       this.logger.info(`✅ Migration completed: ${result.migrationsApplied} migrations applied in ${result.duration}ms`)
-      
+
       return result
     } catch (error) {
       const duration = Date.now() - startTime
       this.logger.error('❌ Migration failed:', error)
-      
+
       return {
         success: false,
         migrationsApplied: 0,
@@ -287,53 +525,254 @@ export class SQLiteMigrationManager {
   }
 
   /**
-   * Execute a single migration
+   * Apply migrations one by one, each in its own transaction together
+   * with its migration table record
+   */
+  private async applyMigrations(migrations: SQLiteMigrationFile[]): Promise<SQLiteMigrationFile[]> {
+    const applied: SQLiteMigrationFile[] = []
+
+    for (const migration of migrations) {
+      this.logger.info(`📝 Applying migration: ${migration.name}`)
+      const { up } = await this.provider.loadMigration(migration)
+      const startTime = Date.now()
+
+      try {
+        await this.runMigrationTransaction(async trx => {
+          await up(trx)
+          await trx
+            .insertInto(this.config.migrationTable)
+            .values({
+              version: migration.version,
+              name: migration.name,
+              checksum: migration.checksum,
+              applied_at: new Date().toISOString(),
+              execution_time: Date.now() - startTime
+            })
+            .execute()
+        })
+      } catch (error) {
+        if (error instanceof MigrationLockError) {
+          throw error
+        }
+        throw new MigrationError(migration.name, error as Error, { step: 'up' })
+      }
+
+      applied.push(migration)
+      this.logger.info(`✅ Migration ${migration.name} applied successfully`)
+    }
+
+    return applied
+  }
+
+  /**
+   * Run one migration step in a transaction. Foreign key enforcement is
+   * switched off for the step so tables can be rebuilt (it cannot change
+   * inside a transaction), and the foreign keys are checked before commit.
    */
-  private async executeMigration(trx: Kysely<any>, migrationName: string): Promise<void> {
-    this.logger.info(`📝 Executing migration: ${migrationName}`)
-
-    // For now, this is a placeholder - in a real implementation,
-    // you would load and execute the actual migration SQL
-    const migrationSQL = `-- Migration: ${migrationName}\n-- This would contain the actual migration SQL`
-    
-    // Record the migration
-    await trx
-      .insertInto('sqlite_migrations')
-      .values({
-        name: migrationName,
-        applied_at: new Date(),
-        checksum: this.calculateChecksum(migrationSQL),
-        optimization_applied: true,
-        performance_impact: 'medium'
+  private async runMigrationTransaction(fn: (trx: Kysely<any>) => Promise<void>): Promise<void> {
+    const { rows } = await sql<{ foreign_keys: number }>`PRAGMA foreign_keys`.execute(this.db)
+    const foreignKeys = rows[0]?.foreign_keys === 1
+
+    if (foreignKeys) {
+      await sql`PRAGMA foreign_keys = OFF`.execute(this.db)
+    }
+
+    try {
+      await this.db.transaction().execute(async trx => {
+        // Writing the lock row first holds SQLite's write lock until commit, so the
+        // migration lock cannot be taken over while the step runs
+        await this.refreshLock(trx, this.lockedAt!)
+        await fn(trx)
+
+        if (foreignKeys) {
+          const violations = await sql<{ table: string; parent: string }>`PRAGMA foreign_key_check`.execute(trx)
+          if (violations.rows.length > 0) {
+            const tables = [...new Set(violations.rows.map(v => `${v.table} -> ${v.parent}`))]
+            throw new Error(`Foreign key violations after migration: ${tables.join(', ')}`)
+          }
+        }
       })
-      .execute()
+    } finally {
+      if (foreignKeys) {
+        await sql`PRAGMA foreign_keys = ON`.execute(this.db)
+      }
+    }
+  }
+
+  /**
+   * Run the `down` step of an applied migration and remove its record
+   */
+  private async rollBack(
+    applied: AppliedMigration,
+    available: SQLiteMigrationFile[]
+  ): Promise<SQLiteMigrationFile> {
+    const migration = available.find(m => m.version === applied.version)
+    if (!migration) {
+      throw new MigrationError(
+        applied.name,
+        new Error(`Migration file for version ${applied.version} was not found in ${this.config.migrationDirectory}`),
+        { step: 'down' }
+      )
+    }
+
+    const { down } = await this.provider.loadMigration(migration)
+    if (!down) {
+      throw new MigrationError(
+        migration.name,
+        new Error(migration.kind === 'sql'
+          ? 'No "-- migrate:down" section to roll back with'
+          : 'Module does not export a down(db) function'),
+        { step: 'down' }
+      )
+    }
 
-    this.logger.info(`✅ Migration ${migrationName} applied successfully`)
+    this.logger.info(`⏪ Rolling back migration: ${migration.name}`)
+    try {
+      await this.runMigrationTransaction(async trx => {
+        await down(trx)
+        await trx
+          .deleteFrom(this.config.migrationTable)
+          .where('version', '=', migration.version)
+          .execute()
+      })
+    } catch (error) {
+      if (error instanceof MigrationLockError) {
+        throw error
+      }
+      throw new MigrationError(migration.name, error as Error, { step: 'down' })
+    }
+
+    return migration
   }
 
   /**
-   * Get pending migrations
+   * Status of the migrations, refusing to continue when applied files were edited
    */
-  private async getPendingMigrations(): Promise<string[]> {
-    // This is a simplified implementation
-    // In a real scenario, you would scan the migration directory
-    // and compare with the database records
-    
-    const appliedMigrations = await this.db
-      .selectFrom('sqlite_migrations')
-      .select('name')
+  private async getVerifiedStatus(): Promise<SQLiteMigrationStatus> {
+    const status = await this.getMigrationStatus()
+    if (status.modifiedMigrations.length > 0) {
+      throw new MigrationChecksumError(status.modifiedMigrations.map(m => m.name))
+    }
+    return status
+  }
+
+  private statusWarnings(status: SQLiteMigrationStatus): string[] {
+    const warnings = status.missingMigrations.map(m =>
+      `Applied migration ${m.name} has no file in ${this.config.migrationDirectory}`
+    )
+
+    const current = status.currentVersion
+    if (current) {
+      for (const pending of status.pendingMigrations) {
+        if (compareVersions(pending.version, current) < 0) {
+          warnings.push(`Migration ${pending.name} is older than the current version ${current} and is applied out of order`)
+        }
+      }
+    }
+
+    return warnings
+  }
+
+  private async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const rows = await this.db
+      .selectFrom(this.config.migrationTable)
+      .selectAll()
       .execute()
 
-    const appliedNames = new Set(appliedMigrations.map(m => m.name))
-    
-    // Placeholder - return some example migrations
-    const allMigrations = [
-      '20240101000000_create_users_table',
-      '20240102000000_add_email_index',
-      '20240103000000_create_posts_table'
-    ]
+    return rows
+      .map(row => ({
+        version: String(row.version),
+        name: row.name,
+        checksum: row.checksum,
+        appliedAt: row.applied_at,
+        executionTime: row.execution_time ?? null
+      }))
+      .sort((a, b) => compareVersions(a.version, b.version))
+  }
 
-    return allMigrations.filter(name => !appliedNames.has(name))
+  private async getCurrentVersion(): Promise<string | null> {
+    const applied = await this.getAppliedMigrations()
+    return applied.length > 0 ? applied[applied.length - 1].version : null
+  }
+
+  /**
+   * Hold the migration lock while running `fn`. The lock row is claimed
+   * with a conditional update so only one process can win it, and a
+   * heartbeat keeps it from going stale during long migrations.
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.initialize()
+
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - this.config.lockTimeout).toISOString()
+
+    const result = await this.db
+      .updateTable(this.config.migrationLockTable)
+      .set({ is_locked: 1, locked_at: now.toISOString() })
+      .where('id', '=', LOCK_ID)
+      .where(eb => eb.or([
+        eb('is_locked', '=', 0),
+        eb('locked_at', '<', staleBefore)
+      ]))
+      .executeTakeFirst()
+
+    if (Number(result.numUpdatedRows) === 0) {
+      const lock = await this.db
+        .selectFrom(this.config.migrationLockTable)
+        .select('locked_at')
+        .where('id', '=', LOCK_ID)
+        .executeTakeFirst()
+      throw new MigrationLockError(lock?.locked_at ?? null)
+    }
+    this.lockedAt = now.toISOString()
+
+    let heartbeat = Promise.resolve()
+    const timer = setInterval(() => {
+      heartbeat = heartbeat
+        .then(() => this.refreshLock(this.db, new Date().toISOString()))
+        .catch(error => this.logger.warn(`Could not refresh the migration lock: ${(error as Error).message}`))
+    }, Math.max(this.config.lockTimeout / 3, 1000))
+    timer.unref?.()
+
+    try {
+      return await fn()
+    } finally {
+      clearInterval(timer)
+      await heartbeat
+
+      // A lock taken over by another process is not ours to release
+      await this.db
+        .updateTable(this.config.migrationLockTable)
+        .set({ is_locked: 0, locked_at: null })
+        .where('id', '=', LOCK_ID)
+        .where('locked_at', '=', this.lockedAt)
+        .execute()
+      this.lockedAt = null
+    }
+  }
+
+  /**
+   * Move the held lock's timestamp to `lockedAt`, failing with a
+   * `MigrationLockError` when another process has taken the lock over
+   */
+  private async refreshLock(db: Kysely<any>, lockedAt: string): Promise<void> {
+    const result = await db
+      .updateTable(this.config.migrationLockTable)
+      .set({ locked_at: lockedAt })
+      .where('id', '=', LOCK_ID)
+      .where('is_locked', '=', 1)
+      .where('locked_at', '=', this.lockedAt)
+      .executeTakeFirst()
+
+    if (Number(result.numUpdatedRows) === 0) {
+      const lock = await db
+        .selectFrom(this.config.migrationLockTable)
+        .select('locked_at')
+        .where('id', '=', LOCK_ID)
+        .executeTakeFirst()
+      throw new MigrationLockError(lock?.locked_at ?? null)
+    }
+    this.lockedAt = lockedAt
   }
 
   /**
@@ -341,26 +780,12 @@ export class SQLiteMigrationManager {
    */
   private calculateImpact(migrationCount: number, optimizationCount: number): 'low' | 'medium' | 'high' {
     const total = migrationCount + optimizationCount
-    
+
     if (total === 0) return 'low'
     if (total <= 3) return 'medium'
     return 'high'
   }
 
-  /**
-   * Calculate checksum for migration content
-   */
-  private calculateChecksum(content: string): string {
-    // Simple checksum implementation
-    let hash = 0
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return hash.toString(16)
-  }
-
   /**
    * Get migration status
    */
@@ -371,20 +796,15 @@ export class SQLiteMigrationManager {
     lastMigration?: string
     lastAppliedAt?: Date
   }> {
-    const migrations = await this.db
-      .selectFrom('sqlite_migrations')
-      .selectAll()
-      .orderBy('applied_at', 'desc')
-      .execute()
-
-    const pending = await this.getPendingMigrations()
+    const status = await this.getMigrationStatus()
+    const last = status.appliedMigrations[status.appliedMigrations.length - 1]
 
     return {
-      totalMigrations: migrations.length + pending.length,
-      appliedMigrations: migrations.length,
-      pendingMigrations: pending.length,
-      lastMigration: migrations[0]?.name,
-      lastAppliedAt: migrations[0]?.applied_at
+      totalMigrations: status.appliedMigrations.length + status.pendingMigrations.length,
+      appliedMigrations: status.appliedMigrations.length,
+      pendingMigrations: status.pendingMigrations.length,
+      lastMigration: last?.name,
+      lastAppliedAt: last ? new Date(last.appliedAt) : undefined
     }
   }
 
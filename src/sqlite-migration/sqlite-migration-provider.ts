@@ -1,8 +1,25 @@
 import type { Kysely } from '../kysely.js'
+import { sql } from '../raw-builder/sql.js'
 import { Logger } from '../logging/logger.js'
+import { MigrationError } from '../errors/NoormError.js'
+import { importFile } from '../util/import-module.js'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { createHash } from 'crypto'
 
 export interface SQLiteMigrationFile {
+  /**
+   * File name without extension, e.g. `20240101000000_create_users`
+   */
   name: string
+  /**
+   * Numeric prefix of the file name, used for ordering
+   */
+  version: string
+  description: string
+  filePath: string
+  kind: 'sql' | 'module'
   content: string
   checksum: string
   timestamp: Date
@@ -14,9 +31,24 @@ export interface SQLiteMigrationProviderConfig {
   encoding: BufferEncoding
 }
 
+/**
+ * Executable form of a migration file
+ */
+export interface LoadedMigration {
+  up(db: Kysely<any>): Promise<void>
+  down?(db: Kysely<any>): Promise<void>
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([A-Za-z0-9_\-]+)\.(sql|ts|js|mjs|cjs)$/
+const SECTION_MARKER = /^[ \t]*--[ \t]*migrate:(up|down)[ \t]*$/gim
+
 /**
  * SQLite Migration Provider - Handles migration file discovery and loading
- * Focused on SQLite-specific migration patterns and optimizations
+ *
+ * Migration files live in the migration directory and are named
+ * `<version>_<description>.<ext>`. SQL files hold `-- migrate:up` and
+ * `-- migrate:down` sections (a file without markers is all `up`),
+ * TypeScript/JavaScript files export `up(db)` and optionally `down(db)`.
  */
 export class SQLiteMigrationProvider {
   private static instance: SQLiteMigrationProvider | null = null
@@ -24,9 +56,9 @@ export class SQLiteMigrationProvider {
   private logger: Logger
   private migrationCache: Map<string, SQLiteMigrationFile> = new Map()
 
-  private constructor(
+  constructor(
     config: Partial<SQLiteMigrationProviderConfig> = {},
-    logger: Logger
+    logger: Logger = new Logger({ level: 'info', enabled: true })
   ) {
     this.logger = logger
     this.config = {
@@ -42,69 +74,164 @@ export class SQLiteMigrationProvider {
     logger?: Logger
   ): SQLiteMigrationProvider {
     if (!SQLiteMigrationProvider.instance) {
-      if (!logger) {
-        logger = new Logger({ level: 'info', enabled: true })
-      }
       SQLiteMigrationProvider.instance = new SQLiteMigrationProvider(config, logger)
     }
     return SQLiteMigrationProvider.instance
   }
 
+  get migrationDirectory(): string {
+    return this.config.migrationDirectory
+  }
+
   /**
-   * Discover all migration files
+   * Discover all migration files, ordered by version
    */
   async discoverMigrations(): Promise<SQLiteMigrationFile[]> {
-    this.logger.info(`🔍 Discovering migrations in ${this.config.migrationDirectory}...`)
+    const directory = path.resolve(this.config.migrationDirectory)
+    this.logger.debug(`🔍 Discovering migrations in ${directory}...`)
 
+    let entries: string[]
     try {
-      // In a real implementation, this would scan the filesystem
-      // For now, return some example migrations
-      const migrations: SQLiteMigrationFile[] = [
-        {
-          name: '20240101000000_create_users_table',
-          content: this.generateUsersTableMigration(),
-          checksum: this.calculateChecksum(this.generateUsersTableMigration()),
-          timestamp: new Date('2024-01-01T00:00:00Z')
-        },
-        {
-          name: '20240102000000_add_email_index',
-          content: this.generateEmailIndexMigration(),
-          checksum: this.calculateChecksum(this.generateEmailIndexMigration()),
-          timestamp: new Date('2024-01-02T00:00:00Z')
-        },
-        {
-          name: '20240103000000_create_posts_table',
-          content: this.generatePostsTableMigration(),
-          checksum: this.calculateChecksum(this.generatePostsTableMigration()),
-          timestamp: new Date('2024-01-03T00:00:00Z')
-        }
-      ]
+      entries = await fs.readdir(directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const migrations: SQLiteMigrationFile[] = []
+    const versions = new Map<string, string>()
+
+    for (const entry of entries.sort()) {
+      if (entry.endsWith('.d.ts') || !this.config.fileExtensions.includes(path.extname(entry))) {
+        continue
+      }
 
-      // Cache the migrations
-      migrations.forEach(migration => {
-        this.migrationCache.set(migration.name, migration)
+      const match = MIGRATION_FILE_PATTERN.exec(entry)
+      if (!match) {
+        this.logger.warn(`Skipping '${entry}': migration files must be named <version>_<description>${path.extname(entry)}`)
+        continue
+      }
+
+      const [, version, description, extension] = match
+      const name = `${version}_${description}`
+
+      const existing = versions.get(version)
+      if (existing) {
+        throw new MigrationError(
+          name,
+          new Error(`Version ${version} is also used by '${existing}'`),
+          { step: 'discovery' }
+        )
+      }
+      versions.set(version, entry)
+
+      const filePath = path.join(directory, entry)
+      const content = await fs.readFile(filePath, this.config.encoding)
+
+      migrations.push({
+        name,
+        version,
+        description,
+        filePath,
+        kind: extension === 'sql' ? 'sql' : 'module',
+        content,
+        checksum: this.calculateChecksum(content),
+        timestamp: parseVersionTimestamp(version) ?? (await fs.stat(filePath)).mtime
       })
+    }
+
+    migrations.sort((a, b) => compareVersions(a.version, b.version))
 
-      this.logger.info(`✅ Discovered ${migrations.length} migration files`)
-      return migrations.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    this.migrationCache.clear()
+    migrations.forEach(migration => {
+      this.migrationCache.set(migration.version, migration)
+    })
+
+    this.logger.debug(`✅ Discovered ${migrations.length} migration files`)
+    return migrations
+  }
+
+  /**
+   * Get a specific migration by version or name
+   */
+  async getMigration(versionOrName: string): Promise<SQLiteMigrationFile | null> {
+    const find = () =>
+      this.migrationCache.get(versionOrName) ??
+      [...this.migrationCache.values()].find(m => m.name === versionOrName)
+
+    if (!find()) {
+      await this.discoverMigrations()
+    }
+    return find() ?? null
+  }
+
+  /**
+   * Turn a discovered migration file into its up/down functions
+   */
+  async loadMigration(migration: SQLiteMigrationFile): Promise<LoadedMigration> {
+    if (migration.kind === 'sql') {
+      const { up, down } = splitSections(migration.content)
+      return {
+        up: db => executeScript(db, up),
+        down: down === undefined ? undefined : db => executeScript(db, down)
+      }
+    }
+
+    let module: any
+    try {
+      module = await importFile(pathToFileURL(migration.filePath).href)
     } catch (error) {
-      this.logger.error('❌ Failed to discover migrations:', error)
-      throw error
+      throw new MigrationError(migration.name, error as Error, { step: 'load' })
+    }
+
+    const up = module.up ?? module.default?.up
+    const down = module.down ?? module.default?.down
+    if (typeof up !== 'function') {
+      throw new MigrationError(
+        migration.name,
+        new Error(`${path.basename(migration.filePath)} must export an up(db) function`),
+        { step: 'load' }
+      )
     }
+
+    return { up, down: typeof down === 'function' ? down : undefined }
   }
 
   /**
-   * Get a specific migration by name
+   * Write a new, empty SQL migration file and return it
    */
-  async getMigration(name: string): Promise<SQLiteMigrationFile | null> {
-    // Check cache first
-    if (this.migrationCache.has(name)) {
-      return this.migrationCache.get(name)!
+  async createMigrationFile(description: string, upSql = '', downSql = ''): Promise<SQLiteMigrationFile> {
+    const slug = description.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase()
+    if (!slug) {
+      throw new MigrationError(description, new Error('Migration name must contain letters or digits'), { step: 'generate' })
+    }
+
+    // Versions must stay unique and increasing, even for files created within the same second
+    const latest = (await this.discoverMigrations()).pop()?.version
+    let version = new Date().toISOString().replace(/\D/g, '').substring(0, 14)
+    if (latest && compareVersions(version, latest) <= 0) {
+      version = (BigInt(latest) + 1n).toString()
     }
+    const name = `${version}_${slug}`
+    const directory = path.resolve(this.config.migrationDirectory)
+    const filePath = path.join(directory, `${name}.sql`)
+    const content = `-- migrate:up\n${upSql}\n\n-- migrate:down\n${downSql}\n`
 
-    // In a real implementation, this would load from filesystem
-    const migrations = await this.discoverMigrations()
-    return migrations.find(m => m.name === name) || null
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(filePath, content, { encoding: this.config.encoding, flag: 'wx' })
+
+    return {
+      name,
+      version,
+      description: slug,
+      filePath,
+      kind: 'sql',
+      content,
+      checksum: this.calculateChecksum(content),
+      timestamp: parseVersionTimestamp(version)!
+    }
   }
 
   /**
@@ -185,26 +312,26 @@ export class SQLiteMigrationProvider {
     // Add columns with SQLite-specific types
     const columnDefs = columns.map((col: any) => {
       let def = `  ${col.name} ${this.mapToSQLiteType(col.type)}`
-      
+
       if (col.primaryKey) {
         def += ' PRIMARY KEY'
         if (col.autoIncrement) {
           def += ' AUTOINCREMENT'
         }
       }
-      
+
       if (col.notNull && !col.primaryKey) {
         def += ' NOT NULL'
       }
-      
+
       if (col.defaultValue !== undefined) {
         def += ` DEFAULT ${this.formatDefaultValue(col.defaultValue)}`
       }
-      
+
       if (col.unique) {
         def += ' UNIQUE'
       }
-      
+
       return def
     }).join(',\n')
 
@@ -239,27 +366,27 @@ export class SQLiteMigrationProvider {
    */
   private generateAddColumnMigration(tableName: string, options: any): string {
     const { column } = options
-    
+
     let sql = `-- Add column ${column.name} to ${tableName}\n`
     sql += `ALTER TABLE ${tableName} ADD COLUMN ${column.name} ${this.mapToSQLiteType(column.type)}`
-    
+
     if (column.notNull) {
       sql += ' NOT NULL'
     }
-    
+
     if (column.defaultValue !== undefined) {
       sql += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`
     }
-    
+
     sql += ';\n\n'
-    
+
     // Add index if specified
     if (column.index) {
       sql += `-- Create index for new column\n`
       sql += `CREATE INDEX IF NOT EXISTS idx_${tableName}_${column.name} \n`
       sql += `ON ${tableName} (${column.name});\n\n`
     }
-    
+
     return sql
   }
 
@@ -268,11 +395,11 @@ export class SQLiteMigrationProvider {
    */
   private generateAddIndexMigration(tableName: string, options: any): string {
     const { index } = options
-    
+
     let sql = `-- Add index to ${tableName}\n`
     sql += `CREATE INDEX IF NOT EXISTS idx_${tableName}_${index.columns.join('_')} \n`
     sql += `ON ${tableName} (${index.columns.join(', ')});\n\n`
-    
+
     return sql
   }
 
@@ -281,20 +408,20 @@ export class SQLiteMigrationProvider {
    */
   private generateModifyColumnMigration(tableName: string, options: any): string {
     const { column, newType } = options
-    
+
     // SQLite doesn't support ALTER COLUMN, so we need to recreate the table
     let sql = `-- Modify column ${column.name} in ${tableName}\n`
     sql += `-- Note: SQLite doesn't support ALTER COLUMN, recreating table\n\n`
-    
+
     sql += `-- Create new table with modified column\n`
     sql += `CREATE TABLE ${tableName}_new AS SELECT * FROM ${tableName};\n\n`
-    
+
     sql += `-- Drop original table\n`
     sql += `DROP TABLE ${tableName};\n\n`
-    
+
     sql += `-- Rename new table\n`
     sql += `ALTER TABLE ${tableName}_new RENAME TO ${tableName};\n\n`
-    
+
     return sql
   }
 
@@ -351,66 +478,134 @@ export class SQLiteMigrationProvider {
   }
 
   /**
-   * Calculate checksum for content
+   * Calculate checksum for content. Line endings are normalized so a
+   * checkout with CRLF line endings does not count as a changed file.
    */
-  private calculateChecksum(content: string): string {
-    let hash = 0
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return hash.toString(16)
+  calculateChecksum(content: string): string {
+    return createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex')
   }
+}
 
-  /**
-   * Generate example migrations for demonstration
-   */
-  private generateUsersTableMigration(): string {
-    return `-- Create users table with SQLite optimizations
-CREATE TABLE IF NOT EXISTS users (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  email TEXT NOT NULL UNIQUE,
-  name TEXT NOT NULL,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-);
-
--- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_users_email ON users (email);
-CREATE INDEX IF NOT EXISTS idx_users_created_at ON users (created_at);
-
--- SQLite optimizations
-PRAGMA foreign_keys = ON;
-`
+/**
+ * Order migration versions numerically, so `2_x` runs before `10_x`
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = BigInt(a)
+  const right = BigInt(b)
+  return left === right ? 0 : left < right ? -1 : 1
+}
+
+/**
+ * Split a SQL migration into its up and down sections
+ */
+function splitSections(content: string): { up: string; down?: string } {
+  const markers = [...content.matchAll(SECTION_MARKER)]
+  if (markers.length === 0) {
+    return { up: content }
   }
 
-  private generateEmailIndexMigration(): string {
-    return `-- Add email index for users table
-CREATE INDEX IF NOT EXISTS idx_users_email ON users (email);
-`
+  const sections: { up: string; down?: string } = { up: '' }
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length
+    const end = markers[i + 1]?.index ?? content.length
+    const section = marker[1].toLowerCase() as 'up' | 'down'
+    sections[section] = (sections[section] ?? '') + content.substring(start, end)
+  })
+  return sections
+}
+
+async function executeScript(db: Kysely<any>, script: string): Promise<void> {
+  for (const statement of splitStatements(script)) {
+    await sql.raw(statement).execute(db)
   }
+}
 
-  private generatePostsTableMigration(): string {
-    return `-- Create posts table with SQLite optimizations
-CREATE TABLE IF NOT EXISTS posts (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  title TEXT NOT NULL,
-  content TEXT,
-  published BOOLEAN DEFAULT 0,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id)
-);
-
--- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_posts_user_id ON posts (user_id);
-CREATE INDEX IF NOT EXISTS idx_posts_published ON posts (published);
-CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts (created_at);
-
--- SQLite optimizations
-PRAGMA foreign_keys = ON;
-`
+/**
+ * Split a SQL script into statements on top-level semicolons, skipping
+ * semicolons inside quotes, comments and trigger bodies (BEGIN ... END)
+ */
+export function splitStatements(script: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let depth = 0
+  let i = 0
+
+  const isTrigger = () => /^\s*CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(stripComments(current))
+
+  while (i < script.length) {
+    const char = script[i]
+    const next = script[i + 1]
+
+    if (char === '-' && next === '-') {
+      const end = script.indexOf('\n', i)
+      const stop = end === -1 ? script.length : end
+      current += script.substring(i, stop)
+      i = stop
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      const end = script.indexOf('*/', i + 2)
+      const stop = end === -1 ? script.length : end + 2
+      current += script.substring(i, stop)
+      i = stop
+      continue
+    }
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char
+      let j = i + 1
+      while (j < script.length) {
+        if (script[j] === close) {
+          // Doubled quotes escape themselves
+          if (close !== ']' && script[j + 1] === close) {
+            j += 2
+            continue
+          }
+          break
+        }
+        j++
+      }
+      current += script.substring(i, j + 1)
+      i = j + 1
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      let j = i
+      while (j < script.length && /[A-Za-z0-9_$]/.test(script[j])) j++
+      const word = script.substring(i, j).toUpperCase()
+      if ((word === 'BEGIN' || word === 'CASE') && isTrigger()) depth++
+      if (word === 'END' && depth > 0) depth--
+      current += script.substring(i, j)
+      i = j
+      continue
+    }
+
+    if (char === ';' && depth === 0) {
+      if (stripComments(current).trim()) statements.push(current.trim())
+      current = ''
+      i++
+      continue
+    }
+
+    current += char
+    i++
   }
+
+  if (stripComments(current).trim()) statements.push(current.trim())
+  return statements
+}
+
+function stripComments(text: string): string {
+  return text.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '')
+}
+
+function parseVersionTimestamp(version: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(version)
+  if (!match) return undefined
+
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+  return isNaN(date.getTime()) ? undefined : date
 }
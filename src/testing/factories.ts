@@ -0,0 +1,260 @@
+import type { NOORMME } from '../noormme.js'
+import type { ColumnInfo, ForeignKeyInfo, TableInfo } from '../types/index.js'
+import { NoormError, TableNotFoundError } from '../errors/NoormError.js'
+import { CheckConstraintParser } from '../schema/core/utils/check-constraint-parser.js'
+
+/**
+ * A column value, or a function of the factory's sequence number
+ * (1 for the first row it builds) that returns one
+ */
+export type FactoryAttribute = unknown | ((sequence: number) => unknown)
+
+export type FactoryAttributes = Record<string, FactoryAttribute>
+
+export interface FactoryDefinition {
+  /** Values every row starts with */
+  attributes?: FactoryAttributes
+  /** Named sets of values applied on top of the attributes, in the order they're asked for */
+  traits?: Record<string, FactoryAttributes>
+}
+
+/**
+ * Builds and inserts rows of one table. Required columns that neither the
+ * definition nor the overrides set get synthesized values that satisfy
+ * NOT NULL, UNIQUE (values derive from the sequence) and `CHECK (column IN (...))`
+ * constraints, and required foreign keys get a parent row from the parent
+ * table's factory.
+ */
+export class TableFactory<T = Record<string, any>> {
+  private sequence = 0
+
+  constructor(public readonly table: string, private definition: FactoryDefinition = {}) {}
+
+  /**
+   * Values for a row without inserting anything. Required foreign keys stay
+   * unset unless given.
+   */
+  async build(db: NOORMME<any>, overrides: FactoryAttributes = {}, ...traits: string[]): Promise<Record<string, unknown>> {
+    const table = await getTable(db, this.table)
+    return this.buildRow(table, overrides, traits)
+  }
+
+  /**
+   * Insert a row, creating the parent rows its required foreign keys need
+   */
+  async create(db: NOORMME<any>, overrides: FactoryAttributes = {}, ...traits: string[]): Promise<T> {
+    return this.createRow(db, overrides, traits, [])
+  }
+
+  /**
+   * Insert `count` rows, each with its own sequence number and parents
+   */
+  async createMany(db: NOORMME<any>, count: number, overrides: FactoryAttributes = {}, ...traits: string[]): Promise<T[]> {
+    const table = await getTable(db, this.table)
+    const rows: Record<string, unknown>[] = []
+    for (let i = 0; i < count; i++) {
+      const row = await this.buildRow(table, overrides, traits)
+      await this.createParents(db, table, row, [this.table])
+      rows.push(row)
+    }
+    return db.getRepository(this.table).createMany(rows) as Promise<T[]>
+  }
+
+  /**
+   * Start the sequence over at 1
+   */
+  resetSequence(): void {
+    this.sequence = 0
+  }
+
+  /** @internal */
+  async createRow(db: NOORMME<any>, overrides: FactoryAttributes, traits: string[], path: string[]): Promise<T> {
+    if (path.includes(this.table)) {
+      throw new NoormError(`Cannot create '${this.table}' rows: required foreign keys form a cycle (${[...path, this.table].join(' -> ')})`, {
+        table: this.table,
+        operation: 'factory',
+        suggestion: 'Pass one of the foreign keys in the overrides or make it nullable'
+      })
+    }
+
+    const table = await getTable(db, this.table)
+    const row = await this.buildRow(table, overrides, traits)
+    await this.createParents(db, table, row, [...path, this.table])
+    return db.getRepository(this.table).create(row) as Promise<T>
+  }
+
+  private async buildRow(table: TableInfo, overrides: FactoryAttributes, traits: string[]): Promise<Record<string, unknown>> {
+    const sequence = ++this.sequence
+    const attributes: FactoryAttributes = { ...this.definition.attributes }
+
+    for (const name of traits) {
+      const trait = this.definition.traits?.[name]
+      if (!trait) {
+        throw new NoormError(`Unknown trait '${name}' for factory '${this.table}'`, {
+          table: this.table,
+          operation: 'factory',
+          availableOptions: Object.keys(this.definition.traits ?? {})
+        })
+      }
+      Object.assign(attributes, trait)
+    }
+    Object.assign(attributes, overrides)
+
+    const row: Record<string, unknown> = {}
+    for (const [name, value] of Object.entries(attributes)) {
+      row[name] = typeof value === 'function' ? await value(sequence) : value
+    }
+
+    for (const column of table.columns) {
+      if (column.name in row || !isRequired(column) || getForeignKey(table, column)) {
+        continue
+      }
+      row[column.name] = synthesizeValue(table, column, sequence)
+    }
+
+    return row
+  }
+
+  private async createParents(db: NOORMME<any>, table: TableInfo, row: Record<string, unknown>, path: string[]): Promise<void> {
+    for (const column of table.columns) {
+      const foreignKey = getForeignKey(table, column)
+      if (!foreignKey || column.name in row || !isRequired(column)) {
+        continue
+      }
+
+      const parent = await getFactory(foreignKey.referencedTable).createRow(db, {}, [], path) as Record<string, unknown>
+      row[column.name] = parent[foreignKey.referencedColumn]
+    }
+  }
+}
+
+const factories = new Map<string, TableFactory<any>>()
+
+/**
+ * Define the factory of a table. Parent rows other factories create for
+ * this table use it too.
+ *
+ * ```ts
+ * const orders = defineFactory('orders', {
+ *   attributes: { status: 'pending', total: (n) => n * 10 },
+ *   traits: { shipped: { status: 'shipped', shipped_at: () => new Date().toISOString() } }
+ * })
+ *
+ * const order = await orders.create(db, { total: 5 }, 'shipped')
+ * ```
+ */
+export function defineFactory<T = Record<string, any>>(table: string, definition: FactoryDefinition = {}): TableFactory<T> {
+  const factory = new TableFactory<T>(table, definition)
+  factories.set(table, factory)
+  return factory
+}
+
+/**
+ * The defined factory of a table, or one that only synthesizes values
+ */
+export function getFactory<T = Record<string, any>>(table: string): TableFactory<T> {
+  let factory = factories.get(table)
+  if (!factory) {
+    factory = new TableFactory(table)
+    factories.set(table, factory)
+  }
+  return factory
+}
+
+/**
+ * Forget every defined factory and its sequence
+ */
+export function resetFactories(): void {
+  factories.clear()
+}
+
+async function getTable(db: NOORMME<any>, name: string): Promise<TableInfo> {
+  const schema = await db.getSchemaInfo()
+  const table = schema.tables.find(t => t.name === name)
+  if (!table) {
+    throw new TableNotFoundError(name, schema.tables.map(t => t.name))
+  }
+  return table
+}
+
+function getForeignKey(table: TableInfo, column: ColumnInfo): ForeignKeyInfo | undefined {
+  return table.foreignKeys.find(fk => fk.column === column.name)
+}
+
+/**
+ * Whether an insert must set the column: NOT NULL without a default, or a
+ * primary key the database doesn't generate
+ */
+function isRequired(column: ColumnInfo): boolean {
+  if (column.isAutoIncrement) {
+    return false
+  }
+  if (column.isPrimaryKey) {
+    return true
+  }
+  return !column.nullable && (column.defaultValue === undefined || column.defaultValue === null)
+}
+
+/**
+ * A value of the column's type, unique per sequence number where the type
+ * allows it
+ */
+function synthesizeValue(table: TableInfo, column: ColumnInfo, sequence: number): unknown {
+  const allowed = CheckConstraintParser.getAllowedValues(table, column.name)
+  if (allowed) {
+    return allowed[(sequence - 1) % allowed.length]
+  }
+
+  const type = column.type.toLowerCase().split('(')[0].trim()
+  switch (type) {
+    case 'number':
+    case 'integer':
+    case 'int':
+    case 'int2':
+    case 'int4':
+    case 'int8':
+    case 'smallint':
+    case 'tinyint':
+    case 'mediumint':
+    case 'bigint':
+    case 'decimal':
+    case 'numeric':
+    case 'real':
+    case 'float':
+    case 'double':
+    case 'double precision':
+      return sequence
+    case 'boolean':
+    case 'bool':
+    case 'bit':
+      return false
+    case 'uuid':
+      return crypto.randomUUID()
+    case 'date':
+      // TypeScript's Date stands for any date or time type after SQLite discovery
+      return column.type === 'Date' ? new Date().toISOString() : new Date().toISOString().slice(0, 10)
+    case 'timestamp':
+    case 'timestamptz':
+    case 'datetime':
+    case 'datetime2':
+    case 'smalldatetime':
+      return new Date().toISOString()
+    case 'time':
+    case 'timetz':
+      return new Date().toISOString().slice(11, 19)
+    case 'json':
+    case 'jsonb':
+      return {}
+    case 'buffer':
+    case 'blob':
+    case 'bytea':
+      return Buffer.from(`${column.name}-${sequence}`)
+    default: {
+      const text = /email/i.test(column.name)
+        ? `${table.name}-${sequence}@example.com`
+        : `${column.name}-${sequence}`
+      // Keep the sequence number, which makes the value unique
+      return column.maxLength && text.length > column.maxLength ? text.slice(-column.maxLength) : text
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import type { NOORMME } from '../noormme.js'
+import type { SchemaInfo, TableInfo } from '../types/index.js'
+import { NoormError, TableNotFoundError } from '../errors/NoormError.js'
+import { importModule } from '../util/import-module.js'
+
+/**
+ * Rows per table, either as a list or keyed by labels other rows can refer
+ * to. A string value `@table.label` is replaced by the labelled row's value
+ * of the column the foreign key references (or its primary key).
+ *
+ * ```yaml
+ * users:
+ *   ann: { name: Ann, email: ann@example.com }
+ * posts:
+ *   - { title: Hello, user_id: '@users.ann' }
+ * ```
+ */
+export type Fixtures = Record<string, Record<string, unknown>[] | Record<string, Record<string, unknown>>>
+
+/**
+ * Created rows per table, keyed by label (or position for listed rows)
+ */
+export type LoadedFixtures = Record<string, Record<string, Record<string, any>>>
+
+const REFERENCE = /^@(\w+)\.(\w+)$/
+
+/**
+ * Insert fixtures parent tables first, following the foreign keys between
+ * the tables they fill. `source` is the fixtures or a `.json`, `.yaml` or
+ * `.yml` file of them; YAML needs the `yaml` package.
+ */
+export async function loadFixtures(db: NOORMME<any>, source: Fixtures | string): Promise<LoadedFixtures> {
+  const fixtures = typeof source === 'string' ? await readFixtureFile(source) : source
+  const schema = await db.getSchemaInfo()
+  const loaded: LoadedFixtures = {}
+
+  for (const table of orderByDependencies(schema, Object.keys(fixtures))) {
+    const rows = fixtures[table.name]
+    const entries = Array.isArray(rows) ? rows.map((row, i) => [String(i), row] as const) : Object.entries(rows)
+    const repository = db.getRepository(table.name)
+    loaded[table.name] = {}
+
+    for (const [label, row] of entries) {
+      const values = Object.fromEntries(
+        Object.entries(row).map(([column, value]) => [column, resolveReference(schema, table, column, value, loaded)])
+      )
+      loaded[table.name][label] = await repository.create(values)
+    }
+  }
+
+  return loaded
+}
+
+async function readFixtureFile(file: string): Promise<Fixtures> {
+  const text = await fs.readFile(file, 'utf8')
+  const extension = path.extname(file).toLowerCase()
+
+  if (extension === '.json') {
+    return JSON.parse(text)
+  }
+
+  if (extension === '.yaml' || extension === '.yml') {
+    let yaml: { parse(text: string): unknown }
+    try {
+      yaml = await importModule('yaml')
+    } catch (error) {
+      throw new NoormError(`Loading ${file} needs the yaml package`, {
+        operation: 'load_fixtures',
+        suggestion: 'Install it with `npm install --save-dev yaml`, or use a .json file',
+        originalError: error instanceof Error ? error : undefined
+      })
+    }
+    return yaml.parse(text) as Fixtures
+  }
+
+  throw new NoormError(`Unsupported fixture file '${file}'`, {
+    operation: 'load_fixtures',
+    availableOptions: ['.json', '.yaml', '.yml']
+  })
+}
+
+/**
+ * Order tables so every table comes after the tables its foreign keys
+ * reference, among the given ones
+ */
+function orderByDependencies(schema: SchemaInfo, names: string[]): TableInfo[] {
+  const tables = names.map(name => {
+    const table = schema.tables.find(t => t.name === name)
+    if (!table) {
+      throw new TableNotFoundError(name, schema.tables.map(t => t.name))
+    }
+    return table
+  })
+
+  const ordered: TableInfo[] = []
+  const visiting = new Set<string>()
+
+  const visit = (table: TableInfo) => {
+    if (ordered.includes(table)) {
+      return
+    }
+    if (visiting.has(table.name)) {
+      throw new NoormError(`Cannot order fixtures: foreign keys form a cycle through '${table.name}'`, {
+        table: table.name,
+        operation: 'load_fixtures',
+        suggestion: 'Load the tables of the cycle in separate loadFixtures() calls'
+      })
+    }
+
+    visiting.add(table.name)
+    for (const fk of table.foreignKeys) {
+      const parent = tables.find(t => t.name === fk.referencedTable)
+      // Rows of a self-referencing table load in the order they're listed
+      if (parent && parent !== table) {
+        visit(parent)
+      }
+    }
+    visiting.delete(table.name)
+    ordered.push(table)
+  }
+
+  tables.forEach(visit)
+  return ordered
+}
+
+function resolveReference(schema: SchemaInfo, table: TableInfo, column: string, value: unknown, loaded: LoadedFixtures): unknown {
+  const match = typeof value === 'string' ? REFERENCE.exec(value) : null
+  if (!match) {
+    return value
+  }
+
+  const [, target, label] = match
+  const row = loaded[target]?.[label]
+  if (!row) {
+    throw new NoormError(`Fixture reference '${value}' in '${table.name}.${column}' matches no loaded row`, {
+      table: table.name,
+      operation: 'load_fixtures',
+      availableOptions: Object.keys(loaded[target] ?? {}).map(name => `@${target}.${name}`)
+    })
+  }
+
+  const foreignKey = table.foreignKeys.find(fk => fk.column === column && fk.referencedTable === target)
+  const key = foreignKey?.referencedColumn ?? schema.tables.find(t => t.name === target)?.primaryKey?.[0] ?? 'id'
+  return row[key]
+}
@@ -0,0 +1,4 @@
+export * from './test-utils.js'
+export * from './factories.js'
+export * from './fixtures.js'
+export * from './test-harness.js'
@@ -0,0 +1,233 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { DatabaseConnection } from '../driver/database-connection.js'
+import type { Driver, TransactionSettings } from '../driver/driver.js'
+import type { Dialect } from '../dialect/dialect.js'
+import type { QueryCompiler } from '../query-compiler/query-compiler.js'
+import { CompiledQuery } from '../query-compiler/compiled-query.js'
+import { NoormError } from '../errors/NoormError.js'
+
+/**
+ * Driver that can run everything in one outer transaction that is rolled
+ * back at the end, so a test's writes never reach the database.
+ *
+ * While isolated, every query shares a single connection (one at a time),
+ * transactions become savepoints inside the outer transaction and named
+ * savepoints serve as snapshots to go back to.
+ *
+ * Since there's only one connection, a query that bypasses an open
+ * transaction from inside its callback (on `db` instead of `tx`) can't run
+ * until the transaction ends, which it never does. Such queries throw.
+ */
+export class IsolatedDriver implements Driver {
+  #pinned?: DatabaseConnection
+  #queue: Promise<void> = Promise.resolve()
+  #unlock?: () => void
+  #transactions: Array<{ name: string; open: boolean }> = []
+  #savepoints = 0
+  #context = new AsyncLocalStorage<{ open: boolean }>()
+
+  constructor(private driver: Driver) {}
+
+  get isolated(): boolean {
+    return this.#pinned !== undefined
+  }
+
+  /**
+   * Begin the outer transaction. Connections handed out before stay
+   * outside of it.
+   */
+  async isolate(): Promise<void> {
+    if (this.#pinned) {
+      return
+    }
+
+    const connection = await this.driver.acquireConnection()
+    try {
+      await this.driver.beginTransaction(connection, {})
+    } catch (error) {
+      await this.driver.releaseConnection(connection)
+      throw error
+    }
+    this.#pinned = connection
+    this.#transactions = []
+  }
+
+  /**
+   * Roll the outer transaction back and return to normal operation
+   */
+  async rollback(): Promise<void> {
+    const connection = this.#pinned
+    if (!connection) {
+      return
+    }
+
+    // Wait for queries still running on the connection
+    await this.#lock()
+    this.#pinned = undefined
+    try {
+      await this.driver.rollbackTransaction(connection)
+    } finally {
+      this.#release()
+      await this.driver.releaseConnection(connection)
+    }
+  }
+
+  /**
+   * Run statements on the isolated connection, e.g. to set or roll back to
+   * a snapshot savepoint
+   */
+  async execute(...statements: string[]): Promise<void> {
+    if (!this.#pinned) {
+      throw new NoormError('The database is not isolated in a transaction', { operation: 'snapshot' })
+    }
+
+    await this.#lock()
+    try {
+      for (const statement of statements) {
+        await this.#pinned.executeQuery(CompiledQuery.raw(statement))
+      }
+    } finally {
+      this.#release()
+    }
+  }
+
+  init(): Promise<void> {
+    return this.driver.init()
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    if (!this.#pinned) {
+      return this.driver.acquireConnection()
+    }
+
+    if (this.#context.getStore()?.open) {
+      throw new NoormError('A query inside a transaction callback ran outside of the transaction', {
+        operation: 'transaction',
+        suggestion: 'Use the transaction passed to the callback (tx) instead of the database instance: ' +
+          'while a test is isolated there is one connection, and the transaction holds it'
+      })
+    }
+
+    await this.#lock()
+    // The outer transaction may have ended while waiting
+    if (!this.#pinned) {
+      this.#release()
+      return this.driver.acquireConnection()
+    }
+    return this.#pinned
+  }
+
+  async releaseConnection(connection: DatabaseConnection): Promise<void> {
+    if (connection === this.#pinned) {
+      this.#release()
+      return
+    }
+    await this.driver.releaseConnection(connection)
+  }
+
+  // Not async: the transaction callback runs in the async context entered here
+  beginTransaction(connection: DatabaseConnection, settings: TransactionSettings): Promise<void> {
+    if (connection !== this.#pinned) {
+      return this.driver.beginTransaction(connection, settings)
+    }
+
+    // Isolation level and access mode can't change inside the outer transaction
+    const transaction = { name: `noormme_isolated_${++this.#savepoints}`, open: true }
+    this.#transactions.push(transaction)
+    this.#context.enterWith(transaction)
+    return connection.executeQuery(CompiledQuery.raw(`savepoint ${transaction.name}`)).then(
+      () => undefined,
+      error => {
+        transaction.open = false
+        this.#transactions.pop()
+        throw error
+      }
+    )
+  }
+
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    if (connection !== this.#pinned) {
+      return this.driver.commitTransaction(connection)
+    }
+
+    const transaction = this.#transactions.pop()!
+    transaction.open = false
+    await connection.executeQuery(CompiledQuery.raw(`release savepoint ${transaction.name}`))
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    if (connection !== this.#pinned) {
+      return this.driver.rollbackTransaction(connection)
+    }
+
+    const transaction = this.#transactions.pop()!
+    transaction.open = false
+    await connection.executeQuery(CompiledQuery.raw(`rollback to savepoint ${transaction.name}`))
+    await connection.executeQuery(CompiledQuery.raw(`release savepoint ${transaction.name}`))
+  }
+
+  async savepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    await this.driver.savepoint?.(connection, savepointName, compileQuery)
+  }
+
+  async rollbackToSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    await this.driver.rollbackToSavepoint?.(connection, savepointName, compileQuery)
+  }
+
+  async releaseSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    await this.driver.releaseSavepoint?.(connection, savepointName, compileQuery)
+  }
+
+  async destroy(): Promise<void> {
+    await this.rollback()
+    await this.driver.destroy()
+  }
+
+  async #lock(): Promise<void> {
+    const previous = this.#queue
+    let unlock!: () => void
+    this.#queue = new Promise(resolve => { unlock = resolve })
+    await previous
+    this.#unlock = unlock
+  }
+
+  #release(): void {
+    const unlock = this.#unlock
+    this.#unlock = undefined
+    unlock?.()
+  }
+}
+
+/**
+ * Wrap a dialect so its driver is an `IsolatedDriver`. The wrapper passes
+ * `instanceof` checks for the wrapped dialect.
+ */
+export function isolateDialect(dialect: Dialect): { dialect: Dialect; getDriver(): IsolatedDriver | undefined } {
+  let driver: IsolatedDriver | undefined
+
+  const isolated = new Proxy(dialect, {
+    get(target, prop) {
+      if (prop === 'createDriver') {
+        return () => (driver = new IsolatedDriver(target.createDriver()))
+      }
+
+      // Dialects keep their config in private fields, so methods must run on the target
+      const value = Reflect.get(target, prop, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    }
+  })
+
+  return { dialect: isolated, getDriver: () => driver }
+}
@@ -0,0 +1,350 @@
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NOORMME } from '../noormme.js'
+import type { Dialect } from '../dialect/dialect.js'
+import type { NOORMConfig } from '../types/index.js'
+import { NoormError } from '../errors/NoormError.js'
+import { Logger } from '../logging/logger.js'
+import { sql } from '../raw-builder/sql.js'
+import { SQLiteMigrationManager } from '../sqlite-migration/sqlite-migration-manager.js'
+import { importModule } from '../util/import-module.js'
+import { IsolatedDriver, isolateDialect } from './isolated-driver.js'
+
+/**
+ * How tests are kept apart:
+ *
+ * - `transaction`: every test runs in a transaction on the template
+ *   database that is rolled back afterwards
+ * - `copy`: every test gets its own copy of the template, made with the
+ *   SQLite backup API or PostgreSQL's `CREATE DATABASE ... TEMPLATE`
+ */
+export type TestIsolation = 'transaction' | 'copy'
+
+export interface TestHarnessOptions {
+  /** Template database (default: a SQLite file in a temporary directory) */
+  config?: NOORMConfig
+  /** SQLite migration files applied to the template, before `setup` */
+  migrationDirectory?: string
+  /** Prepares the template once, e.g. creates tables or seeds reference data */
+  setup?: (db: NOORMME) => Promise<void>
+  /** Default: 'transaction' */
+  isolation?: TestIsolation
+}
+
+/**
+ * `beforeAll` and friends of Jest, or of Vitest with `globals: true` (or
+ * passed in from `vitest`)
+ */
+export interface TestLifecycleHooks {
+  beforeAll(fn: () => Promise<void>): void
+  afterAll(fn: () => Promise<void>): void
+  beforeEach(fn: () => Promise<void>): void
+  afterEach(fn: () => Promise<void>): void
+}
+
+const isolatedDrivers = new WeakMap<NOORMME<any>, () => IsolatedDriver | undefined>()
+
+/**
+ * NOORMME whose driver can isolate everything in an outer transaction
+ */
+class IsolatedNOORMME<DB = any> extends NOORMME<DB> {
+  protected override createDialect(): Dialect {
+    const { dialect, getDriver } = isolateDialect(super.createDialect())
+    isolatedDrivers.set(this, getDriver)
+    return dialect
+  }
+}
+
+/**
+ * Builds a template database once and hands each test an isolated
+ * database, so tests don't pay for schema setup.
+ *
+ * ```ts
+ * const harness = await TestHarness.create({ migrationDirectory: './migrations' })
+ *
+ * const db = await harness.begin()   // before each test
+ * await harness.snapshot('seeded')
+ * await harness.restore('seeded')
+ * await harness.end()                // after each test
+ *
+ * await harness.close()
+ * ```
+ */
+export class TestHarness {
+  private shared: NOORMME | null = null
+  private current: NOORMME | null = null
+  private currentCopy: string | null = null
+  private template: { backup(destination: string): Promise<unknown>; close(): unknown } | null = null
+  private maintenance: NOORMME | null = null
+  private snapshots = new Set<string>()
+  private copies = 0
+
+  private constructor(
+    private config: NOORMConfig,
+    private isolation: TestIsolation,
+    private directory: string
+  ) {}
+
+  /**
+   * Build the template: apply migrations, initialize and run `setup`
+   */
+  static async create(options: TestHarnessOptions = {}): Promise<TestHarness> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'noormme-test-'))
+    const config: NOORMConfig = options.config ?? {
+      dialect: 'sqlite',
+      connection: { database: path.join(directory, 'template.sqlite') },
+      automation: { enableAutoOptimization: false },
+      logging: { enabled: false }
+    }
+
+    const harness = new TestHarness(config, options.isolation ?? 'transaction', directory)
+    try {
+      await harness.prepareTemplate(options)
+    } catch (error) {
+      await harness.close()
+      throw error
+    }
+    return harness
+  }
+
+  /**
+   * The current test's database
+   */
+  get db(): NOORMME {
+    if (!this.current) {
+      throw new NoormError('No test database: call begin() before each test', { operation: 'test_harness' })
+    }
+    return this.current
+  }
+
+  /**
+   * Isolate a database for the next test
+   */
+  async begin(): Promise<NOORMME> {
+    if (this.current) {
+      await this.end()
+    }
+
+    if (this.isolation === 'transaction') {
+      await this.getDriver(this.shared!).isolate()
+      this.current = this.shared
+      return this.current!
+    }
+
+    const copy = await this.copyTemplate()
+    const db = new IsolatedNOORMME({ ...this.config, connection: { ...this.config.connection, database: copy } })
+    this.currentCopy = copy
+    this.current = db
+    await db.initialize()
+    return db
+  }
+
+  /**
+   * Throw away everything the current test did
+   */
+  async end(): Promise<void> {
+    const db = this.current
+    if (!db) {
+      return
+    }
+
+    this.current = null
+    this.snapshots.clear()
+
+    if (this.isolation === 'transaction') {
+      await this.getDriver(db).rollback()
+      // Cached reads may hold rows that no longer exist
+      await db.getQueryCache().clear()
+      return
+    }
+
+    await db.close()
+    await this.dropCopy(this.currentCopy!)
+    this.currentCopy = null
+  }
+
+  /**
+   * Remember the current test's data under a name. Snapshots are savepoints,
+   * so they only live until the end of the test.
+   */
+  async snapshot(name = 'snapshot'): Promise<void> {
+    const driver = this.getDriver(this.db)
+    // A copy only needs the outer transaction once there is something to go back to
+    await driver.isolate()
+    await driver.execute(`savepoint ${toSavepoint(name)}`)
+    this.snapshots.add(name)
+  }
+
+  /**
+   * Go back to a snapshot of the current test. It can be restored again.
+   */
+  async restore(name = 'snapshot'): Promise<void> {
+    if (!this.snapshots.has(name)) {
+      throw new NoormError(`No snapshot named '${name}' in this test`, {
+        operation: 'restore',
+        availableOptions: [...this.snapshots]
+      })
+    }
+
+    await this.getDriver(this.db).execute(`rollback to savepoint ${toSavepoint(name)}`)
+    await this.db.getQueryCache().clear()
+  }
+
+  /**
+   * End the current test and remove the template
+   */
+  async close(): Promise<void> {
+    await this.end()
+    await this.shared?.close()
+    this.template?.close()
+    await this.maintenance?.close()
+    await fs.rm(this.directory, { recursive: true, force: true })
+  }
+
+  private async prepareTemplate(options: TestHarnessOptions): Promise<void> {
+    const { dialect, connection } = this.config
+
+    if (this.isolation === 'copy' && dialect === 'mysql') {
+      throw new NoormError('MySQL has no template databases to copy', {
+        operation: 'test_harness',
+        suggestion: "Use isolation: 'transaction'"
+      })
+    }
+    if (this.isolation === 'copy' && dialect === 'sqlite' && connection.database === ':memory:') {
+      throw new NoormError('An in-memory SQLite database cannot be copied', {
+        operation: 'test_harness',
+        suggestion: "Use a database file or isolation: 'transaction'"
+      })
+    }
+
+    const db = new IsolatedNOORMME(this.config)
+
+    if (options.migrationDirectory) {
+      if (dialect !== 'sqlite') {
+        throw new NoormError('migrationDirectory applies SQLite migrations', {
+          operation: 'test_harness',
+          suggestion: 'Run migrations for other databases in setup()'
+        })
+      }
+      const manager = new SQLiteMigrationManager(
+        db.getKysely(),
+        { migrationDirectory: options.migrationDirectory, enableAutoOptimization: false },
+        new Logger({ enabled: false })
+      )
+      await manager.initialize()
+      await manager.migrateToLatest()
+    }
+
+    await db.initialize()
+    if (options.setup) {
+      await options.setup(db)
+      await db.refreshSchema()
+    }
+
+    if (this.isolation === 'transaction') {
+      this.shared = db
+      return
+    }
+
+    // Nothing may hold the template open while it's being copied
+    await db.close()
+    if (dialect === 'sqlite') {
+      const { default: Database } = await importModule<{ default: typeof import('better-sqlite3') }>('better-sqlite3')
+      this.template = new Database(connection.database, { readonly: true })
+    } else {
+      this.maintenance = new NOORMME({ ...this.config, connection: { ...connection, database: 'postgres' } })
+    }
+  }
+
+  private async copyTemplate(): Promise<string> {
+    const copy = `test_${process.pid}_${++this.copies}`
+
+    if (this.template) {
+      const file = path.join(this.directory, `${copy}.sqlite`)
+      await this.template.backup(file)
+      return file
+    }
+
+    const database = `${this.config.connection.database}_${copy}`
+    await sql`create database ${sql.id(database)} template ${sql.id(this.config.connection.database)}`
+      .execute(this.maintenance!.getKysely())
+    return database
+  }
+
+  private async dropCopy(copy: string): Promise<void> {
+    if (this.template) {
+      await Promise.all(['', '-wal', '-shm', '-journal'].map(suffix => fs.rm(copy + suffix, { force: true })))
+      return
+    }
+
+    await sql`drop database if exists ${sql.id(copy)}`.execute(this.maintenance!.getKysely())
+  }
+
+  private getDriver(db: NOORMME): IsolatedDriver {
+    return isolatedDrivers.get(db)!()!
+  }
+}
+
+/**
+ * Register Jest or Vitest hooks that build the template before the suite
+ * and isolate a database for every test.
+ *
+ * ```ts
+ * const testDb = useTestDatabase({ setup: seedReferenceData })
+ *
+ * it('creates users', async () => {
+ *   await testDb.db.getRepository('users').create({ name: 'Ann' })
+ * })
+ * ```
+ */
+export function useTestDatabase(
+  options: TestHarnessOptions = {},
+  hooks: TestLifecycleHooks = globalThis as unknown as TestLifecycleHooks
+): Pick<TestHarness, 'db' | 'snapshot' | 'restore'> {
+  if (typeof hooks.beforeAll !== 'function') {
+    throw new NoormError('No test lifecycle hooks found', {
+      operation: 'test_harness',
+      suggestion: "Pass them in, e.g. useTestDatabase(options, { beforeAll, afterAll, beforeEach, afterEach }) from 'vitest'"
+    })
+  }
+
+  let harness: TestHarness | null = null
+  const getHarness = () => {
+    if (!harness) {
+      throw new NoormError('The test database is only available inside tests', { operation: 'test_harness' })
+    }
+    return harness
+  }
+
+  hooks.beforeAll(async () => {
+    harness = await TestHarness.create(options)
+  })
+  hooks.afterAll(async () => {
+    await harness?.close()
+    harness = null
+  })
+  hooks.beforeEach(async () => {
+    await getHarness().begin()
+  })
+  hooks.afterEach(async () => {
+    await getHarness().end()
+  })
+
+  return {
+    get db() {
+      return getHarness().db
+    },
+    snapshot: (name?: string) => getHarness().snapshot(name),
+    restore: (name?: string) => getHarness().restore(name)
+  }
+}
+
+function toSavepoint(name: string): string {
+  if (!/^\w+$/.test(name)) {
+    throw new NoormError(`Snapshot names may only contain letters, digits and underscores, got '${name}'`, {
+      operation: 'snapshot'
+    })
+  }
+  return `noormme_snapshot_${name}`
+}
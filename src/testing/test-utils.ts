@@ -204,7 +204,8 @@ export async function cleanupTestDatabase(db: NOORMME): Promise<void> {
 }
 
 /**
- * Test data factory
+ * Test data factory for the sample tables of `setupTestSchema()`. Use
+ * `defineFactory()` for other schemas.
  */
 export class TestDataFactory {
   private static emailCounter = 0
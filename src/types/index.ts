@@ -2,6 +2,14 @@
  * Core type definitions for NOORMME
  */
 
+import type { Selectable, Insertable, Updateable } from '../util/column-type.js'
+import type { IsAny } from '../util/type-utils.js'
+import type { Transaction } from '../kysely.js'
+import type { IsolationLevel } from '../driver/driver.js'
+import type { IndexRecommendation } from '../dialect/sqlite/sqlite-auto-indexer.js'
+import type { CachedQueryOptions, QueryCacheStorage } from '../cache/query-cache.js'
+import type { D1Database } from '../dialect/remote-sqlite/remote-sqlite-dialect-config.js'
+
 export interface NOORMConfig {
   dialect: 'sqlite' | 'postgresql' | 'mysql'
   connection: ConnectionConfig
@@ -12,16 +20,22 @@ export interface NOORMConfig {
   automation?: AutomationConfig
   optimization?: OptimizationConfig
   sqlite?: SQLiteConfig
+  tables?: Record<string, TableConfig>
 }
 
 export interface ConnectionConfig {
   host?: string
   port?: number
+  /** SQLite file path, or a `libsql://` / `https://` URL of a libSQL server */
   database: string
   username?: string
   password?: string
   ssl?: boolean | object
   pool?: PoolConfig
+  /** Bearer token for a libSQL server */
+  authToken?: string
+  /** Cloudflare D1 binding, used instead of `database` */
+  d1?: D1Database
 }
 
 export interface PoolConfig {
@@ -40,6 +54,8 @@ export interface CacheConfig {
   ttl?: number
   maxSize?: number
   strategy?: 'lru' | 'fifo'
+  /** Where `cached()` query results are kept (default: in memory) */
+  storage?: QueryCacheStorage
 }
 
 export interface LoggingConfig {
@@ -56,6 +72,31 @@ export interface PerformanceConfig {
   maxCacheSize?: number
   enableBatchOperations?: boolean
   slowQueryThreshold?: number
+  instrumentation?: QueryInstrumentationConfig
+}
+
+/**
+ * Automatic timing of every select, insert, update and delete, feeding the
+ * metrics collector and the SQLite auto-indexer
+ */
+export interface QueryInstrumentationConfig {
+  /** On by default */
+  enabled?: boolean
+  /** Fraction of queries to record, from 0 to 1 (default 1) */
+  sampleRate?: number
+  /** Only record queries on these tables */
+  includeTables?: string[]
+  /** Never record queries touching these tables */
+  excludeTables?: string[]
+  /**
+   * SQLite: periodically add recorded query patterns to the
+   * `_noormme_query_stats` table, where `noormme analyze --indexes` reads them
+   */
+  persist?: boolean
+  /** How often patterns are persisted in ms (default 60000) */
+  flushInterval?: number
+  /** Persisted stats older than this many ms are dropped (default 7 days) */
+  statsWindow?: number
 }
 
 export interface AutomationConfig {
@@ -87,6 +128,39 @@ export interface SQLiteConfig {
   journalMode?: 'DELETE' | 'TRUNCATE' | 'PERSIST' | 'MEMORY' | 'WAL' | 'OFF'
 }
 
+/**
+ * Per-table repository conventions. Each one is off until enabled here:
+ * `true` uses the default column name, a string names another column.
+ */
+export interface TableConfig {
+  /** `deleted_at` by default: delete() sets it and finders skip those rows */
+  softDelete?: boolean | string
+  /** `created_at`/`updated_at` by default, maintained by create and update */
+  timestamps?: boolean | { createdAt?: string; updatedAt?: string }
+  /** `version` by default, a numeric column: update() checks and increments it */
+  version?: boolean | string
+  /** Validate writes against the schema before they are sent, on by default (one query per CHECK constraint and batch) */
+  validate?: boolean
+}
+
+/**
+ * Repository lifecycle hooks, registered per table with `NOORMME.registerHooks`.
+ * `before*` hooks may return a replacement for the data being written.
+ * `createMany` runs the create hooks per row. `upsert` runs `beforeCreate`
+ * per row, as it cannot tell inserts from updates beforehand, then
+ * `afterCreate` or `afterUpdate` per returned row. `deleteMany` and
+ * `deleteBy*` run the delete hooks per deleted row; `updateMany` runs no hooks.
+ */
+export interface RepositoryHooks<T = any> {
+  beforeCreate?(data: Partial<T>): Partial<T> | void | Promise<Partial<T> | void>
+  afterCreate?(entity: T): void | Promise<void>
+  beforeUpdate?(entity: T): T | void | Promise<T | void>
+  afterUpdate?(entity: T): void | Promise<void>
+  beforeDelete?(id: string | number): void | Promise<void>
+  afterDelete?(id: string | number): void | Promise<void>
+  afterLoad?(entity: T): void | Promise<void>
+}
+
 export interface SchemaInfo {
   tables: TableInfo[]
   relationships: RelationshipInfo[]
@@ -100,6 +174,7 @@ export interface TableInfo {
   primaryKey?: string[]
   indexes: IndexInfo[]
   foreignKeys: ForeignKeyInfo[]
+  constraints?: ConstraintInfo[]
 }
 
 export interface ColumnInfo {
@@ -120,6 +195,18 @@ export interface IndexInfo {
   unique: boolean
 }
 
+/**
+ * Table constraint parsed from the table definition (SQLite only).
+ * Types: p = primary key, f = foreign key, c = check, u = unique, n = not null
+ */
+export interface ConstraintInfo {
+  name: string
+  type: 'p' | 'f' | 'c' | 'u' | 'n'
+  column?: string
+  columns?: string[]
+  definition: string
+}
+
 export interface ForeignKeyInfo {
   name: string
   column: string
@@ -163,17 +250,208 @@ export interface EntityType {
   selectType: string
 }
 
-export interface Repository<T> {
+/**
+ * Comparison operators accepted for a single column in a where filter
+ */
+export interface FilterOperators<V = unknown> {
+  eq?: V
+  ne?: V
+  gt?: V
+  gte?: V
+  lt?: V
+  lte?: V
+  in?: V[]
+  notIn?: V[]
+  like?: string
+  notLike?: string
+  between?: [V, V]
+  isNull?: boolean
+}
+
+/**
+ * A column filter is either a plain value (equality, `null` for IS NULL)
+ * or an object of operators that are AND-ed together
+ */
+export type FilterValue<V> = V | null | FilterOperators<V>
+
+/**
+ * Where filter for repository finders
+ *
+ * Keys are column names, `AND`/`OR`/`NOT` groups, or relation paths such as
+ * `'author.email'` which match rows having a related row that passes the filter.
+ */
+export type WhereFilter<T> = {
+  [K in keyof T]?: FilterValue<T[K]>
+} & {
+  AND?: WhereFilter<T>[]
+  OR?: WhereFilter<T>[]
+  NOT?: WhereFilter<T>
+  [relationPath: `${string}.${string}`]: FilterValue<unknown>
+}
+
+export interface OrderBySpec<T> {
+  column: keyof T
+  direction: 'asc' | 'desc'
+}
+
+export interface FindOptions<T> {
+  where?: WhereFilter<T>
+  orderBy?: OrderBySpec<T> | OrderBySpec<T>[]
+  limit?: number
+  offset?: number
+  select?: (keyof T)[]
+}
+
+export interface CursorPaginationOptions<T> {
+  limit: number
+  after?: string
+  before?: string
+  where?: WhereFilter<T>
+  orderBy?: OrderBySpec<T> | OrderBySpec<T>[]
+  includeTotal?: boolean
+}
+
+export interface CursorPaginationResult<T> {
+  data: T[]
+  pagination: {
+    limit: number
+    hasNext: boolean
+    hasPrev: boolean
+    nextCursor: string | null
+    prevCursor: string | null
+    total?: number
+  }
+}
+
+export interface BulkWriteOptions {
+  /** Allow an empty `where`, which affects every row of the table (default: false) */
+  all?: boolean
+}
+
+export interface UpsertOptions<T> {
+  conflictColumns: (keyof T)[]
+  /** Columns to overwrite on conflict; defaults to every inserted non-conflict column, `[]` ignores conflicting rows */
+  update?: (keyof T)[]
+}
+
+/**
+ * Repository of a table `TB` of a database interface `DB`, such as the
+ * `Database` interface emitted by `noormme generate`. Untyped databases
+ * fall back to `Repository<any>`.
+ */
+export type TableRepository<DB, TB> = IsAny<DB> extends true
+  ? Repository<any>
+  : IsAny<TB> extends true
+    ? Repository<any>
+    : TB extends keyof DB
+      ? Repository<Selectable<DB[TB]>, Insertable<DB[TB]>, Updateable<DB[TB]>>
+      : Repository<any>
+
+/**
+ * Table names of a database interface, any string for untyped databases
+ */
+export type TableName<DB> = IsAny<DB> extends true ? string : keyof DB & string
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel
+  /** Reject writes for the duration of the transaction */
+  readOnly?: boolean
+  /** Times to rerun the callback after SQLITE_BUSY or a serialization failure (default 3) */
+  retries?: number
+  /** Delay before the first retry in ms, doubled on every further attempt (default 50) */
+  retryDelay?: number
+}
+
+/**
+ * Kysely transaction handed to `db.transaction()` callbacks. Repositories
+ * taken from it run on the transaction's connection, and nested
+ * `transaction()` calls run inside a savepoint.
+ */
+export type NoormTransaction<DB> = Transaction<DB> & {
+  getRepository<TB extends TableName<DB>>(tableName: TB): TableRepository<DB, TB>
+  getRepository<T>(tableName: TableName<DB>): Repository<T>
+  transaction<T>(callback: (tx: NoormTransaction<DB>) => Promise<T>): Promise<T>
+}
+
+export interface QueryScopeOptions {
+  /** Identical selects allowed per scope before they are reported as N+1 (default 5) */
+  threshold?: number
+  /** Throw `NPlusOneQueryError` from the offending query instead of logging a warning */
+  strict?: boolean
+  onDetect?: (detection: NPlusOneDetection) => void
+}
+
+export interface NPlusOneDetection {
+  sql: string
+  table: string
+  /** Executions so far in the scope, kept up to date after detection */
+  count: number
+  /** First stack frame outside NOORMME that issued the query */
+  callSite?: string
+  /** Relationships that would load the rows in one batch */
+  relationships: RelationshipInfo[]
+  suggestion: string
+}
+
+export interface IndexAdviceOptions {
+  /**
+   * Queries to analyze. Defaults to the recorded query patterns on SQLite
+   * and to `pg_stat_statements` on PostgreSQL.
+   */
+  queries?: Array<string | { sql: string; frequency?: number }>
+  /** Executions a recorded query needs before it is analyzed (default 3) */
+  minFrequency?: number
+  maxRecommendations?: number
+}
+
+export interface QueryPlanIssue {
+  /** `full_scan` reads every row of a table, `sort` orders rows in a temporary structure */
+  kind: 'full_scan' | 'sort'
+  table?: string
+  /** The plan step as reported by the database */
+  detail: string
+}
+
+export interface IndexAdvice {
+  query: string
+  frequency: number
+  issues: QueryPlanIssue[]
+  planBefore: string[]
+  /** Plan with the index in place, empty when it could not be tried */
+  planAfter: string[]
+  /** Whether the planner was seen using the index */
+  verified: boolean
+  recommendation: IndexRecommendation
+}
+
+export interface Repository<T, TInsert = Partial<T>, TUpdate = T> {
   // Django-style objects manager
   objects: any // Will be DjangoManager<T>
 
   // CRUD operations
   findById(id: string | number): Promise<T | null>
   findAll(): Promise<T[]>
-  create(data: Partial<T>): Promise<T>
-  update(entity: T): Promise<T>
+  create(data: TInsert): Promise<T>
+  update(entity: TUpdate): Promise<T>
   delete(id: string | number): Promise<boolean>
 
+  // Filtered queries
+  find(options?: FindOptions<T>): Promise<T[]>
+
+  // Bulk operations
+  createMany(rows: TInsert[]): Promise<T[]>
+  updateMany(where: WhereFilter<T>, patch: Partial<TUpdate>, options?: BulkWriteOptions): Promise<number>
+  deleteMany(where: WhereFilter<T>, options?: BulkWriteOptions): Promise<number>
+  upsert(rows: TInsert[], options: UpsertOptions<T>): Promise<T[]>
+
+  // Caching
+  cached(options?: CachedQueryOptions): Repository<T, TInsert, TUpdate>
+
+  // Soft delete
+  withTrashed(): Repository<T, TInsert, TUpdate>
+  restore(id: string | number): Promise<boolean>
+  forceDelete(id: string | number): Promise<boolean>
+
   // Relationships
   findWithRelations(id: string | number, relations: string[]): Promise<T | null>
   loadRelationships(entities: T[], relations: string[]): Promise<void>
@@ -186,11 +464,8 @@ export interface Repository<T> {
   paginate(options: {
     page: number
     limit: number
-    where?: Partial<T>
-    orderBy?: {
-      column: keyof T
-      direction: 'asc' | 'desc'
-    }
+    where?: WhereFilter<T>
+    orderBy?: OrderBySpec<T>
   }): Promise<{
     data: T[]
     pagination: {
@@ -203,6 +478,9 @@ export interface Repository<T> {
     }
   }>
 
+  // Keyset pagination
+  paginateCursor(options: CursorPaginationOptions<T>): Promise<CursorPaginationResult<T>>
+
   // Relationship counting
   withCount(id: string | number, relationships: string[]): Promise<T & Record<string, number>>
 
@@ -210,10 +488,26 @@ export interface Repository<T> {
   [key: string]: unknown
 }
 
+export type SchemaChangeType =
+  | 'table_added' | 'table_removed' | 'table_renamed'
+  | 'column_added' | 'column_removed' | 'column_modified' | 'column_renamed'
+  | 'index_added' | 'index_removed' | 'index_modified'
+  | 'foreign_key_added' | 'foreign_key_removed'
+  | 'view_added' | 'view_removed' | 'view_modified'
+
 export interface SchemaChange {
-  type: 'table_added' | 'table_removed' | 'column_added' | 'column_removed' | 'column_modified'
+  type: SchemaChangeType
+  /** Table the change belongs to (the view for view changes) */
   table: string
   column?: string
+  /** Index or foreign key name */
+  name?: string
+  /** Former name of a renamed table or column */
+  previousName?: string
+  /** Changed column properties of a modified column */
+  fields?: Array<'type' | 'nullable' | 'defaultValue'>
+  before?: TableInfo | ColumnInfo | IndexInfo | ForeignKeyInfo | ViewInfo
+  after?: TableInfo | ColumnInfo | IndexInfo | ForeignKeyInfo | ViewInfo
   details?: unknown
 }
 
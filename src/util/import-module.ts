@@ -0,0 +1,27 @@
+/**
+ * Imports a package at runtime. The name goes through a variable so that
+ * bundlers for edge runtimes leave Node-only drivers out of the bundle.
+ */
+export async function importModule<T>(name: string): Promise<T> {
+  return await import(name)
+}
+
+/**
+ * Imports a file with the runtime's own `import()`, also from the CommonJS
+ * build, where TypeScript turns `import()` into `require()`. Takes a file
+ * URL, since absolute Windows paths are not valid import specifiers.
+ */
+export async function importFile<T>(url: string): Promise<T> {
+  // Built on first use, since edge runtimes forbid code generation
+  const nativeImport = new Function('url', 'return import(url)') as (url: string) => Promise<T>
+
+  try {
+    return await nativeImport(url)
+  } catch (error) {
+    // Node only loads .ts files with type stripping (22.18+) or a loader such as tsx
+    if ((error as { code?: string }).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(`${url} needs a TypeScript loader: run with \`node --import tsx\` or Node 22.18+, or compile it to .js`)
+    }
+    throw error
+  }
+}
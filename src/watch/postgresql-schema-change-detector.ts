@@ -0,0 +1,120 @@
+import type { ClientConfig, Client } from 'pg';
+import type { Kysely } from '../kysely.js';
+import { sql } from '../raw-builder/sql.js';
+import { NoormError } from '../errors/NoormError.js';
+import { Logger } from '../logging/logger.js';
+import { importModule } from '../util/import-module.js';
+import type { SchemaChangeDetector } from './schema-watcher.js';
+
+export const DEFAULT_SCHEMA_CHANGE_CHANNEL = 'noormme_schema_changes';
+
+const TRIGGER_NAME = 'noormme_schema_change';
+const FUNCTION_NAME = 'noormme_notify_schema_change';
+
+/**
+ * Install an event trigger that sends a `NOTIFY` on `channel` after every
+ * DDL command, so schema watchers pick changes up without introspecting.
+ * Event triggers can only be created by superusers.
+ */
+export async function installSchemaChangeTrigger(
+  db: Kysely<any>,
+  channel: string = DEFAULT_SCHEMA_CHANGE_CHANNEL
+): Promise<void> {
+  validateChannel(channel);
+
+  await sql.raw(`
+    create or replace function ${FUNCTION_NAME}() returns event_trigger language plpgsql as $$
+    begin
+      perform pg_notify('${channel}', tg_tag);
+    end
+    $$
+  `).execute(db);
+  await sql.raw(`drop event trigger if exists ${TRIGGER_NAME}`).execute(db);
+  await sql.raw(`create event trigger ${TRIGGER_NAME} on ddl_command_end execute procedure ${FUNCTION_NAME}()`).execute(db);
+}
+
+/**
+ * Remove the event trigger installed by `installSchemaChangeTrigger`
+ */
+export async function uninstallSchemaChangeTrigger(db: Kysely<any>): Promise<void> {
+  await sql.raw(`drop event trigger if exists ${TRIGGER_NAME}`).execute(db);
+  await sql.raw(`drop function if exists ${FUNCTION_NAME}()`).execute(db);
+}
+
+/**
+ * Detects PostgreSQL schema changes by listening for the notifications of
+ * the event trigger installed with `installSchemaChangeTrigger`. Without
+ * the trigger every check reports a possible change, as plain polling does.
+ */
+export class PostgresSchemaChangeDetector implements SchemaChangeDetector {
+  private client: Client | null = null;
+  private pending = true;
+
+  constructor(
+    private db: Kysely<any>,
+    private clientConfig: ClientConfig,
+    private logger: Logger,
+    private channel: string = DEFAULT_SCHEMA_CHANGE_CHANNEL
+  ) {
+    validateChannel(channel);
+  }
+
+  async hasChanged(): Promise<boolean> {
+    if (!this.client) {
+      return true;
+    }
+
+    const changed = this.pending;
+    this.pending = false;
+    return changed;
+  }
+
+  async subscribe(onChange: () => void): Promise<void> {
+    const { rows } = await sql<{ enabled: string }>`
+      select evtenabled as enabled from pg_event_trigger where evtname = ${TRIGGER_NAME}
+    `.execute(this.db);
+
+    if (rows.length === 0 || rows[0].enabled === 'D') {
+      this.logger.warn(
+        'Schema change trigger not installed, falling back to polling. Install it with installSchemaChangeTrigger()'
+      );
+      return;
+    }
+
+    // LISTEN needs a connection of its own that stays open
+    const { Client } = await importModule<typeof import('pg')>('pg');
+    const client = new Client(this.clientConfig);
+    await client.connect();
+
+    client.on('notification', message => {
+      if (message.channel === this.channel) {
+        this.pending = true;
+        onChange();
+      }
+    });
+    client.on('error', error => {
+      this.logger.error('Lost the schema change notification connection, falling back to polling:', error);
+      this.client = null;
+      client.end().catch(() => undefined);
+    });
+
+    await client.query(`listen ${this.channel}`);
+    this.client = client;
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.pending = true;
+    await client?.end();
+  }
+}
+
+function validateChannel(channel: string): void {
+  if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+    throw new NoormError(`Invalid notification channel '${channel}'`, {
+      operation: 'schema_watching',
+      suggestion: 'Use lowercase letters, digits and underscores'
+    });
+  }
+}
@@ -0,0 +1,264 @@
+import type {
+  SchemaInfo,
+  SchemaChange,
+  TableInfo,
+  ColumnInfo,
+  IndexInfo,
+  ForeignKeyInfo,
+  ViewInfo
+} from '../types/index.js';
+
+export interface SchemaDiffOptions {
+  ignoredTables?: string[];
+  ignoreViews?: boolean;
+  detectRenames?: boolean; // default true
+}
+
+/**
+ * Compare two schema snapshots and describe what changed from `before` to `after`.
+ *
+ * A removed and an added table count as a rename when their columns match
+ * exactly, and a removed and an added column of the same table when their
+ * type, nullability and default match. Renames are only reported when the
+ * match is unambiguous.
+ */
+export function diffSchemas(
+  before: SchemaInfo,
+  after: SchemaInfo,
+  options: SchemaDiffOptions = {}
+): SchemaChange[] {
+  const ignored = new Set(options.ignoredTables ?? []);
+  const detectRenames = options.detectRenames ?? true;
+  const changes: SchemaChange[] = [];
+
+  const oldTables = new Map(before.tables.filter(t => !ignored.has(t.name)).map(t => [t.name, t]));
+  const newTables = new Map(after.tables.filter(t => !ignored.has(t.name)).map(t => [t.name, t]));
+
+  const removed = [...oldTables.values()].filter(t => !newTables.has(t.name));
+  const added = [...newTables.values()].filter(t => !oldTables.has(t.name));
+  const renames = detectRenames ? pairUnambiguous(removed, added, tableSignature) : new Map<TableInfo, TableInfo>();
+
+  for (const table of removed) {
+    if (!renames.has(table)) {
+      changes.push({ type: 'table_removed', table: table.name, before: table });
+    }
+  }
+
+  const renamedTo = new Set(renames.values());
+  for (const table of added) {
+    if (!renamedTo.has(table)) {
+      changes.push({ type: 'table_added', table: table.name, after: table });
+    }
+  }
+
+  for (const [oldTable, newTable] of renames) {
+    changes.push({
+      type: 'table_renamed',
+      table: newTable.name,
+      previousName: oldTable.name,
+      before: oldTable,
+      after: newTable
+    });
+    changes.push(...diffIndexes(oldTable, newTable), ...diffForeignKeys(oldTable, newTable));
+  }
+
+  for (const [name, newTable] of newTables) {
+    const oldTable = oldTables.get(name);
+    if (oldTable) {
+      changes.push(
+        ...diffColumns(oldTable, newTable, detectRenames),
+        ...diffIndexes(oldTable, newTable),
+        ...diffForeignKeys(oldTable, newTable)
+      );
+    }
+  }
+
+  if (!options.ignoreViews) {
+    changes.push(...diffViews(before.views ?? [], after.views ?? []));
+  }
+
+  return changes;
+}
+
+function diffColumns(before: TableInfo, after: TableInfo, detectRenames: boolean): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const table = after.name;
+  const oldColumns = new Map(before.columns.map(c => [c.name, c]));
+  const newColumns = new Map(after.columns.map(c => [c.name, c]));
+
+  const removed = before.columns.filter(c => !newColumns.has(c.name));
+  const added = after.columns.filter(c => !oldColumns.has(c.name));
+  const renames = detectRenames ? pairUnambiguous(removed, added, columnSignature) : new Map<ColumnInfo, ColumnInfo>();
+  const renamedTo = new Set(renames.values());
+
+  for (const column of removed) {
+    if (!renames.has(column)) {
+      changes.push({ type: 'column_removed', table, column: column.name, before: column });
+    }
+  }
+
+  for (const column of added) {
+    if (!renamedTo.has(column)) {
+      changes.push({ type: 'column_added', table, column: column.name, after: column });
+    }
+  }
+
+  for (const [oldColumn, newColumn] of renames) {
+    changes.push({
+      type: 'column_renamed',
+      table,
+      column: newColumn.name,
+      previousName: oldColumn.name,
+      before: oldColumn,
+      after: newColumn
+    });
+  }
+
+  for (const [name, newColumn] of newColumns) {
+    const oldColumn = oldColumns.get(name);
+    if (!oldColumn) {
+      continue;
+    }
+
+    const fields: NonNullable<SchemaChange['fields']> = [];
+    if (oldColumn.type !== newColumn.type) fields.push('type');
+    if (Boolean(oldColumn.nullable) !== Boolean(newColumn.nullable)) fields.push('nullable');
+    if (normalizeDefault(oldColumn.defaultValue) !== normalizeDefault(newColumn.defaultValue)) fields.push('defaultValue');
+
+    if (fields.length > 0) {
+      changes.push({ type: 'column_modified', table, column: name, fields, before: oldColumn, after: newColumn });
+    }
+  }
+
+  return changes;
+}
+
+function diffIndexes(before: TableInfo, after: TableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const table = after.name;
+  const oldIndexes = new Map(namedIndexes(before).map(i => [i.name, i]));
+  const newIndexes = new Map(namedIndexes(after).map(i => [i.name, i]));
+
+  for (const [name, index] of oldIndexes) {
+    if (!newIndexes.has(name)) {
+      changes.push({ type: 'index_removed', table, name, before: index });
+    }
+  }
+
+  for (const [name, index] of newIndexes) {
+    const oldIndex = oldIndexes.get(name);
+    if (!oldIndex) {
+      changes.push({ type: 'index_added', table, name, after: index });
+    } else if (indexSignature(oldIndex) !== indexSignature(index)) {
+      changes.push({ type: 'index_modified', table, name, before: oldIndex, after: index });
+    }
+  }
+
+  return changes;
+}
+
+function diffForeignKeys(before: TableInfo, after: TableInfo): SchemaChange[] {
+  // Discovered foreign key names are derived from the table and column, so
+  // they are compared by what they reference
+  const changes: SchemaChange[] = [];
+  const table = after.name;
+  const oldKeys = new Map(before.foreignKeys.map(fk => [foreignKeySignature(fk), fk]));
+  const newKeys = new Map(after.foreignKeys.map(fk => [foreignKeySignature(fk), fk]));
+
+  for (const [signature, fk] of oldKeys) {
+    if (!newKeys.has(signature)) {
+      changes.push({ type: 'foreign_key_removed', table, column: fk.column, name: fk.name, before: fk });
+    }
+  }
+
+  for (const [signature, fk] of newKeys) {
+    if (!oldKeys.has(signature)) {
+      changes.push({ type: 'foreign_key_added', table, column: fk.column, name: fk.name, after: fk });
+    }
+  }
+
+  return changes;
+}
+
+function diffViews(before: ViewInfo[], after: ViewInfo[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const oldViews = new Map(before.map(v => [v.name, v]));
+  const newViews = new Map(after.map(v => [v.name, v]));
+
+  for (const [name, view] of oldViews) {
+    if (!newViews.has(name)) {
+      changes.push({ type: 'view_removed', table: name, before: view });
+    }
+  }
+
+  for (const [name, view] of newViews) {
+    const oldView = oldViews.get(name);
+    if (!oldView) {
+      changes.push({ type: 'view_added', table: name, after: view });
+    } else if (normalizeSql(oldView.definition) !== normalizeSql(view.definition)) {
+      changes.push({ type: 'view_modified', table: name, before: oldView, after: view });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Pair each removed item with the one added item of the same signature,
+ * leaving out signatures shared by several removed or added items
+ */
+function pairUnambiguous<T>(removed: T[], added: T[], signature: (item: T) => string): Map<T, T> {
+  const group = (items: T[]) => {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = signature(item);
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+    return groups;
+  };
+
+  const addedGroups = group(added);
+  const pairs = new Map<T, T>();
+  for (const [key, candidates] of group(removed)) {
+    const matches = addedGroups.get(key);
+    if (candidates.length === 1 && matches?.length === 1) {
+      pairs.set(candidates[0], matches[0]);
+    }
+  }
+  return pairs;
+}
+
+function tableSignature(table: TableInfo): string {
+  return table.columns
+    .map(c => `${c.name}:${columnSignature(c)}`)
+    .sort()
+    .join(',');
+}
+
+function columnSignature(column: ColumnInfo): string {
+  return `${column.type}|${Boolean(column.nullable)}|${normalizeDefault(column.defaultValue)}|${Boolean(column.isPrimaryKey)}`;
+}
+
+function indexSignature(index: IndexInfo): string {
+  return `${index.unique}|${index.columns.join(',')}`;
+}
+
+function foreignKeySignature(fk: ForeignKeyInfo): string {
+  return `${fk.column}->${fk.referencedTable}.${fk.referencedColumn}|${fk.onDelete ?? ''}|${fk.onUpdate ?? ''}`;
+}
+
+/**
+ * Indexes SQLite creates for PRIMARY KEY and UNIQUE constraints are named
+ * after their table and follow it through renames, so they are left out
+ */
+function namedIndexes(table: TableInfo): IndexInfo[] {
+  return table.indexes.filter(index => !index.name.startsWith('sqlite_autoindex_'));
+}
+
+function normalizeDefault(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function normalizeSql(definition: string): string {
+  return definition.replace(/\s+/g, ' ').trim().toLowerCase();
+}
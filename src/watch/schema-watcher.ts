@@ -2,12 +2,30 @@ import type { Kysely } from '../kysely.js'
 import { SchemaInfo, SchemaChange } from '../types/index.js'
 import { Logger } from '../logging/logger.js'
 import { SchemaDiscovery } from '../schema/schema-discovery.js'
+import { diffSchemas } from './schema-differ.js'
 
 export interface WatchOptions {
   pollInterval?: number; // in milliseconds, default 5000 (5 seconds)
   ignoreViews?: boolean;
   ignoredTables?: string[];
   enabled?: boolean;
+  detectRenames?: boolean; // report renamed tables and columns instead of a removal and an addition, default true
+  typesOutput?: string; // file NOORMME rewrites with the generated types after changes to tables or foreign keys
+  events?: boolean; // use the database's change signals where available instead of introspecting on every poll, default true
+  channel?: string; // PostgreSQL NOTIFY channel of the schema change trigger, default 'noormme_schema_changes'
+  debounce?: number; // in milliseconds, how long to wait for more change signals before checking, default 50
+}
+
+/**
+ * Cheap, database specific signal that the schema may have changed, checked
+ * before running a full introspection
+ */
+export interface SchemaChangeDetector {
+  /** Whether the schema may have changed since the last call (the first call returns true) */
+  hasChanged(): Promise<boolean>;
+  /** Call `onChange` as soon as the database signals a possible change */
+  subscribe?(onChange: () => void): Promise<void>;
+  close(): Promise<void>;
 }
 
 /**
@@ -16,19 +34,23 @@ export interface WatchOptions {
 export class SchemaWatcher {
   private isWatching = false;
   private intervalId: NodeJS.Timeout | null = null;
-  private lastSchemaHash: string | null = null;
+  private lastSchema: SchemaInfo | null = null;
   private callbacks: Array<(changes: SchemaChange[]) => void> = [];
+  private scheduledCheck: NodeJS.Timeout | null = null;
+  private lastCheck: Promise<unknown> = Promise.resolve();
 
   constructor(
     private db: Kysely<any>,
     private schemaDiscovery: SchemaDiscovery,
     private logger: Logger,
-    private options: WatchOptions = {}
+    private options: WatchOptions = {},
+    private detector?: SchemaChangeDetector
   ) {
     // Merge options, giving priority to explicitly passed values
     const defaultEnabled = process.env.NODE_ENV === 'development';
     this.options = {
       pollInterval: 5000,
+      debounce: 50,
       ignoreViews: true,
       ignoredTables: [],
       enabled: options.enabled !== undefined ? options.enabled : defaultEnabled,
@@ -52,17 +74,27 @@ export class SchemaWatcher {
 
     this.logger.info('Starting schema change monitoring...');
 
+    this.isWatching = true;
+
+    if (this.detector) {
+      try {
+        await this.detector.subscribe?.(() => this.scheduleCheck());
+      } catch (error) {
+        this.logger.error('Failed to subscribe to schema change signals, polling instead:', error);
+      }
+    }
+
     // Get initial schema snapshot
     try {
-      const initialSchema = await this.getCurrentSchema();
-      this.lastSchemaHash = this.hashSchema(initialSchema);
+      // Changes after this call are picked up by the first check
+      await this.detector?.hasChanged();
+      this.lastSchema = await this.getCurrentSchema();
     } catch (error) {
       this.logger.error('Failed to get initial schema snapshot:', error);
-      // Set a default hash to allow watching to continue
-      this.lastSchemaHash = '0';
+      // The first successful check becomes the snapshot to compare against
+      this.lastSchema = null;
     }
 
-    this.isWatching = true;
     this.intervalId = setInterval(() => {
       this.checkForChanges().catch(error => {
         this.logger.error('Error checking for schema changes:', error);
@@ -74,7 +106,9 @@ export class SchemaWatcher {
       this.intervalId.unref();
     }
 
-    this.logger.info(`Schema watcher started (polling every ${this.options.pollInterval}ms)`);
+    this.logger.info(this.detector
+      ? `Schema watcher started (change signals, checked every ${this.options.pollInterval}ms)`
+      : `Schema watcher started (polling every ${this.options.pollInterval}ms)`);
   }
 
   /**
@@ -85,6 +119,13 @@ export class SchemaWatcher {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    if (this.scheduledCheck) {
+      clearTimeout(this.scheduledCheck);
+      this.scheduledCheck = null;
+    }
+    this.detector?.close().catch(error => {
+      this.logger.error('Failed to close schema change detector:', error);
+    });
 
     this.isWatching = false;
     this.callbacks = []; // Clear callbacks on stop
@@ -115,36 +156,42 @@ export class SchemaWatcher {
    * Manually trigger schema check
    */
   async checkForChanges(): Promise<SchemaChange[]> {
-    try {
-      const currentSchema = await this.getCurrentSchema();
-      const currentHash = this.hashSchema(currentSchema);
-
-      // Debug logging
-      this.logger.debug(`Schema check - Last hash: ${this.lastSchemaHash}, Current hash: ${currentHash}, Tables: ${currentSchema.tables.length}`);
-
-      if (this.lastSchemaHash && currentHash !== this.lastSchemaHash) {
-        this.logger.info('Schema changes detected, analyzing...');
+    // One check at a time, so each compares against the latest snapshot
+    const check = this.lastCheck.then(() => this.compareWithLastSchema());
+    this.lastCheck = check;
+    return check;
+  }
 
-        // Since we only have the hash, we'll need to do a full schema comparison
-        // In a production implementation, you'd store the full previous schema
-        const changes = await this.detectChanges();
+  private async compareWithLastSchema(): Promise<SchemaChange[]> {
+    try {
+      // Skip the introspection when the database reports no change
+      if (this.lastSchema && this.detector && !(await this.detector.hasChanged())) {
+        return [];
+      }
 
-        this.lastSchemaHash = currentHash;
+      const currentSchema = await this.getCurrentSchema();
+      const previousSchema = this.lastSchema;
+      this.lastSchema = currentSchema;
 
-        if (changes.length > 0) {
-          this.logger.info(`Found ${changes.length} schema changes`);
-          this.notifyCallbacks(changes);
-        }
+      this.logger.debug(`Schema check - Tables: ${currentSchema.tables.length}`);
 
-        return changes;
+      // Nothing to compare against yet
+      if (!previousSchema) {
+        return [];
       }
 
-      // Update hash even if no changes detected yet (for first check after initialization)
-      if (!this.lastSchemaHash) {
-        this.lastSchemaHash = currentHash;
+      const changes = diffSchemas(previousSchema, currentSchema, {
+        ignoredTables: this.options.ignoredTables,
+        ignoreViews: this.options.ignoreViews,
+        detectRenames: this.options.detectRenames
+      });
+
+      if (changes.length > 0) {
+        this.logger.info(`Found ${changes.length} schema changes`);
+        this.notifyCallbacks(changes);
       }
 
-      return [];
+      return changes;
     } catch (error) {
       this.logger.error('Failed to check for schema changes:', error);
       return [];
@@ -152,61 +199,34 @@ export class SchemaWatcher {
   }
 
   /**
-   * Get current database schema
+   * Get the schema the next check is compared against
    */
-  private async getCurrentSchema(): Promise<SchemaInfo> {
-    return await this.schemaDiscovery.discoverSchema();
+  getLastSchema(): SchemaInfo | null {
+    return this.lastSchema;
   }
 
   /**
-   * Create a hash of the schema for change detection
+   * Check shortly after a change signal, once for a burst of signals
    */
-  private hashSchema(schema: SchemaInfo): string {
-    // Create a deterministic string representation of the schema
-    const schemaString = JSON.stringify({
-      tables: schema.tables
-        .filter(table => !this.options.ignoredTables?.includes(table.name))
-        .map(table => ({
-          name: table.name,
-          columns: table.columns.map(col => ({
-            name: col.name,
-            type: col.type,
-            nullable: col.nullable,
-            isPrimaryKey: col.isPrimaryKey,
-            defaultValue: col.defaultValue
-          })),
-          primaryKey: table.primaryKey,
-          foreignKeys: table.foreignKeys,
-          indexes: table.indexes
-        }))
-        .sort((a, b) => a.name.localeCompare(b.name)),
-
-      relationships: schema.relationships
-        .sort((a, b) => `${a.fromTable}.${a.name}`.localeCompare(`${b.fromTable}.${b.name}`))
-    });
-
-    // Simple hash function
-    let hash = 0;
-    for (let i = 0; i < schemaString.length; i++) {
-      const char = schemaString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+  private scheduleCheck(): void {
+    if (!this.isWatching || this.scheduledCheck) {
+      return;
     }
 
-    return hash.toString();
+    this.scheduledCheck = setTimeout(() => {
+      this.scheduledCheck = null;
+      this.checkForChanges().catch(error => {
+        this.logger.error('Error checking for schema changes:', error);
+      });
+    }, this.options.debounce);
+    this.scheduledCheck.unref?.();
   }
 
   /**
-   * Detect specific changes between schemas
+   * Get current database schema
    */
-  private async detectChanges(): Promise<SchemaChange[]> {
-    // In a real implementation, you'd compare the old and new schemas
-    // For now, return a generic change notification
-    return [{
-      type: 'table_added', // This would be determined by actual comparison
-      table: 'unknown',
-      details: 'Schema change detected - full refresh recommended'
-    }];
+  private async getCurrentSchema(): Promise<SchemaInfo> {
+    return await this.schemaDiscovery.discoverSchema();
   }
 
   /**
@@ -0,0 +1,54 @@
+import type { FSWatcher } from 'fs';
+import type { Kysely } from '../kysely.js';
+import { sql } from '../raw-builder/sql.js';
+import { importModule } from '../util/import-module.js';
+import type { SchemaChangeDetector } from './schema-watcher.js';
+
+/**
+ * Detects SQLite schema changes through `PRAGMA schema_version`, which
+ * SQLite increments with every schema change, and watches the database
+ * and WAL files so changes made by other processes are seen right away.
+ */
+export class SQLiteSchemaChangeDetector implements SchemaChangeDetector {
+  private version: number | null = null;
+  private watcher: FSWatcher | null = null;
+
+  constructor(
+    private db: Kysely<any>,
+    private databasePath?: string
+  ) {}
+
+  async hasChanged(): Promise<boolean> {
+    const { rows } = await sql<{ schema_version: number }>`pragma schema_version`.execute(this.db);
+    const version = Number(rows[0]?.schema_version);
+    const changed = version !== this.version;
+    this.version = version;
+    return changed;
+  }
+
+  async subscribe(onChange: () => void): Promise<void> {
+    // In-memory and remote databases have no files to watch
+    if (!this.databasePath || this.databasePath === ':memory:' || this.databasePath.startsWith('file::memory:')) {
+      return;
+    }
+
+    const fs = await importModule<typeof import('fs')>('fs');
+    const path = await importModule<typeof import('path')>('path');
+    const file = path.resolve(this.databasePath);
+    const names = new Set([path.basename(file), `${path.basename(file)}-wal`]);
+
+    // The directory is watched because the WAL file comes and goes
+    this.watcher = fs.watch(path.dirname(file), { persistent: false }, (_event, filename) => {
+      if (filename && names.has(filename.toString())) {
+        onChange();
+      }
+    });
+    // Polling with the cheap version check goes on without it
+    this.watcher.on('error', () => this.close());
+  }
+
+  async close(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+}
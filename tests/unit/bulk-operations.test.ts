@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { ColumnNotFoundError, ValidationError } from '../../src/errors/NoormError.js'
+import { resolveChunkSize } from '../../src/repository/bulk-operations.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Bulk Operations', () => {
+  let db: NOORMME
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  const users = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, i) => ({
+      name: `User ${i + offset}`,
+      email: `user${i + offset}@example.com`,
+      age: 20 + ((i + offset) % 10)
+    }))
+
+  // Transactions run on a derived executor, so spy on the shared prototype
+  const captureSql = () => {
+    const prototype = Object.getPrototypeOf(db.getKysely().getExecutor())
+    const executeQuery = prototype.executeQuery
+    const sqls: string[] = []
+    const spy = jest.spyOn(prototype, 'executeQuery').mockImplementation(function (this: any, query: any, queryId: any) {
+      sqls.push(query.sql)
+      return executeQuery.call(this, query, queryId)
+    } as any)
+    return { sqls, restore: () => spy.mockRestore() }
+  }
+
+  describe('createMany', () => {
+    it('should insert rows in chunks and return them', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const { sqls, restore } = captureSql()
+
+      const created = await userRepo.createMany(users(250))
+      restore()
+
+      expect(created).toHaveLength(250)
+      expect(created[0].id).toBeDefined()
+      expect(typeof created[0].active).toBe('boolean')
+      // maxBatchSize defaults to 100
+      expect(sqls.filter(sql => /^insert/i.test(sql))).toHaveLength(3)
+      expect(await userRepo.count()).toBe(250)
+    })
+
+    it('should return booleans from create and update like createMany', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      const created = await userRepo.create(users(1)[0])
+      const updated = await userRepo.update({ ...created, active: false })
+
+      expect(created.active).toBe(true)
+      expect(updated.active).toBe(false)
+    })
+
+    it('should roll back every chunk when one fails', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const rows = [...users(150), { name: 'Duplicate', email: 'user0@example.com' }]
+
+      const error = await userRepo.createMany(rows).then(() => null, e => e)
+      expect(String(error)).toMatch(/UNIQUE constraint failed/)
+      expect(await userRepo.count()).toBe(0)
+    })
+
+    it('should accept rows with different column sets', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const created = await userRepo.createMany([
+        { name: 'A', email: 'a@example.com', age: 30 },
+        { name: 'B', email: 'b@example.com' }
+      ])
+
+      expect(created.map((u: any) => u.age)).toEqual([30, null])
+    })
+
+    it('should reject unknown columns', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      await expect(userRepo.createMany([{ name: 'A', emial: 'a@example.com' }])).rejects.toBeInstanceOf(ColumnNotFoundError)
+    })
+  })
+
+  describe('updateMany and deleteMany', () => {
+    it('should return affected row counts', async () => {
+      const userRepo = db.getRepository<any>('users')
+      await userRepo.createMany(users(10))
+
+      expect(await userRepo.updateMany({ age: { gte: 25 } }, { active: false })).toBe(5)
+      expect(await userRepo.count()).toBe(10)
+      expect((await userRepo.find({ where: { active: false } })).length).toBe(5)
+
+      expect(await userRepo.deleteMany({ active: false })).toBe(5)
+      expect(await userRepo.count()).toBe(5)
+    })
+
+    it('should require columns to set', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      await expect(userRepo.updateMany({ id: 1 }, {})).rejects.toBeInstanceOf(ValidationError)
+    })
+
+    it('should refuse an empty where unless every row is asked for', async () => {
+      const userRepo = db.getRepository<any>('users')
+      await userRepo.createMany(users(3))
+
+      await expect(userRepo.updateMany({}, { active: false })).rejects.toBeInstanceOf(ValidationError)
+      await expect(userRepo.deleteMany({})).rejects.toBeInstanceOf(ValidationError)
+      expect(await userRepo.count()).toBe(3)
+
+      expect(await userRepo.updateMany({}, { active: false }, { all: true })).toBe(3)
+      expect(await userRepo.deleteMany({}, { all: true })).toBe(3)
+      expect(await userRepo.count()).toBe(0)
+    })
+
+    it('should refuse filters that compile to no conditions', async () => {
+      const userRepo = db.getRepository<any>('users')
+      await userRepo.createMany(users(3))
+
+      for (const where of [
+        { id: undefined },
+        { AND: [] },
+        { AND: [{}, { email: undefined }] },
+        { OR: [{ id: 1 }, {}] },
+        { NOT: {} },
+        { email: { eq: undefined } },
+        { id: { notIn: [] } }
+      ]) {
+        await expect(userRepo.deleteMany(where)).rejects.toBeInstanceOf(ValidationError)
+        await expect(userRepo.updateMany(where, { active: false })).rejects.toBeInstanceOf(ValidationError)
+      }
+      expect(await userRepo.count()).toBe(3)
+
+      expect(await userRepo.deleteMany({ AND: [{}, { email: 'user1@example.com' }] })).toBe(1)
+      expect(await userRepo.count()).toBe(2)
+    })
+  })
+
+  describe('upsert', () => {
+    it('should insert new rows and update conflicting ones', async () => {
+      const userRepo = db.getRepository<any>('users')
+      await userRepo.createMany(users(3))
+
+      const rows = await userRepo.upsert(
+        [
+          { name: 'Renamed', email: 'user1@example.com', age: 99 },
+          { name: 'New', email: 'new@example.com', age: 40 }
+        ],
+        { conflictColumns: ['email'], update: ['name'] }
+      )
+
+      expect(rows).toHaveLength(2)
+      const [updated] = await userRepo.find({ where: { email: 'user1@example.com' } })
+      expect(updated.name).toBe('Renamed')
+      expect(updated.age).toBe(21)
+      expect(await userRepo.count()).toBe(4)
+    })
+
+    it('should skip conflicting rows when update is empty', async () => {
+      const userRepo = db.getRepository<any>('users')
+      await userRepo.createMany(users(2))
+
+      await userRepo.upsert([{ name: 'Ignored', email: 'user0@example.com' }], { conflictColumns: ['email'], update: [] })
+
+      const [kept] = await userRepo.find({ where: { email: 'user0@example.com' } })
+      expect(kept.name).toBe('User 0')
+    })
+  })
+
+  describe('resolveChunkSize', () => {
+    it('should respect the SQLite parameter limit', () => {
+      expect(resolveChunkSize(4, 'sqlite', { maxBatchSize: 1000 })).toBe(249)
+      expect(resolveChunkSize(4, 'sqlite', { maxBatchSize: 50 })).toBe(50)
+      expect(resolveChunkSize(4, 'sqlite', { enableBatchOperations: false })).toBe(1)
+    })
+  })
+})
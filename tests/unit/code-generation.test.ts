@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import * as ts from 'typescript'
+import { NOORMME } from '../../src/noormme.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+import type { TableInfo } from '../../src/types/index.js'
+
+// chalk is ESM-only and only colours the CLI output
+jest.mock('chalk', () => {
+  const identity: any = new Proxy((text: string) => text, { get: () => identity })
+  return { __esModule: true, default: identity }
+})
+
+import {
+  generateAutomationConfig,
+  generateRepositoryClasses,
+  generateTypeScriptTypes,
+  generateUsageExamples
+} from '../../src/cli/commands/generate.js'
+
+describe('Code generation', () => {
+  let db: NOORMME
+  let tables: TableInfo[]
+  let dir: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    await db.execute(`
+      create table accounts (
+        id integer primary key autoincrement,
+        email text not null,
+        tenant_id integer not null,
+        nickname text,
+        active boolean default 1,
+        created_at datetime default current_timestamp
+      )
+    `)
+    await db.execute('create unique index accounts_email_tenant on accounts (email, tenant_id)')
+    await db.execute(`
+      create table post_tags (
+        post_id integer not null,
+        tag_id integer not null,
+        created_at datetime,
+        primary key (post_id, tag_id)
+      )
+    `)
+    await db.execute('create table audit_log (message text not null)')
+
+    const schema = await db.refreshSchema()
+    tables = schema.tables.filter(t => ['accounts', 'post_tags', 'audit_log'].includes(t.name))
+    dir = mkdtempSync(path.join(tmpdir(), 'noormme-generate-'))
+  })
+
+  afterAll(async () => {
+    await cleanupTestDatabase(db)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should name types and finders after the parsed column names', () => {
+    const types = generateTypeScriptTypes(tables)
+
+    expect(types).toContain('export interface PostTagsTable {')
+    expect(types).toContain('findByTenantId(value: number): Promise<Accounts | null>;')
+    expect(types).toContain('findByEmailAndTenantId(email: string, tenantId: number): Promise<Accounts | null>;')
+    expect(types).toContain('findByPostIdAndTagId(postId: number, tagId: number): Promise<PostTags | null>;')
+  })
+
+  it('should generate code that type-checks', () => {
+    const files = {
+      'database.ts': generateTypeScriptTypes(tables),
+      'repositories.ts': generateRepositoryClasses(tables),
+      'automation.config.ts': generateAutomationConfig(tables),
+      'usage-examples.ts': generateUsageExamples(tables)
+    }
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(path.join(dir, name), content)
+    }
+
+    const program = ts.createProgram(Object.keys(files).map(name => path.join(dir, name)), {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      esModuleInterop: true,
+      baseUrl: path.resolve(__dirname, '../..'),
+      paths: { noormme: ['src/index.ts'] }
+    })
+
+    // Only the generated files are checked, not the library sources they import
+    const errors = ts.getPreEmitDiagnostics(program)
+      .filter(d => d.file && path.dirname(d.file.fileName) === dir)
+      .map(d => `${path.basename(d.file!.fileName)}: ${ts.flattenDiagnosticMessageText(d.messageText, '\n')}`)
+
+    expect(errors).toEqual([])
+  }, 120000)
+})
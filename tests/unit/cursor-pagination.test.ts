@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { ValidationError } from '../../src/errors/NoormError.js'
+import { encodeCursor, decodeCursor } from '../../src/repository/cursor-pagination.js'
+import { createTestDatabase, cleanupTestDatabase, TestDataFactory } from '../../src/testing/test-utils.js'
+
+describe('Cursor Pagination', () => {
+  let db: NOORMME
+  let factory: TestDataFactory
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    factory = new TestDataFactory(db)
+
+    // Duplicate ages exercise the primary key tie-breaker
+    const ages = [30, 20, 30, 40, 20, 30, 50]
+    for (let i = 0; i < ages.length; i++) {
+      await factory.createUser({ name: `User ${i + 1}`, email: `user${i + 1}@example.com`, age: ages[i] })
+    }
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  const names = (rows: any[]) => rows.map(r => r.name)
+
+  it('should walk forward through every row exactly once', async () => {
+    const userRepo = db.getRepository('users')
+    const seen: string[] = []
+    let after: string | undefined
+
+    for (;;) {
+      const page = await userRepo.paginateCursor({ limit: 3, after, orderBy: { column: 'age', direction: 'asc' } })
+      seen.push(...names(page.data))
+      if (!page.pagination.hasNext) break
+      after = page.pagination.nextCursor!
+    }
+
+    expect(seen).toEqual(['User 2', 'User 5', 'User 1', 'User 3', 'User 6', 'User 4', 'User 7'])
+  })
+
+  it('should report hasNext/hasPrev and walk backwards with before', async () => {
+    const userRepo = db.getRepository('users')
+    const orderBy = { column: 'age' as const, direction: 'desc' as const }
+
+    const first = await userRepo.paginateCursor({ limit: 3, orderBy })
+    expect(names(first.data)).toEqual(['User 7', 'User 4', 'User 6'])
+    expect(first.pagination.hasPrev).toBe(false)
+    expect(first.pagination.prevCursor).toBeNull()
+    expect(first.pagination.hasNext).toBe(true)
+
+    const second = await userRepo.paginateCursor({ limit: 3, orderBy, after: first.pagination.nextCursor! })
+    expect(names(second.data)).toEqual(['User 3', 'User 1', 'User 5'])
+    expect(second.pagination.hasPrev).toBe(true)
+
+    const back = await userRepo.paginateCursor({ limit: 3, orderBy, before: second.pagination.prevCursor! })
+    expect(names(back.data)).toEqual(names(first.data))
+    expect(back.pagination.hasPrev).toBe(false)
+    expect(back.pagination.hasNext).toBe(true)
+  })
+
+  it('should only run the count query when includeTotal is set', async () => {
+    const userRepo = db.getRepository('users')
+    const executeQuery = jest.spyOn(db.getKysely().getExecutor(), 'executeQuery')
+    const sqls = () => executeQuery.mock.calls.map(([query]) => query.sql)
+
+    const page = await userRepo.paginateCursor({ limit: 2, where: { age: { gte: 30 } } })
+    expect(page.pagination.total).toBeUndefined()
+    expect(sqls().some(sql => /count\(\*\)/i.test(sql))).toBe(false)
+    expect(sqls().some(sql => /offset/i.test(sql))).toBe(false)
+
+    const counted = await userRepo.paginateCursor({ limit: 2, where: { age: { gte: 30 } }, includeTotal: true })
+    expect(counted.pagination.total).toBe(5)
+  })
+
+  it('should page through NULL sort keys in both directions', async () => {
+    const userRepo = db.getRepository('users')
+    await userRepo.update({ ...(await userRepo.findById(3))!, age: null })
+    await userRepo.update({ ...(await userRepo.findById(5))!, age: null })
+
+    for (const direction of ['asc', 'desc'] as const) {
+      const orderBy = { column: 'age' as const, direction }
+      const forward: string[] = []
+      let after: string | undefined
+      for (;;) {
+        const page = await userRepo.paginateCursor({ limit: 2, after, orderBy })
+        forward.push(...names(page.data))
+        if (!page.pagination.hasNext) break
+        after = page.pagination.nextCursor!
+      }
+
+      // NULLs sort first ascending and last descending
+      const expected = ['User 3', 'User 5', 'User 2', 'User 1', 'User 6', 'User 4', 'User 7']
+      expect(forward).toEqual(direction === 'asc' ? expected : [
+        'User 7', 'User 4', 'User 6', 'User 1', 'User 2', 'User 5', 'User 3'
+      ])
+
+      const last = await userRepo.paginateCursor({ limit: 2, after, orderBy })
+      const back = await userRepo.paginateCursor({ limit: 10, before: last.pagination.prevCursor!, orderBy })
+      expect([...names(back.data), ...names(last.data)]).toEqual(forward)
+    }
+  })
+
+  it('should reject tampered or mismatched cursors', async () => {
+    const userRepo = db.getRepository('users')
+    const page = await userRepo.paginateCursor({ limit: 2, orderBy: { column: 'age', direction: 'asc' } })
+
+    await expect(userRepo.paginateCursor({ limit: 2, after: 'not-a-cursor' })).rejects.toBeInstanceOf(ValidationError)
+    await expect(
+      userRepo.paginateCursor({ limit: 2, after: page.pagination.nextCursor! })
+    ).rejects.toBeInstanceOf(ValidationError)
+    await expect(
+      userRepo.paginateCursor({ limit: 2, after: page.pagination.nextCursor!, before: page.pagination.nextCursor! })
+    ).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('should round-trip bigint sort keys through the cursor', () => {
+    const keys = [{ column: 'score', direction: 'asc' as const }, { column: 'id', direction: 'asc' as const }]
+    const cursor = encodeCursor({ score: 9007199254740993n, id: 1 }, keys)
+
+    expect(decodeCursor(cursor, keys)).toEqual({ score: 9007199254740993n, id: 1 })
+  })
+})
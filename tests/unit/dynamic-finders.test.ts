@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { ColumnNotFoundError, ValidationError } from '../../src/errors/NoormError.js'
+import { parseFinderMethod } from '../../src/repository/dynamic-finder.js'
+import { createTestDatabase, cleanupTestDatabase, TestDataFactory } from '../../src/testing/test-utils.js'
+import type { TableInfo } from '../../src/types/index.js'
+
+describe('Dynamic Finders', () => {
+  let db: NOORMME
+  let factory: TestDataFactory
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    factory = new TestDataFactory(db)
+
+    await factory.createUser({ name: 'Alice', email: 'alice@example.com', age: 20 })
+    await factory.createUser({ name: 'Bob', email: 'bob@example.com', age: 30 })
+    await factory.createUser({ name: 'Carol', email: 'carol@example.com', age: 40 })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  const names = (rows: any[]) => rows.map(r => r.name).sort()
+
+  describe('Prefixes', () => {
+    it('should keep findBy returning a single row', async () => {
+      const userRepo = db.getRepository('users') as any
+      const user = await userRepo.findByEmail('bob@example.com')
+
+      expect(user.name).toBe('Bob')
+      expect(await userRepo.findByEmail('nobody@example.com')).toBeNull()
+    })
+
+    it('should return all matching rows for findAllBy', async () => {
+      const userRepo = db.getRepository('users') as any
+      const users = await userRepo.findAllByActive(1)
+
+      expect(users).toHaveLength(3)
+    })
+
+    it('should support countBy, existsBy and deleteBy', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      expect(await userRepo.countByAgeGreaterThan(25)).toBe(2)
+      expect(await userRepo.existsByEmail('alice@example.com')).toBe(true)
+      expect(await userRepo.existsByEmail('nobody@example.com')).toBe(false)
+      expect(await userRepo.deleteByAgeLessThan(35)).toBe(2)
+      expect(await userRepo.count()).toBe(1)
+    })
+
+    it('should reject deleteBy finders without criteria', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      await expect(userRepo.deleteByOrderByName()).rejects.toBeInstanceOf(ValidationError)
+      expect(await userRepo.count()).toBe(3)
+    })
+
+    it('should reject undefined arguments and match NULL only for null', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      await expect(userRepo.deleteByEmail(undefined)).rejects.toBeInstanceOf(ValidationError)
+      await expect(userRepo.findAllByAgeBetween(20, undefined)).rejects.toBeInstanceOf(ValidationError)
+      expect(await userRepo.count()).toBe(3)
+
+      expect(await userRepo.deleteByEmail(null)).toBe(0)
+      expect(await userRepo.count()).toBe(3)
+    })
+
+    it('should support findFirstBy with OrderBy only', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      expect((await userRepo.findFirstByOrderByAgeDesc()).name).toBe('Carol')
+      expect((await userRepo.findFirstByOrderByAge()).name).toBe('Alice')
+    })
+
+    it('should fetch a single row for findOne finders', async () => {
+      const userRepo = db.getRepository('users') as any
+      const executeQuery = jest.spyOn(db.getKysely().getExecutor(), 'executeQuery')
+
+      await userRepo.findFirstByAgeGreaterThan(10)
+
+      expect(executeQuery.mock.calls[0][0].sql).toMatch(/ limit \?$/)
+    })
+  })
+
+  describe('Criteria', () => {
+    it('should combine predicates with And and Or', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      const bob = await userRepo.findByEmailAndName('bob@example.com', 'Bob')
+      expect(bob.name).toBe('Bob')
+      expect(await userRepo.findByEmailAndName('bob@example.com', 'Alice')).toBeNull()
+
+      const users = await userRepo.findAllByNameOrAgeGreaterThanEqual('Alice', 40)
+      expect(names(users)).toEqual(['Alice', 'Carol'])
+    })
+
+    it('should support operator keywords', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      expect(names(await userRepo.findAllByAgeBetween(25, 45))).toEqual(['Bob', 'Carol'])
+      expect(names(await userRepo.findAllByNameIn(['Alice', 'Carol']))).toEqual(['Alice', 'Carol'])
+      expect(names(await userRepo.findAllByNameStartingWith('Ca'))).toEqual(['Carol'])
+      expect(names(await userRepo.findAllByNameNot('Bob'))).toEqual(['Alice', 'Carol'])
+      expect(await userRepo.findAllByAgeIsNull()).toEqual([])
+    })
+
+    it('should apply OrderBy after criteria', async () => {
+      const userRepo = db.getRepository('users') as any
+      const users = await userRepo.findAllByAgeGreaterThanOrderByNameDesc(10)
+
+      expect(users.map((u: any) => u.name)).toEqual(['Carol', 'Bob', 'Alice'])
+    })
+  })
+
+  describe('Errors', () => {
+    it('should throw ColumnNotFoundError with suggestions', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      await expect(userRepo.countByEmial('x')).rejects.toBeInstanceOf(ColumnNotFoundError)
+
+      try {
+        await userRepo.findAllByNameAndAgeGreaterThn('Bob', 3)
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(ColumnNotFoundError)
+        expect((error as ColumnNotFoundError).message).toContain('age_greater_thn')
+      }
+    })
+
+    it('should validate the number of arguments', async () => {
+      const userRepo = db.getRepository('users') as any
+
+      await expect(userRepo.findAllByAgeBetween(1)).rejects.toBeInstanceOf(ValidationError)
+    })
+  })
+
+  describe('parseFinderMethod', () => {
+    const table: TableInfo = {
+      name: 'products',
+      columns: ['id', 'brand_name', 'tenant_id', 'order_count'].map(name => ({
+        name,
+        type: 'text',
+        nullable: true,
+        isPrimaryKey: name === 'id',
+        isAutoIncrement: false
+      })),
+      indexes: [],
+      foreignKeys: []
+    }
+
+    it('should resolve columns containing And/Or words', () => {
+      const finder = parseFinderMethod('findAllByBrandNameAndTenantId', table)!
+
+      expect(finder.arity).toBe(2)
+      expect(finder.buildWhere(['acme', 7])).toEqual({
+        AND: [{ brand_name: 'acme' }, { tenant_id: 7 }]
+      })
+    })
+
+    it('should ignore methods without a finder prefix', () => {
+      expect(parseFinderMethod('somethingElse', table)).toBeNull()
+    })
+
+    it('should parse multiple order columns', () => {
+      const finder = parseFinderMethod('findAllByTenantIdOrderByOrderCountDescBrandName', table)!
+
+      expect(finder.orderBy).toEqual([
+        { column: 'order_count', direction: 'desc' },
+        { column: 'brand_name', direction: 'asc' }
+      ])
+    })
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { ColumnNotFoundError, RelationshipNotFoundError, ValidationError } from '../../src/errors/NoormError.js'
+import { createTestDatabase, cleanupTestDatabase, TestDataFactory } from '../../src/testing/test-utils.js'
+
+describe('Repository find filters', () => {
+  let db: NOORMME
+  let factory: TestDataFactory
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    factory = new TestDataFactory(db)
+
+    await factory.createUser({ name: 'Alice', age: 20 })
+    await factory.createUser({ name: 'Bob', age: 30 })
+    await factory.createUser({ name: 'Carol', age: 40, active: false })
+    await factory.createUser({ name: 'Dave', age: null })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  const names = (rows: any[]) => rows.map(r => r.name).sort()
+
+  describe('Operators', () => {
+    it('should support comparison operators', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      expect(names(await userRepo.find({ where: { age: { gt: 20 } } }))).toEqual(['Bob', 'Carol'])
+      expect(names(await userRepo.find({ where: { age: { gte: 20, lt: 40 } } }))).toEqual(['Alice', 'Bob'])
+      expect(names(await userRepo.find({ where: { age: { ne: 30 } } }))).toEqual(['Alice', 'Carol'])
+    })
+
+    it('should support in, notIn and between', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      expect(names(await userRepo.find({ where: { name: { in: ['Alice', 'Dave'] } } }))).toEqual(['Alice', 'Dave'])
+      expect(names(await userRepo.find({ where: { age: { notIn: [20, 30] } } }))).toEqual(['Carol'])
+      expect(names(await userRepo.find({ where: { age: { between: [25, 45] } } }))).toEqual(['Bob', 'Carol'])
+      expect(await userRepo.find({ where: { name: { in: [] } } })).toEqual([])
+    })
+
+    it('should support like and null checks', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      expect(names(await userRepo.find({ where: { name: { like: '%ro%' } } }))).toEqual(['Carol'])
+      expect(names(await userRepo.find({ where: { age: { isNull: true } } }))).toEqual(['Dave'])
+      expect(names(await userRepo.find({ where: { age: null } }))).toEqual(['Dave'])
+      expect(names(await userRepo.find({ where: { age: { isNull: false } } }))).toHaveLength(3)
+    })
+  })
+
+  describe('Logical groups', () => {
+    it('should support OR groups', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const users = await userRepo.find({
+        where: { OR: [{ name: 'Alice' }, { age: { gte: 40 } }] }
+      })
+
+      expect(names(users)).toEqual(['Alice', 'Carol'])
+    })
+
+    it('should support nested AND and NOT groups', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const users = await userRepo.find({
+        where: {
+          AND: [{ age: { isNull: false } }, { NOT: { name: { in: ['Alice', 'Bob'] } } }]
+        }
+      })
+
+      expect(names(users)).toEqual(['Carol'])
+    })
+  })
+
+  describe('Relation path filters', () => {
+    it('should filter many-to-one relations', async () => {
+      const [alice] = await db.getRepository<any>('users').find({ where: { name: 'Alice' } })
+      const [bob] = await db.getRepository<any>('users').find({ where: { name: 'Bob' } })
+      await factory.createPosts(alice.id, 2)
+      await factory.createPosts(bob.id, 1)
+
+      const postRepo = db.getRepository<any>('posts')
+      const posts = await postRepo.find({ where: { 'user.email': alice.email } })
+
+      expect(posts).toHaveLength(2)
+      expect(posts.every(p => p.user_id === alice.id)).toBe(true)
+    })
+
+    it('should filter one-to-many relations', async () => {
+      const [bob] = await db.getRepository<any>('users').find({ where: { name: 'Bob' } })
+      await factory.createPost(bob.id, { title: 'Hello world' })
+
+      const userRepo = db.getRepository<any>('users')
+      const users = await userRepo.find({ where: { 'posts.title': { like: 'Hello%' } } })
+
+      expect(names(users)).toEqual(['Bob'])
+    })
+
+    it('should reject unknown relations', async () => {
+      const postRepo = db.getRepository<any>('posts')
+
+      await expect(postRepo.find({ where: { 'author.email': 'x' } }))
+        .rejects.toBeInstanceOf(RelationshipNotFoundError)
+    })
+  })
+
+  describe('Query options', () => {
+    it('should apply orderBy, limit, offset and select', async () => {
+      const userRepo = db.getRepository<any>('users')
+      const users = await userRepo.find({
+        where: { age: { isNull: false } },
+        orderBy: { column: 'age', direction: 'desc' },
+        limit: 2,
+        offset: 1,
+        select: ['name', 'age']
+      })
+
+      expect(users).toEqual([
+        { name: 'Bob', age: 30 },
+        { name: 'Alice', age: 20 }
+      ])
+    })
+
+    it('should return all rows without options', async () => {
+      const userRepo = db.getRepository<any>('users')
+      expect(await userRepo.find()).toHaveLength(4)
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject unknown columns with suggestions', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      await expect(userRepo.find({ where: { emial: 'x' } }))
+        .rejects.toBeInstanceOf(ColumnNotFoundError)
+      await expect(userRepo.find({ orderBy: { column: 'nme', direction: 'asc' } }))
+        .rejects.toBeInstanceOf(ColumnNotFoundError)
+    })
+
+    it('should reject unknown operators', async () => {
+      const userRepo = db.getRepository<any>('users')
+
+      await expect(userRepo.find({ where: { age: { greaterThan: 3 } as any } }))
+        .rejects.toBeInstanceOf(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { ValidationError } from '../../src/errors/NoormError.js'
+import { sql } from '../../src/raw-builder/sql.js'
+
+describe('Lifecycle Hooks and Validation', () => {
+  let db: NOORMME
+
+  beforeEach(async () => {
+    db = new NOORMME({
+      dialect: 'sqlite',
+      connection: { database: ':memory:' },
+      logging: { enabled: false }
+    })
+
+    await sql`
+      CREATE TABLE products (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name VARCHAR(10) NOT NULL,
+        price DECIMAL(5, 2) NOT NULL CHECK (price >= 0),
+        status TEXT DEFAULT 'draft',
+        notes TEXT,
+        CONSTRAINT status_values CHECK (status IN ('draft', 'live'))
+      )
+    `.execute(db.getKysely())
+    await db.initialize()
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  describe('Validation', () => {
+    const expectValidationError = async (promise: Promise<unknown>) => {
+      try {
+        await promise
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError)
+        return (error as ValidationError).fieldErrors
+      }
+      throw new Error('Expected a ValidationError')
+    }
+
+    it('should report missing required columns and length/precision problems per field', async () => {
+      const repo = db.getRepository<any>('products')
+
+      const fieldErrors = await expectValidationError(repo.create({ name: 'A very long name', price: 1234.5 }))
+      expect(Object.keys(fieldErrors).sort()).toEqual(['name', 'price'])
+      expect(fieldErrors.name[0]).toContain('at most 10 characters')
+
+      expect(Object.keys(await expectValidationError(repo.create({ name: 'Widget' })))).toEqual(['price'])
+      expect(Object.keys(await expectValidationError(repo.create({ name: 'Widget', price: 1.234 })))).toEqual(['price'])
+    })
+
+    it('should evaluate CHECK constraints without sending the write', async () => {
+      const repo = db.getRepository<any>('products')
+
+      expect(await expectValidationError(repo.create({ name: 'Widget', price: -1 }))).toHaveProperty('price')
+      expect(await expectValidationError(repo.create({ name: 'Widget', price: 1, status: 'gone' }))).toHaveProperty('status_values')
+      expect(await repo.count()).toBe(0)
+
+      const product = await repo.create({ name: 'Widget', price: 9.99, status: 'live' })
+      expect(product.id).toBeDefined()
+    })
+
+    it('should only check written columns on update', async () => {
+      const repo = db.getRepository<any>('products')
+      await repo.create({ name: 'Widget', price: 1 })
+
+      expect(await repo.updateMany({ name: 'Widget' }, { notes: 'ok' })).toBe(1)
+      await expectValidationError(repo.updateMany({ name: 'Widget' }, { name: null }))
+      await expectValidationError(repo.createMany([{ name: 'Ok', price: 1 }, { name: 'Bad', price: -5 }]))
+      expect(await repo.count()).toBe(1)
+    })
+
+    it('should evaluate each CHECK constraint once per batch', async () => {
+      const repo = db.getRepository<any>('products')
+      const executeQuery = jest.spyOn(db.getKysely().getExecutor(), 'executeQuery')
+      const rows = Array.from({ length: 20 }, (_, i) => ({ name: `P${i}`, price: i, status: 'live' }))
+
+      await repo.createMany(rows)
+
+      const checks = executeQuery.mock.calls.filter(([query]) => /^with /i.test(query.sql))
+      expect(checks).toHaveLength(2)
+      expect(await repo.count()).toBe(20)
+    })
+  })
+
+  describe('Hooks', () => {
+    it('should run create, update and delete hooks in order', async () => {
+      const events: string[] = []
+      db.registerHooks<any>('products', {
+        beforeCreate: data => {
+          events.push('beforeCreate')
+          return { ...data, name: data.name!.trim() }
+        },
+        afterCreate: entity => { events.push(`afterCreate:${entity.name}`) },
+        beforeUpdate: entity => { events.push('beforeUpdate'); entity.notes = 'touched' },
+        afterUpdate: entity => { events.push(`afterUpdate:${entity.notes}`) },
+        beforeDelete: id => { events.push(`beforeDelete:${id}`) },
+        afterDelete: id => { events.push(`afterDelete:${id}`) }
+      })
+      const repo = db.getRepository<any>('products')
+
+      const product = await repo.create({ name: '  Widget ', price: 1 })
+      await repo.update({ ...product, price: 2 })
+      await repo.delete(product.id)
+      await repo.delete(product.id)
+
+      expect(events).toEqual([
+        'beforeCreate',
+        'afterCreate:Widget',
+        'beforeUpdate',
+        'afterUpdate:touched',
+        `beforeDelete:${product.id}`,
+        `afterDelete:${product.id}`,
+        `beforeDelete:${product.id}`
+      ])
+    })
+
+    it('should run create hooks in upsert and delete hooks in bulk deletes', async () => {
+      const events: string[] = []
+      db.registerHooks<any>('products', {
+        beforeCreate: data => ({ ...data, name: data.name!.toUpperCase() }),
+        beforeDelete: id => { events.push(`beforeDelete:${id}`) },
+        afterDelete: id => { events.push(`afterDelete:${id}`) }
+      })
+      const repo = db.getRepository('products') as any
+      await repo.createMany([{ name: 'a', price: 1 }, { name: 'b', price: 2 }, { name: 'c', price: 3 }])
+
+      const [upserted] = await repo.upsert([{ id: 3, name: 'd', price: 4 }], { conflictColumns: ['id'] })
+      expect(upserted.name).toBe('D')
+
+      expect(await repo.deleteMany({ price: { lt: 2 } })).toBe(1)
+      expect(await repo.deleteByName('B')).toBe(1)
+      expect(events).toEqual(['beforeDelete:1', 'afterDelete:1', 'beforeDelete:2', 'afterDelete:2'])
+    })
+
+    it('should run afterCreate or afterUpdate for every upserted row', async () => {
+      const events: string[] = []
+      const repo = db.getRepository('products') as any
+      await repo.create({ name: 'a', price: 1 })
+      db.registerHooks<any>('products', {
+        afterCreate: entity => { events.push(`afterCreate:${entity.name}`) },
+        afterUpdate: entity => { events.push(`afterUpdate:${entity.name}`) }
+      })
+
+      await repo.upsert([{ id: 1, name: 'b', price: 2 }, { id: 2, name: 'c', price: 3 }], { conflictColumns: ['id'] })
+
+      expect(events).toEqual(['afterUpdate:b', 'afterCreate:c'])
+    })
+
+    it('should run hooks and validation for the objects helpers', async () => {
+      const events: string[] = []
+      db.registerHooks<any>('products', {
+        afterCreate: entity => { events.push(`afterCreate:${entity.name}`) },
+        afterUpdate: entity => { events.push(`afterUpdate:${entity.price}`) }
+      })
+      const repo = db.getRepository('products') as any
+
+      const product = await repo.objects.create({ name: 'Widget', price: 1 })
+      await repo.objects.update(product.id, { price: 2 })
+      await expect(repo.objects.update(product.id, { price: -1 })).rejects.toBeInstanceOf(ValidationError)
+      await expect(repo.objects.create({ name: 'Widget', price: 1, status: 'gone' })).rejects.toBeInstanceOf(ValidationError)
+
+      expect(events).toEqual(['afterCreate:Widget', 'afterUpdate:2'])
+    })
+
+    it('should run afterLoad for every read path and support unregistering', async () => {
+      const repo = db.getRepository('products') as any
+      await repo.createMany([{ name: 'A', price: 1 }, { name: 'B', price: 2 }])
+
+      const unregister = db.registerHooks<any>('products', {
+        afterLoad: entity => { entity.label = `${entity.name}:${entity.price}` }
+      })
+
+      expect((await repo.findById(1)).label).toBe('A:1')
+      expect((await repo.findAll()).map((p: any) => p.label)).toEqual(['A:1', 'B:2'])
+      expect((await repo.find({ where: { name: 'B' } }))[0].label).toBe('B:2')
+      expect((await repo.findByName('A')).label).toBe('A:1')
+      expect((await repo.paginate({ page: 1, limit: 1 })).data[0].label).toBeDefined()
+
+      unregister()
+      expect((await repo.findById(1)).label).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import {
+  describePostgresPlan,
+  describeTableAccesses,
+  findPostgresPlanIssues,
+  PostgresPlanNode
+} from '../../src/dialect/postgresql/postgresql-index-advisor.js'
+import { buildIndexCandidates } from '../../src/performance/utils/index-candidates.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Index advisor', () => {
+  let db: NOORMME
+
+  const postsByTitle = () => db.getKysely()
+    .selectFrom('posts as p')
+    .selectAll()
+    .where('p.title', '=', 'Hello')
+    .orderBy('p.created_at')
+    .compile().sql
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should confirm candidate indexes with the SQLite query planner', async () => {
+    const advice = await db.adviseIndexes({
+      queries: [
+        { sql: postsByTitle(), frequency: 30 },
+        { sql: 'select title from posts where published = 1 order by created_at desc limit 10', frequency: 5 },
+        // Already served by idx_posts_user_id
+        { sql: 'select * from posts where user_id = ?', frequency: 50 }
+      ]
+    })
+
+    expect(advice).toHaveLength(2)
+    const [composite, partial] = advice
+
+    expect(composite.verified).toBe(true)
+    expect(composite.issues.map(i => `${i.kind}:${i.table ?? ''}`)).toEqual(['full_scan:posts', 'sort:'])
+    expect(composite.planBefore).toEqual(['SCAN p', 'USE TEMP B-TREE FOR ORDER BY'])
+    expect(composite.planAfter).toEqual(['SEARCH p USING INDEX idx_posts_title_created_at (title=?)'])
+    expect(composite.recommendation).toMatchObject({
+      table: 'posts',
+      columns: ['title', 'created_at'],
+      type: 'composite',
+      priority: 'high',
+      sql: 'CREATE INDEX "idx_posts_title_created_at" ON "posts" ("title", "created_at")'
+    })
+
+    // A one-column partial index beats the wider composite and covering candidates
+    expect(partial.recommendation.type).toBe('partial')
+    expect(partial.recommendation.sql).toBe(
+      'CREATE INDEX "idx_posts_created_at_partial" ON "posts" ("created_at") WHERE "published" = 1'
+    )
+    expect(partial.planAfter.join('\n')).toContain('idx_posts_created_at_partial')
+  })
+
+  it('should advise on recorded query patterns', async () => {
+    for (let i = 0; i < 3; i++) db.recordQuery(postsByTitle(), 2, 'posts')
+    db.recordQuery('select * from users where age > ?', 2, 'users')
+
+    const advice = await db.adviseIndexes()
+
+    expect(advice.map(a => a.recommendation.columns)).toEqual([['title', 'created_at']])
+    expect(advice[0].frequency).toBe(3)
+  })
+
+  it('should read candidates from PostgreSQL JSON plans', () => {
+    const plan: PostgresPlanNode = {
+      'Node Type': 'Sort',
+      'Sort Key': ['p.created_at DESC'],
+      Plans: [{
+        'Node Type': 'Seq Scan',
+        'Relation Name': 'posts',
+        Alias: 'p',
+        Filter: '(((title)::text = $1) AND (deleted_at IS NULL))'
+      }]
+    }
+
+    expect(describePostgresPlan(plan)).toEqual([
+      'Sort (Sort Key: p.created_at DESC)',
+      '  Seq Scan on posts p (Filter: (((title)::text = $1) AND (deleted_at IS NULL)))'
+    ])
+    expect(findPostgresPlanIssues(plan).map(i => i.kind)).toEqual(['sort', 'full_scan'])
+
+    const [access] = describeTableAccesses(plan)
+    expect(access).toMatchObject({
+      table: 'posts',
+      equality: ['title', 'deleted_at'],
+      orderBy: ['created_at'],
+      literals: [{ column: 'deleted_at', predicate: '"deleted_at" IS NULL' }]
+    })
+    expect(buildIndexCandidates(access).map(c => [c.type, c.columns, c.where])).toEqual([
+      ['composite', ['title', 'deleted_at', 'created_at'], undefined],
+      ['single', ['title'], undefined],
+      ['partial', ['title', 'created_at'], '"deleted_at" IS NULL']
+    ])
+  })
+})
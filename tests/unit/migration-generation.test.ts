@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import { NOORMME } from '../../src/noormme.js'
+import { Logger } from '../../src/logging/logger.js'
+import { sql } from '../../src/raw-builder/sql.js'
+import { SQLiteMigrationManager } from '../../src/sqlite-migration/sqlite-migration-manager.js'
+import { MigrationError } from '../../src/errors/NoormError.js'
+import { introspectSQLiteSchema } from '../../src/migration/schema_introspector.js'
+import { generateSQLiteMigration } from '../../src/migration/sqlite_migration_generator.js'
+import type { TableSchema } from '../../src/migration/migration-types.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+// Jest has no native import(), so schema modules are loaded with its require
+jest.mock('../../src/util/import-module.js', () => ({
+  ...jest.requireActual<object>('../../src/util/import-module.js'),
+  importFile: jest.fn(async (url: string) => require(fileURLToPath(url)))
+}))
+
+describe('Migration generation from a schema file', () => {
+  let db: NOORMME
+  let dir: string
+  let manager: SQLiteMigrationManager
+
+  const authors: TableSchema = {
+    name: 'authors',
+    columns: [
+      { name: 'id', type: 'INTEGER', nullable: false, primaryKey: true, autoIncrement: true },
+      { name: 'name', type: 'TEXT', nullable: false },
+      { name: 'email', type: 'TEXT', nullable: false, unique: true },
+      { name: 'rating', type: 'TEXT', nullable: true }
+    ],
+    indexes: [{ name: 'idx_authors_name', tableName: 'authors', columns: ['name'], unique: false }],
+    foreignKeys: [],
+    constraints: [{ type: 'CHECK', expression: "length(name) > 0" }]
+  }
+
+  const books: TableSchema = {
+    name: 'books',
+    columns: [
+      { name: 'id', type: 'INTEGER', nullable: false, primaryKey: true },
+      { name: 'author_id', type: 'INTEGER', nullable: false },
+      { name: 'title', type: 'TEXT', nullable: false, defaultValue: "'Untitled'" }
+    ],
+    indexes: [],
+    foreignKeys: [{ columns: ['author_id'], referencedTable: 'authors', referencedColumns: ['id'], onDelete: 'CASCADE' }],
+    constraints: []
+  }
+
+  const writeSchema = (tables: TableSchema[]) => {
+    const file = path.join(dir, 'schema.json')
+    writeFileSync(file, JSON.stringify(tables))
+    return file
+  }
+
+  const generateAndApply = async (name: string, tables: TableSchema[]) => {
+    const generated = await manager.generateMigration(name, { schemaFile: writeSchema(tables) })
+    await manager.migrateToLatest()
+    return generated
+  }
+
+  beforeEach(async () => {
+    db = await createTestDatabase()
+    dir = mkdtempSync(path.join(tmpdir(), 'noormme-generate-'))
+    manager = new SQLiteMigrationManager(
+      db.getKysely(),
+      { migrationDirectory: path.join(dir, 'migrations'), enableAutoOptimization: false },
+      new Logger({ enabled: false })
+    )
+    await sql`PRAGMA foreign_keys = ON`.execute(db.getKysely())
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should create tables and produce no migration once the database matches', async () => {
+    const generated = await generateAndApply('init', [authors, books])
+
+    expect(generated!.differences.map(d => d.type)).toEqual(['table_added', 'table_added'])
+    expect(generated!.content).toContain('CREATE INDEX "idx_authors_name"')
+
+    expect(await manager.generateMigration('again', { schemaFile: writeSchema([authors, books]) })).toBeNull()
+  })
+
+  it('should use ALTER TABLE for nullable column additions', async () => {
+    await generateAndApply('init', [authors])
+
+    const withBio: TableSchema = {
+      ...authors,
+      columns: [...authors.columns, { name: 'bio', type: 'TEXT', nullable: true }]
+    }
+    const generated = await manager.generateMigration('add_bio', { schemaFile: writeSchema([withBio]) })
+
+    expect(generated!.content).toContain('ALTER TABLE "authors" ADD COLUMN "bio" TEXT;')
+    expect(generated!.content).toContain('ALTER TABLE "authors" DROP COLUMN "bio";')
+    expect(generated!.content).not.toContain('authors_new')
+  })
+
+  it('should rebuild tables for changes ALTER TABLE cannot make, keeping data and children', async () => {
+    await generateAndApply('init', [authors, books])
+    const kysely = db.getKysely()
+    await kysely.insertInto('authors').values({ name: 'Ann', email: 'ann@example.com', rating: '4' }).execute()
+    await kysely.insertInto('books').values({ author_id: 1, title: 'First' }).execute()
+
+    const changed: TableSchema = {
+      ...authors,
+      columns: [
+        authors.columns[0],
+        authors.columns[1],
+        { name: 'email', type: 'TEXT', nullable: true, unique: true },
+        { name: 'rating', type: 'INTEGER', nullable: true, defaultValue: '0' }
+      ]
+    }
+    const generated = await generateAndApply('change_authors', [changed, books])
+
+    expect(generated!.content).toContain('-- Rebuild "authors"')
+    expect(generated!.content).toContain('ALTER TABLE "authors_new" RENAME TO "authors";')
+
+    const author = await kysely.selectFrom('authors').selectAll().executeTakeFirstOrThrow()
+    expect(author).toMatchObject({ name: 'Ann', email: 'ann@example.com', rating: 4 })
+    // Dropping the old table must not cascade into books
+    expect(await kysely.selectFrom('books').selectAll().execute()).toHaveLength(1)
+    expect(await manager.generateMigration('again', { schemaFile: writeSchema([changed, books]) })).toBeNull()
+
+    // Rolling back rebuilds the previous definition
+    await manager.rollbackLastMigration()
+    const current = await introspectSQLiteSchema(kysely)
+    expect(generateSQLiteMigration(current, [authors, books]).differences).toEqual([])
+    expect(await kysely.selectFrom('authors').select('email').executeTakeFirst()).toEqual({ email: 'ann@example.com' })
+  })
+
+  it('should drop removed columns and tables with warnings', async () => {
+    await generateAndApply('init', [authors, books])
+
+    const withoutRating: TableSchema = { ...authors, columns: authors.columns.slice(0, 3) }
+    const generated = await manager.generateMigration('cleanup', { schemaFile: writeSchema([withoutRating]) })
+
+    expect(generated!.differences.map(d => d.type)).toEqual(['column_removed', 'table_removed'])
+    expect(generated!.warnings).toHaveLength(2)
+
+    const up = generated!.content.split('-- migrate:down')[0]
+    expect(up).toContain('DROP TABLE "books";')
+    expect(up).toContain('INSERT INTO "authors_new" ("id", "name", "email") SELECT "id", "name", "email" FROM "authors";')
+  })
+
+  it('should load TypeScript schema files', async () => {
+    const file = path.join(dir, 'schema.ts')
+    writeFileSync(file, `export default ${JSON.stringify([{ name: 'tags', columns: [{ name: 'id', type: 'INTEGER', primaryKey: true }] }])}`)
+
+    const generated = await manager.generateMigration('tags', { schemaFile: file })
+
+    expect(readFileSync(generated!.filePath, 'utf8')).toContain('CREATE TABLE "tags"')
+  })
+
+  it('should refuse to generate while migrations are pending', async () => {
+    await manager.generateMigration('init', { schemaFile: writeSchema([authors]) })
+
+    await expect(
+      manager.generateMigration('next', { schemaFile: writeSchema([authors, books]) })
+    ).rejects.toBeInstanceOf(MigrationError)
+  })
+})
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { NOORMME } from '../../src/noormme.js'
+import { Logger } from '../../src/logging/logger.js'
+import { SQLiteMigrationManager } from '../../src/sqlite-migration/sqlite-migration-manager.js'
+import { splitStatements } from '../../src/sqlite-migration/sqlite-migration-provider.js'
+import {
+  MigrationChecksumError,
+  MigrationError,
+  MigrationLockError
+} from '../../src/errors/NoormError.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+import { importFile } from '../../src/util/import-module.js'
+
+// Jest has no native import(), so migration modules are loaded with its require
+jest.mock('../../src/util/import-module.js', () => ({
+  ...jest.requireActual<object>('../../src/util/import-module.js'),
+  importFile: jest.fn(async (url: string) => require(fileURLToPath(url)))
+}))
+
+describe('Migrations', () => {
+  let db: NOORMME
+  let dir: string
+  let manager: SQLiteMigrationManager
+
+  const write = (fileName: string, content: string) =>
+    writeFileSync(path.join(dir, fileName), content)
+
+  const tables = async () => {
+    const rows = await db.getKysely()
+      .selectFrom('sqlite_master')
+      .select('name')
+      .where('type', '=', 'table')
+      .where('name', 'in', ['accounts', 'projects', 'tags'])
+      .execute()
+    return rows.map(r => r.name).sort()
+  }
+
+  beforeEach(async () => {
+    db = await createTestDatabase()
+    dir = mkdtempSync(path.join(tmpdir(), 'noormme-migrations-'))
+    manager = new SQLiteMigrationManager(
+      db.getKysely(),
+      { migrationDirectory: dir, enableAutoOptimization: false },
+      new Logger({ enabled: false })
+    )
+
+    write('001_create_accounts.sql', `
+-- migrate:up
+CREATE TABLE accounts (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+INSERT INTO accounts (name) VALUES ('semi;colon');
+
+-- migrate:down
+DROP TABLE accounts;
+`)
+    write('002_create_projects.sql', `
+-- migrate:up
+CREATE TABLE projects (id INTEGER PRIMARY KEY, account_id INTEGER, touched INTEGER DEFAULT 0);
+CREATE TRIGGER projects_touch AFTER UPDATE ON projects BEGIN
+  UPDATE projects SET touched = touched + 1 WHERE id = NEW.id AND NEW.touched = OLD.touched;
+END;
+
+-- migrate:down
+DROP TABLE projects;
+`)
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should apply pending migrations in order and record them', async () => {
+    write('010_create_tags.sql', 'CREATE TABLE tags (id INTEGER PRIMARY KEY);')
+
+    const result = await manager.migrateToLatest()
+
+    expect(result.migrationsApplied.map(m => m.name)).toEqual([
+      '001_create_accounts',
+      '002_create_projects',
+      '010_create_tags'
+    ])
+    expect(result.currentVersion).toBe('010')
+    expect(await tables()).toEqual(['accounts', 'projects', 'tags'])
+
+    const status = await manager.getMigrationStatus()
+    expect(status.pendingMigrations).toHaveLength(0)
+    expect(status.appliedMigrations.map(m => m.checksum)).toEqual(
+      status.availableMigrations.map(m => m.checksum)
+    )
+
+    expect((await manager.migrateToLatest()).migrationsApplied).toHaveLength(0)
+  })
+
+  it('should roll back with down sections', async () => {
+    await manager.migrateToLatest()
+
+    const rollback = await manager.rollbackLastMigration()
+    expect(rollback.migration?.name).toBe('002_create_projects')
+    expect(rollback.currentVersion).toBe('001')
+    expect(await tables()).toEqual(['accounts'])
+
+    const down = await manager.migrateToVersion('0')
+    expect(down.migrationsRolledBack.map(m => m.name)).toEqual(['001_create_accounts'])
+    expect(await tables()).toEqual([])
+
+    const up = await manager.migrateToVersion('001')
+    expect(up.migrationsApplied.map(m => m.name)).toEqual(['001_create_accounts'])
+    expect(up.currentVersion).toBe('001')
+  })
+
+  it('should run TypeScript migrations exporting up and down', async () => {
+    write('003_create_tags.ts', `
+export async function up(db: any) {
+  await db.schema.createTable('tags').addColumn('id', 'integer', (col: any) => col.primaryKey()).execute()
+}
+
+export async function down(db: any) {
+  await db.schema.dropTable('tags').execute()
+}
+`)
+
+    await manager.migrateToLatest()
+    expect(await tables()).toEqual(['accounts', 'projects', 'tags'])
+    expect(importFile).toHaveBeenCalledWith(pathToFileURL(path.join(dir, '003_create_tags.ts')).href)
+
+    await manager.rollbackLastMigration()
+    expect(await tables()).toEqual(['accounts', 'projects'])
+  })
+
+  it('should roll back a failing migration and keep earlier ones', async () => {
+    write('003_broken.sql', `
+CREATE TABLE tags (id INTEGER PRIMARY KEY);
+INSERT INTO missing_table VALUES (1);
+`)
+
+    await expect(manager.migrateToLatest()).rejects.toBeInstanceOf(MigrationError)
+
+    expect(await tables()).toEqual(['accounts', 'projects'])
+    const status = await manager.getMigrationStatus()
+    expect(status.currentVersion).toBe('002')
+    expect(status.pendingMigrations.map(m => m.name)).toEqual(['003_broken'])
+
+    // The lock is released after a failure
+    write('003_broken.sql', 'CREATE TABLE tags (id INTEGER PRIMARY KEY);')
+    await manager.migrateToLatest()
+    expect(await tables()).toEqual(['accounts', 'projects', 'tags'])
+  })
+
+  it('should refuse to run when an applied migration was modified', async () => {
+    await manager.migrateToLatest()
+    write('001_create_accounts.sql', 'CREATE TABLE accounts (id INTEGER PRIMARY KEY, email TEXT);')
+
+    const status = await manager.getMigrationStatus()
+    expect(status.modifiedMigrations.map(m => m.name)).toEqual(['001_create_accounts'])
+
+    await expect(manager.migrateToLatest()).rejects.toBeInstanceOf(MigrationChecksumError)
+    await expect(manager.rollbackLastMigration()).rejects.toBeInstanceOf(MigrationChecksumError)
+  })
+
+  it('should not run while another process holds the lock', async () => {
+    await manager.initialize()
+    await db.getKysely()
+      .updateTable('_noormme_migrations_lock')
+      .set({ is_locked: 1, locked_at: new Date().toISOString() })
+      .execute()
+
+    await expect(manager.migrateToLatest()).rejects.toBeInstanceOf(MigrationLockError)
+    expect(await tables()).toEqual([])
+
+    const expired = new SQLiteMigrationManager(
+      db.getKysely(),
+      { migrationDirectory: dir, enableAutoOptimization: false, lockTimeout: 0 },
+      new Logger({ enabled: false })
+    )
+    await new Promise(resolve => setTimeout(resolve, 5))
+    expect((await expired.migrateToLatest()).migrationsApplied).toHaveLength(2)
+  })
+
+  it('should stop when another process takes over the lock mid-run', async () => {
+    const provider = (manager as any).provider
+    const loadMigration = provider.loadMigration.bind(provider)
+    jest.spyOn(provider, 'loadMigration').mockImplementation(async (migration: any) => {
+      if (migration.name === '002_create_projects') {
+        await db.getKysely()
+          .updateTable('_noormme_migrations_lock')
+          .set({ locked_at: new Date(Date.now() + 1000).toISOString() })
+          .execute()
+      }
+      return loadMigration(migration)
+    })
+
+    await expect(manager.migrateToLatest()).rejects.toBeInstanceOf(MigrationLockError)
+    expect(await tables()).toEqual(['accounts'])
+
+    // The other process keeps its lock
+    const lock = await db.getKysely()
+      .selectFrom('_noormme_migrations_lock')
+      .select('is_locked')
+      .executeTakeFirstOrThrow()
+    expect(lock.is_locked).toBe(1)
+  })
+
+  it('should generate an empty migration file', async () => {
+    const generated = await manager.generateMigration('Add user roles')
+
+    expect(generated).not.toBeNull()
+    expect(generated!.fileName).toMatch(/^\d{14}_add_user_roles\.sql$/)
+    const status = await manager.getMigrationStatus()
+    expect(status.pendingMigrations.map(m => m.description)).toContain('add_user_roles')
+  })
+
+  it('should split statements outside quotes, comments and trigger bodies', () => {
+    expect(splitStatements(`
+      -- comment; not a statement
+      INSERT INTO t VALUES ('a;b', "c;d");
+      /* block; comment */
+      CREATE TRIGGER x AFTER INSERT ON t BEGIN
+        UPDATE t SET v = CASE WHEN NEW.v > 0 THEN 1 ELSE 0 END;
+        DELETE FROM u;
+      END;
+      SELECT 1
+    `)).toHaveLength(3)
+  })
+})
@@ -0,0 +1,297 @@
+import { describe, it, expect } from '@jest/globals'
+import { Kysely } from '../../src/kysely.js'
+import { sql } from '../../src/raw-builder/sql.js'
+import { MysqlDialect } from '../../src/dialect/mysql/mysql-dialect.js'
+import { MysqlAdapter } from '../../src/dialect/mysql/mysql-adapter.js'
+import type {
+  MysqlPool,
+  MysqlPoolConnection,
+  MysqlQueryResult
+} from '../../src/dialect/mysql/mysql-dialect-config.js'
+import { SchemaDiscovery } from '../../src/schema/schema-discovery.js'
+import { RepositoryFactory } from '../../src/repository/repository-factory.js'
+import type { TableInfo } from '../../src/types/index.js'
+
+/**
+ * A mysql2 pool stand-in that answers every query with `respond`
+ */
+function createPool(respond: (sql: string, parameters: ReadonlyArray<unknown>) => MysqlQueryResult = () => []) {
+  const queries: string[] = []
+  const state = { released: 0, ended: false }
+
+  const connection = {
+    query: (sql: string, parameters: ReadonlyArray<unknown>, callback: (error: unknown, result: MysqlQueryResult) => void) => {
+      queries.push(sql)
+      try {
+        callback(null, respond(sql, parameters))
+      } catch (error) {
+        callback(error, [])
+      }
+    },
+    release: () => { state.released++ }
+  } as unknown as MysqlPoolConnection
+
+  const pool: MysqlPool = {
+    getConnection: (callback) => callback(null, connection),
+    end: (callback) => {
+      state.ended = true
+      callback(null)
+    }
+  }
+
+  return { pool, queries, state }
+}
+
+const okPacket = (affectedRows: number, insertId = 0) => ({ affectedRows, changedRows: 0, insertId })
+
+describe('MySQL dialect', () => {
+  it('should compile MySQL syntax', () => {
+    const db = new Kysely<any>({ dialect: new MysqlDialect({ pool: createPool().pool }) })
+
+    const upsert = db
+      .insertInto('users')
+      .values({ email: 'ann@example.com', name: 'Ann' })
+      .onDuplicateKeyUpdate({ name: 'Ann' })
+      .compile()
+    expect(upsert.sql).toBe(
+      'insert into `users` (`email`, `name`) values (?, ?) on duplicate key update `name` = ?'
+    )
+    expect(upsert.parameters).toEqual(['ann@example.com', 'Ann', 'Ann'])
+
+    expect(sql`select ${sql.lit("it's \\")}`.compile(db).sql).toBe("select 'it''s \\\\'")
+    expect(db.schema.createIndex('idx_users_email').on('users').column('email').using('btree').compile().sql).toBe(
+      'create index `idx_users_email` using btree on `users` (`email`)'
+    )
+  })
+
+  it('should run queries and transactions through a mysql2 pool', async () => {
+    const { pool, queries, state } = createPool(query =>
+      query.startsWith('insert') ? okPacket(1, 42) : query.startsWith('select') ? [{ id: 42 }] : okPacket(0)
+    )
+    const db = new Kysely<any>({ dialect: new MysqlDialect({ pool }) })
+
+    const inserted = await db.insertInto('users').values({ name: 'Ann' }).executeTakeFirst()
+    expect(inserted.insertId).toBe(42n)
+    expect(inserted.numInsertedOrUpdatedRows).toBe(1n)
+
+    await db.transaction().setIsolationLevel('serializable').execute(async (trx) => {
+      await trx.selectFrom('users').selectAll().execute()
+    })
+    expect(queries.slice(1)).toEqual([
+      'set transaction isolation level serializable',
+      'begin',
+      'select * from `users`',
+      'commit'
+    ])
+    expect(state.released).toBe(2)
+
+    await db.destroy()
+    expect(state.ended).toBe(true)
+  })
+
+  it('should serialize migrations with a named lock', async () => {
+    let acquired = 1
+    const { pool, queries } = createPool(query => query.includes('get_lock') ? [{ acquired }] : [{}])
+    const db = new Kysely<any>({ dialect: new MysqlDialect({ pool }) })
+    const adapter = new MysqlAdapter()
+    const options = { lockTable: 'kysely_migration_lock', lockRowId: 'migration_lock' }
+
+    await adapter.acquireMigrationLock(db, options)
+    await adapter.releaseMigrationLock(db, options)
+    expect(queries).toEqual([
+      "select get_lock('noormme_migration_lock:kysely_migration_lock', 3600) as acquired",
+      "select release_lock('noormme_migration_lock:kysely_migration_lock')"
+    ])
+
+    acquired = 0
+    await expect(adapter.acquireMigrationLock(db, options)).rejects.toThrow('migration lock')
+  })
+
+  it('should discover tables, indexes and foreign keys from information_schema', async () => {
+    const column = (name: string, type: string, extra: Partial<Record<string, unknown>> = {}) => ({
+      COLUMN_NAME: name,
+      COLUMN_DEFAULT: null,
+      IS_NULLABLE: 'NO',
+      DATA_TYPE: type.split('(')[0],
+      COLUMN_TYPE: type,
+      COLUMN_KEY: '',
+      EXTRA: '',
+      CHARACTER_MAXIMUM_LENGTH: null,
+      NUMERIC_PRECISION: null,
+      NUMERIC_SCALE: null,
+      ...extra
+    })
+    const { pool } = createPool((query, [table]) => {
+      if (query.includes('information_schema.TABLES')) {
+        return ['users', 'posts', '_noormme_migrations'].map(name => ({ TABLE_NAME: name, TABLE_SCHEMA: 'app' }))
+      }
+      if (query.includes('information_schema.COLUMNS')) {
+        return table === 'users'
+          ? [
+              column('id', 'int', { COLUMN_KEY: 'PRI', EXTRA: 'auto_increment' }),
+              column('email', 'varchar(255)', { CHARACTER_MAXIMUM_LENGTH: 255 }),
+              column('active', 'tinyint(1)')
+            ]
+          : [
+              column('id', 'bigint', { COLUMN_KEY: 'PRI', EXTRA: 'auto_increment' }),
+              column('user_id', 'int', { COLUMN_KEY: 'MUL' }),
+              column('price', 'decimal(10,2)', { NUMERIC_PRECISION: 10, NUMERIC_SCALE: 2 })
+            ]
+      }
+      if (query.includes('information_schema.STATISTICS')) {
+        return table === 'users'
+          ? [
+              { INDEX_NAME: 'PRIMARY', COLUMN_NAME: 'id', NON_UNIQUE: 0 },
+              { INDEX_NAME: 'users_email_unique', COLUMN_NAME: 'email', NON_UNIQUE: 0 }
+            ]
+          : [{ INDEX_NAME: 'posts_user_id_foreign', COLUMN_NAME: 'user_id', NON_UNIQUE: 1 }]
+      }
+      if (query.includes('information_schema.KEY_COLUMN_USAGE')) {
+        return table === 'posts'
+          ? [{
+              CONSTRAINT_NAME: 'posts_user_id_foreign',
+              COLUMN_NAME: 'user_id',
+              REFERENCED_TABLE_NAME: 'users',
+              REFERENCED_COLUMN_NAME: 'id',
+              DELETE_RULE: 'CASCADE',
+              UPDATE_RULE: 'RESTRICT'
+            }]
+          : []
+      }
+      return []
+    })
+    const dialect = new MysqlDialect({ pool })
+    const db = new Kysely<any>({ dialect })
+
+    const schema = await new SchemaDiscovery(db, {}, dialect).discoverSchema()
+
+    expect(schema.tables.map(t => t.name)).toEqual(['users', 'posts'])
+    const [users, posts] = schema.tables
+    expect(users.primaryKey).toEqual(['id'])
+    expect(users.columns.map(c => [c.name, c.type, c.isAutoIncrement])).toEqual([
+      ['id', 'number', true],
+      ['email', 'string', false],
+      ['active', 'boolean', false]
+    ])
+    expect(users.columns[1].maxLength).toBe(255)
+    expect(users.indexes).toEqual([
+      { name: 'PRIMARY', columns: ['id'], unique: true },
+      { name: 'users_email_unique', columns: ['email'], unique: true }
+    ])
+    expect(posts.columns[2]).toMatchObject({ type: 'number', precision: 10, scale: 2 })
+    expect(posts.foreignKeys).toEqual([{
+      name: 'posts_user_id_foreign',
+      column: 'user_id',
+      referencedTable: 'users',
+      referencedColumn: 'id',
+      onDelete: 'CASCADE',
+      onUpdate: 'RESTRICT'
+    }])
+    expect(schema.relationships.map(r => `${r.fromTable}.${r.fromColumn}->${r.toTable}.${r.toColumn}`)).toContain(
+      'posts.user_id->users.id'
+    )
+  })
+
+  it('should read written rows back without RETURNING', async () => {
+    const stored = new Map<number, Record<string, unknown>>()
+    const { pool, queries } = createPool((query, parameters) => {
+      if (query.startsWith('insert')) {
+        const firstId = stored.size + 1
+        let affectedRows = 0
+        for (let i = 0; i < parameters.length; i += 2) {
+          const [email, name] = parameters.slice(i, i + 2)
+          const existing = Array.from(stored.values()).find(row => row.email === email)
+          if (existing) {
+            existing.name = name
+            affectedRows += 2
+          } else {
+            stored.set(stored.size + 1, { id: stored.size + 1, email, name })
+            affectedRows++
+          }
+        }
+        return okPacket(affectedRows, firstId)
+      }
+      if (query.startsWith('update')) {
+        return okPacket(1)
+      }
+      if (query.includes('>=')) {
+        const [from, to] = parameters.map(Number)
+        return Array.from(stored.values()).filter(row => (row.id as number) >= from && (row.id as number) < to)
+      }
+      if (query.includes('`email` in')) {
+        return Array.from(stored.values()).filter(row => parameters.includes(row.email))
+      }
+      return [stored.get(Number(parameters[parameters.length - 1]))!]
+    })
+    const db = new Kysely<any>({ dialect: new MysqlDialect({ pool }) })
+    const table: TableInfo = {
+      name: 'users',
+      primaryKey: ['id'],
+      columns: [
+        { name: 'id', type: 'number', nullable: false, isPrimaryKey: true, isAutoIncrement: true },
+        { name: 'email', type: 'string', nullable: false, isPrimaryKey: false, isAutoIncrement: false },
+        { name: 'name', type: 'string', nullable: true, isPrimaryKey: false, isAutoIncrement: false }
+      ],
+      indexes: [],
+      foreignKeys: []
+    }
+    const users = new RepositoryFactory(db, {}, 'mysql', { users: { validate: false } })
+      .createRepository<any>(table, [])
+
+    expect(await users.create({ email: 'ann@example.com', name: 'Ann' })).toEqual({ id: 1, email: 'ann@example.com', name: 'Ann' })
+    expect(queries.splice(0)).toEqual([
+      'insert into `users` (`email`, `name`) values (?, ?)',
+      'select * from `users` where `id` >= ? and `id` < ? order by `id`'
+    ])
+
+    await users.update({ id: 1, email: 'ann@example.com', name: 'Anna' })
+    expect(queries.splice(0)).toEqual([
+      'update `users` set `id` = ?, `email` = ?, `name` = ? where `users`.`id` = ?',
+      'select * from `users` where `users`.`id` = ?'
+    ])
+
+    // One insert and one select per batch
+    expect(await users.createMany([
+      { email: 'bob@example.com', name: 'Bob' },
+      { email: 'cid@example.com', name: 'Cid' }
+    ])).toEqual([
+      { id: 2, email: 'bob@example.com', name: 'Bob' },
+      { id: 3, email: 'cid@example.com', name: 'Cid' }
+    ])
+    expect(queries.splice(0)).toEqual([
+      'begin',
+      'insert into `users` (`email`, `name`) values (?, ?), (?, ?)',
+      'select * from `users` where `id` >= ? and `id` < ? order by `id`',
+      'commit'
+    ])
+
+    expect(await users.upsert([
+      { email: 'dee@example.com', name: 'Dee' },
+      { email: 'bob@example.com', name: 'Bobby' }
+    ], { conflictColumns: ['email'] })).toEqual([
+      { id: 4, email: 'dee@example.com', name: 'Dee' },
+      { id: 2, email: 'bob@example.com', name: 'Bobby' }
+    ])
+    expect(queries.splice(0)).toEqual([
+      'begin',
+      'insert into `users` (`email`, `name`) values (?, ?), (?, ?) as new on duplicate key update `name` = `new`.`name`',
+      'select * from `users` where `email` in (?, ?)',
+      'commit'
+    ])
+
+    // Rows ignored on conflict are not returned
+    expect(await users.upsert([
+      { email: 'eve@example.com', name: 'Eve' },
+      { email: 'ann@example.com', name: 'Ann' }
+    ], { conflictColumns: ['email'], update: [] })).toEqual([
+      { id: 5, email: 'eve@example.com', name: 'Eve' }
+    ])
+    expect(queries.splice(0)).toEqual([
+      'begin',
+      'select * from `users` where `email` in (?, ?)',
+      'insert ignore into `users` (`email`, `name`) values (?, ?), (?, ?)',
+      'select * from `users` where `email` in (?, ?)',
+      'commit'
+    ])
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { NPlusOneQueryError } from '../../src/errors/NoormError.js'
+import type { NPlusOneDetection } from '../../src/types/index.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('N+1 detection', () => {
+  let db: NOORMME
+  let users: any[]
+
+  const loadPostsOneByOne = async () => {
+    const posts = db.getRepository('posts') as any
+    for (const user of users) {
+      user.posts = await posts.findManyByUserId(user.id)
+    }
+  }
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    const userRepo = db.getRepository('users')
+    const postRepo = db.getRepository('posts')
+    users = []
+    for (let i = 0; i < 4; i++) {
+      const user = await userRepo.create({ name: `User ${i}`, email: `user${i}@example.com` })
+      await postRepo.create({ title: `Post ${i}`, user_id: user.id })
+      users.push(user)
+    }
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should report repeated selects with their call site and a relationship fix', async () => {
+    const detections: NPlusOneDetection[] = []
+
+    await db.scope(loadPostsOneByOne, { threshold: 2, onDetect: d => detections.push(d) })
+
+    expect(detections).toHaveLength(1)
+    const [detection] = detections
+    expect(detection.table).toBe('posts')
+    expect(detection.count).toBe(4)
+    expect(detection.callSite).toContain('n-plus-one.test.ts')
+    expect(detection.relationships.map(r => `${r.fromTable}.${r.name}`)).toEqual(['users.posts'])
+    expect(detection.suggestion).toContain("getRepository('users').loadRelationships(rows, ['posts'])")
+  })
+
+  it('should throw from the offending query in strict mode', async () => {
+    const error = await db.scope(loadPostsOneByOne, { threshold: 2, strict: true }).catch(e => e)
+
+    expect(error).toBeInstanceOf(NPlusOneQueryError)
+    expect(error.detection.count).toBe(3)
+    expect(error.message).toContain('n-plus-one.test.ts')
+  })
+
+  it('should only count queries inside a scope, per scope', async () => {
+    const detections: NPlusOneDetection[] = []
+    const onDetect = (d: NPlusOneDetection) => detections.push(d)
+
+    await loadPostsOneByOne()
+    await db.scope(async () => {
+      await db.getRepository('users').loadRelationships(users, ['posts'])
+    }, { threshold: 1, onDetect })
+    await Promise.all([
+      db.scope(() => db.getRepository('users').findById(users[0].id), { threshold: 1, onDetect }),
+      db.scope(() => db.getRepository('users').findById(users[1].id), { threshold: 1, onDetect })
+    ])
+
+    expect(detections).toEqual([])
+  })
+})
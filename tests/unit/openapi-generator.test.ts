@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { generateOpenAPI } from '../../src/rest/openapi-generator.js'
+import { createRestHandler } from '../../src/rest/rest-handler.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+import type { SchemaInfo } from '../../src/types/index.js'
+
+describe('OpenAPI generator', () => {
+  let db: NOORMME
+  let schema: SchemaInfo
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    await db.execute(`
+      create table tickets (
+        id integer primary key autoincrement,
+        status text not null default 'open' check (status in ('open', 'closed', 'won''t fix')),
+        priority integer check (priority in (1, 2, 3)),
+        code varchar(12) not null,
+        due_at datetime
+      )
+    `)
+    schema = await db.refreshSchema()
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should emit select, insert and update schemas per table', () => {
+    const { components } = generateOpenAPI(schema)
+
+    expect(components.schemas.Tickets).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        status: { type: 'string', enum: ['open', 'closed', "won't fix"] },
+        priority: { type: 'number', enum: [1, 2, 3, null], nullable: true },
+        code: { type: 'string', maxLength: 12 },
+        due_at: { type: 'string', format: 'date-time', nullable: true }
+      },
+      required: ['id', 'status', 'code']
+    })
+    expect(components.schemas.TicketsInsert.required).toEqual(['code'])
+    expect(Object.keys(components.schemas.TicketsInsert.properties!)).toEqual(['status', 'priority', 'code', 'due_at'])
+    expect(components.schemas.TicketsUpdate.required).toBeUndefined()
+
+    // Relationships are optional properties of the row
+    expect(components.schemas.Users.properties!.posts).toMatchObject({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Posts' }
+    })
+    expect(components.schemas.Posts.properties!.user).toMatchObject({ $ref: '#/components/schemas/Users' })
+
+    // Database types reported by other dialects map to formats too
+    const uuids = generateOpenAPI({
+      tables: [{
+        name: 'sessions',
+        primaryKey: ['id'],
+        indexes: [],
+        foreignKeys: [],
+        columns: [
+          { name: 'id', type: 'uuid', nullable: false, isPrimaryKey: true, isAutoIncrement: false },
+          { name: 'day', type: 'date', nullable: false, isPrimaryKey: false, isAutoIncrement: false },
+          { name: 'tags', type: 'text[]', nullable: true, isPrimaryKey: false, isAutoIncrement: false }
+        ]
+      }],
+      relationships: []
+    })
+    expect(uuids.components.schemas.Sessions.properties).toEqual({
+      id: { type: 'string', format: 'uuid' },
+      day: { type: 'string', format: 'date' },
+      tags: { type: 'array', items: { type: 'string' }, nullable: true }
+    })
+  })
+
+  it('should describe the routes the REST handler serves', async () => {
+    const options = {
+      basePath: '/api',
+      tables: ['users', 'posts'],
+      tableOptions: {
+        users: { operations: ['list' as const, 'read' as const], columns: ['id', 'name'] }
+      }
+    }
+    const document = generateOpenAPI(schema, options)
+
+    expect(document.openapi).toBe('3.0.3')
+    expect(Object.keys(document.paths)).toEqual(['/api/users', '/api/users/{id}', '/api/posts', '/api/posts/{id}'])
+    expect(Object.keys(document.paths['/api/users'])).toEqual(['get'])
+    expect(Object.keys(document.paths['/api/users/{id}'])).toEqual(['get'])
+    expect(Object.keys(document.paths['/api/posts/{id}'])).toEqual(['get', 'patch', 'delete'])
+    expect(document.paths['/api/posts'].post!.responses[201]).toBeDefined()
+    expect(document.components.schemas.Comments).toBeUndefined()
+
+    const list = document.paths['/api/users'].get!
+    expect(list.operationId).toBe('listUsers')
+    expect(list.parameters!.map(p => p.name)).toEqual(['id', 'name', 'sort', 'limit', 'after', 'before', 'total', 'include'])
+    expect(list.parameters!.find(p => p.name === 'limit')!.schema).toEqual({ type: 'integer', minimum: 1, maximum: 100, default: 20 })
+
+    // A row the handler returns has exactly the documented properties
+    const handler = createRestHandler(db, options)
+    await db.getRepository('users').create({ name: 'Ann', email: 'ann@example.com' })
+    const response = await handler(new Request('http://localhost/api/users/1'))
+    const { data } = await response.json() as { data: Record<string, unknown> }
+    const documented = Object.keys(document.components.schemas.Users.properties!).filter(key => key !== 'posts')
+    expect(Object.keys(data)).toEqual(documented)
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
 import { NOORMME } from '../../src/noormme.js'
+import { ColumnNotFoundError } from '../../src/errors/NoormError.js'
 import { createTestDatabase, cleanupTestDatabase, setupTestSchema, TestDataFactory } from '../../src/testing/test-utils.js'
 
 describe('Pagination', () => {
@@ -151,6 +152,14 @@ describe('Pagination', () => {
         }
       }
     })
+
+    it('should reject unknown order columns', async () => {
+      const userRepo = db.getRepository('users')
+
+      await expect(
+        userRepo.paginate({ page: 1, limit: 10, orderBy: { column: 'nmae' as any, direction: 'asc' } })
+      ).rejects.toBeInstanceOf(ColumnNotFoundError)
+    })
   })
 
   describe('Pagination with Combined Conditions', () => {
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { QueryCache } from '../../src/cache/query-cache.js'
+import { FileQueryCacheStorage } from '../../src/cache/file-query-cache-storage.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Query cache', () => {
+  let db: NOORMME
+
+  const stats = () => {
+    const { hits, misses } = db.getQueryCache().getStats()
+    return { hits, misses }
+  }
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should serve cached selects until a write touches their tables', async () => {
+    const kysely = db.getKysely()
+    const cached = db.cached()
+    const users = db.getRepository('users')
+    const ann = await users.create({ name: 'Ann', email: 'ann@example.com' })
+
+    const allUsers = () => cached.selectFrom('users').select('name').execute()
+    const postsByUser = () => cached
+      .selectFrom('posts')
+      .innerJoin('users', 'users.id', 'posts.user_id')
+      .select(['posts.title', 'users.name'])
+      .execute()
+
+    expect(await allUsers()).toEqual([{ name: 'Ann' }])
+    expect(await allUsers()).toEqual([{ name: 'Ann' }])
+    expect(await postsByUser()).toEqual([])
+    expect(stats()).toEqual({ hits: 1, misses: 2 })
+
+    await kysely.insertInto('posts').values({ title: 'Hello', user_id: ann.id }).execute()
+
+    // Only the query reading posts is invalidated
+    expect(await allUsers()).toEqual([{ name: 'Ann' }])
+    expect(await postsByUser()).toEqual([{ title: 'Hello', name: 'Ann' }])
+    expect(stats()).toEqual({ hits: 2, misses: 3 })
+
+    await users.update({ ...ann, name: 'Anna' })
+    expect(await allUsers()).toEqual([{ name: 'Anna' }])
+    expect(stats()).toEqual({ hits: 2, misses: 4 })
+
+    // The same query without the cache always hits the database
+    await kysely.selectFrom('users').select('name').execute()
+    expect(stats()).toEqual({ hits: 2, misses: 4 })
+  })
+
+  it('should cache repository reads and invalidate them by tag', async () => {
+    const users = db.getRepository('users') as any
+    await users.create({ name: 'Ann', email: 'ann@example.com' })
+    const directory = users.cached({ tags: ['directory'] })
+
+    const first = await directory.findAll()
+    first[0].name = 'Mutated'
+    expect((await directory.findAll())[0].name).toBe('Ann')
+    expect(await directory.findByEmail('ann@example.com')).toMatchObject({ name: 'Ann' })
+    expect(stats()).toEqual({ hits: 1, misses: 2 })
+
+    // Raw SQL writes are not seen and need explicit invalidation
+    await db.execute('update users set age = 30')
+    expect((await directory.findAll())[0].age).toBeNull()
+    await db.getQueryCache().invalidateTags(['directory'])
+    expect((await directory.findAll())[0].age).toBe(30)
+
+    // Uncached repositories always hit the database
+    await users.findAll()
+    expect(stats()).toEqual({ hits: 2, misses: 3 })
+  })
+
+  it('should bypass the cache inside transactions and invalidate on commit', async () => {
+    const users = db.getRepository('users').cached()
+    expect(await users.findAll()).toEqual([])
+
+    await db.transaction(async (tx) => {
+      await tx.getRepository('users').create({ name: 'Ann', email: 'ann@example.com' })
+      expect(await tx.getRepository('users').cached().findAll()).toHaveLength(1)
+    })
+
+    expect(stats()).toEqual({ hits: 0, misses: 1 })
+    expect(await users.findAll()).toHaveLength(1)
+    expect(stats()).toEqual({ hits: 0, misses: 2 })
+  })
+
+  it('should keep results in pluggable storage', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'noormme-cache-'))
+    try {
+      const cache = new QueryCache(new FileQueryCacheStorage(dir), 60000)
+      const query = db.getKysely().selectFrom('users').selectAll().compile()
+      let executions = 0
+      const execute = async () => {
+        executions++
+        return { rows: [{ id: 1n, created_at: new Date('2024-01-02T03:04:05.000Z') }] as any[] }
+      }
+
+      await cache.readThrough(query, {}, execute)
+      const { rows } = await cache.readThrough(query, {}, execute)
+      expect(executions).toBe(1)
+      expect(rows[0].id).toBe(1n)
+      expect(rows[0].created_at).toEqual(new Date('2024-01-02T03:04:05.000Z'))
+
+      // A new cache on the same directory shares entries and versions
+      const shared = new QueryCache(new FileQueryCacheStorage(dir))
+      await shared.readThrough(query, {}, execute)
+      expect(executions).toBe(1)
+
+      await shared.invalidateTables(['users'])
+      await cache.readThrough(query, {}, execute)
+      expect(executions).toBe(2)
+
+      await cache.readThrough(query, { ttl: -1, tags: ['short'] }, execute)
+      await cache.readThrough(query, { ttl: -1, tags: ['short'] }, execute)
+      expect(executions).toBe(4)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { sql } from '../../src/raw-builder/sql.js'
+import type { CompiledQuery } from '../../src/query-compiler/compiled-query.js'
+import { SQLiteAutoIndexer } from '../../src/dialect/sqlite/sqlite-auto-indexer.js'
+import {
+  createQueryInstrumentation,
+  getQueryTarget,
+  InstrumentedQuery
+} from '../../src/performance/query-instrumentation.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Query instrumentation', () => {
+  let db: NOORMME
+
+  const event = (query: CompiledQuery) => ({ level: 'query' as const, query, queryDurationMillis: 3 })
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should read operation and tables from the operation node tree', () => {
+    const kysely = db.getKysely()
+
+    expect(getQueryTarget(
+      kysely.selectFrom('users as u').innerJoin('posts', 'posts.user_id', 'u.id').selectAll().compile().query
+    )).toEqual({ operation: 'select', table: 'users', tables: ['users', 'posts'] })
+    expect(getQueryTarget(kysely.insertInto('posts').values({ title: 'x' }).compile().query))
+      .toEqual({ operation: 'insert', table: 'posts', tables: ['posts'] })
+    expect(getQueryTarget(kysely.updateTable('users').set({ age: 1 }).compile().query)?.operation).toBe('update')
+    expect(getQueryTarget(kysely.deleteFrom('comments').compile().query)?.table).toBe('comments')
+
+    expect(getQueryTarget(sql`select * from users`.compile(kysely).query)).toBeNull()
+    expect(getQueryTarget(kysely.schema.dropTable('users').compile().query)).toBeNull()
+  })
+
+  it('should sample and filter queries by table', () => {
+    const kysely = db.getKysely()
+    const recorded: InstrumentedQuery[] = []
+    const select = (table: string) => kysely.selectFrom(table as 'users').selectAll().compile()
+
+    const log = createQueryInstrumentation(
+      { includeTables: ['users', 'posts'], excludeTables: ['posts'] },
+      query => recorded.push(query)
+    )
+    log(event(select('users')))
+    log(event(select('posts')))
+    log(event(select('comments')))
+    log(event(select('_noormme_migrations')))
+    log(event(kysely.selectFrom('users').innerJoin('posts', 'posts.user_id', 'users.id').selectAll().compile()))
+
+    expect(recorded).toHaveLength(1)
+    expect(recorded[0]).toMatchObject({ table: 'users', operation: 'select', executionTime: 3 })
+    expect(recorded[0].sql).toBe('select * from "users"')
+
+    const unsampled = createQueryInstrumentation({ sampleRate: 0 }, query => recorded.push(query))
+    unsampled(event(select('users')))
+    expect(recorded).toHaveLength(1)
+  })
+
+  it('should feed repository queries to the metrics collector and the auto-indexer', async () => {
+    const recordQuery = jest.spyOn(SQLiteAutoIndexer.prototype, 'recordQuery')
+    db.enablePerformanceMonitoring()
+
+    const users = db.getRepository('users')
+    const user = await users.create({ name: 'Ann', email: 'ann@example.com' })
+    for (let i = 0; i < 5; i++) {
+      await users.findById(user.id)
+    }
+    await expect(users.create({ name: 'Ann', email: 'ann@example.com' })).rejects.toMatchObject({ code: 'SQLITE_CONSTRAINT_UNIQUE' })
+
+    const metrics = db.getPerformanceMetrics() as any
+    expect(metrics.totalQueries).toBeGreaterThanOrEqual(7)
+    expect(metrics.errorRate).toBeGreaterThan(0)
+    expect(recordQuery.mock.calls.length).toBeGreaterThanOrEqual(5)
+    recordQuery.mockRestore()
+  })
+})
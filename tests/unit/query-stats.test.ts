@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { sql } from '../../src/raw-builder/sql.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Persistent query stats', () => {
+  let dir: string
+  let database: string
+  let db: NOORMME
+
+  const openApp = async (persist: boolean) => {
+    const app = new NOORMME({
+      dialect: 'sqlite',
+      connection: { database },
+      logging: { enabled: false },
+      performance: { instrumentation: { persist } }
+    })
+    await app.initialize()
+    return app
+  }
+
+  const storedFrequency = async () => {
+    const { rows } = await sql<{ frequency: number }>`
+      select sum(frequency) as frequency from _noormme_query_stats
+    `.execute(db.getKysely())
+    return rows[0].frequency
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'noormme-stats-'))
+    database = path.join(dir, 'app.sqlite')
+    db = await createTestDatabase({ database, seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should merge flushed counts and explain new patterns', async () => {
+    for (let i = 0; i < 4; i++) db.recordQuery('SELECT * FROM posts WHERE published = ?', 5, 'posts')
+    await db.flushQueryStats()
+    for (let i = 0; i < 2; i++) db.recordQuery('SELECT * FROM posts WHERE published = ?', 20, 'posts')
+    await db.flushQueryStats()
+    await db.flushQueryStats()
+
+    expect(await storedFrequency()).toBe(6)
+    const row = await db.getKysely()
+      .selectFrom('_noormme_query_stats' as any)
+      .select(['total_time', 'query_plan', 'full_scan'])
+      .executeTakeFirstOrThrow() as any
+    expect(row.total_time).toBe(60)
+    expect(JSON.parse(row.query_plan)).toEqual(['SCAN posts'])
+    expect(row.full_scan).toBe(1)
+  })
+
+  it('should recommend indexes from patterns persisted by another process', async () => {
+    for (let i = 0; i < 6; i++) db.recordQuery('SELECT * FROM posts WHERE published = ?', 5, 'posts')
+    await db.flushQueryStats()
+
+    // A new process, such as `noormme analyze`, starts without recorded patterns
+    const cli = await openApp(false)
+    try {
+      const result = await cli.getSQLiteIndexRecommendations()
+      const recommendation = result.recommendations.find((r: any) => r.table === 'posts')
+      expect(recommendation.columns).toEqual(['published'])
+      expect(recommendation.reason).toContain('6 times')
+      expect(recommendation.reason).toContain('full table scan')
+
+      // Patterns older than the window are ignored and pruned
+      await sql`update _noormme_query_stats set bucket = bucket - 24 * 8`.execute(db.getKysely())
+      expect((await cli.getSQLiteIndexRecommendations()).recommendations).toEqual([])
+      await cli.flushQueryStats()
+      expect(await storedFrequency()).toBeNull()
+    } finally {
+      await cli.close()
+    }
+  })
+
+  it('should keep query patterns separate between instances', async () => {
+    const other = await openApp(false)
+    try {
+      for (let i = 0; i < 2; i++) db.recordQuery('SELECT * FROM posts WHERE published = ?', 5, 'posts')
+      await other.flushQueryStats()
+      expect(await storedFrequency()).toBeNull()
+
+      await db.flushQueryStats()
+      expect(await storedFrequency()).toBe(2)
+    } finally {
+      await other.close()
+    }
+  })
+
+  it('should persist instrumented queries when the app closes', async () => {
+    const app = await openApp(true)
+    const posts = app.getRepository('posts') as any
+    for (let i = 0; i < 3; i++) {
+      await posts.findManyByPublished(true)
+    }
+    await app.close()
+
+    const rows = await db.getKysely()
+      .selectFrom('_noormme_query_stats' as any)
+      .select(['table_name', 'frequency', 'sample_sql'])
+      .where('table_name', '=', 'posts')
+      .execute() as any[]
+    expect(rows).toHaveLength(1)
+    expect(rows[0].frequency).toBe(3)
+    expect(rows[0].sample_sql).toContain('where "posts"."published" = ?')
+  })
+})
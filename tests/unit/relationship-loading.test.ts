@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { RelationshipNotFoundError } from '../../src/errors/NoormError.js'
+import { createTestDatabase, cleanupTestDatabase, TestDataFactory } from '../../src/testing/test-utils.js'
+
+describe('Relationship Loading', () => {
+  let db: NOORMME
+  let factory: TestDataFactory
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    factory = new TestDataFactory(db)
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  describe('findWithRelations', () => {
+    it('should load one-to-many relations', async () => {
+      const user = await factory.createUser()
+      await factory.createPosts(user.id, 3)
+
+      const userRepo = db.getRepository('users')
+      const result = await userRepo.findWithRelations(user.id, ['posts']) as any
+
+      expect(result.id).toBe(user.id)
+      expect(result.posts).toHaveLength(3)
+      expect(result.posts.every((p: any) => p.user_id === user.id)).toBe(true)
+    })
+
+    it('should load many-to-one relations', async () => {
+      const user = await factory.createUser()
+      const post = await factory.createPost(user.id)
+
+      const postRepo = db.getRepository('posts')
+      const result = await postRepo.findWithRelations(post.id, ['user']) as any
+
+      expect(result.user).toBeDefined()
+      expect(result.user.id).toBe(user.id)
+      expect(result.user.email).toBe(user.email)
+    })
+
+    it('should load nested relation paths', async () => {
+      const user = await factory.createUser()
+      const posts = await factory.createPosts(user.id, 2)
+      await factory.createComments(posts[0].id, user.id, 3)
+      await factory.createComments(posts[1].id, user.id, 1)
+
+      const userRepo = db.getRepository('users')
+      const result = await userRepo.findWithRelations(user.id, ['posts.comments', 'posts.user']) as any
+
+      expect(result.posts).toHaveLength(2)
+      const counts = result.posts.map((p: any) => p.comments.length).sort()
+      expect(counts).toEqual([1, 3])
+      expect(result.posts[0].user.id).toBe(user.id)
+    })
+
+    it('should resolve relation names against the repository table', async () => {
+      const user = await factory.createUser()
+      const post = await factory.createPost(user.id)
+      await factory.createComments(post.id, user.id, 2)
+
+      // Both users and posts expose a 'comments' relationship
+      const postRepo = db.getRepository('posts')
+      const result = await postRepo.findWithRelations(post.id, ['comments']) as any
+
+      expect(result.comments).toHaveLength(2)
+      expect(result.comments.every((c: any) => c.post_id === post.id)).toBe(true)
+    })
+
+    it('should return null for missing entities', async () => {
+      const userRepo = db.getRepository('users')
+      const result = await userRepo.findWithRelations(99999, ['posts'])
+
+      expect(result).toBeNull()
+    })
+
+    it('should set empty values when nothing is related', async () => {
+      const user = await factory.createUser()
+
+      const userRepo = db.getRepository('users')
+      const result = await userRepo.findWithRelations(user.id, ['posts']) as any
+
+      expect(result.posts).toEqual([])
+    })
+  })
+
+  describe('loadRelationships', () => {
+    it('should attach relations to every entity using batched queries', async () => {
+      const users = await factory.createUsers(3)
+      await factory.createPosts(users[0].id, 2)
+      await factory.createPosts(users[2].id, 1)
+
+      const userRepo = db.getRepository('users')
+      const loaded = await userRepo.findAll() as any[]
+
+      const executeQuery = jest.spyOn(db.getKysely().getExecutor(), 'executeQuery')
+      await userRepo.loadRelationships(loaded, ['posts'])
+
+      // One IN query for all users instead of one query per user
+      expect(executeQuery).toHaveBeenCalledTimes(1)
+
+      const byId = new Map(loaded.map(u => [u.id, u]))
+      expect(byId.get(users[0].id).posts).toHaveLength(2)
+      expect(byId.get(users[1].id).posts).toEqual([])
+      expect(byId.get(users[2].id).posts).toHaveLength(1)
+    })
+
+    it('should reject unknown relations', async () => {
+      const user = await factory.createUser()
+
+      const userRepo = db.getRepository('users')
+      const loaded = await userRepo.findAll() as any[]
+
+      await expect(userRepo.loadRelationships(loaded, ['nonExistentRelation']))
+        .rejects.toBeInstanceOf(RelationshipNotFoundError)
+      const error = await userRepo.findWithRelations(user.id, ['postz']).catch(e => e)
+      expect(error).toBeInstanceOf(RelationshipNotFoundError)
+      expect((error as RelationshipNotFoundError).context.availableOptions).toContain('posts')
+      // Nested names are checked even when the parent level loaded nothing
+      await expect(userRepo.loadRelationships(loaded, ['posts.commentz']))
+        .rejects.toBeInstanceOf(RelationshipNotFoundError)
+    })
+  })
+})
@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import * as path from 'path'
+import Database from 'better-sqlite3'
+import { build } from 'esbuild'
+import { Kysely } from '../../src/kysely.js'
+import { NOORMME } from '../../src/noormme.js'
+import { RemoteSqliteDialect } from '../../src/dialect/remote-sqlite/remote-sqlite-dialect.js'
+import { HranaClient } from '../../src/dialect/remote-sqlite/hrana-client.js'
+import { D1Client } from '../../src/dialect/remote-sqlite/d1-client.js'
+import type { D1Database, D1PreparedStatement, D1Result } from '../../src/dialect/remote-sqlite/remote-sqlite-dialect-config.js'
+import { EdgeRuntimeDB, getEdgeRuntimeConfig } from '../../src/edge-runtime/edge-config.js'
+
+type HranaValue = { type: string; value?: any; base64?: string }
+
+/**
+ * A libSQL server stand-in that speaks the Hrana HTTP pipeline protocol on
+ * top of an in-memory better-sqlite3 database
+ */
+function createHranaServer(token: string) {
+  const sqlite = new Database(':memory:')
+  sqlite.defaultSafeIntegers(true)
+  const streams = new Set<string>()
+  let nextBaton = 0
+
+  const decode = (value: HranaValue) => {
+    switch (value.type) {
+      case 'integer': return BigInt(value.value)
+      case 'blob': return Buffer.from(value.base64!, 'base64')
+      case 'null': return null
+      default: return value.value
+    }
+  }
+
+  const encode = (value: unknown): HranaValue => {
+    if (value === null) return { type: 'null' }
+    if (typeof value === 'bigint') return { type: 'integer', value: value.toString() }
+    if (typeof value === 'number') return { type: 'float', value }
+    if (Buffer.isBuffer(value)) return { type: 'blob', base64: value.toString('base64') }
+    return { type: 'text', value }
+  }
+
+  const execute = (stmt: { sql: string; args: HranaValue[] }) => {
+    const statement = sqlite.prepare(stmt.sql)
+    const args = stmt.args.map(decode)
+
+    if (statement.reader) {
+      return {
+        cols: statement.columns().map(col => ({ name: col.name })),
+        rows: (statement.raw(true).all(args) as unknown[][]).map(row => row.map(encode)),
+        affected_row_count: 0,
+        last_insert_rowid: null
+      }
+    }
+
+    const { changes, lastInsertRowid } = statement.run(args)
+    return { cols: [], rows: [], affected_row_count: Number(changes), last_insert_rowid: String(lastInsertRowid) }
+  }
+
+  const isMet = (condition: any, outcomes: ('ok' | 'error' | 'skipped')[]): boolean =>
+    !condition ||
+    (condition.type === 'ok' ? outcomes[condition.step] === 'ok' : !isMet(condition.cond, outcomes))
+
+  const handle = (request: any) => {
+    if (request.type === 'execute') {
+      return { type: 'execute', result: execute(request.stmt) }
+    }
+
+    if (request.type === 'batch') {
+      const outcomes: ('ok' | 'error' | 'skipped')[] = []
+      const step_results: unknown[] = []
+      const step_errors: unknown[] = []
+      for (const step of request.batch.steps) {
+        if (!isMet(step.condition, outcomes)) {
+          outcomes.push('skipped')
+          step_results.push(null)
+          step_errors.push(null)
+          continue
+        }
+        try {
+          step_results.push(execute(step.stmt))
+          step_errors.push(null)
+          outcomes.push('ok')
+        } catch (error) {
+          step_results.push(null)
+          step_errors.push({ message: (error as Error).message })
+          outcomes.push('error')
+        }
+      }
+      return { type: 'batch', result: { step_results, step_errors } }
+    }
+
+    return { type: 'close' }
+  }
+
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      if (req.url !== '/v2/pipeline' || req.headers.authorization !== `Bearer ${token}`) {
+        res.writeHead(401).end('unauthorized')
+        return
+      }
+
+      const { baton, requests } = JSON.parse(body)
+      if (baton !== null && !streams.has(baton)) {
+        res.writeHead(400).end('unknown baton')
+        return
+      }
+      streams.delete(baton)
+
+      const results = requests.map((request: any) => {
+        try {
+          return { type: 'ok', response: handle(request) }
+        } catch (error) {
+          return { type: 'error', error: { message: (error as Error).message, code: 'SQLITE_ERROR' } }
+        }
+      })
+
+      const closed = requests.some((request: any) => request.type === 'close')
+      const next = closed ? null : `baton-${nextBaton++}`
+      if (next) {
+        streams.add(next)
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' })
+      res.end(JSON.stringify({ baton: next, base_url: null, results }))
+    })
+  })
+
+  return { server, sqlite, streams }
+}
+
+/**
+ * A D1 binding stand-in on top of an in-memory better-sqlite3 database
+ */
+function createD1(sqlite: Database.Database): D1Database {
+  type Statement = D1PreparedStatement & { run(): D1Result }
+
+  const prepare = (query: string, values: unknown[] = []): Statement => ({
+    bind: (...bound) => prepare(query, bound),
+    all: async () => prepare(query, values).run(),
+    run: () => {
+      const statement = sqlite.prepare(query)
+      if (statement.reader) {
+        return { results: statement.all(values), meta: { changes: 0 } }
+      }
+      const { changes, lastInsertRowid } = statement.run(values)
+      return { results: [], meta: { changes, last_row_id: Number(lastInsertRowid) } }
+    }
+  })
+
+  return {
+    prepare,
+    batch: async (statements) => sqlite.transaction(() => statements.map(statement => (statement as Statement).run()))()
+  }
+}
+
+describe('Remote SQLite dialect', () => {
+  let hrana: ReturnType<typeof createHranaServer>
+  let url: string
+
+  beforeAll(async () => {
+    hrana = createHranaServer('secret')
+    await new Promise<void>(resolve => hrana.server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(hrana.server.address() as AddressInfo).port}`
+    hrana.sqlite.exec(`
+      create table users (id integer primary key autoincrement, name text not null, email text unique);
+      create table posts (id integer primary key autoincrement, user_id integer references users(id), title text)
+    `)
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => hrana.server.close(resolve))
+    hrana.sqlite.close()
+  })
+
+  it('should run NOORMME against a libSQL server over HTTP', async () => {
+    const db = new NOORMME({
+      dialect: 'sqlite',
+      connection: { database: url, authToken: 'secret' },
+      automation: { enableAutoOptimization: false },
+      logging: { enabled: false }
+    })
+    await db.initialize()
+
+    const users = db.getRepository('users')
+    const ann = await users.create({ name: 'Ann', email: 'ann@example.com' })
+    expect(ann).toMatchObject({ name: 'Ann', email: 'ann@example.com' })
+    expect(await users.findById(ann.id)).toEqual(ann)
+
+    await expect(db.transaction(async (trx) => {
+      await trx.insertInto('users').values({ name: 'Bob', email: 'bob@example.com' }).execute()
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+    expect((await users.findAll()).map(u => u.name)).toEqual(['Ann'])
+
+    await db.transaction(async (trx) => {
+      await trx.insertInto('posts').values({ user_id: ann.id, title: 'Hello' }).execute()
+    })
+    expect(await db.getKysely().selectFrom('posts').select('title').execute()).toEqual([{ title: 'Hello' }])
+    // Every stream opened for a transaction was closed again
+    expect(hrana.streams.size).toBe(0)
+
+    await expect(users.create({ name: 'Ann again', email: 'ann@example.com' })).rejects.toThrow(/UNIQUE/)
+
+    await db.close()
+  })
+
+  it('should apply batches atomically and keep value types', async () => {
+    const client = new HranaClient({ url, authToken: 'secret' })
+    const big = 2n ** 60n
+
+    const [, selected] = await client.batch([
+      { sql: 'create table samples (i integer, f real, t text, b blob, n integer)', args: [] },
+      { sql: 'insert into samples values (?, ?, ?, ?, ?) returning *', args: [big, 1.5, 'text', new Uint8Array([0, 255]), null] }
+    ])
+    expect(selected.rows).toEqual([{ i: big, f: 1.5, t: 'text', b: new Uint8Array([0, 255]), n: null }])
+
+    await expect(client.batch([
+      { sql: 'insert into samples (i) values (?)', args: [1] },
+      { sql: 'insert into missing_table values (1)', args: [] }
+    ])).rejects.toThrow('missing_table')
+    const { rows } = await client.execute({ sql: 'select count(*) as count from samples', args: [] })
+    expect(rows).toEqual([{ count: 1 }])
+
+    await expect(new HranaClient({ url, authToken: 'wrong' }).execute({ sql: 'select 1', args: [] }))
+      .rejects.toThrow('HTTP 401')
+  })
+
+  it('should query a D1 binding and refuse interactive transactions', async () => {
+    const sqlite = new Database(':memory:')
+    sqlite.exec('create table users (id integer primary key, name text)')
+    const client = new D1Client(createD1(sqlite))
+    const db = new Kysely<any>({ dialect: new RemoteSqliteDialect({ client }) })
+
+    const inserted = await db.insertInto('users').values({ name: 'Ann' }).executeTakeFirst()
+    expect(inserted.insertId).toBe(1n)
+    expect(await db.selectFrom('users').selectAll().execute()).toEqual([{ id: 1, name: 'Ann' }])
+
+    await client.batch([
+      { sql: 'insert into users (name) values (?)', args: ['Bob'] },
+      { sql: 'insert into users (name) values (?)', args: ['Cid'] }
+    ])
+    expect(await db.selectFrom('users').select('name').execute()).toHaveLength(3)
+
+    await expect(db.transaction().execute(async () => {})).rejects.toThrow('batch()')
+
+    await db.destroy()
+    sqlite.close()
+  })
+
+  it('should keep one database instance per isolate', async () => {
+    const edge = new EdgeRuntimeDB(getEdgeRuntimeConfig({ url, authToken: 'secret' }))
+
+    const instance = await edge.getInstance()
+    expect(await edge.getInstance()).toBe(instance)
+
+    await edge.write('users', { name: 'Eve', email: 'eve@example.com' })
+    expect(await edge.read('users', { email: 'eve@example.com' })).toMatchObject([{ name: 'Eve' }])
+
+    await edge.close()
+    expect(() => getEdgeRuntimeConfig({ url: undefined })).toThrow('No remote database')
+  })
+
+  it('should bundle for edge runtimes without Node built-ins', async () => {
+    const result = await build({
+      entryPoints: [path.join(__dirname, '../../src/edge-runtime/edge-config.ts')],
+      bundle: true,
+      platform: 'browser',
+      format: 'esm',
+      write: false,
+      logLevel: 'silent'
+    })
+
+    expect(result.errors).toEqual([])
+  }, 60000)
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { createRestHandler, RestHandlerOptions } from '../../src/rest/rest-handler.js'
+import { createEdgeMiddleware, EdgeRuntimeDB } from '../../src/edge-runtime/edge-config.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('REST handler', () => {
+  let db: NOORMME
+
+  const call = async (options: RestHandlerOptions, method: string, path: string, body?: unknown) => {
+    const handler = createRestHandler(db, { basePath: '/api', ...options })
+    const response = await handler(new Request(`http://localhost/api${path}`, {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      headers: { 'content-type': 'application/json' }
+    }))
+    return { status: response.status, body: response.status === 204 ? null : await response.json() as any }
+  }
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+    const users = db.getRepository('users')
+    const ann = await users.create({ name: 'Ann', email: 'ann@example.com', age: 31 })
+    const bob = await users.create({ name: 'Bob', email: 'bob@example.com', age: 25 })
+    await users.create({ name: 'Cid', email: 'cid@example.com', age: 40 })
+    const posts = db.getRepository('posts')
+    await posts.create({ title: 'Hello', user_id: ann.id })
+    await posts.create({ title: 'Again', user_id: ann.id })
+    await posts.create({ title: 'Hi', user_id: bob.id })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should serve CRUD routes for every discovered table', async () => {
+    const created = await call({}, 'POST', '/users', { name: 'Dee', email: 'dee@example.com' })
+    expect(created.status).toBe(201)
+    const id = created.body.data.id
+
+    expect((await call({}, 'GET', `/users/${id}`)).body.data).toMatchObject({ name: 'Dee' })
+
+    const patched = await call({}, 'PATCH', `/users/${id}`, { age: 52 })
+    expect(patched.body.data).toMatchObject({ name: 'Dee', email: 'dee@example.com', age: 52 })
+
+    expect((await call({}, 'DELETE', `/users/${id}`)).status).toBe(204)
+    expect((await call({}, 'GET', `/users/${id}`)).status).toBe(404)
+    expect((await call({}, 'GET', '/comments')).body.data).toEqual([])
+    expect((await call({}, 'GET', '/nope')).status).toBe(404)
+    expect((await call({}, 'PUT', '/users/1')).status).toBe(405)
+
+    const duplicate = await call({}, 'POST', '/users', { name: 'Ann', email: 'ann@example.com' })
+    expect(duplicate.status).toBe(409)
+  })
+
+  it('should filter, sort, paginate by cursor and include relationships', async () => {
+    const filtered = await call({}, 'GET', '/users?age[gte]=30&sort=-age')
+    expect(filtered.body.data.map((u: any) => u.name)).toEqual(['Cid', 'Ann'])
+
+    const names = await call({}, 'GET', '/users?name[in]=Ann,Bob&sort=name')
+    expect(names.body.data.map((u: any) => u.name)).toEqual(['Ann', 'Bob'])
+
+    const first = await call({}, 'GET', '/users?sort=name&limit=2&total=true')
+    expect(first.body.data.map((u: any) => u.name)).toEqual(['Ann', 'Bob'])
+    expect(first.body.pagination).toMatchObject({ hasNext: true, total: 3 })
+    const second = await call({}, 'GET', `/users?sort=name&limit=2&after=${first.body.pagination.nextCursor}`)
+    expect(second.body.data.map((u: any) => u.name)).toEqual(['Cid'])
+
+    const withPosts = await call({}, 'GET', '/users?name=Ann&include=posts')
+    expect(withPosts.body.data[0].posts.map((p: any) => p.title).sort()).toEqual(['Again', 'Hello'])
+    const withUser = await call({}, 'GET', '/posts/3?include=user')
+    expect(withUser.body.data.user).toMatchObject({ name: 'Bob' })
+
+    expect((await call({}, 'GET', '/users?shoe_size=3')).status).toBe(400)
+    expect((await call({}, 'GET', '/users?age=old')).status).toBe(400)
+    expect((await call({}, 'GET', '/users?include=friends')).status).toBe(400)
+  })
+
+  it('should apply allow-lists and the authorization hook', async () => {
+    const options: RestHandlerOptions = {
+      tables: ['users', 'posts'],
+      tableOptions: {
+        users: { operations: ['list', 'read', 'update'], columns: ['id', 'name'], writable: ['name'] },
+        posts: { include: [] }
+      },
+      authorize: ({ request, operation }) =>
+        operation === 'list' || request.headers.get('authorization') === 'Bearer admin'
+    }
+
+    const list = await call(options, 'GET', '/users?sort=name')
+    expect(list.body.data[0]).toEqual({ id: 1, name: 'Ann' })
+    expect((await call(options, 'GET', '/users?email=ann@example.com')).status).toBe(400)
+    expect((await call(options, 'GET', '/comments')).status).toBe(404)
+    expect((await call(options, 'GET', '/posts?include=user')).status).toBe(400)
+
+    expect((await call(options, 'POST', '/users', { name: 'Eve' })).status).toBe(403)
+    expect((await call(options, 'GET', '/users/1')).status).toBe(403)
+
+    const handler = createRestHandler(db, { basePath: '/api', ...options })
+    const patch = (body: unknown) => handler(new Request('http://localhost/api/users/1', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      headers: { authorization: 'Bearer admin' }
+    }))
+    expect((await patch({ email: 'x@example.com' })).status).toBe(400)
+    expect((await patch({ id: 2, name: 'Anna' })).status).toBe(400)
+    const renamed = await patch({ name: 'Anna' })
+    expect(await renamed.json()).toEqual({ data: { id: 1, name: 'Anna' } })
+    expect((await db.getRepository('users').findById(2))).toMatchObject({ name: 'Bob' })
+  })
+
+  it('should never serve NOORMME\'s own tables', async () => {
+    await db.execute('CREATE TABLE _noormme_private (id INTEGER PRIMARY KEY, secret TEXT)')
+    await db.refreshSchema()
+
+    expect((await call({}, 'GET', '/_noormme_private')).status).toBe(404)
+    expect((await call({ tables: ['_noormme_private'] }, 'GET', '/_noormme_private')).status).toBe(404)
+  })
+
+  it('should require an allow-list or authorization for the edge middleware', () => {
+    const edgeDB = new EdgeRuntimeDB({ dialect: 'sqlite', connection: { database: ':memory:' } })
+    expect(() => createEdgeMiddleware(edgeDB)).toThrow(/without authorization/)
+    expect(() => createEdgeMiddleware(edgeDB, { tables: ['users'] })).not.toThrow()
+  })
+})
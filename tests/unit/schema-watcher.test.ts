@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { SchemaChange } from '../../src/types/index.js'
+import { createTestDatabase } from '../../src/testing/test-utils.js'
+import Database from 'better-sqlite3'
+
+const summarize = (changes: SchemaChange[]) =>
+  changes.map(c => [c.type, c.table, c.column ?? c.name, c.previousName].filter(Boolean).join(' ')).sort()
+
+describe('Schema watcher', () => {
+  let db: NOORMME
+
+  beforeEach(async () => {
+    db = await createTestDatabase()
+    await db.execute('create table authors (id integer primary key autoincrement, name text not null)')
+    await db.execute(`
+      create table books (
+        id integer primary key autoincrement,
+        author_id integer references authors(id),
+        title text not null,
+        pages integer
+      )
+    `)
+    await db.execute('create table drafts (id integer primary key autoincrement, body text)')
+    await db.initialize()
+  })
+
+  afterEach(async () => {
+    db.stopSchemaWatching()
+    await db.close()
+  })
+
+  const startWatching = async (options = {}) => {
+    await db.startSchemaWatching({ enabled: true, pollInterval: 60_000, ...options })
+    return (db as any).schemaWatcher
+  }
+
+  it('should describe table, column, index and foreign key changes', async () => {
+    const watcher = await startWatching()
+
+    await db.execute('alter table authors add column bio text default \'\'')
+    await db.execute('alter table books rename column title to headline')
+    await db.execute('create index books_pages on books (pages)')
+    await db.execute('drop table drafts')
+    await db.execute('create table tags (id integer primary key autoincrement, label text not null)')
+
+    expect(summarize(await watcher.checkForChanges())).toEqual([
+      'column_added authors bio',
+      'column_renamed books headline title',
+      'index_added books books_pages',
+      'table_added tags',
+      'table_removed drafts'
+    ])
+    expect(await watcher.checkForChanges()).toEqual([])
+
+    // SQLite changes types, nullability and foreign keys by rebuilding the table
+    await db.execute(`
+      create table books_new (
+        id integer primary key autoincrement,
+        author_id integer,
+        headline text,
+        pages text not null default 0
+      )
+    `)
+    await db.execute('drop table books')
+    await db.execute('alter table books_new rename to books')
+
+    const changes: SchemaChange[] = await watcher.checkForChanges()
+    expect(summarize(changes)).toEqual([
+      'column_modified books headline',
+      'column_modified books pages',
+      'foreign_key_removed books author_id',
+      'index_removed books books_pages'
+    ])
+    const pages = changes.find(c => c.column === 'pages')!
+    expect(pages.fields).toEqual(['type', 'nullable', 'defaultValue'])
+    expect(pages.before).toMatchObject({ nullable: true })
+    expect(pages.after).toMatchObject({ nullable: false, defaultValue: '0' })
+    expect(changes.find(c => c.column === 'headline')!.fields).toEqual(['nullable'])
+  })
+
+  it('should detect renamed tables and leave ignored tables out', async () => {
+    const watcher = await startWatching({ ignoredTables: ['authors'] })
+
+    await db.execute('alter table drafts rename to notes')
+    await db.execute('alter table authors add column bio text')
+
+    const changes: SchemaChange[] = await watcher.checkForChanges()
+    expect(summarize(changes)).toEqual(['table_renamed notes drafts'])
+  })
+
+  it('should refresh repositories and rewrite generated types', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'noormme-watch-'))
+    const typesOutput = path.join(directory, 'types', 'database.ts')
+    const watcher = await startWatching({ typesOutput })
+
+    const received: SchemaChange[][] = []
+    db.onSchemaChange(changes => received.push(changes))
+    const before = db.getRepository('authors')
+
+    await db.execute('alter table authors add column bio text')
+    await watcher.checkForChanges()
+    // The refresh runs in a callback
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    expect(summarize(received.flat())).toEqual(['column_added authors bio'])
+    expect(db.getRepository('authors')).not.toBe(before)
+    expect((await db.getSchemaInfo()).tables.find(t => t.name === 'authors')!.columns.map(c => c.name)).toContain('bio')
+    expect(await fs.readFile(typesOutput, 'utf8')).toMatch(/^  bio\?: /m)
+
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  describe('with change signals', () => {
+    it('should only introspect when the schema version changes', async () => {
+      const discover = jest.spyOn((db as any).schemaDiscovery, 'discoverSchema')
+      const watcher = await startWatching()
+      discover.mockClear()
+
+      expect(await watcher.checkForChanges()).toEqual([])
+      await db.getRepository('authors').create({ name: 'Ann' })
+      expect(await watcher.checkForChanges()).toEqual([])
+      expect(discover).not.toHaveBeenCalled()
+
+      await db.execute('create index authors_name on authors (name)')
+      expect(summarize(await watcher.checkForChanges())).toEqual(['index_added authors authors_name'])
+      expect(discover).toHaveBeenCalledTimes(1)
+    })
+
+    it('should notice changes made by other connections without polling', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'noormme-watch-'))
+      const file = path.join(directory, 'app.sqlite')
+      const other = new Database(file)
+      other.pragma('journal_mode = WAL')
+      other.exec('create table users (id integer primary key autoincrement, email text not null)')
+
+      await db.close()
+      db = await createTestDatabase({ database: file })
+      await db.initialize()
+      await startWatching()
+
+      const received = new Promise<SchemaChange[]>(resolve => db.onSchemaChange(resolve))
+      other.exec('alter table users add column name text')
+
+      expect(summarize(await received)).toEqual(['column_added users name'])
+
+      other.close()
+      db.stopSchemaWatching()
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    it('should fall back to full checks when disabled', async () => {
+      const discover = jest.spyOn((db as any).schemaDiscovery, 'discoverSchema')
+      const watcher = await startWatching({ events: false })
+      discover.mockClear()
+
+      expect(await watcher.checkForChanges()).toEqual([])
+      expect(discover).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { createTestDatabase } from '../../src/testing/test-utils.js'
+import { listBackups, BackupProgress } from '../../src/dialect/sqlite/sqlite-backup-manager.js'
+
+describe('SQLite backups', () => {
+  let directory: string
+  let db: NOORMME
+
+  const names = async () =>
+    (await db.getKysely().selectFrom('notes').select('body').orderBy('id').execute()).map(r => r.body)
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'noormme-backup-'))
+    db = await createTestDatabase({ database: path.join(directory, 'app.sqlite') })
+    await db.execute('pragma journal_mode = wal')
+    await db.execute('create table notes (id integer primary key autoincrement, body text not null)')
+    await db.execute("insert into notes (body) values ('first'), ('second')")
+    await db.initialize()
+  })
+
+  afterEach(async () => {
+    await db.close()
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should back up online, verify and restore', async () => {
+    // Deleted rows leave free pages that only a compacted copy drops
+    await db.execute(`
+      with recursive n(i) as (select 1 union all select i + 1 from n where i < 500)
+      insert into notes (body) select 'filler ' || i from n
+    `)
+    await db.execute("delete from notes where body like 'filler%'")
+
+    const progress: BackupProgress[] = []
+    const full = await db.backup(path.join(directory, 'full.sqlite'), {
+      pagesPerStep: 1,
+      onProgress: step => progress.push(step)
+    })
+    expect(full).toMatchObject({ verified: true, compacted: false })
+    expect(progress.length).toBeGreaterThan(1)
+    expect(progress[progress.length - 1].percent).toBe(100)
+
+    const compact = await db.backup(path.join(directory, 'compact.sqlite'), { compact: true })
+    expect(compact.compacted).toBe(true)
+    expect(compact.size).toBeLessThan(full.size)
+    expect(await db.verifyBackup(compact.path)).toEqual({ ok: true, errors: [] })
+
+    await db.getRepository('notes').create({ body: 'after backup' })
+    await db.execute('create table drafts (id integer primary key)')
+    expect(await names()).toEqual(['first', 'second', 'after backup'])
+
+    await db.restore(compact.path)
+    expect(await names()).toEqual(['first', 'second'])
+    expect((await db.getSchemaInfo()).tables.map(t => t.name)).not.toContain('drafts')
+    await db.getRepository('notes').create({ body: 'after restore' })
+    expect(await names()).toEqual(['first', 'second', 'after restore'])
+  })
+
+  it('should refuse corrupt backups', async () => {
+    const corrupt = path.join(directory, 'corrupt.sqlite')
+    await fs.writeFile(corrupt, 'not a database')
+
+    const result = await db.verifyBackup(corrupt)
+    expect(result.ok).toBe(false)
+    expect(result.errors.length).toBeGreaterThan(0)
+
+    await expect(db.restore(corrupt)).rejects.toThrow('Integrity check failed')
+    await expect(db.restore(path.join(directory, 'missing.sqlite'))).rejects.toThrow('Backup file not found')
+    expect(await names()).toEqual(['first', 'second'])
+
+    await expect(db.backup(path.join(directory, 'app.sqlite'))).rejects.toThrow('onto itself')
+  })
+
+  it('should rotate backups in a directory', async () => {
+    const backups = path.join(directory, 'backups')
+    const schedule = db.scheduleBackups({ directory: backups, interval: 60_000, keep: 2 })
+
+    const first = await schedule.runNow()
+    await db.getRepository('notes').create({ body: 'third' })
+    const [second, third] = await Promise.all([schedule.runNow(), schedule.runNow()])
+    schedule.stop()
+
+    const files = await listBackups(backups, path.join(directory, 'app.sqlite'))
+    expect(files.map(f => f.path)).toEqual([third.path, second.path])
+    expect(files[0].createdAt.getTime()).toBeGreaterThan(files[1].createdAt.getTime())
+    await expect(fs.access(first.path)).rejects.toThrow()
+
+    await db.restore(files[1].path)
+    expect(await names()).toEqual(['first', 'second', 'third'])
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { OptimisticLockError, ValidationError } from '../../src/errors/NoormError.js'
+import type { NOORMConfig } from '../../src/types/index.js'
+
+describe('Table Conventions', () => {
+  let db: NOORMME
+
+  const conventions: NOORMConfig['tables'] = {
+    documents: { softDelete: true, timestamps: true, version: true }
+  }
+
+  const createDatabase = async (tables: NOORMConfig['tables'] = conventions, versionType = 'integer') => {
+    const instance = new NOORMME({
+      dialect: 'sqlite',
+      connection: { database: ':memory:' },
+      logging: { enabled: false },
+      tables
+    })
+    const kysely = instance.getKysely()
+
+    await kysely.schema
+      .createTable('documents')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('title', 'varchar(255)', col => col.notNull())
+      .addColumn('slug', 'varchar(255)', col => col.unique())
+      .addColumn('version', versionType as 'integer', col => col.notNull().defaultTo(1))
+      .addColumn('created_at', 'text')
+      .addColumn('updated_at', 'text')
+      .addColumn('deleted_at', 'text')
+      .execute()
+
+    await instance.initialize()
+    return instance
+  }
+
+  afterEach(async () => {
+    await db?.close()
+  })
+
+  describe('Soft delete', () => {
+    beforeEach(async () => {
+      db = await createDatabase()
+    })
+
+    it('should mark rows deleted and hide them from finders', async () => {
+      const repo = db.getRepository('documents') as any
+      const doc = await repo.create({ title: 'Draft', slug: 'draft' })
+      await repo.create({ title: 'Kept', slug: 'kept' })
+
+      expect(await repo.delete(doc.id)).toBe(true)
+      expect(await repo.delete(doc.id)).toBe(false)
+
+      expect(await repo.findById(doc.id)).toBeNull()
+      expect(await repo.count()).toBe(1)
+      expect(await repo.exists(doc.id)).toBe(false)
+      expect((await repo.findAll()).map((d: any) => d.title)).toEqual(['Kept'])
+      expect(await repo.find({ where: { slug: 'draft' } })).toEqual([])
+      expect(await repo.findBySlug('draft')).toBeNull()
+
+      const raw = await db.getKysely().selectFrom('documents').selectAll().where('id', '=', doc.id).executeTakeFirst()
+      expect(raw?.deleted_at).not.toBeNull()
+    })
+
+    it('should include deleted rows with withTrashed and bring them back with restore', async () => {
+      const repo = db.getRepository('documents') as any
+      const doc = await repo.create({ title: 'Draft', slug: 'draft' })
+      await repo.delete(doc.id)
+
+      expect((await repo.withTrashed().findById(doc.id)).title).toBe('Draft')
+      expect(await repo.withTrashed().countBySlug('draft')).toBe(1)
+
+      expect(await repo.restore(doc.id)).toBe(true)
+      expect((await repo.findById(doc.id)).deleted_at).toBeNull()
+    })
+
+    it('should soft delete through deleteMany and deleteBy finders', async () => {
+      const repo = db.getRepository('documents') as any
+      await repo.createMany([{ title: 'A', slug: 'a' }, { title: 'B', slug: 'b' }, { title: 'C', slug: 'c' }])
+
+      expect(await repo.deleteMany({ slug: { in: ['a', 'b'] } })).toBe(2)
+      expect(await repo.deleteBySlug('c')).toBe(1)
+      expect(await repo.count()).toBe(0)
+      expect(await repo.withTrashed().count()).toBe(3)
+
+      expect(await repo.forceDelete(1)).toBe(true)
+      expect(await repo.withTrashed().count()).toBe(2)
+    })
+
+    it('should apply the conventions to the objects helpers', async () => {
+      const repo = db.getRepository('documents') as any
+      const doc = await repo.objects.create({ title: 'Draft', slug: 'draft' })
+
+      expect(doc.created_at).toEqual(expect.any(String))
+      expect(doc.version).toBe(1)
+
+      await expect(repo.objects.update(doc.id, { title: 'Edited' })).rejects.toBeInstanceOf(ValidationError)
+      const updated = await repo.objects.update(doc.id, { title: 'Edited', version: doc.version })
+      expect(updated.version).toBe(2)
+
+      expect(await repo.objects.delete(doc.id)).toBe(true)
+      expect(await repo.objects.get(doc.id)).toBeUndefined()
+      expect((await repo.withTrashed().findById(doc.id)).deleted_at).not.toBeNull()
+    })
+
+    it('should stamp updated_at when deleting and restoring', async () => {
+      const repo = db.getRepository('documents') as any
+      const doc = await repo.create({ title: 'Draft', updated_at: '2000-01-01T00:00:00.000Z' })
+
+      await repo.delete(doc.id)
+      const deleted = await repo.withTrashed().findById(doc.id)
+      expect(deleted.updated_at > '2000-01-01T00:00:00.000Z').toBe(true)
+
+      await db.getKysely().updateTable('documents').set({ updated_at: '2000-01-01T00:00:00.000Z' }).execute()
+      await repo.restore(doc.id)
+      expect((await repo.findById(doc.id)).updated_at > '2000-01-01T00:00:00.000Z').toBe(true)
+    })
+  })
+
+  describe('Timestamps', () => {
+    beforeEach(async () => {
+      db = await createDatabase()
+    })
+
+    it('should set created_at and updated_at on create and refresh updated_at on update', async () => {
+      const repo = db.getRepository<any>('documents')
+      const doc = await repo.create({ title: 'Draft' })
+
+      expect(doc.created_at).toEqual(expect.any(String))
+      expect(doc.updated_at).toEqual(expect.any(String))
+
+      const stale = { ...doc, title: 'Edited', updated_at: '2000-01-01T00:00:00.000Z' }
+      const updated = await repo.update(stale)
+
+      expect(updated.created_at).toBe(doc.created_at)
+      expect(updated.updated_at > '2000-01-01T00:00:00.000Z').toBe(true)
+    })
+  })
+
+  describe('Optimistic locking', () => {
+    beforeEach(async () => {
+      db = await createDatabase()
+    })
+
+    it('should increment the version and reject stale writes', async () => {
+      const repo = db.getRepository<any>('documents')
+      const doc = await repo.create({ title: 'Draft' })
+      expect(doc.version).toBe(1)
+
+      const first = await repo.update({ ...doc, title: 'First' })
+      expect(first.version).toBe(2)
+
+      await expect(repo.update({ ...doc, title: 'Second' })).rejects.toBeInstanceOf(OptimisticLockError)
+      expect((await repo.findById(doc.id)).title).toBe('First')
+    })
+
+    it('should bump versions in updateMany and upsert', async () => {
+      const repo = db.getRepository<any>('documents')
+      await repo.create({ title: 'Draft', slug: 'draft' })
+
+      await repo.updateMany({ slug: 'draft' }, { title: 'Bulk' })
+      const [upserted] = await repo.upsert([{ title: 'Upserted', slug: 'draft' }], { conflictColumns: ['slug'] })
+
+      expect(upserted.title).toBe('Upserted')
+      expect(upserted.version).toBe(3)
+    })
+  })
+
+  describe('Configuration', () => {
+    it('should leave conventions off unless configured', async () => {
+      db = await createDatabase({})
+      const repo = db.getRepository<any>('documents')
+
+      const doc = await repo.create({ title: 'Draft' })
+      expect(doc.created_at).toBeNull()
+
+      await repo.update({ ...doc, version: undefined })
+      expect(await repo.delete(doc.id)).toBe(true)
+      expect(await repo.withTrashed().count()).toBe(0)
+      await expect(repo.restore(doc.id)).rejects.toBeInstanceOf(ValidationError)
+    })
+
+    it('should reject non-numeric version columns', async () => {
+      db = await createDatabase(conventions, 'text')
+
+      expect(() => db.getRepository('documents')).toThrow(/must be numeric/)
+    })
+
+    it('should reject configured columns that do not exist', async () => {
+      db = await createDatabase({ documents: { softDelete: 'removed_at' } })
+
+      expect(() => db.getRepository('documents')).toThrow(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { createTestDatabase } from '../../src/testing/test-utils.js'
+import { defineFactory, getFactory, resetFactories } from '../../src/testing/factories.js'
+import { loadFixtures } from '../../src/testing/fixtures.js'
+
+describe('Test data factories and fixtures', () => {
+  let db: NOORMME
+
+  beforeEach(async () => {
+    db = await createTestDatabase()
+    await db.execute(`
+      create table customers (
+        id integer primary key autoincrement,
+        email varchar(40) not null unique,
+        name text not null,
+        vip boolean not null
+      )
+    `)
+    await db.execute(`
+      create table orders (
+        id integer primary key autoincrement,
+        customer_id integer not null references customers(id),
+        status text not null check (status in ('pending', 'paid', 'shipped')),
+        total real not null,
+        code varchar(6) not null unique,
+        placed_at datetime not null,
+        note text
+      )
+    `)
+    await db.execute(`
+      create table order_items (
+        id integer primary key autoincrement,
+        order_id integer not null references orders(id),
+        sku text not null,
+        quantity integer not null default 1
+      )
+    `)
+    await db.initialize()
+    resetFactories()
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  it('should synthesize required values and create parent rows', async () => {
+    const item = await getFactory('order_items').create(db)
+
+    const order = await db.getRepository('orders').findById(item.order_id)
+    expect(order).toMatchObject({ status: 'pending', total: 1, note: null })
+    expect(order!.code).toHaveLength(6)
+    expect(new Date(order!.placed_at).getTime()).not.toBeNaN()
+
+    const customer = await db.getRepository('customers').findById(order!.customer_id)
+    expect(customer).toMatchObject({ email: 'customers-1@example.com', name: 'name-1', vip: false })
+
+    // Unique columns get a new value per sequence number
+    const orders = await getFactory('orders').createMany(db, 12)
+    expect(new Set(orders.map(o => o.code)).size).toBe(12)
+    expect(orders.map(o => o.status).slice(0, 4)).toEqual(['paid', 'shipped', 'pending', 'paid'])
+    expect(await db.getRepository('customers').count()).toBe(13)
+  })
+
+  it('should apply attributes, sequences, traits and overrides', async () => {
+    const customers = defineFactory('customers', {
+      attributes: { name: (n: number) => `Customer ${n}`, vip: false },
+      traits: { vip: { vip: true } }
+    })
+    const orders = defineFactory('orders', {
+      attributes: { total: (n: number) => n * 10 },
+      traits: {
+        shipped: { status: 'shipped' },
+        large: { total: 1000 }
+      }
+    })
+
+    const ann = await customers.create(db, { email: 'ann@example.com' }, 'vip')
+    expect(await db.getRepository('customers').findById(ann.id)).toMatchObject({
+      name: 'Customer 1',
+      email: 'ann@example.com',
+      vip: true
+    })
+
+    const order = await orders.create(db, { customer_id: ann.id }, 'shipped', 'large')
+    expect(order).toMatchObject({ customer_id: ann.id, status: 'shipped', total: 1000 })
+
+    // Parents come from the defined factory
+    const other = await orders.create(db)
+    expect(other.total).toBe(20)
+    expect(await db.getRepository('customers').findById(other.customer_id)).toMatchObject({ name: 'Customer 2' })
+
+    const built = await orders.build(db, { note: 'gift' })
+    expect(built).toMatchObject({ total: 30, note: 'gift', status: 'shipped' })
+    expect(built).not.toHaveProperty('customer_id')
+    expect(await db.getRepository('orders').count()).toBe(2)
+
+    await expect(orders.create(db, {}, 'express')).rejects.toThrow("Unknown trait 'express'")
+  })
+
+  it('should load fixtures in foreign key order and resolve references', async () => {
+    const loaded = await loadFixtures(db, {
+      order_items: [
+        { order_id: '@orders.first', sku: 'A-1', quantity: 2 },
+        { order_id: '@orders.first', sku: 'B-2' }
+      ],
+      orders: {
+        first: { customer_id: '@customers.ann', status: 'paid', total: 12.5, code: 'F1', placed_at: '2024-01-01' }
+      },
+      customers: {
+        ann: { email: 'ann@example.com', name: 'Ann', vip: true }
+      }
+    })
+
+    expect(loaded.orders.first.customer_id).toBe(loaded.customers.ann.id)
+    expect(Object.values(loaded.order_items).map(item => item.order_id)).toEqual([loaded.orders.first.id, loaded.orders.first.id])
+    expect(loaded.order_items[1].quantity).toBe(1)
+
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'noormme-fixtures-')), 'customers.json')
+    await fs.writeFile(file, JSON.stringify({ customers: [{ email: 'bob@example.com', name: 'Bob', vip: false }] }))
+    const fromFile = await loadFixtures(db, file)
+    expect(fromFile.customers[0]).toMatchObject({ name: 'Bob' })
+    await fs.rm(path.dirname(file), { recursive: true })
+
+    await expect(loadFixtures(db, { orders: [{ customer_id: '@customers.nobody' }] })).rejects.toThrow('matches no loaded row')
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import { NOORMME } from '../../src/noormme.js'
+import { TestHarness, useTestDatabase } from '../../src/testing/test-harness.js'
+
+const createAccounts = async (db: NOORMME) => {
+  await db.execute('create table accounts (id integer primary key autoincrement, name text not null unique)')
+  await db.execute("insert into accounts (name) values ('template')")
+}
+
+const names = async (db: NOORMME) =>
+  (await db.getKysely().selectFrom('accounts').select('name').orderBy('id').execute()).map(r => r.name)
+
+describe('Test harness', () => {
+  it('should roll back each test and turn its transactions into savepoints', async () => {
+    const harness = await TestHarness.create({ setup: createAccounts })
+
+    const db = await harness.begin()
+    const accounts = db.getRepository('accounts')
+    await Promise.all(['a', 'b', 'c'].map(name => accounts.create({ name })))
+
+    await expect(db.transaction(async (tx) => {
+      await tx.getRepository('accounts').create({ name: 'inner' })
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+    await db.transaction(async (tx) => {
+      await tx.getRepository('accounts').create({ name: 'committed' })
+    })
+    await accounts.createMany([{ name: 'd' }, { name: 'e' }])
+    expect(await names(db)).toEqual(['template', 'a', 'b', 'c', 'committed', 'd', 'e'])
+    await harness.end()
+
+    // The next test starts from the template again, on the same instance
+    expect(await harness.begin()).toBe(db)
+    expect(await names(db)).toEqual(['template'])
+
+    await harness.close()
+  })
+
+  it('should throw instead of hanging when a transaction callback bypasses the transaction', async () => {
+    const harness = await TestHarness.create({ setup: createAccounts })
+    const db = await harness.begin()
+
+    await expect(db.transaction(async () => {
+      await db.getRepository('accounts').create({ name: 'outside' })
+    })).rejects.toThrow('ran outside of the transaction')
+
+    // Queries running alongside a transaction still wait for it
+    await Promise.all([
+      db.transaction(async (tx) => { await tx.getRepository('accounts').create({ name: 'inside' }) }),
+      db.getRepository('accounts').create({ name: 'alongside' })
+    ])
+    expect((await names(db)).sort()).toEqual(['alongside', 'inside', 'template'])
+
+    await harness.close()
+  })
+
+  it('should restore snapshots within a test', async () => {
+    const harness = await TestHarness.create({ setup: createAccounts })
+    const db = await harness.begin()
+
+    await db.getRepository('accounts').create({ name: 'seeded' })
+    await harness.snapshot('seeded')
+    await db.getRepository('accounts').create({ name: 'changed' })
+
+    await harness.restore('seeded')
+    expect(await names(db)).toEqual(['template', 'seeded'])
+    await db.getRepository('accounts').create({ name: 'again' })
+    await harness.restore('seeded')
+    expect(await names(db)).toEqual(['template', 'seeded'])
+
+    await expect(harness.restore('other')).rejects.toThrow("No snapshot named 'other'")
+    await harness.end()
+    await expect(harness.snapshot()).rejects.toThrow('call begin()')
+
+    await harness.close()
+  })
+
+  it('should give every test a copy of the migrated template', async () => {
+    const migrations = mkdtempSync(path.join(tmpdir(), 'noormme-harness-migrations-'))
+    writeFileSync(path.join(migrations, '001_create_accounts.sql'), `
+-- migrate:up
+CREATE TABLE accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE);
+INSERT INTO accounts (name) VALUES ('template');
+
+-- migrate:down
+DROP TABLE accounts;
+`)
+
+    const harness = await TestHarness.create({ migrationDirectory: migrations, isolation: 'copy' })
+
+    const first = await harness.begin()
+    await first.getRepository('accounts').create({ name: 'first' })
+    await harness.snapshot()
+    await first.getRepository('accounts').create({ name: 'later' })
+    await harness.restore()
+    expect(await names(first)).toEqual(['template', 'first'])
+    await harness.end()
+
+    const second = await harness.begin()
+    expect(second).not.toBe(first)
+    expect(await names(second)).toEqual(['template'])
+    await harness.end()
+
+    const directory = path.dirname((harness as any).template.name)
+    await harness.close()
+    expect(existsSync(directory)).toBe(false)
+    rmSync(migrations, { recursive: true, force: true })
+  })
+
+  describe('with lifecycle hooks', () => {
+    const testDb = useTestDatabase({ setup: createAccounts }, { beforeAll, afterAll, beforeEach, afterEach })
+
+    it('should isolate the first test', async () => {
+      await testDb.db.getRepository('accounts').create({ name: 'first' })
+      expect(await names(testDb.db)).toEqual(['template', 'first'])
+    })
+
+    it('should not see the first test', async () => {
+      expect(await names(testDb.db)).toEqual(['template'])
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import { isRetryableTransactionError } from '../../src/repository/transaction-scope.js'
+import { QueryExecutionError } from '../../src/errors/NoormError.js'
+import { QueryCacheDriver } from '../../src/cache/query-cache-driver.js'
+import { sql } from '../../src/raw-builder/sql.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+describe('Transactions', () => {
+  let db: NOORMME
+
+  const emails = async () => {
+    const users = await db.getRepository('users').findAll()
+    return users.map((u: any) => u.email).filter((e: string) => e.endsWith('@tx.test')).sort()
+  }
+
+  const busyError = () => Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY' })
+
+  beforeEach(async () => {
+    db = await createTestDatabase({ seed: true })
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db)
+  })
+
+  it('should commit repository writes made through the transaction', async () => {
+    const post = await db.transaction(async (tx) => {
+      const user = await tx.getRepository('users').create({ name: 'Ann', email: 'ann@tx.test' })
+      expect(tx.getRepository('users')).toBe(tx.getRepository('users'))
+      return await tx.getRepository('posts').create({ title: 'Hello', user_id: user.id })
+    })
+
+    expect(post.title).toBe('Hello')
+    expect(await emails()).toEqual(['ann@tx.test'])
+  })
+
+  it('should roll back every repository write when the callback throws', async () => {
+    await expect(db.transaction(async (tx) => {
+      await tx.getRepository('users').create({ name: 'Ann', email: 'ann@tx.test' })
+      await tx.getRepository('users').create({ name: 'Bob', email: 'bob@tx.test' })
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    expect(await emails()).toEqual([])
+  })
+
+  it('should run nested transactions in savepoints', async () => {
+    await db.transaction(async (tx) => {
+      await tx.getRepository('users').create({ name: 'Ann', email: 'ann@tx.test' })
+
+      await expect(tx.transaction(async (nested) => {
+        await nested.getRepository('users').create({ name: 'Bob', email: 'bob@tx.test' })
+        throw new Error('nested abort')
+      })).rejects.toThrow('nested abort')
+
+      await tx.transaction(async (nested) => {
+        await nested.getRepository('users').create({ name: 'Cid', email: 'cid@tx.test' })
+      })
+    })
+
+    expect(await emails()).toEqual(['ann@tx.test', 'cid@tx.test'])
+  })
+
+  it('should run concurrent nested transactions one at a time through the driver', async () => {
+    const savepoint = jest.spyOn(QueryCacheDriver.prototype, 'savepoint')
+    try {
+      await db.transaction(async (tx) => {
+        const results = await Promise.allSettled([
+          tx.transaction(async (nested) => {
+            await nested.getRepository('users').create({ name: 'Ann', email: 'ann@tx.test' })
+            await nested.transaction(async (inner) => {
+              await inner.getRepository('users').create({ name: 'Bob', email: 'bob@tx.test' })
+            })
+            throw new Error('nested abort')
+          }),
+          tx.transaction(async (nested) => {
+            await nested.getRepository('users').create({ name: 'Cid', email: 'cid@tx.test' })
+          })
+        ])
+        expect(results.map(r => r.status)).toEqual(['rejected', 'fulfilled'])
+      })
+      expect(savepoint).toHaveBeenCalledTimes(3)
+    } finally {
+      savepoint.mockRestore()
+    }
+
+    expect(await emails()).toEqual(['cid@tx.test'])
+  })
+
+  it('should run transactions before initialize()', async () => {
+    const uninitialized = new NOORMME({ dialect: 'sqlite', connection: { database: ':memory:' }, logging: { enabled: false } })
+    try {
+      const rows = await uninitialized.transaction(async (tx) => {
+        expect(() => tx.getRepository('users')).toThrow('must be initialized')
+        return (await sql<{ one: number }>`select 1 as one`.execute(tx)).rows
+      })
+      expect(rows).toEqual([{ one: 1 }])
+    } finally {
+      await uninitialized.close()
+    }
+  })
+
+  it('should reject writes in read-only transactions', async () => {
+    await expect(db.transaction(async (tx) => {
+      expect(await tx.getRepository('users').findAll()).toEqual([])
+      await tx.getRepository('users').create({ name: 'Ann', email: 'ann@tx.test' })
+    }, { readOnly: true })).rejects.toMatchObject({ code: 'SQLITE_READONLY' })
+
+    // The connection is writable again afterwards
+    await db.getRepository('users').create({ name: 'Bob', email: 'bob@tx.test' })
+    expect(await emails()).toEqual(['bob@tx.test'])
+  })
+
+  it('should retry lock conflicts and give up after the configured attempts', async () => {
+    let attempts = 0
+    const result = await db.transaction(async (tx) => {
+      attempts++
+      await tx.getRepository('users').create({ name: 'Ann', email: `ann${attempts}@tx.test` })
+      if (attempts < 3) throw busyError()
+      return 'done'
+    }, { retryDelay: 1 })
+
+    expect(result).toBe('done')
+    expect(attempts).toBe(3)
+    // Failed attempts were rolled back
+    expect(await emails()).toEqual(['ann3@tx.test'])
+
+    attempts = 0
+    await expect(db.transaction(async () => {
+      attempts++
+      throw busyError()
+    }, { retries: 1, retryDelay: 1 })).rejects.toThrow('database is locked')
+    expect(attempts).toBe(2)
+
+    attempts = 0
+    await expect(db.transaction(async () => {
+      attempts++
+      throw new Error('not a conflict')
+    }, { retryDelay: 1 })).rejects.toThrow('not a conflict')
+    expect(attempts).toBe(1)
+  })
+
+  it('should recognise SQLite busy and PostgreSQL serialization errors', () => {
+    expect(isRetryableTransactionError(Object.assign(new Error(), { code: 'SQLITE_BUSY_SNAPSHOT' }))).toBe(true)
+    expect(isRetryableTransactionError(Object.assign(new Error(), { code: '40001' }))).toBe(true)
+    expect(isRetryableTransactionError(new QueryExecutionError('commit', busyError()))).toBe(true)
+    expect(isRetryableTransactionError(Object.assign(new Error(), { code: 'SQLITE_CONSTRAINT' }))).toBe(false)
+  })
+})
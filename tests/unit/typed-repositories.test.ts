@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NOORMME } from '../../src/noormme.js'
+import type { Generated, Insertable, Selectable, Updateable } from '../../src/util/column-type.js'
+import type { Repository } from '../../src/types/index.js'
+import { createTestDatabase, cleanupTestDatabase } from '../../src/testing/test-utils.js'
+
+// Shape of the Database interface emitted by `noormme generate`
+interface UsersTable {
+  id: Generated<number>
+  name: string
+  email: string
+  age: number | null
+  active: Generated<boolean | null>
+  created_at: Generated<Date>
+  updated_at: Generated<Date>
+}
+
+interface Database {
+  users: UsersTable
+}
+
+type Users = Selectable<UsersTable>
+
+// Shape of the repository interfaces emitted by `noormme generate`
+interface UsersRepository extends Repository<Users, Insertable<UsersTable>, Updateable<UsersTable>> {
+  findByEmail(value: string): Promise<Users | null>
+  findAllByAgeGreaterThan(value: number): Promise<Users[]>
+  findByNameAndEmail(name: string, email: string): Promise<Users | null>
+}
+
+describe('Typed Repositories', () => {
+  let db: NOORMME<Database>
+
+  beforeEach(async () => {
+    db = (await createTestDatabase({ seed: true })) as unknown as NOORMME<Database>
+  })
+
+  afterEach(async () => {
+    await cleanupTestDatabase(db as NOORMME)
+  })
+
+  it('should type repositories from the database interface', async () => {
+    const userRepo = db.getRepository('users')
+
+    const created: Users = await userRepo.create({ name: 'Alice', email: 'alice@example.com' })
+    const updated = await userRepo.update({ id: created.id, age: 30 })
+    const found: Users | null = await userRepo.findById(created.id)
+
+    expect(updated.age).toBe(30)
+    expect(found?.email).toBe('alice@example.com')
+
+    // @ts-expect-error email is required on insert
+    await expect(userRepo.create({ name: 'Bob' })).rejects.toThrow()
+
+    // @ts-expect-error unknown tables are rejected
+    expect(() => db.getRepository('nope')).toThrow()
+  })
+
+  it('should return a typed Kysely instance', async () => {
+    await db.getRepository('users').create({ name: 'Carol', email: 'carol@example.com' })
+
+    const rows = await db.getKysely().selectFrom('users').select(['id', 'email']).execute()
+    const email: string = rows[0].email
+
+    expect(email).toBe('carol@example.com')
+  })
+
+  it('should type generated finders on the table repository', async () => {
+    const userRepo = db.getRepository('users') as UsersRepository
+    await userRepo.create({ name: 'Erin', email: 'erin@example.com', age: 40 })
+
+    const found: Users | null = await userRepo.findByEmail('erin@example.com')
+    const older = await userRepo.findAllByAgeGreaterThan(39)
+
+    expect(found?.age).toBe(40)
+    expect(older.map(u => u.email)).toContain('erin@example.com')
+    expect((await userRepo.findByNameAndEmail('Erin', 'erin@example.com'))?.id).toBe(found?.id)
+
+    // @ts-expect-error finders check their arguments
+    await expect(userRepo.findAllByAgeGreaterThan('39')).resolves.toBeDefined()
+  })
+
+  it('should keep explicitly typed repositories working', async () => {
+    const userRepo = db.getRepository<{ id: number; name: string; email: string }>('users')
+    const user = await userRepo.create({ name: 'Dave', email: 'dave@example.com' })
+
+    expect(user.name).toBe('Dave')
+  })
+})